@@ -0,0 +1,79 @@
+-- Migration: Scheduled Reports
+-- Adds report schedules and their run history, executed by the cron runner
+
+-- Scheduled Reports Table - User-configured recurring report schedules
+CREATE TABLE IF NOT EXISTS scheduled_reports (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  user_id TEXT NOT NULL REFERENCES users(id),
+
+  -- Report configuration
+  name TEXT NOT NULL,
+  report_type TEXT NOT NULL, -- 'transactions', 'budgets', 'goals', 'analytics', 'all'
+  format TEXT NOT NULL DEFAULT 'csv', -- 'csv', 'json'
+
+  -- Schedule
+  frequency TEXT NOT NULL, -- 'daily', 'weekly', 'monthly'
+  day_of_week INTEGER, -- 0-6 for weekly (0 = Sunday)
+  day_of_month INTEGER, -- 1-31 for monthly
+  time_of_day TEXT DEFAULT '09:00', -- HH:MM
+  timezone TEXT DEFAULT 'Europe/London',
+
+  -- Filter options
+  include_all_time INTEGER DEFAULT 0,
+  lookback_days INTEGER DEFAULT 30,
+
+  -- Delivery
+  delivery_email TEXT NOT NULL,
+
+  -- Status
+  is_enabled INTEGER DEFAULT 1,
+  last_run_at INTEGER,
+  last_run_status TEXT, -- 'success', 'failed', 'pending'
+  last_error TEXT,
+  next_run_at INTEGER,
+  run_count INTEGER DEFAULT 0,
+
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_scheduled_reports_tenant ON scheduled_reports(tenant_id);
+CREATE INDEX idx_scheduled_reports_user ON scheduled_reports(user_id);
+CREATE INDEX idx_scheduled_reports_enabled ON scheduled_reports(is_enabled);
+CREATE INDEX idx_scheduled_reports_next_run ON scheduled_reports(next_run_at);
+
+-- Scheduled Report Runs Table - History of report generations
+CREATE TABLE IF NOT EXISTS scheduled_report_runs (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL REFERENCES scheduled_reports(id),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+
+  -- Run details
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'generating', 'sending', 'completed', 'failed'
+
+  -- Report period
+  period_start INTEGER NOT NULL,
+  period_end INTEGER NOT NULL,
+
+  -- Results
+  record_count INTEGER DEFAULT 0,
+  file_size_bytes INTEGER,
+  file_key TEXT, -- R2 object key of the generated report
+
+  -- Error handling
+  error_message TEXT,
+  retry_count INTEGER DEFAULT 0,
+
+  -- Timing
+  started_at INTEGER,
+  completed_at INTEGER,
+  processing_time_ms INTEGER,
+
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_scheduled_report_runs_report ON scheduled_report_runs(report_id);
+CREATE INDEX idx_scheduled_report_runs_tenant ON scheduled_report_runs(tenant_id);
+CREATE INDEX idx_scheduled_report_runs_status ON scheduled_report_runs(status);
+CREATE INDEX idx_scheduled_report_runs_created ON scheduled_report_runs(created_at);
@@ -0,0 +1,16 @@
+-- Migration: Transaction Splits
+-- Lets a single transaction be divided across multiple categories
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  category_id TEXT NOT NULL REFERENCES categories(id),
+  amount REAL NOT NULL, -- line amounts add up to the parent transaction amount
+  notes TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_transaction_splits_transaction ON transaction_splits(transaction_id);
+CREATE INDEX idx_transaction_splits_tenant_category ON transaction_splits(tenant_id, category_id);
@@ -0,0 +1,25 @@
+-- Migration: Transfers
+-- Links the debit and credit sides of money moved between accounts
+
+CREATE TABLE IF NOT EXISTS transfers (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  from_account_id TEXT NOT NULL REFERENCES accounts(id),
+  to_account_id TEXT NOT NULL REFERENCES accounts(id),
+  from_transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  to_transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  amount REAL NOT NULL,
+  date INTEGER NOT NULL,
+  description TEXT,
+  source TEXT NOT NULL, -- 'created', 'matched', 'linked'
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_transfers_tenant_date ON transfers(tenant_id, date);
+CREATE INDEX idx_transfers_from_transaction ON transfers(from_transaction_id);
+CREATE INDEX idx_transfers_to_transaction ON transfers(to_transaction_id);
+
+-- Each side of a transfer points back at it
+ALTER TABLE transactions ADD COLUMN transfer_id TEXT;
+CREATE INDEX idx_transactions_transfer ON transactions(transfer_id);
@@ -0,0 +1,33 @@
+-- Migration: Learned Categorization
+-- Merchant -> category rules learned from user corrections, and the outcome
+-- of every auto-assigned category so accuracy can be reported
+
+CREATE TABLE IF NOT EXISTS merchant_category_rules (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  merchant TEXT NOT NULL, -- normalized merchant key
+  category_id TEXT NOT NULL REFERENCES categories(id),
+  correction_count INTEGER NOT NULL DEFAULT 1,
+  applied_count INTEGER NOT NULL DEFAULT 0,
+  last_applied_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_merchant_category_rules_tenant_merchant ON merchant_category_rules(tenant_id, merchant);
+CREATE INDEX idx_merchant_category_rules_category ON merchant_category_rules(category_id);
+
+CREATE TABLE IF NOT EXISTS categorization_suggestions (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  transaction_id TEXT NOT NULL, -- no foreign key: history outlives deleted transactions
+  suggested_category_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('learned_rule', 'history', 'keyword')),
+  confidence REAL NOT NULL,
+  overridden INTEGER NOT NULL DEFAULT 0,
+  overridden_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_categorization_suggestions_tenant ON categorization_suggestions(tenant_id, source);
+CREATE INDEX idx_categorization_suggestions_transaction ON categorization_suggestions(transaction_id);
@@ -0,0 +1,29 @@
+-- Migration: Categorization Rules
+-- Tenant-defined rules that match transactions on description, amount,
+-- account and type, and set the category, description, notes or type
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100, -- lower runs first
+  is_enabled INTEGER NOT NULL DEFAULT 1,
+  stop_processing INTEGER NOT NULL DEFAULT 1,
+  -- conditions
+  description_pattern TEXT, -- case-insensitive regular expression
+  min_amount REAL,
+  max_amount REAL,
+  account_id TEXT REFERENCES accounts(id),
+  transaction_type TEXT CHECK (transaction_type IN ('income', 'expense')),
+  -- actions
+  set_category_id TEXT REFERENCES categories(id),
+  rename_to TEXT,
+  add_note TEXT,
+  mark_as_transfer INTEGER NOT NULL DEFAULT 0,
+  match_count INTEGER NOT NULL DEFAULT 0,
+  last_matched_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_categorization_rules_tenant_priority ON categorization_rules(tenant_id, priority);
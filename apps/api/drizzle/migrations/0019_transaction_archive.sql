@@ -0,0 +1,12 @@
+-- Migration: Transaction Archive State
+-- Archived transactions stay on their account but are hidden from lists,
+-- analytics, budgets and exports unless explicitly requested
+
+ALTER TABLE transactions ADD COLUMN archived_at INTEGER;
+
+-- Bulk archive used to overwrite notes with an 'ARCHIVED' marker
+UPDATE transactions
+SET archived_at = updated_at, notes = NULL
+WHERE TRIM(notes) = 'ARCHIVED';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_tenant_archived ON transactions(tenant_id, archived_at);
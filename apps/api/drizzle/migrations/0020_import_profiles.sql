@@ -0,0 +1,19 @@
+-- Migration: Import Profiles
+-- Saved CSV/Excel column mappings per tenant, reused automatically when an
+-- uploaded file's header row matches the profile's header signature
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  headers TEXT NOT NULL, -- JSON array
+  mapping TEXT NOT NULL, -- JSON column mapping
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_import_profiles_tenant_name ON import_profiles(tenant_id, name);
+CREATE INDEX idx_import_profiles_tenant_signature ON import_profiles(tenant_id, header_signature);
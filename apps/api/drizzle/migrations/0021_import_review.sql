@@ -0,0 +1,5 @@
+-- Migration: Import Dry-Run Review
+-- Dry-run uploads park parsed rows on the import log (status 'review') with their
+-- duplicate matches until the user confirms which rows to import
+
+ALTER TABLE import_logs ADD COLUMN review_data TEXT;
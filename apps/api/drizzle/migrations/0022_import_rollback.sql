@@ -0,0 +1,11 @@
+-- Migration: Import Rollback
+-- Transactions remember the import that created them, and the import log records
+-- what it changed so the whole batch can be rolled back
+
+ALTER TABLE transactions ADD COLUMN import_log_id TEXT;
+
+ALTER TABLE import_logs ADD COLUMN balance_change REAL;
+ALTER TABLE import_logs ADD COLUMN created_category_ids TEXT;
+ALTER TABLE import_logs ADD COLUMN rolled_back_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_tenant_import_log ON transactions(tenant_id, import_log_id);
@@ -0,0 +1,15 @@
+-- Migration: PDF Templates
+-- Tenant-defined bank statement layouts for PDF imports, checked before the
+-- built-in templates when detecting a statement's layout
+
+CREATE TABLE IF NOT EXISTS pdf_templates (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  display_name TEXT NOT NULL,
+  definition TEXT NOT NULL, -- JSON template definition
+  created_by TEXT REFERENCES users(id),
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_pdf_templates_tenant_name ON pdf_templates(tenant_id, display_name);
@@ -0,0 +1,27 @@
+-- Migration: Reconciliations
+-- Accounts are checked against a statement's closing balance by ticking off transactions;
+-- ticked transactions are locked once the reconciliation completes
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  account_id TEXT NOT NULL REFERENCES accounts(id),
+  status TEXT NOT NULL, -- 'proposed', 'in_progress', 'completed'
+  source TEXT NOT NULL, -- 'manual', 'import'
+  import_log_id TEXT REFERENCES import_logs(id),
+  statement_date INTEGER NOT NULL,
+  statement_balance REAL NOT NULL,
+  opening_balance REAL,
+  balance_adjustment REAL,
+  created_by TEXT REFERENCES users(id),
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  completed_at INTEGER
+);
+
+CREATE INDEX idx_reconciliations_tenant_account ON reconciliations(tenant_id, account_id, statement_date);
+
+ALTER TABLE transactions ADD COLUMN reconciliation_id TEXT;
+ALTER TABLE transactions ADD COLUMN reconciled_at INTEGER;
+
+CREATE INDEX idx_transactions_tenant_reconciliation ON transactions(tenant_id, reconciliation_id);
@@ -0,0 +1,19 @@
+-- Migration: Attachments
+-- Receipts, invoices and other documents stored in the FILES bucket and linked to
+-- transactions and/or bill reminders
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  transaction_id TEXT REFERENCES transactions(id),
+  bill_reminder_id TEXT REFERENCES bill_reminders(id),
+  file_key TEXT NOT NULL, -- R2 object key
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  uploaded_by TEXT REFERENCES users(id),
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_attachments_tenant_transaction ON attachments(tenant_id, transaction_id);
+CREATE INDEX idx_attachments_tenant_bill_reminder ON attachments(tenant_id, bill_reminder_id);
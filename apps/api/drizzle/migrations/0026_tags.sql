@@ -0,0 +1,25 @@
+-- Migration: Tags
+-- Free-form tags on transactions (many-to-many), used for filtering,
+-- tag-grouped reporting and exports
+
+CREATE TABLE IF NOT EXISTS tags (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  name TEXT NOT NULL, -- trimmed, lowercase
+  color TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_tags_tenant_name ON tags(tenant_id, name);
+
+CREATE TABLE IF NOT EXISTS transaction_tags (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  transaction_id TEXT NOT NULL REFERENCES transactions(id),
+  tag_id TEXT NOT NULL REFERENCES tags(id),
+  created_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_transaction_tags_transaction_tag ON transaction_tags(transaction_id, tag_id);
+CREATE INDEX idx_transaction_tags_tenant_tag ON transaction_tags(tenant_id, tag_id);
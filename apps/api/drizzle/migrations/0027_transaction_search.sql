@@ -0,0 +1,26 @@
+-- Migration: Transaction Search
+-- FTS5 index over transaction descriptions and notes for GET /api/transactions/search.
+-- External content table: the text lives in transactions, triggers keep the index in sync.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS transactions_fts USING fts5(
+  description,
+  notes,
+  content = 'transactions',
+  content_rowid = 'rowid'
+);
+
+CREATE TRIGGER IF NOT EXISTS transactions_fts_insert AFTER INSERT ON transactions BEGIN
+  INSERT INTO transactions_fts(rowid, description, notes) VALUES (new.rowid, new.description, new.notes);
+END;
+
+CREATE TRIGGER IF NOT EXISTS transactions_fts_delete AFTER DELETE ON transactions BEGIN
+  INSERT INTO transactions_fts(transactions_fts, rowid, description, notes) VALUES ('delete', old.rowid, old.description, old.notes);
+END;
+
+CREATE TRIGGER IF NOT EXISTS transactions_fts_update AFTER UPDATE OF description, notes ON transactions BEGIN
+  INSERT INTO transactions_fts(transactions_fts, rowid, description, notes) VALUES ('delete', old.rowid, old.description, old.notes);
+  INSERT INTO transactions_fts(rowid, description, notes) VALUES (new.rowid, new.description, new.notes);
+END;
+
+-- Index the existing transactions
+INSERT INTO transactions_fts(transactions_fts) VALUES ('rebuild');
@@ -0,0 +1,125 @@
+-- Migration: Money Minor Units
+-- Money columns move from REAL to INTEGER minor units (hundredths), so sums are exact
+-- and balances no longer drift by pennies. The API still exchanges decimal amounts;
+-- conversion happens in the money column type (see packages/shared/src/money.ts).
+-- Derived report tables (health scores, credit risk, affordability) keep REAL values.
+--
+-- Each column is copied into a new INTEGER column, rounded half away from zero,
+-- then the REAL column is dropped and the new one takes its name.
+
+-- accounts
+ALTER TABLE accounts ADD COLUMN balance_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE accounts SET balance_minor = CAST(ROUND(balance * 100) AS INTEGER);
+ALTER TABLE accounts DROP COLUMN balance;
+ALTER TABLE accounts RENAME COLUMN balance_minor TO balance;
+
+-- transactions
+ALTER TABLE transactions ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE transactions SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE transactions DROP COLUMN amount;
+ALTER TABLE transactions RENAME COLUMN amount_minor TO amount;
+
+-- Transactions record the currency of their account explicitly
+ALTER TABLE transactions ADD COLUMN currency TEXT NOT NULL DEFAULT 'GBP';
+UPDATE transactions SET currency = COALESCE((SELECT currency FROM accounts WHERE accounts.id = transactions.account_id), 'GBP');
+
+-- transfers
+ALTER TABLE transfers ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE transfers SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE transfers DROP COLUMN amount;
+ALTER TABLE transfers RENAME COLUMN amount_minor TO amount;
+
+-- reconciliations
+ALTER TABLE reconciliations ADD COLUMN statement_balance_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE reconciliations SET statement_balance_minor = CAST(ROUND(statement_balance * 100) AS INTEGER);
+ALTER TABLE reconciliations DROP COLUMN statement_balance;
+ALTER TABLE reconciliations RENAME COLUMN statement_balance_minor TO statement_balance;
+
+ALTER TABLE reconciliations ADD COLUMN opening_balance_minor INTEGER;
+UPDATE reconciliations SET opening_balance_minor = CAST(ROUND(opening_balance * 100) AS INTEGER) WHERE opening_balance IS NOT NULL;
+ALTER TABLE reconciliations DROP COLUMN opening_balance;
+ALTER TABLE reconciliations RENAME COLUMN opening_balance_minor TO opening_balance;
+
+ALTER TABLE reconciliations ADD COLUMN balance_adjustment_minor INTEGER;
+UPDATE reconciliations SET balance_adjustment_minor = CAST(ROUND(balance_adjustment * 100) AS INTEGER) WHERE balance_adjustment IS NOT NULL;
+ALTER TABLE reconciliations DROP COLUMN balance_adjustment;
+ALTER TABLE reconciliations RENAME COLUMN balance_adjustment_minor TO balance_adjustment;
+
+-- transaction_splits
+ALTER TABLE transaction_splits ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE transaction_splits SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE transaction_splits DROP COLUMN amount;
+ALTER TABLE transaction_splits RENAME COLUMN amount_minor TO amount;
+
+-- categorization_rules
+ALTER TABLE categorization_rules ADD COLUMN min_amount_minor INTEGER;
+UPDATE categorization_rules SET min_amount_minor = CAST(ROUND(min_amount * 100) AS INTEGER) WHERE min_amount IS NOT NULL;
+ALTER TABLE categorization_rules DROP COLUMN min_amount;
+ALTER TABLE categorization_rules RENAME COLUMN min_amount_minor TO min_amount;
+
+ALTER TABLE categorization_rules ADD COLUMN max_amount_minor INTEGER;
+UPDATE categorization_rules SET max_amount_minor = CAST(ROUND(max_amount * 100) AS INTEGER) WHERE max_amount IS NOT NULL;
+ALTER TABLE categorization_rules DROP COLUMN max_amount;
+ALTER TABLE categorization_rules RENAME COLUMN max_amount_minor TO max_amount;
+
+-- budgets
+ALTER TABLE budgets ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE budgets SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE budgets DROP COLUMN amount;
+ALTER TABLE budgets RENAME COLUMN amount_minor TO amount;
+
+-- bill_reminders
+ALTER TABLE bill_reminders ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE bill_reminders SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE bill_reminders DROP COLUMN amount;
+ALTER TABLE bill_reminders RENAME COLUMN amount_minor TO amount;
+
+-- recurring_transactions
+ALTER TABLE recurring_transactions ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE recurring_transactions SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE recurring_transactions DROP COLUMN amount;
+ALTER TABLE recurring_transactions RENAME COLUMN amount_minor TO amount;
+
+-- goals
+ALTER TABLE goals ADD COLUMN target_amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE goals SET target_amount_minor = CAST(ROUND(target_amount * 100) AS INTEGER);
+ALTER TABLE goals DROP COLUMN target_amount;
+ALTER TABLE goals RENAME COLUMN target_amount_minor TO target_amount;
+
+ALTER TABLE goals ADD COLUMN current_amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE goals SET current_amount_minor = CAST(ROUND(current_amount * 100) AS INTEGER);
+ALTER TABLE goals DROP COLUMN current_amount;
+ALTER TABLE goals RENAME COLUMN current_amount_minor TO current_amount;
+
+-- goal_contributions
+ALTER TABLE goal_contributions ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE goal_contributions SET amount_minor = CAST(ROUND(amount * 100) AS INTEGER);
+ALTER TABLE goal_contributions DROP COLUMN amount;
+ALTER TABLE goal_contributions RENAME COLUMN amount_minor TO amount;
+
+-- import_logs
+ALTER TABLE import_logs ADD COLUMN balance_change_minor INTEGER;
+UPDATE import_logs SET balance_change_minor = CAST(ROUND(balance_change * 100) AS INTEGER) WHERE balance_change IS NOT NULL;
+ALTER TABLE import_logs DROP COLUMN balance_change;
+ALTER TABLE import_logs RENAME COLUMN balance_change_minor TO balance_change;
+
+-- debt_accounts
+ALTER TABLE debt_accounts ADD COLUMN original_balance_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE debt_accounts SET original_balance_minor = CAST(ROUND(original_balance * 100) AS INTEGER);
+ALTER TABLE debt_accounts DROP COLUMN original_balance;
+ALTER TABLE debt_accounts RENAME COLUMN original_balance_minor TO original_balance;
+
+ALTER TABLE debt_accounts ADD COLUMN current_balance_minor INTEGER NOT NULL DEFAULT 0;
+UPDATE debt_accounts SET current_balance_minor = CAST(ROUND(current_balance * 100) AS INTEGER);
+ALTER TABLE debt_accounts DROP COLUMN current_balance;
+ALTER TABLE debt_accounts RENAME COLUMN current_balance_minor TO current_balance;
+
+ALTER TABLE debt_accounts ADD COLUMN minimum_payment_minor INTEGER;
+UPDATE debt_accounts SET minimum_payment_minor = CAST(ROUND(minimum_payment * 100) AS INTEGER) WHERE minimum_payment IS NOT NULL;
+ALTER TABLE debt_accounts DROP COLUMN minimum_payment;
+ALTER TABLE debt_accounts RENAME COLUMN minimum_payment_minor TO minimum_payment;
+
+ALTER TABLE debt_accounts ADD COLUMN monthly_payment_minor INTEGER;
+UPDATE debt_accounts SET monthly_payment_minor = CAST(ROUND(monthly_payment * 100) AS INTEGER) WHERE monthly_payment IS NOT NULL;
+ALTER TABLE debt_accounts DROP COLUMN monthly_payment;
+ALTER TABLE debt_accounts RENAME COLUMN monthly_payment_minor TO monthly_payment;
@@ -0,0 +1,12 @@
+-- Migration: Recurring Postings
+-- The hourly cron posts due occurrences of auto-create recurring transactions.
+-- Posted transactions point back at their template; the unique index allows one
+-- transaction per template and occurrence date, so a repeated cron tick posts nothing.
+
+ALTER TABLE transactions ADD COLUMN recurring_transaction_id TEXT;
+
+CREATE UNIQUE INDEX uniq_transactions_recurring_occurrence ON transactions(recurring_transaction_id, date);
+
+-- Templates detected from bank sync arrive through the feed already; posting them
+-- as well would duplicate every occurrence
+UPDATE recurring_transactions SET auto_create = 0 WHERE notes LIKE 'Auto-detected from%';
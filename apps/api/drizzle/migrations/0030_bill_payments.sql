@@ -0,0 +1,20 @@
+-- Migration: Bill Payments
+-- Paying a recurring bill rolls its due date forward; each paid cycle is kept here,
+-- optionally linked to the transaction that paid it. The daily sweep records which
+-- due date a reminder was queued for, so each cycle is reminded once.
+
+CREATE TABLE IF NOT EXISTS bill_payments (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  bill_reminder_id TEXT NOT NULL REFERENCES bill_reminders(id),
+  transaction_id TEXT,
+  due_date INTEGER NOT NULL,
+  amount INTEGER NOT NULL, -- minor units
+  paid_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_bill_payments_tenant_bill ON bill_payments(tenant_id, bill_reminder_id);
+CREATE UNIQUE INDEX uniq_bill_payments_transaction ON bill_payments(transaction_id);
+
+ALTER TABLE bill_reminders ADD COLUMN reminded_for_due_date INTEGER;
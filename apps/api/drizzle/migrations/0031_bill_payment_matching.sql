@@ -0,0 +1,5 @@
+-- Migration: Bill Payment Matching
+-- Imported and synced transactions are matched against pending bills; confident
+-- matches pay the bill automatically and are recorded with source 'auto'.
+
+ALTER TABLE bill_payments ADD COLUMN source TEXT NOT NULL DEFAULT 'manual'; -- 'manual', 'auto'
@@ -0,0 +1,20 @@
+-- Migration: Budget Periods
+-- Budgets repeat every period from their start date. Rollover budgets carry what is
+-- left (or overspent) into the next period; envelope budgets spend the income the
+-- tenant assigns to them each period, kept in budget_allocations.
+
+ALTER TABLE budgets ADD COLUMN rollover INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE budgets ADD COLUMN mode TEXT NOT NULL DEFAULT 'limit'; -- 'limit', 'envelope'
+
+CREATE TABLE IF NOT EXISTS budget_allocations (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id),
+  budget_id TEXT NOT NULL REFERENCES budgets(id),
+  period_start INTEGER NOT NULL,
+  amount INTEGER NOT NULL, -- minor units
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX uniq_budget_allocations_budget_period ON budget_allocations(budget_id, period_start);
+CREATE INDEX idx_budget_allocations_tenant ON budget_allocations(tenant_id);
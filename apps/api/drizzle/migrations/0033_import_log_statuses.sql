@@ -0,0 +1,51 @@
+-- Migration: Import Log Statuses
+-- The status CHECK from 0008 only allowed processing/success/partial/failed, so
+-- dry-run reviews ('review') and rollbacks ('rolled_back') could not be saved.
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE `import_logs_new` (
+  `id` TEXT PRIMARY KEY NOT NULL,
+  `tenant_id` TEXT NOT NULL,
+  `user_id` TEXT NOT NULL,
+  `account_id` TEXT,
+  `file_name` TEXT NOT NULL,
+  `file_size` INTEGER NOT NULL,
+  `file_type` TEXT NOT NULL,
+  `status` TEXT NOT NULL CHECK (`status` IN ('processing', 'review', 'success', 'partial', 'failed', 'rolled_back')),
+  `transactions_imported` INTEGER NOT NULL DEFAULT 0,
+  `transactions_failed` INTEGER NOT NULL DEFAULT 0,
+  `transactions_total` INTEGER NOT NULL DEFAULT 0,
+  `error_message` TEXT,
+  `error_details` TEXT,
+  `review_data` TEXT,
+  `balance_change` INTEGER,
+  `created_category_ids` TEXT,
+  `processing_time_ms` INTEGER,
+  `created_at` INTEGER NOT NULL,
+  `completed_at` INTEGER,
+  `rolled_back_at` INTEGER,
+  FOREIGN KEY (`tenant_id`) REFERENCES `tenants`(`id`) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+INSERT INTO `import_logs_new` (
+  id, tenant_id, user_id, account_id, file_name, file_size, file_type, status,
+  transactions_imported, transactions_failed, transactions_total, error_message, error_details,
+  review_data, balance_change, created_category_ids, processing_time_ms, created_at, completed_at, rolled_back_at
+)
+SELECT
+  id, tenant_id, user_id, account_id, file_name, file_size, file_type, status,
+  transactions_imported, transactions_failed, transactions_total, error_message, error_details,
+  review_data, balance_change, created_category_ids, processing_time_ms, created_at, completed_at, rolled_back_at
+FROM `import_logs`;
+
+DROP TABLE `import_logs`;
+ALTER TABLE `import_logs_new` RENAME TO `import_logs`;
+
+CREATE INDEX IF NOT EXISTS `idx_import_logs_tenant` ON `import_logs` (`tenant_id`);
+CREATE INDEX IF NOT EXISTS `idx_import_logs_user` ON `import_logs` (`user_id`);
+CREATE INDEX IF NOT EXISTS `idx_import_logs_status` ON `import_logs` (`status`);
+CREATE INDEX IF NOT EXISTS `idx_import_logs_tenant_date` ON `import_logs` (`tenant_id`, `created_at`);
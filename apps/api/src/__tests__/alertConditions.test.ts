@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAlertCondition,
+  formatAlertCondition,
+  evaluateAlertCondition,
+  AlertConditionParseError,
+  CreateAlertRuleSchema,
+} from '@finhome360/shared';
+
+const diningTransaction = {
+  amount: 72.5,
+  type: 'expense',
+  category: 'Dining',
+  account: 'Current Account',
+  description: 'Pizza Express',
+  balance: 80,
+};
+
+describe('parseAlertCondition', () => {
+  it('parses comparisons joined with AND', () => {
+    expect(parseAlertCondition('category = Dining AND amount > 50')).toEqual({
+      and: [
+        { field: 'category', op: '=', value: 'Dining' },
+        { field: 'amount', op: '>', value: 50 },
+      ],
+    });
+  });
+
+  it('treats "account balance" as the balance field', () => {
+    expect(parseAlertCondition('account balance < £100')).toEqual({
+      field: 'balance',
+      op: '<',
+      value: 100,
+    });
+  });
+
+  it('gives AND precedence over OR and honours parentheses', () => {
+    expect(parseAlertCondition('type = income OR amount >= 10 AND amount <= 20')).toEqual({
+      or: [
+        { field: 'type', op: '=', value: 'income' },
+        { and: [
+          { field: 'amount', op: '>=', value: 10 },
+          { field: 'amount', op: '<=', value: 20 },
+        ] },
+      ],
+    });
+
+    expect(parseAlertCondition('(type = income OR type = expense) AND amount > 1')).toEqual({
+      and: [
+        { or: [
+          { field: 'type', op: '=', value: 'income' },
+          { field: 'type', op: '=', value: 'expense' },
+        ] },
+        { field: 'amount', op: '>', value: 1 },
+      ],
+    });
+  });
+
+  it('accepts multi-word and quoted values', () => {
+    expect(parseAlertCondition('category = Eating Out')).toEqual({
+      field: 'category', op: '=', value: 'Eating Out',
+    });
+    expect(parseAlertCondition('description contains "AND co"')).toEqual({
+      field: 'description', op: 'contains', value: 'AND co',
+    });
+  });
+
+  it('rejects unknown fields, missing values and non-numeric amounts', () => {
+    expect(() => parseAlertCondition('merchant = Tesco')).toThrow(AlertConditionParseError);
+    expect(() => parseAlertCondition('amount >')).toThrow(AlertConditionParseError);
+    expect(() => parseAlertCondition('amount > lots')).toThrow(AlertConditionParseError);
+    expect(() => parseAlertCondition('(amount > 5')).toThrow(AlertConditionParseError);
+    expect(() => parseAlertCondition('')).toThrow(AlertConditionParseError);
+  });
+});
+
+describe('formatAlertCondition', () => {
+  it('round-trips through the parser', () => {
+    const expression = '(type = income OR category = "Eating Out") AND account balance < 100';
+    const condition = parseAlertCondition(expression);
+
+    expect(formatAlertCondition(condition)).toBe(expression);
+    expect(parseAlertCondition(formatAlertCondition(condition))).toEqual(condition);
+  });
+});
+
+describe('evaluateAlertCondition', () => {
+  it('matches case-insensitively on text fields', () => {
+    const condition = parseAlertCondition('category = dining AND description contains pizza');
+    expect(evaluateAlertCondition(condition, diningTransaction)).toBe(true);
+  });
+
+  it('compares absolute amounts and account balance', () => {
+    expect(evaluateAlertCondition(parseAlertCondition('amount > 50'), { ...diningTransaction, amount: -72.5 })).toBe(true);
+    expect(evaluateAlertCondition(parseAlertCondition('account balance < 100'), diningTransaction)).toBe(true);
+    expect(evaluateAlertCondition(parseAlertCondition('account balance < 50'), diningTransaction)).toBe(false);
+  });
+
+  it('never matches a missing value', () => {
+    const condition = parseAlertCondition('account balance < 100');
+    expect(evaluateAlertCondition(condition, { ...diningTransaction, balance: null })).toBe(false);
+  });
+});
+
+describe('CreateAlertRuleSchema', () => {
+  it('accepts an expression and applies defaults', () => {
+    const result = CreateAlertRuleSchema.safeParse({
+      name: 'Big dinners',
+      ruleType: 'category',
+      conditions: 'category = Dining AND amount > 50',
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.actions).toEqual(['notify']);
+      expect(result.data.cooldownMinutes).toBe(60);
+    }
+  });
+
+  it('rejects a condition tree comparing amount with text', () => {
+    const result = CreateAlertRuleSchema.safeParse({
+      name: 'Broken',
+      ruleType: 'spending',
+      conditions: { field: 'amount', op: '>', value: 'fifty' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
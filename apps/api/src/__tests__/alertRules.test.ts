@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { accounts, categories, notifications } from '../db';
+import { AlertRulesService } from '../services/alertRules.service';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, type TestDb } from './helpers/testDb';
+
+describe('AlertRulesService.evaluateTransactions', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: 'test-secret' } as Env['Bindings'];
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  it("shows the matched amount in the account's currency", async () => {
+    const { tenantId, userId } = await seedTenant(testDb.db);
+    const now = new Date();
+    const accountId = crypto.randomUUID();
+    const categoryId = crypto.randomUUID();
+    await testDb.db
+      .insert(accounts)
+      .values({ id: accountId, tenantId, name: 'Euro account', type: 'savings', currency: 'EUR', createdAt: now, updatedAt: now })
+      .run();
+    await testDb.db.insert(categories).values({ id: categoryId, tenantId, name: 'Dining', type: 'expense', color: '#ff0000', createdAt: now, updatedAt: now }).run();
+    await AlertRulesService.createRule({ env }, tenantId, userId, {
+      name: 'Big dinners',
+      isEnabled: true,
+      ruleType: 'transaction',
+      conditions: 'amount > 50',
+      actions: ['notify'],
+      cooldownMinutes: 60,
+    });
+
+    const triggered = await AlertRulesService.evaluateTransactions({ env }, tenantId, [
+      { id: crypto.randomUUID(), accountId, categoryId, amount: -72.5, description: 'TRATTORIA', type: 'expense' },
+    ]);
+
+    expect(triggered).toBe(1);
+    const [notification] = await testDb.db.select().from(notifications).where(eq(notifications.userId, userId)).all();
+    expect(notification.message).toBe('"TRATTORIA" (€72.50) matched your rule: amount > 50.');
+  });
+});
@@ -6,8 +6,12 @@ import {
   CreateCategorySchema,
   CreateTransactionSchema,
   CreateBudgetSchema,
+  UpdateBudgetSchema,
   CreateBillReminderSchema,
+  SplitTransactionSchema,
 } from '@finhome360/shared';
+import { validateSplitTotal } from '../services/transactionSplits';
+import { budgetsOverlap } from '../services/budgets';
 
 describe('API Health Check', () => {
   it('should return ok status', () => {
@@ -236,6 +240,31 @@ describe('Transaction Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('SplitTransactionSchema', () => {
+    const groceries = { categoryId: '123e4567-e89b-12d3-a456-426614174002', amount: 42.5 };
+    const household = { categoryId: '123e4567-e89b-12d3-a456-426614174003', amount: 12.49, notes: 'Cleaning' };
+
+    it('should validate two or more split lines', () => {
+      const result = SplitTransactionSchema.safeParse({ splits: [groceries, household] });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a single line or non-positive amounts', () => {
+      expect(SplitTransactionSchema.safeParse({ splits: [groceries] }).success).toBe(false);
+      expect(SplitTransactionSchema.safeParse({
+        splits: [groceries, { ...household, amount: 0 }],
+      }).success).toBe(false);
+    });
+
+    it('should require split lines to add up to the parent amount', () => {
+      expect(validateSplitTotal(54.99, [groceries, household])).toBeNull();
+      expect(validateSplitTotal(-54.99, [groceries, household])).toBeNull();
+      expect(validateSplitTotal(60, [groceries, household])).toMatch(/54\.99/);
+      expect(validateSplitTotal(54.98, [groceries, household])).toMatch(/54\.98/);
+      expect(validateSplitTotal(0.3, [{ ...groceries, amount: 0.1 }, { ...household, amount: 0.2 }])).toBeNull();
+    });
+  });
 });
 
 describe('Budget Schemas', () => {
@@ -277,6 +306,87 @@ describe('Budget Schemas', () => {
       const result = CreateBudgetSchema.safeParse(invalidBudget);
       expect(result.success).toBe(false);
     });
+
+    it('should drop a client-supplied tenantId', () => {
+      const result = CreateBudgetSchema.safeParse({
+        tenantId: '123e4567-e89b-12d3-a456-426614174000',
+        categoryId: '123e4567-e89b-12d3-a456-426614174001',
+        amount: 500,
+        period: 'monthly',
+        startDate: '2025-01-01',
+      });
+      expect(result.success).toBe(true);
+      expect(result.success && 'tenantId' in result.data).toBe(false);
+    });
+
+    it('should reject an end date before the start date', () => {
+      const result = CreateBudgetSchema.safeParse({
+        categoryId: '123e4567-e89b-12d3-a456-426614174001',
+        amount: 500,
+        period: 'monthly',
+        startDate: '2025-03-01',
+        endDate: '2025-02-01',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a non-uuid category', () => {
+      const result = CreateBudgetSchema.safeParse({
+        categoryId: 'groceries',
+        amount: 500,
+        period: 'monthly',
+        startDate: '2025-01-01',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('UpdateBudgetSchema', () => {
+    it('should accept partial updates without applying defaults', () => {
+      const result = UpdateBudgetSchema.safeParse({ amount: 250 });
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toEqual({ amount: 250 });
+    });
+
+    it('should allow clearing the end date', () => {
+      const result = UpdateBudgetSchema.safeParse({ endDate: null });
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.endDate).toBeNull();
+    });
+
+    it('should reject negative amounts and unknown periods', () => {
+      expect(UpdateBudgetSchema.safeParse({ amount: -50 }).success).toBe(false);
+      expect(UpdateBudgetSchema.safeParse({ period: 'daily' }).success).toBe(false);
+    });
+
+    it('should reject an end date before the start date when both are sent', () => {
+      const result = UpdateBudgetSchema.safeParse({ startDate: '2025-03-01', endDate: '2025-02-01' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('budgetsOverlap', () => {
+    const budget = {
+      categoryId: 'cat-1',
+      period: 'monthly' as const,
+      startDate: new Date('2025-01-01'),
+      endDate: new Date('2025-06-30') as Date | null,
+    };
+
+    it('should detect overlapping date ranges', () => {
+      expect(budgetsOverlap(budget, { ...budget, startDate: new Date('2025-06-30'), endDate: null })).toBe(true);
+      expect(budgetsOverlap(budget, { ...budget, startDate: new Date('2024-01-01'), endDate: new Date('2025-01-01') })).toBe(true);
+      expect(budgetsOverlap({ ...budget, endDate: null }, { ...budget, startDate: new Date('2030-01-01') })).toBe(true);
+    });
+
+    it('should allow consecutive budgets', () => {
+      expect(budgetsOverlap(budget, { ...budget, startDate: new Date('2025-07-01'), endDate: null })).toBe(false);
+    });
+
+    it('should allow other categories and periods', () => {
+      expect(budgetsOverlap(budget, { ...budget, categoryId: 'cat-2' })).toBe(false);
+      expect(budgetsOverlap(budget, { ...budget, period: 'weekly' })).toBe(false);
+    });
   });
 });
 
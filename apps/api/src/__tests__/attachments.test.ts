@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { accounts, attachments, billReminders, categories, transactions } from '../db';
+import accountsRouter from '../routes/accounts';
+import attachmentsRouter from '../routes/attachments';
+import transactionsRouter from '../routes/transactions';
+import {
+  MAX_ATTACHMENT_SIZE,
+  buildAttachmentKey,
+  createAttachment,
+  deleteTenantAttachments,
+  sanitizeFileName,
+  validateAttachmentFile,
+} from '../services/attachments';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, signTestToken, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+
+describe('validateAttachmentFile', () => {
+  it('accepts PDFs and images within the size limit', () => {
+    expect(validateAttachmentFile({ type: 'application/pdf', size: 2048 })).toBeNull();
+    expect(validateAttachmentFile({ type: 'image/heic', size: MAX_ATTACHMENT_SIZE })).toBeNull();
+  });
+
+  it('rejects other types, empty files and oversized files', () => {
+    expect(validateAttachmentFile({ type: 'text/html', size: 10 })).toMatch(/Invalid file type/);
+    expect(validateAttachmentFile({ type: 'image/png', size: 0 })).toBe('File is empty');
+    expect(validateAttachmentFile({ type: 'image/png', size: MAX_ATTACHMENT_SIZE + 1 })).toMatch(/less than 10MB/);
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('drops paths and characters that would break keys or headers', () => {
+    expect(sanitizeFileName('C:\\Users\\me\\Receipt "March".pdf')).toBe('Receipt _March_.pdf');
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('...')).toBe('attachment');
+  });
+
+  it('keeps the extension of long names', () => {
+    const name = sanitizeFileName(`${'a'.repeat(200)}.pdf`);
+
+    expect(name).toHaveLength(120);
+    expect(name.endsWith('.pdf')).toBe(true);
+  });
+});
+
+describe('buildAttachmentKey', () => {
+  it('scopes keys to the tenant', () => {
+    expect(buildAttachmentKey('tenant-1', 'att-1', 'Invoice 42.pdf')).toBe('attachments/tenant-1/att-1-Invoice 42.pdf');
+  });
+});
+
+describe('stored attachments', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: SECRET } as Env['Bindings'];
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  // A tenant with two transactions on one account and a bill reminder
+  async function setup() {
+    const { tenantId, userId } = await seedTenant(testDb.db);
+    const now = new Date();
+    const [accountId, categoryId, billReminderId] = Array.from({ length: 3 }, () => crypto.randomUUID());
+    await testDb.db.insert(accounts).values({ id: accountId, tenantId, name: 'Savings', type: 'savings', createdAt: now, updatedAt: now }).run();
+    await testDb.db.insert(categories).values({ id: categoryId, tenantId, name: 'Bills', type: 'expense', color: '#999999', createdAt: now, updatedAt: now }).run();
+    await testDb.db
+      .insert(billReminders)
+      .values({ id: billReminderId, tenantId, name: 'Energy', amount: 80, categoryId, dueDate: now, frequency: 'monthly', status: 'pending', createdAt: now, updatedAt: now })
+      .run();
+    const base = { tenantId, accountId, categoryId, amount: 80, date: now, type: 'expense' as const, createdAt: now, updatedAt: now };
+    const [first, second] = [crypto.randomUUID(), crypto.randomUUID()];
+    await testDb.db
+      .insert(transactions)
+      .values([
+        { ...base, id: first, description: 'ENERGY CO' },
+        { ...base, id: second, description: 'WATER CO' },
+      ])
+      .run();
+
+    const token = await signTestToken(SECRET, tenantId, userId);
+    const request = (router: typeof attachmentsRouter, path: string, method = 'GET', body?: unknown) =>
+      router.request(
+        path,
+        { method, headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: body === undefined ? undefined : JSON.stringify(body) },
+        env
+      );
+    const attach = (target: { transactionId?: string; billReminderId?: string }, name = 'receipt.pdf') =>
+      createAttachment(testDb.db, testDb.files, tenantId, userId, new File(['%PDF-1.4 receipt'], name, { type: 'application/pdf' }), target);
+
+    return { tenantId, accountId, billReminderId, transactionIds: [first, second], request, attach };
+  }
+
+  async function stored(id: string) {
+    return testDb.db.select().from(attachments).where(eq(attachments.id, id)).get();
+  }
+
+  async function objectExists(fileKey: string) {
+    return (await testDb.files.head(fileKey)) !== null;
+  }
+
+  it('serves attachments only to their own tenant', async () => {
+    const owner = await setup();
+    const other = await setup();
+    const attachment = await owner.attach({ transactionId: owner.transactionIds[0] });
+
+    const details = await owner.request(attachmentsRouter, `/${attachment.id}`);
+    expect(details.status).toBe(200);
+    expect(await details.json()).toMatchObject({ data: { id: attachment.id, fileName: 'receipt.pdf' } });
+    const download = await owner.request(attachmentsRouter, `/${attachment.id}/download`);
+    expect(download.status).toBe(200);
+    expect(await download.text()).toBe('%PDF-1.4 receipt');
+
+    expect((await other.request(attachmentsRouter, `/${attachment.id}`)).status).toBe(404);
+    expect((await other.request(attachmentsRouter, `/${attachment.id}/download`)).status).toBe(404);
+    expect((await other.request(attachmentsRouter, `/${attachment.id}`, 'DELETE')).status).toBe(404);
+    expect(await stored(attachment.id)).toBeDefined();
+    expect(await objectExists(attachment.fileKey)).toBe(true);
+  });
+
+  it('removes the stored file when an attachment is deleted', async () => {
+    const { transactionIds, request, attach } = await setup();
+    const attachment = await attach({ transactionId: transactionIds[0] });
+
+    const response = await request(attachmentsRouter, `/${attachment.id}`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    expect(await stored(attachment.id)).toBeUndefined();
+    expect(await objectExists(attachment.fileKey)).toBe(false);
+  });
+
+  it('deletes attachments with their transaction but keeps those still linked to a bill', async () => {
+    const { billReminderId, transactionIds, request, attach } = await setup();
+    const receipt = await attach({ transactionId: transactionIds[0] });
+    const invoice = await attach({ transactionId: transactionIds[0], billReminderId }, 'invoice.pdf');
+    const untouched = await attach({ transactionId: transactionIds[1] });
+
+    const response = await request(transactionsRouter, `/${transactionIds[0]}`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    expect(await stored(receipt.id)).toBeUndefined();
+    expect(await objectExists(receipt.fileKey)).toBe(false);
+    expect(await stored(invoice.id)).toMatchObject({ transactionId: null, billReminderId });
+    expect(await objectExists(invoice.fileKey)).toBe(true);
+    expect(await stored(untouched.id)).toBeDefined();
+  });
+
+  it('deletes the attachments of every transaction on a deleted account', async () => {
+    const { accountId, transactionIds, request, attach } = await setup();
+    const receipts = await Promise.all(transactionIds.map(transactionId => attach({ transactionId })));
+
+    const response = await request(accountsRouter, `/${accountId}`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    for (const receipt of receipts) {
+      expect(await stored(receipt.id)).toBeUndefined();
+      expect(await objectExists(receipt.fileKey)).toBe(false);
+    }
+  });
+
+  it('deletes transaction attachments when all transactions are cleared', async () => {
+    const { billReminderId, transactionIds, request, attach } = await setup();
+    const receipt = await attach({ transactionId: transactionIds[0] });
+    const invoice = await attach({ transactionId: transactionIds[1], billReminderId }, 'invoice.pdf');
+    const other = await setup();
+    const otherReceipt = await other.attach({ transactionId: other.transactionIds[0] });
+
+    const response = await request(transactionsRouter, '/clear', 'DELETE', { confirm: 'DELETE_ALL_TRANSACTIONS' });
+
+    expect(response.status).toBe(200);
+    expect(await stored(receipt.id)).toBeUndefined();
+    expect(await objectExists(receipt.fileKey)).toBe(false);
+    expect(await stored(invoice.id)).toMatchObject({ transactionId: null, billReminderId });
+    expect(await stored(otherReceipt.id)).toBeDefined();
+    expect(await objectExists(otherReceipt.fileKey)).toBe(true);
+  });
+
+  it('deletes every attachment and file of a deleted tenant', async () => {
+    const { tenantId, billReminderId, transactionIds, attach } = await setup();
+    const created = [await attach({ transactionId: transactionIds[0] }), await attach({ billReminderId }, 'invoice.pdf')];
+    const other = await setup();
+    const otherReceipt = await other.attach({ transactionId: other.transactionIds[0] });
+
+    expect(await deleteTenantAttachments(testDb.db, testDb.files, tenantId)).toBe(2);
+
+    for (const attachment of created) {
+      expect(await stored(attachment.id)).toBeUndefined();
+      expect(await objectExists(attachment.fileKey)).toBe(false);
+    }
+    expect(await objectExists(otherReceipt.fileKey)).toBe(true);
+  });
+});
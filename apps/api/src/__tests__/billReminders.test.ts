@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findBillMatches,
+  isReminderDue,
+  nextDueDate,
+  payeeSimilarity,
+  scoreBillMatch,
+  unpaidStatus,
+  type BillReminder,
+} from '../services/billReminders';
+
+const utc = (year: number, month: number, day: number, hour = 0) => new Date(Date.UTC(year, month - 1, day, hour));
+
+describe('nextDueDate', () => {
+  it('rolls recurring bills forward by their frequency', () => {
+    expect(nextDueDate(utc(2024, 3, 15), 'weekly')).toEqual(utc(2024, 3, 22));
+    expect(nextDueDate(utc(2024, 3, 15), 'monthly')).toEqual(utc(2024, 4, 15));
+    expect(nextDueDate(utc(2024, 3, 15), 'yearly')).toEqual(utc(2025, 3, 15));
+  });
+
+  it('keeps month-end bills on the last day of the month', () => {
+    expect(nextDueDate(utc(2024, 1, 31), 'monthly')).toEqual(utc(2024, 2, 29));
+    expect(nextDueDate(utc(2024, 2, 29), 'monthly')).toEqual(utc(2024, 3, 31));
+    expect(nextDueDate(utc(2024, 4, 30), 'monthly')).toEqual(utc(2024, 5, 31));
+  });
+
+  it('does not roll one-off bills', () => {
+    expect(nextDueDate(utc(2024, 3, 15), 'once')).toBeNull();
+  });
+});
+
+describe('unpaidStatus', () => {
+  it('is overdue from the day after the due date', () => {
+    expect(unpaidStatus(utc(2024, 3, 15), utc(2024, 3, 15, 23))).toBe('pending');
+    expect(unpaidStatus(utc(2024, 3, 15), utc(2024, 3, 16, 1))).toBe('overdue');
+  });
+});
+
+describe('isReminderDue', () => {
+  const bill = { dueDate: utc(2024, 3, 15), reminderDays: 3, status: 'pending' as const, remindedForDueDate: null };
+
+  it('is due once the lead time is reached', () => {
+    expect(isReminderDue(bill, utc(2024, 3, 11))).toBe(false);
+    expect(isReminderDue(bill, utc(2024, 3, 12))).toBe(true);
+  });
+
+  it('reminds each cycle once', () => {
+    expect(isReminderDue({ ...bill, remindedForDueDate: utc(2024, 3, 15) }, utc(2024, 3, 13))).toBe(false);
+    expect(isReminderDue({ ...bill, remindedForDueDate: utc(2024, 2, 15) }, utc(2024, 3, 13))).toBe(true);
+  });
+
+  it('skips bills that are not pending', () => {
+    expect(isReminderDue({ ...bill, status: 'paid' }, utc(2024, 3, 13))).toBe(false);
+  });
+});
+
+describe('payeeSimilarity', () => {
+  it('matches payee words in bank descriptions', () => {
+    expect(payeeSimilarity('Netflix', 'NETFLIX.COM 866-579-7172')).toBe(1);
+    expect(payeeSimilarity('British Gas', 'DD BRITISHGAS SERVICES')).toBe(1);
+    expect(payeeSimilarity('Council Tax', 'LBH COUNCIL 0012345')).toBe(0.5);
+    expect(payeeSimilarity('Vodafone', 'TESCO STORES')).toBe(0);
+  });
+
+  it('ignores filler words', () => {
+    expect(payeeSimilarity('Thames Water Ltd', 'THAMES WATER DIRECT DEBIT')).toBe(1);
+  });
+});
+
+describe('bill matching', () => {
+  const bill = (overrides: Partial<BillReminder> = {}): BillReminder => ({
+    id: 'bill-1',
+    tenantId: 'tenant-1',
+    name: 'Netflix',
+    amount: 10.99,
+    categoryId: 'cat-1',
+    dueDate: utc(2024, 3, 15),
+    frequency: 'monthly',
+    reminderDays: 3,
+    status: 'pending',
+    remindedForDueDate: null,
+    createdAt: utc(2024, 1, 1),
+    updatedAt: utc(2024, 1, 1),
+    ...overrides,
+  });
+  const txn = (id: string, description: string, amount: number, date: Date) =>
+    ({ id, description, amount, date, type: 'expense' as const });
+
+  it('is confident when payee, amount and date agree', () => {
+    expect(scoreBillMatch(bill(), txn('t1', 'NETFLIX.COM', 10.99, utc(2024, 3, 15)))).toBe(1);
+  });
+
+  it('is unsure without a payee match', () => {
+    expect(scoreBillMatch(bill(), txn('t1', 'CARD PAYMENT 4491', 10.99, utc(2024, 3, 15)))).toBe(0.5);
+  });
+
+  it('rejects amounts and dates outside the tolerance', () => {
+    expect(scoreBillMatch(bill(), txn('t1', 'NETFLIX.COM', 15.99, utc(2024, 3, 15)))).toBeNull();
+    expect(scoreBillMatch(bill(), txn('t1', 'NETFLIX.COM', 10.99, utc(2024, 3, 30)))).toBeNull();
+    expect(scoreBillMatch(bill(), { ...txn('t1', 'NETFLIX.COM', 10.99, utc(2024, 3, 15)), type: 'income' })).toBeNull();
+  });
+
+  it('uses each bill and transaction once, best match first', () => {
+    const bills = [bill(), bill({ id: 'bill-2', name: 'Spotify', amount: 10.99 })];
+    const matches = findBillMatches(bills, [
+      txn('t1', 'NETFLIX.COM', 10.99, utc(2024, 3, 16)),
+      txn('t2', 'SPOTIFY P0123', 10.99, utc(2024, 3, 15)),
+      txn('t3', 'NETFLIX.COM', 10.99, utc(2024, 3, 15)),
+    ]);
+
+    expect(matches.map(m => [m.bill.id, m.transaction.id])).toEqual([
+      ['bill-1', 't3'],
+      ['bill-2', 't2'],
+    ]);
+  });
+});
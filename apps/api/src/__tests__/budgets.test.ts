@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { accounts, budgetAllocations, budgets, categories, transactionSplits, transactions } from '../db';
+import { budgetPeriodAt, budgetPeriods, computeBudgetProgress, getBudgetProgress, getEnvelopeSummary } from '../services/budgets';
+import { createTestDb, seedTenant, type TestDb } from './helpers/testDb';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('budgetPeriods', () => {
+  it('anchors monthly periods on the start date, clamped to short months', () => {
+    const periods = budgetPeriods({ period: 'monthly', startDate: utc(2024, 1, 31), endDate: null }, utc(2024, 3, 31));
+
+    expect(periods.map(p => p.start)).toEqual([utc(2024, 1, 31), utc(2024, 2, 29), utc(2024, 3, 31)]);
+    expect(periods[2].end).toEqual(utc(2024, 4, 30));
+  });
+
+  it('steps weekly and yearly periods', () => {
+    expect(budgetPeriods({ period: 'weekly', startDate: utc(2024, 3, 4), endDate: null }, utc(2024, 3, 20))).toHaveLength(3);
+    expect(budgetPeriods({ period: 'yearly', startDate: utc(2022, 4, 6), endDate: null }, utc(2024, 4, 5))).toHaveLength(2);
+  });
+
+  it('stops at the end date', () => {
+    const budget = { period: 'monthly' as const, startDate: utc(2024, 1, 1), endDate: utc(2024, 2, 15) };
+
+    expect(budgetPeriods(budget, utc(2024, 12, 1))).toHaveLength(2);
+    expect(budgetPeriodAt(budget, utc(2024, 3, 1))).toBeNull();
+    expect(budgetPeriodAt(budget, utc(2024, 2, 10))?.start).toEqual(utc(2024, 2, 1));
+  });
+});
+
+describe('computeBudgetProgress', () => {
+  const periods = budgetPeriods({ period: 'monthly', startDate: utc(2024, 1, 1), endDate: null }, utc(2024, 3, 15));
+  const spending = [
+    { date: utc(2024, 1, 10), amount: 60 },
+    { date: utc(2024, 2, 1), amount: 90 },
+    { date: utc(2024, 2, 20), amount: 30.1 },
+    { date: utc(2024, 3, 5), amount: 20 },
+  ];
+
+  it('starts each period afresh without rollover', () => {
+    const progress = computeBudgetProgress({ id: 'b1', amount: 100, rollover: false, mode: 'limit' }, 'Food', periods, spending);
+
+    expect(progress.map(p => [p.carriedOver, p.spent, p.remaining, p.status])).toEqual([
+      [0, 60, 40, 'on-track'],
+      [0, 120.1, -20.1, 'exceeded'],
+      [0, 20, 80, 'on-track'],
+    ]);
+  });
+
+  it('carries unspent and overspent amounts forward with rollover', () => {
+    const progress = computeBudgetProgress({ id: 'b1', amount: 100, rollover: true, mode: 'limit' }, 'Food', periods, spending);
+
+    expect(progress.map(p => [p.carriedOver, p.available, p.remaining])).toEqual([
+      [0, 100, 40],
+      [40, 140, 19.9],
+      [19.9, 119.9, 99.9],
+    ]);
+    expect(progress[1].percentage).toBe(85.8);
+    expect(progress[1].status).toBe('warning');
+  });
+
+  it('funds envelopes from assigned income and always carries the balance', () => {
+    const allocations = new Map([[utc(2024, 1, 1).getTime(), 150], [utc(2024, 3, 1).getTime(), 50]]);
+    const progress = computeBudgetProgress({ id: 'b1', amount: 0, rollover: false, mode: 'envelope' }, 'Food', periods, spending, allocations);
+
+    expect(progress.map(p => [p.allocated, p.carriedOver, p.remaining])).toEqual([
+      [150, 0, 90],
+      [0, 90, -30.1],
+      [50, -30.1, -0.1],
+    ]);
+    expect(progress[2].status).toBe('exceeded');
+  });
+});
+
+describe('budget progress from stored transactions', () => {
+  let testDb: TestDb;
+  let tenantId: string;
+  const ids = { food: '', fun: '', gifts: '' };
+  const asOf = utc(2024, 3, 7);
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    ({ tenantId } = await seedTenant(testDb.db));
+    const now = new Date();
+    const accountId = crypto.randomUUID();
+    await testDb.db.insert(accounts).values({ id: accountId, tenantId, name: 'Savings', type: 'savings', createdAt: now, updatedAt: now }).run();
+
+    const categoryIds = { food: crypto.randomUUID(), fun: crypto.randomUUID(), gifts: crypto.randomUUID() };
+    await testDb.db
+      .insert(categories)
+      .values(Object.entries(categoryIds).map(([name, id]) => ({ id, tenantId, name, type: 'expense' as const, color: '#999999', createdAt: now, updatedAt: now })))
+      .run();
+
+    // Food: monthly with rollover; fun: weekly from March; gifts: a monthly envelope
+    ids.food = crypto.randomUUID();
+    ids.fun = crypto.randomUUID();
+    ids.gifts = crypto.randomUUID();
+    const budget = { tenantId, createdAt: now, updatedAt: now };
+    await testDb.db
+      .insert(budgets)
+      .values([
+        { ...budget, id: ids.food, categoryId: categoryIds.food, amount: 100, period: 'monthly', startDate: utc(2024, 1, 1), rollover: true },
+        { ...budget, id: ids.fun, categoryId: categoryIds.fun, amount: 20, period: 'weekly', startDate: utc(2024, 3, 4) },
+        { ...budget, id: ids.gifts, categoryId: categoryIds.gifts, amount: 0, period: 'monthly', startDate: utc(2024, 3, 1), mode: 'envelope' },
+      ])
+      .run();
+    await testDb.db
+      .insert(budgetAllocations)
+      .values({ id: crypto.randomUUID(), tenantId, budgetId: ids.gifts, periodStart: utc(2024, 3, 1), amount: 50, createdAt: now, updatedAt: now })
+      .run();
+
+    const txn = (categoryId: string, amount: number, date: Date, type: 'expense' | 'income' = 'expense') => ({
+      id: crypto.randomUUID(), tenantId, accountId, categoryId, amount, description: 'Shop', date, type, createdAt: now, updatedAt: now,
+    });
+    const split = txn(categoryIds.food, 50, utc(2024, 3, 6));
+    await testDb.db
+      .insert(transactions)
+      .values([
+        txn(categoryIds.food, 30, utc(2024, 2, 10)),
+        txn(categoryIds.food, 40, utc(2024, 3, 5)),
+        txn(categoryIds.fun, 5, utc(2024, 3, 1)), // Before the fun budget starts
+        txn(categoryIds.gifts, 15, utc(2024, 3, 2)),
+        txn(categoryIds.food, 200, utc(2024, 3, 1), 'income'),
+        split,
+      ])
+      .run();
+    await testDb.db
+      .insert(transactionSplits)
+      .values([
+        { id: crypto.randomUUID(), tenantId, transactionId: split.id, categoryId: categoryIds.food, amount: 20, createdAt: now, updatedAt: now },
+        { id: crypto.randomUUID(), tenantId, transactionId: split.id, categoryId: categoryIds.fun, amount: 30, createdAt: now, updatedAt: now },
+      ])
+      .run();
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  it("shares spending out to each budget's own category and periods", async () => {
+    const progress = await getBudgetProgress(testDb.db, tenantId, asOf);
+    const byBudget = new Map(progress.map(row => [row.budgetId, row]));
+
+    expect(progress).toHaveLength(3);
+    expect(byBudget.get(ids.food)).toMatchObject({ periodStart: utc(2024, 3, 1), carriedOver: 170, spent: 60, remaining: 210 });
+    expect(byBudget.get(ids.fun)).toMatchObject({ periodStart: utc(2024, 3, 4), spent: 30, remaining: -10, status: 'exceeded' });
+    expect(byBudget.get(ids.gifts)).toMatchObject({ allocated: 50, spent: 15, remaining: 35 });
+  });
+
+  it('summarises envelopes with the same spending', async () => {
+    const summary = await getEnvelopeSummary(testDb.db, tenantId, asOf);
+
+    expect(summary).toMatchObject({ income: 200, assigned: 50, toBeBudgeted: 150 });
+    expect(summary.envelopes).toEqual([expect.objectContaining({ budgetId: ids.gifts, spent: 15, remaining: 35 })]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { UpdateMerchantRuleSchema } from '@finhome360/shared';
+import { categorizeTransaction, extractMerchantName, type LearnedRule } from '../services/categorization';
+
+const groceriesRule: LearnedRule = {
+  id: 'rule-1',
+  merchant: 'tesco stores',
+  categoryId: 'cat-groceries',
+  categoryName: 'Groceries',
+  correctionCount: 2,
+  appliedCount: 0,
+  lastAppliedAt: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('extractMerchantName', () => {
+  it('normalizes card prefixes, store numbers and references', () => {
+    expect(extractMerchantName('POS TESCO STORES 2045 1234567')).toBe('tesco stores 2045');
+    expect(extractMerchantName('Tesco Stores')).toBe('tesco stores');
+  });
+});
+
+describe('categorizeTransaction', () => {
+  it('applies a learned merchant rule before keyword matching', async () => {
+    const learnedRules = new Map([[groceriesRule.merchant, groceriesRule]]);
+
+    // A learned rule answers without touching the database
+    const result = await categorizeTransaction({} as never, 'tenant-1', 'TESCO STORES', undefined, learnedRules);
+
+    expect(result).toMatchObject({
+      suggestedCategoryId: 'cat-groceries',
+      action: 'auto-assign',
+      source: 'learned_rule',
+      ruleId: 'rule-1',
+    });
+  });
+});
+
+describe('UpdateMerchantRuleSchema', () => {
+  it('requires a merchant or a category', () => {
+    expect(UpdateMerchantRuleSchema.safeParse({}).success).toBe(false);
+    expect(UpdateMerchantRuleSchema.safeParse({ merchant: 'Tesco' }).success).toBe(true);
+  });
+});
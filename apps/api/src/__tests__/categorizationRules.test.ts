@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CreateCategorizationRuleSchema,
+  hasNestedQuantifier,
+  hasOverlappingAlternation,
+  hasWildcardRun,
+  unsafePatternReason,
+} from '@finhome360/shared';
+import { evaluateRules, ruleMatches, toRuleDefinition, type RuleTarget } from '../services/categorizationRules';
+
+const tescoShop: RuleTarget = {
+  description: 'TESCO STORES 2045',
+  amount: 42.1,
+  type: 'expense',
+  accountId: 'acc-current',
+  categoryId: 'cat-uncategorized',
+  notes: null,
+};
+
+describe('ruleMatches', () => {
+  it('matches description patterns case-insensitively', () => {
+    expect(ruleMatches(toRuleDefinition({ descriptionPattern: '^tesco' }, { categoryId: 'cat-groceries' }), tescoShop)).toBe(true);
+    expect(ruleMatches(toRuleDefinition({ descriptionPattern: 'sainsbury' }, { categoryId: 'cat-groceries' }), tescoShop)).toBe(false);
+  });
+
+  it('checks amount range, account and type', () => {
+    const actions = { categoryId: 'cat-groceries' };
+    expect(ruleMatches(toRuleDefinition({ minAmount: 40, maxAmount: 50 }, actions), tescoShop)).toBe(true);
+    expect(ruleMatches(toRuleDefinition({ maxAmount: 40 }, actions), tescoShop)).toBe(false);
+    expect(ruleMatches(toRuleDefinition({ accountId: 'acc-savings' }, actions), tescoShop)).toBe(false);
+    expect(ruleMatches(toRuleDefinition({ type: 'income' }, actions), tescoShop)).toBe(false);
+  });
+
+  it('never matches unsafe patterns stored before validation', () => {
+    const rule = toRuleDefinition({ descriptionPattern: '(\\w+\\s?)+$' }, { categoryId: 'cat-groceries' });
+    expect(ruleMatches(rule, tescoShop)).toBe(false);
+  });
+
+  it('only looks at the start of very long descriptions', () => {
+    const rule = toRuleDefinition({ descriptionPattern: 'refund$' }, { categoryId: 'cat-groceries' });
+    expect(ruleMatches(rule, { ...tescoShop, description: 'TESCO REFUND' })).toBe(true);
+    expect(ruleMatches(rule, { ...tescoShop, description: `TESCO ${'x'.repeat(300)} REFUND` })).toBe(false);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('stops at the first matching rule by default', () => {
+    const rules = [
+      toRuleDefinition({ descriptionPattern: 'tesco' }, { categoryId: 'cat-groceries' }, 'first'),
+      toRuleDefinition({ type: 'expense' }, { categoryId: 'cat-shopping' }, 'second'),
+    ];
+
+    expect(evaluateRules(rules, tescoShop)).toEqual({
+      ruleIds: ['first'],
+      changes: { categoryId: 'cat-groceries' },
+    });
+  });
+
+  it('lets later rules build on a rule that continues processing', () => {
+    const rename = { ...toRuleDefinition({ descriptionPattern: 'tesco' }, { renameTo: 'Tesco' }, 'rename'), stopProcessing: false };
+    const categorize = toRuleDefinition({ descriptionPattern: '^Tesco$' }, { categoryId: 'cat-groceries', addNote: 'Weekly shop' }, 'categorize');
+
+    expect(evaluateRules([rename, categorize], tescoShop)).toEqual({
+      ruleIds: ['rename', 'categorize'],
+      changes: { description: 'Tesco', categoryId: 'cat-groceries', notes: 'Weekly shop' },
+    });
+  });
+
+  it('marks transfers and reports no changes when already applied', () => {
+    const rule = toRuleDefinition({ descriptionPattern: 'to savings' }, { markAsTransfer: true, addNote: 'Moved to savings' });
+    const target = { ...tescoShop, description: 'Transfer to savings' };
+
+    const first = evaluateRules([rule], target);
+    expect(first.changes).toEqual({ type: 'transfer', notes: 'Moved to savings' });
+
+    const again = evaluateRules([rule], { ...target, notes: 'Moved to savings' });
+    expect(again.changes).toEqual({ type: 'transfer' });
+  });
+});
+
+describe('CreateCategorizationRuleSchema', () => {
+  it('rejects invalid patterns, empty conditions and rules without actions', () => {
+    const base = { name: 'Groceries', conditions: { descriptionPattern: 'tesco' }, actions: { categoryId: '4b6f7c7e-0c5a-4d59-9a34-2f1c8a6c2d10' } };
+
+    expect(CreateCategorizationRuleSchema.safeParse(base).success).toBe(true);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { descriptionPattern: '(' } }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: {} }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, actions: {} }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { minAmount: 10, maxAmount: 5 } }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { descriptionPattern: '(a+)+$' } }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { descriptionPattern: '(a|aa)+$' } }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { descriptionPattern: '.*.*.*.*x' } }).success).toBe(false);
+    expect(CreateCategorizationRuleSchema.safeParse({ ...base, conditions: { descriptionPattern: 'x'.repeat(201) } }).success).toBe(false);
+  });
+});
+
+describe('hasNestedQuantifier', () => {
+  it('flags repeated groups that repeat inside', () => {
+    expect(hasNestedQuantifier('(a+)+$')).toBe(true);
+    expect(hasNestedQuantifier('^(\\w*\\s?)*x')).toBe(true);
+    expect(hasNestedQuantifier('((ab)+c){2,}')).toBe(true);
+    expect(hasNestedQuantifier('(?:x(?:y+))*')).toBe(true);
+  });
+
+  it('allows ordinary rule and statement patterns', () => {
+    expect(hasNestedQuantifier('^tesco\\s+stores')).toBe(false);
+    expect(hasNestedQuantifier('(amazon|amzn)+')).toBe(false);
+    expect(hasNestedQuantifier('(\\d+)?\\s(.+?)$')).toBe(false);
+    expect(hasNestedQuantifier('[(+*)]+')).toBe(false);
+    expect(hasNestedQuantifier('\\(a+\\)+')).toBe(false);
+  });
+});
+
+describe('hasOverlappingAlternation', () => {
+  it('flags repeated alternatives that can match the same text', () => {
+    expect(hasOverlappingAlternation('(a|aa)+$')).toBe(true);
+    expect(hasOverlappingAlternation('^(\\w|\\d)*x')).toBe(true);
+    expect(hasOverlappingAlternation('(?:card|CARD)+', 'i')).toBe(true);
+  });
+
+  it('allows alternatives that differ', () => {
+    expect(hasOverlappingAlternation('(amazon|amzn)+')).toBe(false);
+    expect(hasOverlappingAlternation('(tesco|sainsbury)+')).toBe(false);
+    expect(hasOverlappingAlternation('(\\d|\\.)+')).toBe(false);
+    expect(hasOverlappingAlternation('(card|CARD)+')).toBe(false);
+    expect(hasOverlappingAlternation('(a|aa)')).toBe(false);
+  });
+});
+
+describe('hasWildcardRun', () => {
+  it('flags runs of unbounded repeats over the same characters', () => {
+    expect(hasWildcardRun('.*.*.*.*x')).toBe(true);
+    expect(hasWildcardRun('(.*)(.+)x')).toBe(true);
+    expect(hasWildcardRun('\\s*\\s*\\s*\\s*x')).toBe(true);
+    expect(hasWildcardRun('a.*b.*c.*d.*e')).toBe(true);
+  });
+
+  it('allows ordinary rule and statement patterns', () => {
+    expect(hasWildcardRun('tesco.*express')).toBe(false);
+    expect(hasWildcardRun('^(\\d{4}-\\d{2}-\\d{2})\\s+(.+?)\\s+(-?[\\d,]+\\.\\d{2})$')).toBe(false);
+    expect(hasWildcardRun('[a-z]+[0-9]+')).toBe(false);
+  });
+});
+
+describe('unsafePatternReason', () => {
+  it('explains why a pattern is refused', () => {
+    expect(unsafePatternReason('(a|aa)+$')).toMatch(/alternatives/);
+    expect(unsafePatternReason('.*.*.*.*x')).toMatch(/Back-to-back repeats/);
+    expect(unsafePatternReason('^tesco')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnMappingSchema } from '@finhome360/shared';
+import {
+  applyColumnMapping,
+  findMissingColumns,
+  parseDateWithFormat,
+  parseMappedAmount,
+  suggestColumnMapping,
+} from '../utils/fileParser';
+import { getHeaderSignature } from '../services/importProfiles';
+
+describe('suggestColumnMapping', () => {
+  it('maps separate money in / money out columns to credit and debit', () => {
+    const mapping = suggestColumnMapping(['Date', 'Description', 'Money In', 'Money Out', 'Balance']);
+
+    expect(mapping.date).toBe('Date');
+    expect(mapping.description).toBe('Description');
+    expect(mapping.credit).toBe('Money In');
+    expect(mapping.debit).toBe('Money Out');
+    expect(mapping.amount).toBeUndefined();
+  });
+
+  it('detects decimal commas from sample amounts', () => {
+    const rows = [
+      { Datum: '01.03.2024', Beschreibung: 'Miete', Amount: '-1.250,00' },
+      { Datum: '02.03.2024', Beschreibung: 'Gehalt', Amount: '3.100,50' },
+    ];
+    const mapping = suggestColumnMapping(['Datum', 'Beschreibung', 'Amount'], rows);
+
+    expect(mapping.amount).toBe('Amount');
+    expect(mapping.decimalSeparator).toBe(',');
+  });
+});
+
+describe('parseDateWithFormat', () => {
+  it('reads day and month in the order of the format', () => {
+    expect(parseDateWithFormat('03/04/2024', 'DD/MM/YYYY')?.getMonth()).toBe(3);
+    expect(parseDateWithFormat('03/04/2024', 'MM/DD/YYYY')?.getMonth()).toBe(2);
+    expect(parseDateWithFormat('24.12.23', 'DD/MM/YY')?.getFullYear()).toBe(2023);
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseDateWithFormat('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('2024', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('parseMappedAmount', () => {
+  it('handles decimal commas, trailing minus and CR/DR suffixes', () => {
+    expect(parseMappedAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseMappedAmount('45.00-', '.')).toBe(-45);
+    expect(parseMappedAmount('12.50 DR', '.')).toBe(-12.5);
+    expect(parseMappedAmount('12.50 CR', '.')).toBe(12.5);
+    expect(parseMappedAmount('', '.')).toBeNull();
+  });
+});
+
+describe('applyColumnMapping', () => {
+  const headers = ['Posted', 'Details', 'Value', 'Kind'];
+  const rows = [
+    { Posted: '05/01/2024', Details: 'Coffee', Value: '3.20', Kind: '' },
+    { Posted: '06/01/2024', Details: 'Refund', Value: '-10.00', Kind: '' },
+    { Posted: '07/01/2024', Details: 'Salary', Value: '2500.00', Kind: 'Credit' },
+    { Posted: 'not a date', Details: 'Broken', Value: '1.00', Kind: '' },
+    { Posted: '08/01/2024', Details: 'Empty', Value: '', Kind: '' },
+  ];
+  const mapping = ColumnMappingSchema.parse({
+    date: 'Posted',
+    description: 'Details',
+    amount: 'Value',
+    type: 'Kind',
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'positive_is_expense',
+  });
+
+  it('applies the date format, sign convention and type column', () => {
+    const { transactions } = applyColumnMapping(rows, mapping);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toMatchObject({ description: 'Coffee', amount: 3.2, type: 'expense' });
+    expect(transactions[0].date.getMonth()).toBe(0);
+    expect(transactions[0].date.getDate()).toBe(5);
+    expect(transactions[1]).toMatchObject({ description: 'Refund', amount: 10, type: 'income' });
+    expect(transactions[2]).toMatchObject({ description: 'Salary', amount: 2500, type: 'income' });
+  });
+
+  it('reports rows it cannot read', () => {
+    const { skipped } = applyColumnMapping(rows, mapping);
+
+    expect(skipped).toEqual([
+      { row: 4, reason: 'Unrecognised date "not a date"' },
+      { row: 5, reason: 'Missing or unreadable amount' },
+    ]);
+  });
+
+  it('lists mapped columns that are missing from the file', () => {
+    expect(findMissingColumns(mapping, headers)).toEqual([]);
+    expect(findMissingColumns({ ...mapping, notes: 'Memo' }, headers)).toEqual(['Memo']);
+  });
+});
+
+describe('ColumnMappingSchema', () => {
+  it('requires an amount, debit or credit column', () => {
+    expect(ColumnMappingSchema.safeParse({ date: 'Date' }).success).toBe(false);
+    expect(ColumnMappingSchema.safeParse({ date: 'Date', debit: 'Out' }).success).toBe(true);
+  });
+});
+
+describe('getHeaderSignature', () => {
+  it('ignores case, extra whitespace and empty trailing columns', () => {
+    expect(getHeaderSignature([' Date ', 'Paid  In', 'Balance', '', ''])).toBe(
+      getHeaderSignature(['date', 'paid in', 'BALANCE'])
+    );
+  });
+});
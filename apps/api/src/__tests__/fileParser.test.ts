@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { PDFDocument, StandardFonts } from 'pdf-lib';
-import { parsePDF } from '../utils/fileParser';
+import { parseCAMT053, parseMT940Statement, parsePDF, parseQIF } from '../utils/fileParser';
+import { CAMT053_STATEMENT, MT940_STATEMENT, QIF_QUICKEN_STATEMENT, QIF_UK_STATEMENT } from './fixtures/statements';
 
 async function createSampleStatement(): Promise<ArrayBuffer> {
   const pdfDoc = await PDFDocument.create();
@@ -42,3 +43,137 @@ describe('parsePDF', () => {
     expect(second.type).toBe('income');
   });
 });
+
+describe('parseQIF', () => {
+  it('reads bank records with day-first dates and skips non-transaction lists', () => {
+    const transactions = parseQIF(QIF_UK_STATEMENT);
+
+    expect(transactions).toHaveLength(3);
+
+    const [rent, salary, transfer] = transactions;
+    expect(rent.date).toEqual(new Date(2024, 2, 15));
+    expect(rent).toMatchObject({
+      description: 'Landlord Ltd',
+      amount: 1245.5,
+      type: 'expense',
+      notes: 'March rent',
+      category: 'Rent',
+      counterparty: 'Landlord Ltd',
+      reference: '1042',
+    });
+    expect(salary).toMatchObject({ amount: 2500, type: 'income', category: 'Salary' });
+    // [Account] categories are transfers between accounts, not spending categories
+    expect(transfer.category).toBeUndefined();
+  });
+
+  it('reads Quicken month-first dates with apostrophe years', () => {
+    const transactions = parseQIF(QIF_QUICKEN_STATEMENT);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0].date).toEqual(new Date(2024, 2, 5));
+    expect(transactions[0]).toMatchObject({ description: 'Whole Foods', amount: 64.2, type: 'expense', category: 'Groceries' });
+    expect(transactions[1].date).toEqual(new Date(2024, 2, 14));
+    expect(transactions[1]).toMatchObject({ description: 'Refund', amount: 12.99, type: 'income' });
+  });
+
+  it('honours an explicit date order', () => {
+    const [transaction] = parseQIF('!Type:Bank\nD04/03/2024\nT-10.00\nPShop\n^\n', { dateOrder: 'DMY' });
+
+    expect(transaction.date).toEqual(new Date(2024, 2, 4));
+  });
+});
+
+describe('parseCAMT053', () => {
+  const transactions = parseCAMT053(CAMT053_STATEMENT);
+
+  it('reads booked entries and skips pending ones', () => {
+    expect(transactions.map(txn => txn.description)).toEqual([
+      'Stadtwerke Muenchen & Co',
+      'Example GmbH',
+      'Sportverein',
+      'Musikschule',
+    ]);
+  });
+
+  it('keeps booking and value dates, references and currency', () => {
+    const [utility, salary] = transactions;
+
+    expect(utility).toMatchObject({
+      amount: 89.9,
+      type: 'expense',
+      counterparty: 'Stadtwerke Muenchen & Co',
+      reference: 'INV-2024-0311',
+      currency: 'EUR',
+      notes: 'Strom Abschlag Maerz 2024',
+      providerTransactionId: '2024030400123',
+    });
+    expect(utility.date).toEqual(new Date(2024, 2, 4));
+    expect(utility.valueDate).toEqual(new Date(2024, 2, 5));
+
+    // NOTPROVIDED end-to-end ids fall back to the structured creditor reference
+    expect(salary).toMatchObject({ amount: 3200, type: 'income', reference: 'RF18539007547034' });
+    expect(salary.date).toEqual(new Date(2024, 2, 27));
+  });
+
+  it('splits batch bookings into their individual payments', () => {
+    const batch = transactions.slice(2);
+
+    expect(batch.map(txn => txn.amount)).toEqual([100, 50]);
+    expect(batch.map(txn => txn.providerTransactionId)).toEqual(['BATCH-0315-1', 'BATCH-0315-2']);
+    expect(batch[0].notes).toBe('SEPA batch payment');
+  });
+
+  it('rejects other XML documents', () => {
+    expect(() => parseCAMT053('<transactions><transaction /></transactions>')).toThrow('Not a CAMT.053 bank statement');
+  });
+});
+
+describe('parseMT940Statement', () => {
+  const { transactions, statements } = parseMT940Statement(MT940_STATEMENT);
+
+  it('reads structured :86: subfields across continuation lines', () => {
+    const [utility] = transactions;
+
+    expect(utility).toMatchObject({
+      description: 'Stadtwerke Berlin',
+      amount: 45.5,
+      type: 'expense',
+      counterparty: 'Stadtwerke Berlin',
+      reference: 'E2E-REF-1',
+      notes: 'Rechnung 4711 Strom | LASTSCHRIFT',
+      currency: 'EUR',
+      providerTransactionId: 'BANKREF001',
+    });
+  });
+
+  it('joins free-text :86: lines and skips NONREF references', () => {
+    const salary = transactions[1];
+
+    expect(salary).toMatchObject({ description: 'Salary March ACME LTD', amount: 2500, type: 'income' });
+    expect(salary.reference).toBeUndefined();
+    expect(salary.providerTransactionId).toBeUndefined();
+  });
+
+  it('uses the entry date as the booking date, across the new year', () => {
+    const fee = transactions[2];
+
+    expect(fee.valueDate).toEqual(new Date(2023, 11, 29));
+    expect(fee.date).toEqual(new Date(2024, 0, 2));
+    // A reversed credit is money out
+    expect(transactions[3]).toMatchObject({ description: 'Reversal', amount: 5, type: 'expense' });
+  });
+
+  it('reconciles opening balance and movements against the closing balance', () => {
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatchObject({
+      reference: 'STARTUMSE',
+      account: '10020030/1234567',
+      movement: 2454.5,
+      transactionCount: 2,
+      difference: 0,
+      balanced: true,
+    });
+    expect(statements[1]).toMatchObject({ movement: -15, difference: -5, balanced: false });
+    expect(statements[1].openingBalance?.amount).toBe(-100);
+  });
+});
@@ -0,0 +1,171 @@
+// Sample statement exports used by the parser tests
+
+// UK bank QIF export: day-first dates, an account header and a category list to skip
+export const QIF_UK_STATEMENT = `!Account
+NCurrent Account
+TBank
+^
+!Type:Cat
+NGroceries
+E
+^
+!Type:Bank
+D15/03/2024
+T-1,245.50
+PLandlord Ltd
+MMarch rent
+LHousing:Rent
+N1042
+^
+D28/03/2024
+T2,500.00
+PACME PAYROLL
+LSalary
+^
+D29/03/2024
+T-200.00
+PTransfer to savings
+L[Savings Account]
+^
+D30/03/2024
+T0.00
+PZero value check
+^
+`;
+
+// Quicken QIF export: month-first dates with apostrophe years and split lines
+export const QIF_QUICKEN_STATEMENT = `!Type:CCard
+D3/ 5'24
+U-64.20
+T-64.20
+PWhole Foods
+LGroceries
+SGroceries
+$-50.00
+SHousehold
+$-14.20
+^
+D3/14'24
+T12.99
+MRefund
+^
+`;
+
+export const CAMT053_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>STMT-20240331</MsgId>
+      <CreDtTm>2024-03-31T23:00:00</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Ccy>EUR</Ccy>
+      </Acct>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">89.90</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2024-03-04</Dt></BookgDt>
+        <ValDt><Dt>2024-03-05</Dt></ValDt>
+        <AcctSvcrRef>2024030400123</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs>
+              <EndToEndId>INV-2024-0311</EndToEndId>
+            </Refs>
+            <RltdPties>
+              <Cdtr><Pty><Nm>Stadtwerke Muenchen &amp; Co</Nm></Pty></Cdtr>
+              <CdtrAcct><Id><IBAN>DE02701500000000594937</IBAN></Id></CdtrAcct>
+            </RltdPties>
+            <RmtInf>
+              <Ustrd>Strom Abschlag</Ustrd>
+              <Ustrd>Maerz 2024</Ustrd>
+            </RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">3200.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2024-03-27T08:15:00+01:00</DtTm></BookgDt>
+        <ValDt><Dt>2024-03-27</Dt></ValDt>
+        <AcctSvcrRef>2024032700077</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs>
+              <EndToEndId>NOTPROVIDED</EndToEndId>
+            </Refs>
+            <RltdPties>
+              <Dbtr><Nm>Example GmbH</Nm></Dbtr>
+            </RltdPties>
+            <RmtInf>
+              <Strd><CdtrRefInf><Ref>RF18539007547034</Ref></CdtrRefInf></Strd>
+            </RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">15.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2024-03-31</Dt></BookgDt>
+        <AddtlNtryInf>Pending card authorisation</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">150.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2024-03-15</Dt></BookgDt>
+        <AcctSvcrRef>BATCH-0315</AcctSvcrRef>
+        <AddtlNtryInf>SEPA batch payment</AddtlNtryInf>
+        <NtryDtls>
+          <Btch><NbOfTxs>2</NbOfTxs></Btch>
+          <TxDtls>
+            <Amt Ccy="EUR">100.00</Amt>
+            <CdtDbtInd>DBIT</CdtDbtInd>
+            <RltdPties><Cdtr><Nm>Sportverein</Nm></Cdtr></RltdPties>
+          </TxDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">50.00</Amt>
+            <CdtDbtInd>DBIT</CdtDbtInd>
+            <RltdPties><Cdtr><Nm>Musikschule</Nm></Cdtr></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+
+// MT940 file with a SWIFT envelope, structured and free-text :86: fields, and a second
+// statement whose closing balance does not add up
+export const MT940_STATEMENT = `{1:F01BANKDEFFAXXX0000000000}{2:O9401200240304BANKDEFFAXXX00000000002403041200N}{4:
+:20:STARTUMSE
+:25:10020030/1234567
+:28C:00001/001
+:60F:C240301EUR1000,00
+:61:2403010301DR45,50NMSCNONREF//BANKREF001
+:86:105?00LASTSCHRIFT?109310?20EREF+E2E-REF-1 SVWZ+Rechnu
+?21ng 4711 Strom?30DEUTDEFF?31DE02100100100006820101?32Stadtwerke 
+?33Berlin
+:61:2403040304C2500,00NTRFNONREF
+:86:Salary March
+ACME LTD
+:62F:C240304EUR3454,50
+-}
+:20:STMT2
+:25:NL91ABNA0417164300
+:28C:2
+:60F:D231229EUR100,00
+:61:2312290102DR10,00NCHGNONREF//FEE-1
+:86:Account fee
+:61:240102RC5,00NMSCNONREF
+:86:Reversal
+:62F:D240102EUR120,00
+-
+`;
@@ -0,0 +1,116 @@
+/// <reference types="vite/client" />
+import { Miniflare } from 'miniflare';
+import * as jose from 'jose';
+import { sql } from 'drizzle-orm';
+import { getDb, tenants } from '../../db';
+
+const MIGRATIONS = import.meta.glob<string>('../../../drizzle/migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+export interface TestDb {
+  db: ReturnType<typeof getDb>;
+  d1: D1Database;
+  files: R2Bucket;
+  dispose: () => Promise<void>;
+}
+
+function stripComment(line: string): string {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "'") quoted = !quoted;
+    if (!quoted && line.startsWith('--', i)) return line.slice(0, i);
+  }
+  return line;
+}
+
+/**
+ * Split a migration into statements; trigger bodies keep their inner semicolons
+ */
+function splitStatements(migration: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+
+  for (const raw of migration.split('\n')) {
+    const line = stripComment(raw).trimEnd();
+    if (!line.trim()) continue;
+    current.push(line);
+
+    if (/\bBEGIN$/i.test(line)) inTrigger = true;
+    const ends = inTrigger ? /^\s*END;$/i.test(line) : line.endsWith(';');
+    if (ends) {
+      statements.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+
+  return statements;
+}
+
+function migrationNumber(file: string): number {
+  return Number(file.split('/').pop()!.slice(0, 4));
+}
+
+/**
+ * Apply the migrations numbered after `after` up to and including `until`
+ */
+export async function applyMigrations(d1: D1Database, { after = 0, until = Infinity }: { after?: number; until?: number } = {}): Promise<void> {
+  for (const file of Object.keys(MIGRATIONS).sort()) {
+    const number = migrationNumber(file);
+    if (number <= after || number > until) continue;
+    for (const statement of splitStatements(MIGRATIONS[file])) {
+      await d1.prepare(statement).run();
+    }
+  }
+}
+
+/**
+ * An in-memory D1 database with every migration applied (or those up to
+ * `untilMigration`), plus an R2 bucket, for tests that need real queries.
+ * Call `dispose` when done.
+ */
+export async function createTestDb(untilMigration?: number): Promise<TestDb> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+    d1Databases: ['DB'],
+    r2Buckets: ['FILES'],
+  });
+  const d1 = (await mf.getD1Database('DB')) as unknown as D1Database;
+  const files = (await mf.getR2Bucket('FILES')) as unknown as R2Bucket;
+
+  await applyMigrations(d1, { until: untilMigration });
+
+  return { db: getDb(d1), d1, files, dispose: () => mf.dispose() };
+}
+
+/**
+ * Insert a tenant with one admin user; returns their ids
+ */
+export async function seedTenant(db: TestDb['db'], tenantId = crypto.randomUUID()): Promise<{ tenantId: string; userId: string }> {
+  const now = new Date();
+  const userId = crypto.randomUUID();
+
+  await db.insert(tenants).values({ id: tenantId, name: 'Test Household', subdomain: `t-${tenantId.slice(0, 8)}`, createdAt: now, updatedAt: now }).run();
+  // Raw insert: the global admin columns on users come from outside the migrations directory
+  await db.run(sql`
+    insert into users (id, tenant_id, email, name, password_hash, role, created_at, updated_at)
+    values (${userId}, ${tenantId}, ${`${userId}@example.com`}, 'Test User', 'x', 'admin', ${Math.floor(now.getTime() / 1000)}, ${Math.floor(now.getTime() / 1000)})
+  `);
+
+  return { tenantId, userId };
+}
+
+/**
+ * Bearer token the auth middleware accepts for an admin of the tenant
+ */
+export async function signTestToken(secret: string, tenantId: string, userId: string): Promise<string> {
+  return new jose.SignJWT({ tenantId, email: `${userId}@example.com`, name: 'Test User', role: 'admin' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .sign(new TextEncoder().encode(secret));
+}
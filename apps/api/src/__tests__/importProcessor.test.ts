@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { accounts, categories, transactions } from '../db';
+import { persistTransactionsFromImport } from '../services/importProcessor';
+import { createTestDb, seedTenant, type TestDb } from './helpers/testDb';
+
+describe('persistTransactionsFromImport', () => {
+  let testDb: TestDb;
+  let tenantId: string;
+  const categoryId = 'cat-uncategorized';
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    ({ tenantId } = await seedTenant(testDb.db));
+    const now = new Date();
+    await testDb.db
+      .insert(categories)
+      .values({ id: categoryId, tenantId, name: 'Uncategorized', type: 'expense', color: '#999999', createdAt: now, updatedAt: now })
+      .run();
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  it('skips rows in another currency and reports them as row errors', async () => {
+    const now = new Date();
+    const account = { id: 'acc-gbp', tenantId, name: 'Savings', type: 'savings' as const, balance: 100, currency: 'GBP', createdAt: now, updatedAt: now };
+    await testDb.db.insert(accounts).values(account).run();
+
+    const result = await persistTransactionsFromImport({
+      db: testDb.db,
+      tenantId,
+      account,
+      defaultCategoryId: categoryId,
+      parsedTransactions: [
+        { date: new Date('2025-03-01'), description: 'CORNER SHOP', amount: 4.2, type: 'expense', currency: 'gbp' },
+        { date: new Date('2025-03-02'), description: 'HOTEL PARIS', amount: 120, type: 'expense', currency: 'EUR' },
+        { date: new Date('2025-03-03'), description: 'SALARY', amount: 50, type: 'income' },
+      ],
+      logId: null,
+      startedAt: Date.now(),
+    });
+
+    expect(result.finalStatus).toBe('partial');
+    expect(result.importedCount).toBe(2);
+    expect(result.errors).toEqual(['Skipped: HOTEL PARIS - currency EUR does not match account currency GBP']);
+
+    const saved = await testDb.db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    expect(saved.map(txn => txn.description).sort()).toEqual(['CORNER SHOP', 'SALARY']);
+    const [stored] = await testDb.db.select().from(accounts).where(eq(accounts.id, account.id)).all();
+    expect(stored.balance).toBe(145.8);
+  });
+});
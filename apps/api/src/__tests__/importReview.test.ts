@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyReviewDecisions,
+  classifyImportRows,
+  normalizeDescription,
+  parseImportReview,
+  summarizeReview,
+} from '../services/importReview';
+import type { ParsedTransaction } from '../utils/fileParser';
+
+function parsed(date: string, amount: number, description: string, extra: Partial<ParsedTransaction> = {}): ParsedTransaction {
+  return { date: new Date(date), amount, description, type: 'expense', ...extra };
+}
+
+function existing(id: string, date: string, amount: number, description: string, providerTransactionId: string | null = null) {
+  return { id, date: new Date(date), amount, description, type: 'expense' as const, providerTransactionId };
+}
+
+describe('normalizeDescription', () => {
+  it('drops card numbers, embedded dates and bank prefixes', () => {
+    expect(normalizeDescription('CARD PAYMENT TO TESCO STORES 3297 ON 12/03')).toBe('tesco stores on');
+    expect(normalizeDescription('Tesco Stores, ref 123456789')).toBe('tesco stores');
+    expect(normalizeDescription('  Netflix.com  ')).toBe('netflix com');
+  });
+});
+
+describe('classifyImportRows', () => {
+  const current = [
+    existing('t1', '2024-03-01', 45.5, 'TESCO STORES 3297'),
+    existing('t2', '2024-03-04', 9.99, 'Spotify'),
+    existing('t3', '2024-03-10', 120, 'Bank transfer', 'FITID-77'),
+  ];
+
+  it('flags rows matching amount, description and date within the window', () => {
+    const rows = classifyImportRows(
+      [
+        parsed('2024-03-02', 45.5, 'Card payment to Tesco Stores 3297'),
+        parsed('2024-03-20', 45.5, 'Tesco Stores 3297'),
+      ],
+      current,
+      3
+    );
+
+    expect(rows[0]).toMatchObject({ row: 1, status: 'duplicate', match: { id: 't1' } });
+    expect(rows[1].status).toBe('new');
+  });
+
+  it('treats a matching bank transaction id as a duplicate', () => {
+    const rows = classifyImportRows([parsed('2024-03-10', 120, 'Transfer to savings', { providerTransactionId: 'FITID-77' })], current);
+
+    expect(rows[0]).toMatchObject({ status: 'duplicate', match: { id: 't3' } });
+  });
+
+  it('marks same amount and date with a different description as a conflict', () => {
+    const rows = classifyImportRows([parsed('2024-03-04', 9.99, 'Apple iCloud')], current);
+
+    expect(rows[0]).toMatchObject({ status: 'conflict', match: { id: 't2' } });
+  });
+
+  it('matches each existing transaction only once', () => {
+    const rows = classifyImportRows(
+      [parsed('2024-03-04', 9.99, 'Spotify'), parsed('2024-03-04', 9.99, 'Spotify')],
+      current
+    );
+
+    expect(rows.map(row => row.status)).toEqual(['duplicate', 'conflict']);
+    expect(rows[1].reason).toBe('Repeated within this file');
+  });
+
+  it('does not match a refund against a purchase of the same amount', () => {
+    const rows = classifyImportRows(
+      [
+        parsed('2024-03-01', 45.5, 'Tesco Stores 3297', { type: 'income' }),
+        parsed('2024-03-04', 9.99, 'Apple iCloud', { type: 'income' }),
+        parsed('2024-03-01', 45.5, 'Tesco Stores 3297'),
+      ],
+      current
+    );
+
+    expect(rows.map(row => row.status)).toEqual(['new', 'new', 'duplicate']);
+  });
+});
+
+describe('applyReviewDecisions', () => {
+  it('imports new rows and skips the rest unless the user decides otherwise', () => {
+    const rows = classifyImportRows(
+      [parsed('2024-03-01', 45.5, 'Tesco Stores 3297'), parsed('2024-03-15', 3.2, 'Coffee'), parsed('2024-03-04', 9.99, 'iCloud')],
+      [existing('t1', '2024-03-01', 45.5, 'TESCO STORES 3297'), existing('t2', '2024-03-04', 9.99, 'Spotify')]
+    );
+
+    expect(summarizeReview(rows)).toEqual({ total: 3, new: 1, duplicate: 1, conflict: 1 });
+
+    const decided = applyReviewDecisions(rows, [{ row: 3, action: 'import' }]);
+    expect(decided.map(row => row.decision)).toEqual(['skip', 'import', 'import']);
+  });
+});
+
+describe('parseImportReview', () => {
+  it('restores dates from the stored review', () => {
+    const rows = classifyImportRows([parsed('2024-03-01', 45.5, 'Tesco')], [existing('t1', '2024-03-01', 45.5, 'Tesco')]);
+    const review = parseImportReview(JSON.stringify({ defaultCategoryId: 'c1', windowDays: 3, importProfileId: null, rows }));
+
+    expect(review.rows[0].transaction.date).toBeInstanceOf(Date);
+    expect(review.rows[0].match?.date.getTime()).toBe(new Date('2024-03-01').getTime());
+  });
+});
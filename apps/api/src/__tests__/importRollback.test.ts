@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { accounts, categories, importLogs, transactions } from '../db';
+import filesRouter from '../routes/files';
+import { persistTransactionsFromImport } from '../services/importProcessor';
+import { rollbackImport } from '../services/importRollback';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, signTestToken, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+
+describe('rollbackImport', () => {
+  let testDb: TestDb;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  // A tenant with one account (balance 100), a manual transaction and a completed import of two rows
+  async function importBatch() {
+    const { tenantId, userId } = await seedTenant(testDb.db);
+    const now = new Date();
+    const account = { id: crypto.randomUUID(), tenantId, name: 'Savings', type: 'savings' as const, balance: 100, currency: 'GBP', createdAt: now, updatedAt: now };
+    const defaultCategoryId = crypto.randomUUID();
+    const logId = crypto.randomUUID();
+
+    await testDb.db.insert(accounts).values(account).run();
+    await testDb.db
+      .insert(categories)
+      .values({ id: defaultCategoryId, tenantId, name: 'Uncategorized', type: 'expense', color: '#999999', createdAt: now, updatedAt: now })
+      .run();
+    await testDb.db
+      .insert(importLogs)
+      .values({ id: logId, tenantId, userId, accountId: account.id, fileName: 'statement.csv', fileSize: 100, fileType: 'csv', status: 'processing', createdAt: now })
+      .run();
+    const manual = await addTransaction(tenantId, account.id, defaultCategoryId, 'Cash withdrawal');
+
+    await persistTransactionsFromImport({
+      db: testDb.db,
+      tenantId,
+      account,
+      defaultCategoryId,
+      parsedTransactions: [
+        { date: new Date('2025-03-01'), description: 'PIZZA PLACE', amount: 20, type: 'expense', category: 'Takeaway' },
+        { date: new Date('2025-03-02'), description: 'BIRTHDAY MONEY', amount: 50, type: 'income', category: 'Gifts' },
+      ],
+      logId,
+      startedAt: Date.now(),
+    });
+
+    const log = await testDb.db.select().from(importLogs).where(eq(importLogs.id, logId)).get();
+    return { tenantId, userId, account, manual, log: log! };
+  }
+
+  async function addTransaction(tenantId: string, accountId: string, categoryId: string, description: string) {
+    const now = new Date();
+    const txn = { id: crypto.randomUUID(), tenantId, accountId, categoryId, amount: 10, description, date: now, type: 'expense' as const, createdAt: now, updatedAt: now };
+    await testDb.db.insert(transactions).values(txn).run();
+    return txn;
+  }
+
+  async function categoryIdByName(tenantId: string, name: string) {
+    const category = await testDb.db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.tenantId, tenantId), eq(categories.name, name)))
+      .get();
+    return category?.id;
+  }
+
+  it('deletes only the transactions created by the import', async () => {
+    const { tenantId, account, manual, log } = await importBatch();
+    const other = await importBatch();
+
+    const result = await rollbackImport(testDb.db, testDb.files, tenantId, log);
+
+    expect(result.deletedCount).toBe(2);
+    const remaining = await testDb.db.select().from(transactions).where(eq(transactions.accountId, account.id)).all();
+    expect(remaining.map(txn => txn.id)).toEqual([manual.id]);
+    const untouched = await testDb.db.select().from(transactions).where(eq(transactions.importLogId, other.log.id)).all();
+    expect(untouched).toHaveLength(2);
+  });
+
+  it('takes the import balance change back off the account', async () => {
+    const { tenantId, account, log } = await importBatch();
+    expect(log.balanceChange).toBe(30);
+    // A later manual adjustment must survive the rollback
+    await testDb.db.update(accounts).set({ balance: 135 }).where(eq(accounts.id, account.id)).run();
+
+    const result = await rollbackImport(testDb.db, testDb.files, tenantId, log);
+
+    expect(result).toMatchObject({ balanceChange: 30, newBalance: 105 });
+    const stored = await testDb.db.select().from(accounts).where(eq(accounts.id, account.id)).get();
+    expect(stored!.balance).toBe(105);
+  });
+
+  it('keeps created categories that are still used elsewhere', async () => {
+    const { tenantId, account, log } = await importBatch();
+    const takeaway = (await categoryIdByName(tenantId, 'Takeaway'))!;
+    const gifts = (await categoryIdByName(tenantId, 'Gifts'))!;
+    await addTransaction(tenantId, account.id, takeaway, 'Chip shop');
+
+    const result = await rollbackImport(testDb.db, testDb.files, tenantId, log);
+
+    expect(result.removedCategoryIds).toEqual([gifts]);
+    expect(await categoryIdByName(tenantId, 'Takeaway')).toBe(takeaway);
+    expect(await categoryIdByName(tenantId, 'Gifts')).toBeUndefined();
+  });
+
+  it('marks the log rolled back', async () => {
+    const { tenantId, log } = await importBatch();
+
+    await rollbackImport(testDb.db, testDb.files, tenantId, log);
+
+    const stored = await testDb.db.select().from(importLogs).where(eq(importLogs.id, log.id)).get();
+    expect(stored!.status).toBe('rolled_back');
+    expect(stored!.rolledBackAt).toBeInstanceOf(Date);
+  });
+
+  it('refuses to roll the same import back twice', async () => {
+    const { tenantId, userId, log } = await importBatch();
+    const token = await signTestToken(SECRET, tenantId, userId);
+    const env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: SECRET } as Env['Bindings'];
+    const rollback = () =>
+      filesRouter.request(`/logs/${log.id}/rollback`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } }, env);
+
+    const first = await rollback();
+    expect(first.status).toBe(200);
+
+    const second = await rollback();
+    expect(second.status).toBe(409);
+    expect(await second.json()).toMatchObject({ success: false, error: { code: 'ALREADY_ROLLED_BACK' } });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  currencyDecimals,
+  fromMinorUnits,
+  multiplyMoney,
+  roundMoney,
+  subtractMoney,
+  sumMoney,
+  sumMoneyBy,
+  toMinorUnits,
+} from '@finhome360/shared';
+
+describe('toMinorUnits', () => {
+  it('rounds half away from zero', () => {
+    expect(toMinorUnits(1.005)).toBe(101);
+    expect(toMinorUnits(-1.005)).toBe(-101);
+    expect(toMinorUnits(0.125)).toBe(13);
+    expect(toMinorUnits(-0.004)).toBe(0);
+    expect(Object.is(toMinorUnits(-0.004), -0)).toBe(false);
+  });
+
+  it('round-trips stored amounts', () => {
+    expect(fromMinorUnits(toMinorUnits(19.99))).toBe(19.99);
+    expect(fromMinorUnits(toMinorUnits(-1234567.89))).toBe(-1234567.89);
+  });
+
+  it('rejects non-finite amounts', () => {
+    expect(() => toMinorUnits(NaN)).toThrow(RangeError);
+    expect(() => toMinorUnits(Infinity)).toThrow(RangeError);
+  });
+});
+
+describe('money arithmetic', () => {
+  it('sums without floating point drift', () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney([19.99, 5.01, null, undefined])).toBe(25);
+    expect(sumMoney(Array.from({ length: 10 }, () => 0.1))).toBe(1);
+  });
+
+  it('sums a field over records', () => {
+    expect(sumMoneyBy([{ amount: 1.1 }, { amount: 2.2 }, { amount: null }], r => r.amount)).toBe(3.3);
+  });
+
+  it('subtracts exactly', () => {
+    expect(subtractMoney(0.3, 0.1)).toBe(0.2);
+    expect(subtractMoney(100, 33.33, 33.33)).toBe(33.34);
+  });
+
+  it('multiplies by rates and rounds to minor units', () => {
+    expect(multiplyMoney(100, 0.035)).toBe(3.5);
+    expect(multiplyMoney(10.01, 1 / 3)).toBe(3.34);
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to the decimals of the currency', () => {
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(roundMoney(1234.5, 'JPY')).toBe(1235);
+    expect(roundMoney(-0.5, 'jpy')).toBe(-1);
+  });
+
+  it('knows zero-decimal currencies', () => {
+    expect(currencyDecimals('GBP')).toBe(2);
+    expect(currencyDecimals('JPY')).toBe(0);
+    expect(currencyDecimals()).toBe(2);
+  });
+});
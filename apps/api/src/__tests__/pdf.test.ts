@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { BANK_PDF_TEMPLATES, detectPdfTemplate } from '@finhome360/shared';
-import { parsePdfLine } from '../utils/fileParser';
+import {
+  BANK_PDF_TEMPLATES,
+  CreatePdfTemplateSchema,
+  UpdatePdfTemplateSchema,
+  compilePdfTemplate,
+  detectPdfTemplate,
+  type BankPdfTemplateDefinition,
+} from '@finhome360/shared';
+import { parseBankPdfText, parsePdfLine } from '../utils/fileParser';
 
 describe('PDF templates', () => {
   it('detects UK generic template from keywords', () => {
@@ -34,3 +41,80 @@ describe('PDF templates', () => {
     expect(parsed!.amount).toBe(2345.67);
   });
 });
+
+describe('Tenant PDF templates', () => {
+  const definition: BankPdfTemplateDefinition = {
+    displayName: 'Acme Bank',
+    detectKeywords: ['Acme Bank plc', 'Sort Code'],
+    // 1: date, 2: description, 3: signed amount
+    rowPattern: '^(\\d{4}-\\d{2}-\\d{2})\\s+(.+?)\\s+(-?[\\d,]+\\.\\d{2})$',
+    dateFormat: 'yyyy-MM-dd',
+    amountStyle: 'signed',
+    groups: { date: 1, description: 2, amount: 3 },
+    skipLineIncludes: ['Opening balance'],
+  };
+  const statement = [
+    'Acme Bank plc',
+    'Sort Code: 00-00-00 Account Number: 12345678 Balance Brought Forward',
+    'Opening balance 100.00',
+    '2024-03-01 CORNER SHOP -4.20',
+    '2024-03-02 SALARY 1,500.00',
+    'Page 1 of 1',
+  ].join('\n');
+
+  it('prefers tenant templates over the built-ins when detecting', () => {
+    const custom = compilePdfTemplate('tpl-1', definition);
+
+    expect(detectPdfTemplate(statement)?.id).toBe('uk-generic');
+    expect(detectPdfTemplate(statement, undefined, [custom])?.id).toBe('tpl-1');
+    expect(detectPdfTemplate(statement, 'tpl-1', [custom])?.id).toBe('tpl-1');
+  });
+
+  it('parses extracted text and reports the lines each row came from', () => {
+    const result = parseBankPdfText(statement, { template: compilePdfTemplate('candidate', definition) });
+
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({ description: 'CORNER SHOP', amount: 4.2, type: 'expense' });
+    expect(result.transactions[1]).toMatchObject({ description: 'SALARY', amount: 1500, type: 'income' });
+    expect(result.matchedLines).toEqual(['2024-03-01 CORNER SHOP -4.20', '2024-03-02 SALARY 1,500.00']);
+    expect(result.unmatchedLines).toContain('Page 1 of 1');
+  });
+
+  it('validates the pattern and its capturing groups', () => {
+    expect(CreatePdfTemplateSchema.safeParse(definition).success).toBe(true);
+    expect(CreatePdfTemplateSchema.safeParse({ ...definition, rowPattern: '(unclosed' }).success).toBe(false);
+    expect(CreatePdfTemplateSchema.safeParse({ ...definition, groups: { date: 1, description: 2, amount: 4 } }).success).toBe(false);
+    expect(CreatePdfTemplateSchema.safeParse({ ...definition, amountStyle: 'debitCredit' }).success).toBe(false);
+    expect(UpdatePdfTemplateSchema.safeParse({ rowPattern: '(.+)' }).success).toBe(false);
+    expect(UpdatePdfTemplateSchema.safeParse({ displayName: 'Renamed' }).success).toBe(true);
+  });
+
+  it('refuses row patterns with nested repeats', () => {
+    const rowPattern = '^(\\d{4}-\\d{2}-\\d{2})\\s+((?:\\w+\\s?)+)\\s+(-?[\\d,]+\\.\\d{2})$';
+
+    const result = CreatePdfTemplateSchema.safeParse({ ...definition, rowPattern });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['rowPattern']);
+    expect(() => compilePdfTemplate('tpl-unsafe', { ...definition, rowPattern })).toThrow(/Nested repeats/);
+  });
+
+  it('refuses row patterns with overlapping alternatives or wildcard runs', () => {
+    const alternation = '^(\\d{4}-\\d{2}-\\d{2})\\s+((?:\\w|\\w\\w)+)\\s+(-?[\\d,]+\\.\\d{2})$';
+    const wildcards = '^(\\d{4}-\\d{2}-\\d{2}).*.*.*.*(.+?)\\s+(-?[\\d,]+\\.\\d{2})$';
+
+    for (const rowPattern of [alternation, wildcards]) {
+      const result = CreatePdfTemplateSchema.safeParse({ ...definition, rowPattern });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['rowPattern']);
+    }
+    expect(() => compilePdfTemplate('tpl-unsafe', { ...definition, rowPattern: alternation })).toThrow(/Repeated alternatives/);
+    expect(() => compilePdfTemplate('tpl-unsafe', { ...definition, rowPattern: wildcards })).toThrow(/Back-to-back repeats/);
+  });
+
+  it('only matches the start of overlong statement lines', () => {
+    const template = compilePdfTemplate('tpl-1', definition);
+
+    expect(parsePdfLine(template, `2024-03-01 ${'X'.repeat(300)} -4.20`)).toBeNull();
+    expect(parsePdfLine(template, '2024-03-01 CORNER SHOP -4.20')).toMatchObject({ amount: 4.2 });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PdfReport, toWinAnsi } from '../services/pdfReport';
+
+describe('toWinAnsi', () => {
+  it('keeps Latin-1 and currency symbols but drops emoji', () => {
+    expect(toWinAnsi('🍔 Café £12 €5')).toBe('Café £12 €5');
+    expect(toWinAnsi('line one\nline two')).toBe('line one line two');
+  });
+});
+
+describe('PdfReport', () => {
+  it('formats money with the tenant currency symbol', async () => {
+    const report = await PdfReport.create({ title: 'Test', currency: 'EUR', currencySymbol: '€' });
+
+    expect(report.formatMoney(1234.5)).toBe('€1,234.50');
+    expect(report.formatMoney(-20)).toBe('-€20.00');
+  });
+
+  it('falls back to the currency code when the symbol cannot be drawn', async () => {
+    const report = await PdfReport.create({ title: 'Test', currency: 'INR', currencySymbol: '₹' });
+
+    expect(report.formatMoney(10)).toBe('INR 10.00');
+  });
+
+  it('renders a valid PDF that flows long tables onto new pages', async () => {
+    const report = await PdfReport.create({ title: 'Transaction Report', subtitle: 'Period: all dates', currencySymbol: '£' });
+
+    report.addSection('Summary');
+    report.addSummary([
+      { label: 'Income', value: report.formatMoney(1000), tone: 'income' },
+      { label: 'Expenses', value: report.formatMoney(400), tone: 'expense' },
+    ]);
+    report.addBarChart([
+      { label: '🛒 Groceries', value: 250 },
+      { label: 'Transport', value: 150 },
+    ]);
+    report.addColumnChart([{ label: '2024-01', values: [1000, 400] }], ['Income', 'Expenses']);
+    report.addTable(
+      [
+        { header: 'Date', width: 1 },
+        { header: 'Description', width: 3 },
+        { header: 'Amount', width: 1, align: 'right' },
+      ],
+      Array.from({ length: 120 }, (_, i) => ['2024-01-01', `Payment ${i} with a rather long description that gets truncated`, report.formatMoney(i)])
+    );
+
+    const bytes = await report.save();
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe('%PDF-');
+
+    const loaded = await PDFDocument.load(bytes);
+    expect(loaded.getPageCount()).toBeGreaterThan(1);
+    expect(loaded.getTitle()).toBe('Transaction Report');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { compilePdfTemplate } from '@finhome360/shared';
+import { findStatementBalancePoint, signedAmount, summarizeReconciliation } from '../services/reconciliation';
+import { parseBankPdfText, parseMT940Statement } from '../utils/fileParser';
+import { MT940_STATEMENT } from './fixtures/statements';
+
+describe('signedAmount', () => {
+  it('credits income and debits expenses', () => {
+    expect(signedAmount({ id: 't1', amount: 25, type: 'income' })).toBe(25);
+    expect(signedAmount({ id: 't2', amount: 25, type: 'expense' })).toBe(-25);
+  });
+
+  it('debits the sending side of a transfer only', () => {
+    expect(signedAmount({ id: 'from', amount: 100, type: 'transfer' }, 'from')).toBe(-100);
+    expect(signedAmount({ id: 'to', amount: 100, type: 'transfer' }, 'from')).toBe(100);
+  });
+});
+
+describe('summarizeReconciliation', () => {
+  it('reaches zero difference when the cleared transactions explain the statement', () => {
+    const summary = summarizeReconciliation(1000, 1204.7, [250, -45.3]);
+
+    expect(summary).toEqual({
+      openingBalance: 1000,
+      clearedCount: 2,
+      clearedTotal: 204.7,
+      clearedBalance: 1204.7,
+      statementBalance: 1204.7,
+      difference: 0,
+      balanced: true,
+    });
+  });
+
+  it('reports what is still missing', () => {
+    const summary = summarizeReconciliation(0, -59.99, [-10, -0.1, -0.2]);
+
+    expect(summary.difference).toBe(-49.69);
+    expect(summary.balanced).toBe(false);
+  });
+});
+
+describe('findStatementBalancePoint', () => {
+  it('uses the latest MT940 closing balance', () => {
+    const { transactions, statements } = parseMT940Statement(MT940_STATEMENT);
+
+    expect(findStatementBalancePoint(transactions, statements)).toEqual({
+      date: new Date(Date.UTC(2024, 2, 4)),
+      balance: 3454.5,
+    });
+  });
+
+  it('uses the running balance of the last PDF row', () => {
+    const template = compilePdfTemplate('with-balance', {
+      displayName: 'Running balance',
+      detectKeywords: ['Statement'],
+      rowPattern: '^(\\d{2}/\\d{2}/\\d{4})\\s+(.+?)\\s+(-?[\\d,]+\\.\\d{2})\\s+(-?[\\d,]+\\.\\d{2})$',
+      dateFormat: 'dd/MM/yyyy',
+      amountStyle: 'signed',
+      groups: { date: 1, description: 2, amount: 3, balance: 4 },
+    });
+    const text = ['Statement', '02/03/2024 COFFEE -3.10 996.90', '02/03/2024 REFUND 12.00 1,008.90', '01/03/2024 RENT -500.00 1,000.00'].join('\n');
+    const { transactions } = parseBankPdfText(text, { template });
+
+    expect(transactions[0].balance).toBe(996.9);
+    expect(findStatementBalancePoint(transactions)).toEqual({ date: transactions[1].date, balance: 1008.9 });
+  });
+
+  it('returns null when the statement has no balances', () => {
+    expect(findStatementBalancePoint([{ date: new Date(), description: 'x', amount: 1, type: 'income' }])).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { accounts, categories, categorizationRules, transactions } from '../db';
+import transactionsRouter from '../routes/transactions';
+import transfersRouter from '../routes/transfers';
+import { applyRulesToTransactions } from '../services/categorizationRules';
+import { autoMatchTransfers } from '../services/transfers';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, signTestToken, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+
+describe('reconciliation lock', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: SECRET } as Env['Bindings'];
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  // A tenant with two accounts and a matching debit and credit; the debit is reconciled
+  async function setup() {
+    const { tenantId, userId } = await seedTenant(testDb.db);
+    const now = new Date();
+    const [current, savings, categoryId, otherCategoryId] = Array.from({ length: 4 }, () => crypto.randomUUID());
+    await testDb.db
+      .insert(accounts)
+      .values([
+        { id: current, tenantId, name: 'Current', type: 'savings', createdAt: now, updatedAt: now },
+        { id: savings, tenantId, name: 'Savings', type: 'savings', createdAt: now, updatedAt: now },
+      ])
+      .run();
+    await testDb.db
+      .insert(categories)
+      .values([
+        { id: categoryId, tenantId, name: 'General', type: 'expense', color: '#999999', createdAt: now, updatedAt: now },
+        { id: otherCategoryId, tenantId, name: 'Savings moves', type: 'expense', color: '#0000ff', createdAt: now, updatedAt: now },
+      ])
+      .run();
+    const base = { tenantId, categoryId, amount: 200, date: now, createdAt: now, updatedAt: now };
+    const debit = { ...base, id: crypto.randomUUID(), accountId: current, description: 'TO SAVINGS', type: 'expense' as const, reconciledAt: now };
+    const credit = { ...base, id: crypto.randomUUID(), accountId: savings, description: 'FROM CURRENT', type: 'income' as const };
+    await testDb.db.insert(transactions).values([debit, credit]).run();
+
+    const token = await signTestToken(SECRET, tenantId, userId);
+    const request = (router: typeof transactionsRouter, path: string, method: string, body: unknown) =>
+      router.request(path, { method, headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify(body) }, env);
+
+    return { tenantId, debit, credit, otherCategoryId, request };
+  }
+
+  async function load(id: string) {
+    return (await testDb.db.select().from(transactions).where(eq(transactions.id, id)).get())!;
+  }
+
+  it('applies only category and note changes from rules to reconciled transactions', async () => {
+    const { tenantId, debit, otherCategoryId } = await setup();
+    const now = new Date();
+    await testDb.db
+      .insert(categorizationRules)
+      .values({
+        id: crypto.randomUUID(),
+        tenantId,
+        name: 'Savings moves',
+        descriptionPattern: 'savings',
+        setCategoryId: otherCategoryId,
+        renameTo: 'Savings transfer',
+        markAsTransfer: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .run();
+
+    const outcomes = await applyRulesToTransactions(testDb.db, tenantId, [await load(debit.id)]);
+
+    expect(outcomes[0].changes).toEqual({ categoryId: otherCategoryId });
+    expect(await load(debit.id)).toMatchObject({ categoryId: otherCategoryId, description: 'TO SAVINGS', type: 'expense' });
+  });
+
+  it('refuses to link a reconciled transaction as a transfer', async () => {
+    const { debit, credit, request } = await setup();
+
+    const response = await request(transfersRouter, '/link', 'POST', { fromTransactionId: debit.id, toTransactionId: credit.id });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: { code: 'TRANSACTION_RECONCILED' } });
+    expect((await load(debit.id)).type).toBe('expense');
+  });
+
+  it('leaves reconciled transactions out of automatic transfer matching', async () => {
+    const { tenantId, debit, credit } = await setup();
+
+    expect(await autoMatchTransfers(testDb.db, tenantId, [await load(credit.id)])).toEqual([]);
+    expect(await autoMatchTransfers(testDb.db, tenantId, [await load(debit.id)])).toEqual([]);
+    expect((await load(credit.id)).type).toBe('income');
+  });
+
+  it('refuses to clear all transactions while any is reconciled', async () => {
+    const { debit, credit, request } = await setup();
+
+    const response = await request(transactionsRouter, '/clear', 'DELETE', { confirm: 'DELETE_ALL_TRANSACTIONS' });
+
+    expect(response.status).toBe(409);
+    expect(await load(debit.id)).toBeDefined();
+    expect(await load(credit.id)).toBeDefined();
+  });
+
+  it('ignores reconciliation fields sent to the update endpoint', async () => {
+    const { credit, request } = await setup();
+
+    const response = await request(transactionsRouter, `/${credit.id}`, 'PUT', { notes: 'Moved', reconciledAt: new Date().toISOString() });
+
+    expect(response.status).toBe(200);
+    expect(await load(credit.id)).toMatchObject({ notes: 'Moved', reconciledAt: null });
+  });
+});
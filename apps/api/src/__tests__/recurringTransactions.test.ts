@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { isFinished, listOccurrences, nextOccurrence } from '../services/recurringTransactions';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day, 9));
+
+describe('nextOccurrence', () => {
+  it('adds days for daily, weekly and biweekly templates', () => {
+    expect(nextOccurrence(utc(2024, 12, 30), 'daily')).toEqual(utc(2024, 12, 31));
+    expect(nextOccurrence(utc(2024, 12, 30), 'weekly')).toEqual(utc(2025, 1, 6));
+    expect(nextOccurrence(utc(2024, 12, 30), 'biweekly')).toEqual(utc(2025, 1, 13));
+  });
+
+  it('clamps month ends and returns to the anchor day', () => {
+    const feb = nextOccurrence(utc(2024, 1, 31), 'monthly');
+    expect(feb).toEqual(utc(2024, 2, 29));
+    expect(nextOccurrence(feb, 'monthly', 31)).toEqual(utc(2024, 3, 31));
+    expect(nextOccurrence(utc(2023, 1, 31), 'monthly')).toEqual(utc(2023, 2, 28));
+  });
+
+  it('steps quarters and years across year ends', () => {
+    expect(nextOccurrence(utc(2024, 11, 30), 'quarterly')).toEqual(utc(2025, 2, 28));
+    expect(nextOccurrence(utc(2024, 2, 29), 'yearly')).toEqual(utc(2025, 2, 28));
+    expect(nextOccurrence(utc(2025, 2, 28), 'yearly', 29)).toEqual(utc(2026, 2, 28));
+  });
+});
+
+describe('listOccurrences', () => {
+  const template = {
+    frequency: 'monthly' as const,
+    startDate: utc(2024, 1, 31),
+    nextDate: utc(2024, 1, 31),
+    endDate: null,
+  };
+
+  it('catches up on every missed period', () => {
+    expect(listOccurrences(template, utc(2024, 4, 29))).toEqual([
+      utc(2024, 1, 31),
+      utc(2024, 2, 29),
+      utc(2024, 3, 31),
+    ]);
+  });
+
+  it('stops at the end date and the limit', () => {
+    expect(listOccurrences({ ...template, endDate: utc(2024, 3, 1) }, utc(2024, 12, 31))).toHaveLength(2);
+    expect(listOccurrences(template, utc(2030, 1, 1), 5)).toHaveLength(5);
+  });
+});
+
+describe('isFinished', () => {
+  const now = utc(2024, 6, 1);
+
+  it('finishes once the next date passes the end date', () => {
+    expect(isFinished({ nextDate: utc(2024, 5, 1), endDate: utc(2024, 4, 30), autoCreate: true }, now)).toBe(true);
+    expect(isFinished({ nextDate: utc(2024, 4, 1), endDate: utc(2024, 4, 30), autoCreate: true }, now)).toBe(false);
+    expect(isFinished({ nextDate: utc(2024, 4, 1), endDate: null, autoCreate: true }, now)).toBe(false);
+  });
+
+  it('finishes templates that are not posted automatically after their end date', () => {
+    expect(isFinished({ nextDate: utc(2024, 4, 1), endDate: utc(2024, 4, 30), autoCreate: false }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { scheduledReportRuns, scheduledReports } from '../db';
+import { EmailService } from '../services/email';
+import { ExportService } from '../services/export.service';
+import { createReportDownloadUrl, verifyReportDownload } from '../services/reportDownloads';
+import { ScheduledReportRunner } from '../services/scheduledReportRunner.service';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ScheduledReportRunner', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+  let tenantId: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = {
+      DB: testDb.d1,
+      FILES: testDb.files,
+      JWT_SECRET: SECRET,
+      FRONTEND_URL: 'https://app.example.com',
+      API_URL: 'https://api.example.com',
+    } as Env['Bindings'];
+    ({ tenantId, userId } = await seedTenant(testDb.db));
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await testDb.db.delete(scheduledReportRuns).run();
+    await testDb.db.delete(scheduledReports).run();
+  });
+
+  async function addReport(overrides: Partial<typeof scheduledReports.$inferInsert> = {}) {
+    const now = new Date();
+    const report = {
+      id: crypto.randomUUID(),
+      tenantId,
+      userId,
+      name: 'Monthly spending',
+      reportType: 'transactions' as const,
+      format: 'csv' as const,
+      frequency: 'daily' as const,
+      deliveryEmail: 'reports@example.com',
+      isEnabled: true,
+      nextRunAt: new Date(now.getTime() - HOUR_MS),
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    };
+    await testDb.db.insert(scheduledReports).values(report).run();
+    return report;
+  }
+
+  function mockExport(impl?: () => Promise<any>) {
+    return vi.spyOn(ExportService, 'exportTransactions').mockImplementation(
+      impl ?? (async () => ({ filename: 'transactions.csv', mimeType: 'text/csv', data: 'date,amount\n2025-01-01,10\n2025-01-02,20\n' }))
+    );
+  }
+
+  function mockEmail(sent = true) {
+    return vi.spyOn(EmailService.prototype, 'sendScheduledReportEmail').mockResolvedValue(sent);
+  }
+
+  // Retries without waiting unless a delay is given
+  function runner(retryDelayMs = 0) {
+    return new ScheduledReportRunner(testDb.db, env, retryDelayMs);
+  }
+
+  async function runsFor(reportId: string) {
+    return testDb.db.select().from(scheduledReportRuns).where(eq(scheduledReportRuns.reportId, reportId)).all();
+  }
+
+  it('runs only enabled reports whose next run time has passed', async () => {
+    mockExport();
+    mockEmail();
+    const due = await addReport();
+    const future = await addReport({ nextRunAt: new Date(Date.now() + HOUR_MS) });
+    const disabled = await addReport({ isEnabled: false });
+
+    const summary = await runner().runDueReports();
+
+    expect(summary).toEqual({ processed: 1, succeeded: 1, failed: 0 });
+    expect(await runsFor(due.id)).toHaveLength(1);
+    expect(await runsFor(future.id)).toHaveLength(0);
+    expect(await runsFor(disabled.id)).toHaveLength(0);
+  });
+
+  it('stores the file and emails a signed link to it', async () => {
+    mockExport();
+    const email = mockEmail();
+    const report = await addReport();
+
+    await runner().runDueReports();
+
+    const [run] = await runsFor(report.id);
+    expect(run.status).toBe('completed');
+    expect(run.recordCount).toBe(2);
+    expect(run.retryCount).toBe(0);
+
+    const stored = await testDb.files.get(run.fileKey!);
+    expect(await stored!.text()).toBe('date,amount\n2025-01-01,10\n2025-01-02,20\n');
+    expect(run.fileSizeBytes).toBe(stored!.size);
+
+    const [to, data] = email.mock.calls[0];
+    expect(to).toBe('reports@example.com');
+    const url = new URL(data.downloadUrl);
+    expect(url.origin).toBe('https://api.example.com');
+    expect(url.pathname).toBe(`/api/scheduled-reports/runs/${run.id}/file`);
+    expect(await verifyReportDownload(SECRET, run.id, url.searchParams.get('expires')!, url.searchParams.get('signature')!)).toBe(true);
+
+    const [saved] = await testDb.db.select().from(scheduledReports).where(eq(scheduledReports.id, report.id)).all();
+    expect(saved.lastRunStatus).toBe('success');
+    expect(saved.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('retries a failed attempt and records the retry count', async () => {
+    const exportSpy = mockExport();
+    exportSpy.mockRejectedValueOnce(new Error('D1 timeout'));
+    mockEmail();
+    const report = await addReport();
+
+    const summary = await runner().runDueReports();
+
+    expect(summary.succeeded).toBe(1);
+    expect(exportSpy).toHaveBeenCalledTimes(2);
+    const [run] = await runsFor(report.id);
+    expect(run.status).toBe('completed');
+    expect(run.retryCount).toBe(1);
+  });
+
+  it('waits longer before each retry', async () => {
+    mockExport();
+    mockEmail(false);
+    await addReport();
+    const timeout = vi.spyOn(globalThis, 'setTimeout');
+
+    await runner(20).runDueReports();
+
+    const delays = timeout.mock.calls.map(([, delay]) => delay).filter(delay => delay === 20 || delay === 40);
+    expect(delays).toEqual([20, 40]);
+  });
+
+  it('marks the run and report failed after the last attempt', async () => {
+    mockExport();
+    const email = mockEmail(false);
+    const report = await addReport();
+    const other = await addReport({ name: 'Second report' });
+
+    const summary = await runner().runDueReports();
+
+    expect(summary).toEqual({ processed: 2, succeeded: 0, failed: 2 });
+    expect(email).toHaveBeenCalledTimes(6);
+
+    const [run] = await runsFor(report.id);
+    expect(run.status).toBe('failed');
+    expect(run.retryCount).toBe(2);
+    expect(run.errorMessage).toBe('Failed to send report email to reports@example.com');
+
+    const [saved] = await testDb.db.select().from(scheduledReports).where(eq(scheduledReports.id, report.id)).all();
+    expect(saved.lastRunStatus).toBe('failed');
+    expect(saved.lastError).toBe(run.errorMessage);
+    expect(saved.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(await runsFor(other.id)).toHaveLength(1);
+  });
+});
+
+describe('report download links', () => {
+  it('rejects tampered, foreign and expired links', async () => {
+    const now = new Date('2025-03-01T00:00:00Z');
+    const url = new URL(await createReportDownloadUrl('https://api.example.com', SECRET, 'run-1', now));
+    const expires = url.searchParams.get('expires')!;
+    const signature = url.searchParams.get('signature')!;
+
+    expect(await verifyReportDownload(SECRET, 'run-1', expires, signature, now)).toBe(true);
+    expect(await verifyReportDownload(SECRET, 'run-2', expires, signature, now)).toBe(false);
+    expect(await verifyReportDownload('other-secret', 'run-1', expires, signature, now)).toBe(false);
+    expect(await verifyReportDownload(SECRET, 'run-1', String(Number(expires) + 60), signature, now)).toBe(false);
+    expect(await verifyReportDownload(SECRET, 'run-1', expires, 'zz', now)).toBe(false);
+    expect(await verifyReportDownload(SECRET, 'run-1', expires, signature, new Date('2025-03-09T00:00:00Z'))).toBe(false);
+  });
+
+  it('signs with a key derived from the secret rather than the secret itself', async () => {
+    const now = new Date('2025-03-01T00:00:00Z');
+    const url = new URL(await createReportDownloadUrl('https://api.example.com', SECRET, 'run-1', now));
+    const expires = url.searchParams.get('expires')!;
+
+    const secretKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const withSecret = await crypto.subtle.sign('HMAC', secretKey, new TextEncoder().encode(`report-run:run-1:${expires}`));
+    const hex = Array.from(new Uint8Array(withSecret), byte => byte.toString(16).padStart(2, '0')).join('');
+
+    expect(url.searchParams.get('signature')).not.toBe(hex);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { parseXLS } from '../utils/fileParser';
+import { excelSerialToDate, isDateFormat, readWorkbook } from '../utils/spreadsheetParser';
+
+const encoder = new TextEncoder();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data.slice()).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Minimal zip writer; worksheets are deflated like real Excel output
+ */
+async function createZip(files: Record<string, string>): Promise<ArrayBuffer> {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const deflate = name.includes('worksheets');
+    const data = deflate ? await deflateRaw(raw) : raw;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, deflate ? 8 : 0, true);
+    local.setUint32(14, crc32(raw), true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(10, deflate ? 8 : 0, true);
+    central.setUint32(16, crc32(raw), true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = concat(centralParts);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralDirectory.length, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...localParts, centralDirectory, new Uint8Array(end.buffer)]).buffer as ArrayBuffer;
+}
+
+function sheetXml(rows: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+async function createXlsx(): Promise<ArrayBuffer> {
+  return createZip({
+    '[Content_Types].xml': '<Types/>',
+    '_rels/.rels': '<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>',
+    'xl/workbook.xml': '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Notes" sheetId="1" r:id="rId1"/><sheet name="Statement" sheetId="2" r:id="rId2"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="worksheets/sheet2.xml"/><Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/></Relationships>',
+    'xl/sharedStrings.xml': '<sst><si><t>Date</t></si><si><t>Description</t></si><si><t>Amount</t></si><si><r><t>Coffee </t></r><r><t>&amp; Cake</t></r></si><si><t>Salary</t></si></sst>',
+    'xl/styles.xml': '<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy;@"/></numFmts><cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="4"/></cellXfs></styleSheet>',
+    'xl/worksheets/sheet1.xml': sheetXml(['<row r="1"><c r="A1" t="inlineStr"><is><t>Exported from online banking</t></is></c></row>']),
+    'xl/worksheets/sheet2.xml': sheetXml([
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Current Account Statement</t></is></c></row>',
+      '<row r="3"><c r="A3" t="s"><v>0</v></c><c r="B3" t="s"><v>1</v></c><c r="C3" t="s"><v>2</v></c></row>',
+      '<row r="4"><c r="A4" s="1"><v>45323</v></c><c r="B4" t="s"><v>3</v></c><c r="C4" s="2"><v>-5.5</v></c></row>',
+      '<row r="5"><c r="A5" s="1"><v>45324</v></c><c r="B5" t="s"><v>4</v></c><c r="C5" s="2"><v>2000</v></c></row>',
+    ]),
+  });
+}
+
+// BIFF8 record: type, length, payload
+function biff(type: number, payload: number[]): number[] {
+  return [type & 0xff, type >> 8, payload.length & 0xff, payload.length >> 8, ...payload];
+}
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+const f64 = (value: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value, true);
+  return Array.from(new Uint8Array(view.buffer));
+};
+const compressedString = (text: string) => [...u16(text.length), 0, ...Array.from(text, ch => ch.charCodeAt(0))];
+
+/**
+ * Build a BIFF8 workbook stream inside a minimal OLE compound file
+ */
+function createXls(): ArrayBuffer {
+  const strings = ['Date', 'Description', 'Amount', 'Coffee Shop', 'Salary'];
+  const sst = [...u32(strings.length), ...u32(strings.length), ...strings.flatMap(compressedString)];
+  const bof = (type: number) => biff(0x0809, [...u16(0x0600), ...u16(type), ...Array(12).fill(0)]);
+
+  const sheetName = 'Statement';
+  const globalsWithoutSheet = [
+    ...bof(0x0005),
+    ...biff(0x00e0, [...u16(0), ...u16(0), ...Array(16).fill(0)]), // XF 0: General
+    ...biff(0x00e0, [...u16(0), ...u16(14), ...Array(16).fill(0)]), // XF 1: built-in date format
+    ...biff(0x00fc, sst),
+  ];
+  const boundSheetSize = 4 + 8 + sheetName.length;
+  const eof = biff(0x000a, []);
+  const sheetOffset = globalsWithoutSheet.length + boundSheetSize + eof.length;
+
+  const globals = [
+    ...globalsWithoutSheet,
+    ...biff(0x0085, [...u32(sheetOffset), 0, 0, sheetName.length, 0, ...Array.from(sheetName, ch => ch.charCodeAt(0))]),
+    ...eof,
+  ];
+
+  const labelSst = (row: number, col: number, index: number) => biff(0x00fd, [...u16(row), ...u16(col), ...u16(0), ...u32(index)]);
+  const sheet = [
+    ...bof(0x0010),
+    ...labelSst(0, 0, 0),
+    ...labelSst(0, 1, 1),
+    ...labelSst(0, 2, 2),
+    ...biff(0x0203, [...u16(1), ...u16(0), ...u16(1), ...f64(45323)]),
+    ...labelSst(1, 1, 3),
+    ...biff(0x027e, [...u16(1), ...u16(2), ...u16(0), ...u32(((-550 << 2) | 0x03) >>> 0)]), // RK: -5.50
+    ...biff(0x027e, [...u16(2), ...u16(0), ...u16(1), ...u32(((45324 << 2) | 0x02) >>> 0)]),
+    ...labelSst(2, 1, 4),
+    ...biff(0x0203, [...u16(2), ...u16(2), ...u16(0), ...f64(2000)]),
+    ...eof,
+  ];
+
+  // Keep the stream above the 4096 byte mini stream cutoff
+  const workbook = new Uint8Array(Math.max(4096, Math.ceil((globals.length + sheet.length) / 512) * 512));
+  workbook.set([...globals, ...sheet]);
+
+  const sectorSize = 512;
+  const streamSectors = workbook.length / sectorSize;
+  const file = new Uint8Array(sectorSize * (3 + streamSectors));
+  const view = new DataView(file.buffer);
+
+  // Header
+  file.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  view.setUint16(0x18, 0x3e, true);
+  view.setUint16(0x1a, 3, true);
+  view.setUint16(0x1c, 0xfffe, true);
+  view.setUint16(0x1e, 9, true);
+  view.setUint16(0x20, 6, true);
+  view.setUint32(0x2c, 1, true);
+  view.setUint32(0x30, 1, true);
+  view.setUint32(0x38, 4096, true);
+  view.setUint32(0x3c, 0xfffffffe, true);
+  view.setUint32(0x44, 0xfffffffe, true);
+  for (let i = 0; i < 109; i++) view.setUint32(0x4c + i * 4, i === 0 ? 0 : 0xffffffff, true);
+
+  // Sector 0: allocation table. Sector 1: directory. Sectors 2+: workbook stream
+  const fatOffset = sectorSize;
+  for (let i = 0; i < sectorSize / 4; i++) view.setUint32(fatOffset + i * 4, 0xffffffff, true);
+  view.setUint32(fatOffset, 0xfffffffd, true);
+  view.setUint32(fatOffset + 4, 0xfffffffe, true);
+  for (let i = 0; i < streamSectors; i++) {
+    view.setUint32(fatOffset + (2 + i) * 4, i === streamSectors - 1 ? 0xfffffffe : 3 + i, true);
+  }
+
+  const writeEntry = (index: number, name: string, type: number, child: number, start: number, size: number) => {
+    const base = sectorSize * 2 + index * 128;
+    Array.from(name).forEach((ch, i) => view.setUint16(base + i * 2, ch.charCodeAt(0), true));
+    view.setUint16(base + 64, (name.length + 1) * 2, true);
+    view.setUint8(base + 66, type);
+    view.setUint32(base + 68, 0xffffffff, true);
+    view.setUint32(base + 72, 0xffffffff, true);
+    view.setUint32(base + 76, child, true);
+    view.setUint32(base + 116, start, true);
+    view.setUint32(base + 120, size, true);
+  };
+  writeEntry(0, 'Root Entry', 5, 1, 0xfffffffe, 0);
+  writeEntry(1, 'Workbook', 2, 0xffffffff, 2, workbook.length);
+
+  file.set(workbook, sectorSize * 3);
+  return file.buffer;
+}
+
+describe('spreadsheet helpers', () => {
+  it('converts Excel serial dates in both date systems', () => {
+    expect(excelSerialToDate(45323).toISOString().slice(0, 10)).toBe('2024-02-01');
+    expect(excelSerialToDate(43861, true).toISOString().slice(0, 10)).toBe('2024-02-01');
+  });
+
+  it('recognises date number formats', () => {
+    expect(isDateFormat(14)).toBe(true);
+    expect(isDateFormat(164, 'dd/mm/yyyy;@')).toBe(true);
+    expect(isDateFormat(165, '[$£-809]#,##0.00')).toBe(false);
+    expect(isDateFormat(166, '#,##0.00 "days"')).toBe(false);
+  });
+});
+
+describe('parseXLS', () => {
+  it('reads an .xlsx workbook, skipping title rows and sheets without transactions', async () => {
+    const sheets = await readWorkbook(await createXlsx());
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Notes', 'Statement']);
+
+    const transactions = await parseXLS(await createXlsx());
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({ description: 'Coffee & Cake', amount: 5.5, type: 'expense' });
+    expect(transactions[0].date.getFullYear()).toBe(2024);
+    expect(transactions[0].date.getMonth()).toBe(1);
+    expect(transactions[0].date.getDate()).toBe(1);
+    expect(transactions[1]).toMatchObject({ description: 'Salary', amount: 2000, type: 'income' });
+  });
+
+  it('reads a chosen sheet and reports unknown sheet names', async () => {
+    const workbook = await createXlsx();
+
+    expect(await parseXLS(workbook, { sheet: 'notes' })).toEqual([]);
+    await expect(parseXLS(workbook, { sheet: 'Missing' })).rejects.toThrow('Available sheets: Notes, Statement');
+  });
+
+  it('reads a legacy BIFF8 .xls workbook', async () => {
+    const transactions = await parseXLS(createXls());
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({ description: 'Coffee Shop', amount: 5.5, type: 'expense' });
+    expect(transactions[0].date.getDate()).toBe(1);
+    expect(transactions[1]).toMatchObject({ description: 'Salary', amount: 2000, type: 'income' });
+    expect(transactions[1].date.getDate()).toBe(2);
+  });
+
+  it('falls back to tab-separated text saved with an .xls extension', async () => {
+    const text = 'Date\tDescription\tAmount\n01/02/2024\tCoffee Shop\t-5.50\n';
+    const transactions = await parseXLS(encoder.encode(text).buffer as ArrayBuffer);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ description: 'Coffee Shop', amount: 5.5, type: 'expense' });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { BulkTagTransactionsSchema, UpdateTagSchema } from '@finhome360/shared';
+import { accounts, categories, transactionSplits, transactions } from '../db';
+import transactionsRouter from '../routes/transactions';
+import { ExportService } from '../services/export.service';
+import {
+  ensureTags,
+  getTagTotals,
+  normalizeTagName,
+  normalizeTagNames,
+  parseTagFilter,
+  parseTagMatch,
+  tagTransactions,
+} from '../services/tags';
+import type { Env } from '../types';
+import { createTestDb, seedTenant, signTestToken, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+
+describe('normalizeTagName', () => {
+  it('matches names case-insensitively and ignores extra whitespace', () => {
+    expect(normalizeTagName('  Holiday   2024 ')).toBe('holiday 2024');
+    expect(normalizeTagName('Tax-Deductible')).toBe('tax-deductible');
+  });
+
+  it('drops duplicates and blank names', () => {
+    expect(normalizeTagNames(['Work', 'work ', ' ', 'Kids'])).toEqual(['work', 'kids']);
+  });
+});
+
+describe('parseTagFilter', () => {
+  it('splits a comma separated query parameter', () => {
+    expect(parseTagFilter('Groceries, holiday ,,groceries')).toEqual(['groceries', 'holiday']);
+    expect(parseTagFilter(undefined)).toEqual([]);
+    expect(parseTagFilter('')).toEqual([]);
+  });
+
+  it('matches any tag unless all are asked for', () => {
+    expect(parseTagMatch('all')).toBe('all');
+    expect(parseTagMatch('any')).toBe('any');
+    expect(parseTagMatch(undefined)).toBe('any');
+  });
+});
+
+describe('tag schemas', () => {
+  it('requires transactions and tag names for bulk tagging', () => {
+    expect(BulkTagTransactionsSchema.safeParse({ transactionIds: ['t1'], tags: ['work'] }).success).toBe(true);
+    expect(BulkTagTransactionsSchema.safeParse({ transactionIds: [], tags: ['work'] }).success).toBe(false);
+    expect(BulkTagTransactionsSchema.safeParse({ transactionIds: ['t1'], tags: ['  '] }).success).toBe(false);
+  });
+
+  it('requires a name or a color on update', () => {
+    expect(UpdateTagSchema.safeParse({}).success).toBe(false);
+    expect(UpdateTagSchema.safeParse({ color: null }).success).toBe(true);
+    expect(UpdateTagSchema.safeParse({ color: 'red' }).success).toBe(false);
+  });
+});
+
+describe('tagged transactions', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+  let tenantId: string;
+  let token: string;
+
+  // Adds a tenant with one account and category; returns a helper that adds a tagged expense
+  async function seedHousehold() {
+    const seeded = await seedTenant(testDb.db);
+    const now = new Date();
+    const accountId = crypto.randomUUID();
+    const categoryId = crypto.randomUUID();
+    await testDb.db.insert(accounts).values({ id: accountId, tenantId: seeded.tenantId, name: 'Savings', type: 'savings', createdAt: now, updatedAt: now }).run();
+    await testDb.db
+      .insert(categories)
+      .values({ id: categoryId, tenantId: seeded.tenantId, name: 'Travel', type: 'expense', color: '#0000ff', createdAt: now, updatedAt: now })
+      .run();
+
+    const add = async (description: string, amount: number, tagNames: string[], extra: Partial<typeof transactions.$inferInsert> = {}) => {
+      const id = crypto.randomUUID();
+      await testDb.db
+        .insert(transactions)
+        .values({ id, tenantId: seeded.tenantId, accountId, categoryId, amount, description, date: now, type: 'expense', createdAt: now, updatedAt: now, ...extra })
+        .run();
+      if (tagNames.length > 0) {
+        const tagged = await ensureTags(testDb.db, seeded.tenantId, tagNames);
+        await tagTransactions(testDb.db, seeded.tenantId, [id], tagged.map(tag => tag.id));
+      }
+      return id;
+    };
+
+    return { ...seeded, categoryId, add };
+  }
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: SECRET } as Env['Bindings'];
+
+    const household = await seedHousehold();
+    ({ tenantId } = household);
+    token = await signTestToken(SECRET, tenantId, household.userId);
+
+    await household.add('Hotel', 120, ['Holiday', 'work']);
+    const flights = await household.add('Flights', 300, ['holiday']);
+    await household.add('Client lunch', 45, ['work']);
+    await household.add('Deposit refund', 50, ['holiday'], { type: 'income' });
+    await household.add('Old cruise', 70, ['holiday'], { archivedAt: new Date() });
+    await household.add('Groceries', 30, []);
+
+    // Flights is split across two lines; it must still count once per tag
+    const now = new Date();
+    await testDb.db
+      .insert(transactionSplits)
+      .values([
+        { id: crypto.randomUUID(), tenantId, transactionId: flights, categoryId: household.categoryId, amount: 200, notes: 'Outbound', createdAt: now, updatedAt: now },
+        { id: crypto.randomUUID(), tenantId, transactionId: flights, categoryId: household.categoryId, amount: 100, notes: 'Return', createdAt: now, updatedAt: now },
+      ])
+      .run();
+
+    // Another household with a tag of the same name
+    const neighbour = await seedHousehold();
+    await neighbour.add('Neighbour hotel', 999, ['holiday', 'work']);
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  async function listDescriptions(query: string) {
+    const response = await transactionsRouter.request(`/?${query}`, { headers: { Authorization: `Bearer ${token}` } }, env);
+    expect(response.status).toBe(200);
+    const { data } = (await response.json()) as { data: { description: string }[] };
+    return data.map(row => row.description).sort();
+  }
+
+  it('lists transactions carrying any of the requested tags', async () => {
+    expect(await listDescriptions('tags=holiday,WORK')).toEqual(['Client lunch', 'Deposit refund', 'Flights', 'Hotel']);
+    expect(await listDescriptions('tags=holiday&includeArchived=true')).toEqual(['Deposit refund', 'Flights', 'Hotel', 'Old cruise']);
+  });
+
+  it('lists transactions carrying all of the requested tags', async () => {
+    expect(await listDescriptions('tags=holiday,work&tagMatch=all')).toEqual(['Hotel']);
+    expect(await listDescriptions('tags=holiday,unknown&tagMatch=all')).toEqual([]);
+  });
+
+  it('totals each tag once per transaction, leaving archived rows out unless asked', async () => {
+    const totals = await getTagTotals(testDb.db, tenantId);
+    expect(totals).toEqual([
+      expect.objectContaining({ name: 'holiday', expense: 420, income: 50, net: -370, transactionCount: 3 }),
+      expect.objectContaining({ name: 'work', expense: 165, income: 0, net: -165, transactionCount: 2 }),
+    ]);
+
+    const withArchived = await getTagTotals(testDb.db, tenantId, { includeArchived: true });
+    expect(withArchived[0]).toMatchObject({ name: 'holiday', expense: 490, transactionCount: 4 });
+  });
+
+  it('includes tags in CSV and JSON exports', async () => {
+    const csv = await ExportService.exportTransactions({ env }, tenantId, { format: 'csv' });
+    const csvLines = String(csv.data).split('\n');
+    expect(csvLines[0]).toContain('Tags');
+    expect(csvLines.find(line => line.includes('Hotel'))).toContain('holiday; work');
+    expect(csvLines.filter(line => line.includes('Flights'))).toHaveLength(2);
+    expect(csvLines.find(line => line.includes('Groceries'))).not.toContain('holiday');
+
+    const json = await ExportService.exportTransactions({ env }, tenantId, { format: 'json' });
+    const rows = JSON.parse(String(json.data)) as { description: string; amount: number; tags: string[] }[];
+    expect(rows.find(row => row.description === 'Hotel')?.tags).toEqual(['holiday', 'work']);
+    const flightLines = rows.filter(row => row.description === 'Flights').sort((a, b) => a.amount - b.amount);
+    expect(flightLines.map(({ amount, tags }) => ({ amount, tags }))).toEqual([
+      { amount: 100, tags: ['holiday'] },
+      { amount: 200, tags: ['holiday'] },
+    ]);
+    expect(rows.find(row => row.description === 'Groceries')?.tags).toEqual([]);
+    expect(rows.some(row => row.description === 'Neighbour hotel')).toBe(false);
+  });
+});
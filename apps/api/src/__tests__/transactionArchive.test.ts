@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { accounts, budgets, categories, transactions } from '../db';
+import analyticsRouter from '../routes/analytics';
+import transactionsRouter from '../routes/transactions';
+import { getBudgetProgress } from '../services/budgets';
+import { ExportService } from '../services/export.service';
+import { parseIncludeArchived } from '../services/transactionArchive';
+import type { Env } from '../types';
+import { applyMigrations, createTestDb, seedTenant, signTestToken, type TestDb } from './helpers/testDb';
+
+const SECRET = 'test-secret';
+
+describe('parseIncludeArchived', () => {
+  it('excludes archived transactions unless explicitly requested', () => {
+    expect(parseIncludeArchived(undefined)).toBe(false);
+    expect(parseIncludeArchived('false')).toBe(false);
+    expect(parseIncludeArchived('true')).toBe(true);
+    expect(parseIncludeArchived('1')).toBe(true);
+  });
+});
+
+describe('archived transactions', () => {
+  let testDb: TestDb;
+  let env: Env['Bindings'];
+  let tenantId: string;
+  let token: string;
+  let budgetId: string;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    env = { DB: testDb.d1, FILES: testDb.files, JWT_SECRET: SECRET } as Env['Bindings'];
+    let userId: string;
+    ({ tenantId, userId } = await seedTenant(testDb.db));
+    token = await signTestToken(SECRET, tenantId, userId);
+
+    // Two expenses this month in the same budgeted category, one of them archived
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const accountId = crypto.randomUUID();
+    const categoryId = crypto.randomUUID();
+    budgetId = crypto.randomUUID();
+    await testDb.db.insert(accounts).values({ id: accountId, tenantId, name: 'Savings', type: 'savings', createdAt: now, updatedAt: now }).run();
+    await testDb.db.insert(categories).values({ id: categoryId, tenantId, name: 'Groceries', type: 'expense', color: '#00aa00', createdAt: now, updatedAt: now }).run();
+    await testDb.db
+      .insert(budgets)
+      .values({ id: budgetId, tenantId, categoryId, amount: 100, period: 'monthly', startDate: monthStart, createdAt: now, updatedAt: now })
+      .run();
+    const expense = { tenantId, accountId, categoryId, date: monthStart, type: 'expense' as const, createdAt: now, updatedAt: now };
+    await testDb.db
+      .insert(transactions)
+      .values([
+        { ...expense, id: crypto.randomUUID(), amount: 40, description: 'Visible shop' },
+        { ...expense, id: crypto.randomUUID(), amount: 25, description: 'Archived shop', archivedAt: now },
+      ])
+      .run();
+  }, 60_000);
+
+  afterAll(() => testDb.dispose());
+
+  async function get(router: typeof transactionsRouter | typeof analyticsRouter, path: string) {
+    const response = await router.request(path, { headers: { Authorization: `Bearer ${token}` } }, env);
+    expect(response.status).toBe(200);
+    return ((await response.json()) as { data: any }).data;
+  }
+
+  it('hides archived rows from the transaction list unless requested', async () => {
+    const listed = await get(transactionsRouter, '/');
+    expect(listed.map((txn: { description: string }) => txn.description)).toEqual(['Visible shop']);
+
+    const all = await get(transactionsRouter, '/?includeArchived=true');
+    expect(all).toHaveLength(2);
+  });
+
+  it('leaves archived rows out of spending analytics', async () => {
+    const spending = await get(analyticsRouter, '/spending');
+    expect(spending.totalExpenses).toBe(40);
+    expect(spending.byCategory).toEqual([expect.objectContaining({ categoryName: 'Groceries', amount: 40 })]);
+
+    const withArchived = await get(analyticsRouter, '/spending?includeArchived=true');
+    expect(withArchived.totalExpenses).toBe(65);
+  });
+
+  it('does not count archived rows against budgets', async () => {
+    const [progress] = await getBudgetProgress(testDb.db, tenantId, new Date());
+    expect(progress).toMatchObject({ budgetId, spent: 40, remaining: 60 });
+  });
+
+  it('leaves archived rows out of exports unless requested', async () => {
+    const exported = await ExportService.exportTransactions({ env }, tenantId, { format: 'csv' });
+    expect(exported.data).toContain('Visible shop');
+    expect(exported.data).not.toContain('Archived shop');
+
+    const withArchived = await ExportService.exportTransactions({ env }, tenantId, { format: 'csv', includeArchived: true });
+    expect(withArchived.data).toContain('Archived shop');
+  });
+});
+
+describe('transaction archive migration', () => {
+  it("converts the old 'ARCHIVED' notes marker into archived_at", async () => {
+    const testDb = await createTestDb(18);
+    try {
+      const { d1 } = testDb;
+      await d1.batch([
+        d1.prepare("insert into tenants (id, name, subdomain, created_at, updated_at) values ('t1', 'Household', 'household', 0, 0)"),
+        d1.prepare("insert into accounts (id, tenant_id, name, type, created_at, updated_at) values ('a1', 't1', 'Current', 'checking', 0, 0)"),
+        d1.prepare("insert into categories (id, tenant_id, name, type, color, created_at, updated_at) values ('c1', 't1', 'Food', 'expense', '#000000', 0, 0)"),
+        ...[
+          ['old', ' ARCHIVED '],
+          ['noted', 'Paid in cash'],
+          ['plain', null],
+        ].map(([id, notes]) =>
+          d1
+            .prepare("insert into transactions (id, tenant_id, account_id, category_id, amount, description, date, type, notes, created_at, updated_at) values (?, 't1', 'a1', 'c1', 5, 'Lunch', 0, 'expense', ?, 0, 1700000000)")
+            .bind(id, notes)
+        ),
+      ]);
+
+      await applyMigrations(d1, { after: 18 });
+
+      const { results } = await d1.prepare('select id, notes, archived_at from transactions order by id').all();
+      expect(results).toEqual([
+        { id: 'noted', notes: 'Paid in cash', archived_at: null },
+        { id: 'old', notes: null, archived_at: 1700000000 },
+        { id: 'plain', notes: null, archived_at: null },
+      ]);
+    } finally {
+      await testDb.dispose();
+    }
+  }, 60_000);
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionSearchParamsSchema } from '@finhome360/shared';
+import {
+  buildFtsQuery,
+  buildSearchFilters,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  parseDatePeriod,
+  parseSearchQuery,
+} from '../services/transactionSearch';
+
+describe('parseSearchQuery', () => {
+  it('separates free text from filters', () => {
+    const { filters, error } = parseSearchQuery('amazon amount>30 date:2024-Q2 account:"Credit Card" "gift card"');
+
+    expect(error).toBeNull();
+    expect(filters.terms).toEqual(['amazon', 'gift card']);
+    expect(filters.amount).toEqual([{ op: '>', value: 30 }]);
+    expect(filters.date).toEqual([
+      { op: '>=', value: new Date(Date.UTC(2024, 3, 1)) },
+      { op: '<', value: new Date(Date.UTC(2024, 6, 1)) },
+    ]);
+    expect(filters.accountNames).toEqual(['credit card']);
+  });
+
+  it('reads amount and date ranges', () => {
+    const { filters } = parseSearchQuery('amount:£10..50.5 date:2024-01-15..2024-02');
+
+    expect(filters.amount).toEqual([
+      { op: '>=', value: 10 },
+      { op: '<=', value: 50.5 },
+    ]);
+    expect(filters.date).toEqual([
+      { op: '>=', value: new Date(Date.UTC(2024, 0, 15)) },
+      { op: '<', value: new Date(Date.UTC(2024, 2, 1)) },
+    ]);
+  });
+
+  it('compares dates by the bounds of the period', () => {
+    expect(parseSearchQuery('date>2024-05').filters.date).toEqual([{ op: '>=', value: new Date(Date.UTC(2024, 5, 1)) }]);
+    expect(parseSearchQuery('date<=2024').filters.date).toEqual([{ op: '<', value: new Date(Date.UTC(2025, 0, 1)) }]);
+  });
+
+  it('handles type, tag, category and archived filters', () => {
+    const { filters } = parseSearchQuery('type:expense tag:Work category:groceries is:archived');
+
+    expect(filters.type).toBe('expense');
+    expect(filters.tags).toEqual(['work']);
+    expect(filters.categoryNames).toEqual(['groceries']);
+    expect(filters.archived).toBe('only');
+  });
+
+  it('searches unknown keys as text', () => {
+    expect(parseSearchQuery('ref:12345').filters.terms).toEqual(['ref:12345']);
+  });
+
+  it('reports invalid filter values', () => {
+    expect(parseSearchQuery('amount>lots').error).toBe('Invalid amount "lots"');
+    expect(parseSearchQuery('date:2024-13').error).toMatch(/Invalid date/);
+    expect(parseSearchQuery('type:refund').error).toBe('Unknown transaction type "refund"');
+    expect(parseSearchQuery('tag>work').error).toMatch(/only supports/);
+  });
+});
+
+describe('buildSearchFilters', () => {
+  it('adds the explicit query-string filters', () => {
+    const params = TransactionSearchParamsSchema.parse({
+      q: 'coffee',
+      minAmount: '5',
+      accountId: 'acc-1',
+      tags: 'Work,travel',
+      tagMatch: 'all',
+    });
+    const { filters, error } = buildSearchFilters(params, true);
+
+    expect(error).toBeNull();
+    expect(params.limit).toBe(50);
+    expect(filters.amount).toEqual([{ op: '>=', value: 5 }]);
+    expect(filters.accountIds).toEqual(['acc-1']);
+    expect(filters.tags).toEqual(['work', 'travel']);
+    expect(filters.tagMatch).toBe('all');
+    expect(filters.archived).toBe('include');
+  });
+
+  it('rejects conflicting types', () => {
+    const params = TransactionSearchParamsSchema.parse({ q: 'type:income', type: 'expense' });
+
+    expect(buildSearchFilters(params).error).toMatch(/Conflicting transaction types/);
+  });
+});
+
+describe('buildFtsQuery', () => {
+  it('prefix-matches words and matches phrases exactly', () => {
+    expect(buildFtsQuery(['amaz', 'gift card'])).toBe('"amaz"* "gift card"');
+  });
+
+  it('escapes quotes and skips terms without letters or digits', () => {
+    expect(buildFtsQuery(['O"Brien', '-', '*'])).toBe('"O""Brien"*');
+    expect(buildFtsQuery([])).toBeNull();
+  });
+});
+
+describe('search cursor', () => {
+  it('round-trips the position of the last row', () => {
+    const row = { date: new Date(Date.UTC(2024, 4, 1)), id: 'c0ffee00-0000-4000-8000-000000000000' };
+
+    expect(decodeSearchCursor(encodeSearchCursor(row))).toEqual(row);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeSearchCursor('not a cursor!')).toBeNull();
+    expect(decodeSearchCursor(btoa('abc:id'))).toBeNull();
+  });
+});
+
+describe('parseDatePeriod', () => {
+  it('rejects impossible days', () => {
+    expect(parseDatePeriod('2024-02-30')).toBeNull();
+    expect(parseDatePeriod('2024-02-29')?.end).toEqual(new Date(Date.UTC(2024, 2, 1)));
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { CreateTransferSchema } from '@finhome360/shared';
+import { findTransferPairs, type TransferMatchCandidate } from '../services/transfers';
+
+const candidate = (
+  id: string,
+  accountId: string,
+  type: TransferMatchCandidate['type'],
+  amount: number,
+  date: string
+): TransferMatchCandidate => ({ id, accountId, type, amount, date: new Date(date) });
+
+describe('findTransferPairs', () => {
+  it('pairs an expense with an equal income on another account', () => {
+    const debit = candidate('t1', 'current', 'expense', 250, '2024-03-01');
+    const credit = candidate('t2', 'savings', 'income', 250, '2024-03-02');
+
+    const pairs = findTransferPairs([debit], [credit]);
+
+    expect(pairs).toEqual([{ from: debit, to: credit }]);
+  });
+
+  it('orients the pair from the debit side when the credit is new', () => {
+    const debit = candidate('t1', 'current', 'expense', 100, '2024-03-01');
+    const credit = candidate('t2', 'savings', 'income', 100, '2024-03-01');
+
+    const [pair] = findTransferPairs([credit], [debit]);
+
+    expect(pair.from.id).toBe('t1');
+    expect(pair.to.id).toBe('t2');
+  });
+
+  it('ignores same-account, same-type, different-amount and out-of-window candidates', () => {
+    const debit = candidate('t1', 'current', 'expense', 100, '2024-03-01');
+    const pool = [
+      candidate('same-account', 'current', 'income', 100, '2024-03-01'),
+      candidate('same-type', 'savings', 'expense', 100, '2024-03-01'),
+      candidate('other-amount', 'savings', 'income', 100.5, '2024-03-01'),
+      candidate('too-late', 'savings', 'income', 100, '2024-03-10'),
+    ];
+
+    expect(findTransferPairs([debit], pool)).toEqual([]);
+  });
+
+  it('prefers the closest date and skips ambiguous matches', () => {
+    const debit = candidate('t1', 'current', 'expense', 40, '2024-03-05');
+    const near = candidate('near', 'savings', 'income', 40, '2024-03-06');
+    const far = candidate('far', 'savings', 'income', 40, '2024-03-08');
+
+    expect(findTransferPairs([debit], [far, near])[0].to.id).toBe('near');
+
+    const before = candidate('before', 'savings', 'income', 40, '2024-03-04');
+    const after = candidate('after', 'credit', 'income', 40, '2024-03-06');
+
+    expect(findTransferPairs([debit], [before, after])).toEqual([]);
+  });
+
+  it('pairs new transactions with each other only once', () => {
+    const debit = candidate('t1', 'current', 'expense', 75, '2024-03-01');
+    const credit = candidate('t2', 'savings', 'income', 75, '2024-03-01');
+
+    expect(findTransferPairs([debit, credit], [])).toHaveLength(1);
+  });
+});
+
+describe('CreateTransferSchema', () => {
+  it('rejects a transfer to the same account', () => {
+    const accountId = '4b6f7c7e-0c5a-4d59-9a34-2f1c8a6c2d10';
+    const result = CreateTransferSchema.safeParse({
+      fromAccountId: accountId,
+      toAccountId: accountId,
+      amount: 10,
+      date: '2024-03-01',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
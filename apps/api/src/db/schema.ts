@@ -1,4 +1,18 @@
-import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex, customType } from 'drizzle-orm/sqlite-core';
+import { fromMinorUnits, toMinorUnits } from '@finhome360/shared';
+
+// Money columns hold integer minor units; the app reads and writes decimal amounts
+const money = customType<{ data: number; driverData: number }>({
+  dataType() {
+    return 'integer';
+  },
+  toDriver(value) {
+    return toMinorUnits(value);
+  },
+  fromDriver(value) {
+    return fromMinorUnits(value);
+  },
+});
 
 // Tenants Table
 export const tenants = sqliteTable('tenants', {
@@ -125,7 +139,7 @@ export const accounts = sqliteTable('accounts', {
   type: text('type', {
     enum: ['current', 'savings', 'credit', 'cash', 'investment', 'other'],
   }).notNull(),
-  balance: real('balance').notNull().default(0),
+  balance: money('balance').notNull().default(0),
   currency: text('currency').notNull().default('GBP'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
@@ -164,12 +178,19 @@ export const transactions = sqliteTable('transactions', {
   categoryId: text('category_id')
     .notNull()
     .references(() => categories.id),
-  amount: real('amount').notNull(),
+  amount: money('amount').notNull(),
+  currency: text('currency').notNull().default('GBP'), // The account's currency when the transaction was recorded
   description: text('description').notNull(),
   date: integer('date', { mode: 'timestamp' }).notNull(),
   type: text('type', { enum: ['income', 'expense', 'transfer'] }).notNull(),
   notes: text('notes'),
   providerTransactionId: text('provider_transaction_id'),
+  transferId: text('transfer_id'), // Set when this transaction is one side of a transfer
+  archivedAt: integer('archived_at', { mode: 'timestamp' }), // Hidden from lists, analytics and budgets when set
+  importLogId: text('import_log_id'), // Set when the transaction was created by a file import
+  reconciliationId: text('reconciliation_id'), // Ticked off against this statement reconciliation
+  reconciledAt: integer('reconciled_at', { mode: 'timestamp' }), // Locked against edits once the reconciliation completes
+  recurringTransactionId: text('recurring_transaction_id'), // Set when posted by the recurring scheduler
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
 }, (table) => ({
@@ -179,10 +200,194 @@ export const transactions = sqliteTable('transactions', {
   tenantAccountIdx: index('idx_transactions_tenant_account').on(table.tenantId, table.accountId),
   providerIdx: index('idx_transactions_provider').on(table.providerTransactionId),
   tenantTypeIdx: index('idx_transactions_tenant_type').on(table.tenantId, table.type),
+  tenantArchivedIdx: index('idx_transactions_tenant_archived').on(table.tenantId, table.archivedAt),
+  tenantImportLogIdx: index('idx_transactions_tenant_import_log').on(table.tenantId, table.importLogId),
+  tenantReconciliationIdx: index('idx_transactions_tenant_reconciliation').on(table.tenantId, table.reconciliationId),
+  // One posted transaction per recurring occurrence, so a repeated scheduler run is a no-op
+  recurringOccurrenceIdx: uniqueIndex('uniq_transactions_recurring_occurrence').on(table.recurringTransactionId, table.date),
   // Single column indexes
   accountIdx: index('idx_transactions_account').on(table.accountId),
   dateIdx: index('idx_transactions_date').on(table.date),
   categoryIdx: index('idx_transactions_category').on(table.categoryId),
+  transferIdx: index('idx_transactions_transfer').on(table.transferId),
+}));
+
+// Transfers Table - links the debit and credit sides of money moved between accounts
+export const transfers = sqliteTable('transfers', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  fromAccountId: text('from_account_id')
+    .notNull()
+    .references(() => accounts.id),
+  toAccountId: text('to_account_id')
+    .notNull()
+    .references(() => accounts.id),
+  fromTransactionId: text('from_transaction_id')
+    .notNull()
+    .references(() => transactions.id),
+  toTransactionId: text('to_transaction_id')
+    .notNull()
+    .references(() => transactions.id),
+  amount: money('amount').notNull(),
+  date: integer('date', { mode: 'timestamp' }).notNull(),
+  description: text('description'),
+  // created = entered as a transfer, matched = paired by the auto-matcher, linked = paired by a user
+  source: text('source', { enum: ['created', 'matched', 'linked'] }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantDateIdx: index('idx_transfers_tenant_date').on(table.tenantId, table.date),
+  fromTransactionIdx: index('idx_transfers_from_transaction').on(table.fromTransactionId),
+  toTransactionIdx: index('idx_transfers_to_transaction').on(table.toTransactionId),
+}));
+
+// Reconciliations Table - an account checked against a bank statement's closing balance
+export const reconciliations = sqliteTable('reconciliations', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  accountId: text('account_id')
+    .notNull()
+    .references(() => accounts.id),
+  // proposed = suggested by an import, in_progress = transactions being ticked off, completed = locked
+  status: text('status', { enum: ['proposed', 'in_progress', 'completed'] }).notNull(),
+  source: text('source', { enum: ['manual', 'import'] }).notNull(),
+  importLogId: text('import_log_id').references(() => importLogs.id),
+  statementDate: integer('statement_date', { mode: 'timestamp' }).notNull(),
+  statementBalance: money('statement_balance').notNull(),
+  openingBalance: money('opening_balance'), // Previous reconciled balance, set when the reconciliation starts
+  balanceAdjustment: money('balance_adjustment'), // Correction applied to the account balance on completion
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+}, (table) => ({
+  tenantAccountIdx: index('idx_reconciliations_tenant_account').on(table.tenantId, table.accountId, table.statementDate),
+}));
+
+// Transaction Splits Table - category line items of a split transaction.
+// Line amounts add up to the parent amount; when present they replace the
+// parent's category in budgets, analytics and exports.
+export const transactionSplits = sqliteTable('transaction_splits', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  transactionId: text('transaction_id')
+    .notNull()
+    .references(() => transactions.id),
+  categoryId: text('category_id')
+    .notNull()
+    .references(() => categories.id),
+  amount: money('amount').notNull(),
+  notes: text('notes'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  transactionIdx: index('idx_transaction_splits_transaction').on(table.transactionId),
+  tenantCategoryIdx: index('idx_transaction_splits_tenant_category').on(table.tenantId, table.categoryId),
+}));
+
+// Tags Table - free-form labels a tenant puts on transactions, across categories
+export const tags = sqliteTable('tags', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  name: text('name').notNull(), // trimmed, lowercase
+  color: text('color'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantNameIdx: uniqueIndex('uniq_tags_tenant_name').on(table.tenantId, table.name),
+}));
+
+// Transaction Tags Table - many-to-many link between transactions and tags
+export const transactionTags = sqliteTable('transaction_tags', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  transactionId: text('transaction_id')
+    .notNull()
+    .references(() => transactions.id),
+  tagId: text('tag_id')
+    .notNull()
+    .references(() => tags.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  transactionTagIdx: uniqueIndex('uniq_transaction_tags_transaction_tag').on(table.transactionId, table.tagId),
+  tenantTagIdx: index('idx_transaction_tags_tenant_tag').on(table.tenantId, table.tagId),
+}));
+
+// Merchant Category Rules Table (learned from user corrections)
+export const merchantCategoryRules = sqliteTable('merchant_category_rules', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  merchant: text('merchant').notNull(), // Normalized merchant key, e.g. "tesco stores"
+  categoryId: text('category_id')
+    .notNull()
+    .references(() => categories.id),
+  correctionCount: integer('correction_count').notNull().default(1),
+  appliedCount: integer('applied_count').notNull().default(0),
+  lastAppliedAt: integer('last_applied_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantMerchantIdx: uniqueIndex('uniq_merchant_category_rules_tenant_merchant').on(table.tenantId, table.merchant),
+  categoryIdx: index('idx_merchant_category_rules_category').on(table.categoryId),
+}));
+
+// Categorization Rules Table (tenant-defined conditions and actions)
+export const categorizationRules = sqliteTable('categorization_rules', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  name: text('name').notNull(),
+  priority: integer('priority').notNull().default(100), // Lower runs first
+  isEnabled: integer('is_enabled', { mode: 'boolean' }).notNull().default(true),
+  stopProcessing: integer('stop_processing', { mode: 'boolean' }).notNull().default(true),
+  // Conditions
+  descriptionPattern: text('description_pattern'), // Case-insensitive regular expression
+  minAmount: money('min_amount'),
+  maxAmount: money('max_amount'),
+  accountId: text('account_id').references(() => accounts.id),
+  transactionType: text('transaction_type', { enum: ['income', 'expense'] }),
+  // Actions
+  setCategoryId: text('set_category_id').references(() => categories.id),
+  renameTo: text('rename_to'),
+  addNote: text('add_note'),
+  markAsTransfer: integer('mark_as_transfer', { mode: 'boolean' }).notNull().default(false),
+  matchCount: integer('match_count').notNull().default(0),
+  lastMatchedAt: integer('last_matched_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantPriorityIdx: index('idx_categorization_rules_tenant_priority').on(table.tenantId, table.priority),
+}));
+
+// Categorization Suggestions Table (outcome of each auto-assigned category)
+export const categorizationSuggestions = sqliteTable('categorization_suggestions', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  transactionId: text('transaction_id').notNull(), // Not a foreign key, so accuracy history outlives deleted transactions
+  suggestedCategoryId: text('suggested_category_id').notNull(),
+  source: text('source', { enum: ['learned_rule', 'history', 'keyword'] }).notNull(),
+  confidence: real('confidence').notNull(),
+  overridden: integer('overridden', { mode: 'boolean' }).notNull().default(false),
+  overriddenAt: integer('overridden_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantIdx: index('idx_categorization_suggestions_tenant').on(table.tenantId, table.source),
+  transactionIdx: index('idx_categorization_suggestions_transaction').on(table.transactionId),
 }));
 
 // Budgets Table
@@ -194,10 +399,12 @@ export const budgets = sqliteTable('budgets', {
   categoryId: text('category_id')
     .notNull()
     .references(() => categories.id),
-  amount: real('amount').notNull(),
+  amount: money('amount').notNull(),
   period: text('period', { enum: ['weekly', 'monthly', 'yearly'] }).notNull(),
-  startDate: integer('start_date', { mode: 'timestamp' }).notNull(),
+  startDate: integer('start_date', { mode: 'timestamp' }).notNull(), // Periods repeat from here until endDate
   endDate: integer('end_date', { mode: 'timestamp' }),
+  rollover: integer('rollover', { mode: 'boolean' }).notNull().default(false), // Carry what is left or overspent into the next period
+  mode: text('mode', { enum: ['limit', 'envelope'] }).notNull().default('limit'), // Envelopes spend assigned income instead of amount
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
 }, (table) => ({
@@ -207,6 +414,24 @@ export const budgets = sqliteTable('budgets', {
   startDateIdx: index('idx_budgets_start_date').on(table.startDate),
 }));
 
+// Budget Allocations Table - income assigned to an envelope budget for one period
+export const budgetAllocations = sqliteTable('budget_allocations', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  budgetId: text('budget_id')
+    .notNull()
+    .references(() => budgets.id),
+  periodStart: integer('period_start', { mode: 'timestamp' }).notNull(),
+  amount: money('amount').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  budgetPeriodIdx: uniqueIndex('uniq_budget_allocations_budget_period').on(table.budgetId, table.periodStart),
+  tenantIdx: index('idx_budget_allocations_tenant').on(table.tenantId),
+}));
+
 // Bill Reminders Table
 export const billReminders = sqliteTable('bill_reminders', {
   id: text('id').primaryKey(),
@@ -214,7 +439,7 @@ export const billReminders = sqliteTable('bill_reminders', {
     .notNull()
     .references(() => tenants.id),
   name: text('name').notNull(),
-  amount: real('amount').notNull(),
+  amount: money('amount').notNull(),
   categoryId: text('category_id')
     .notNull()
     .references(() => categories.id),
@@ -222,6 +447,7 @@ export const billReminders = sqliteTable('bill_reminders', {
   frequency: text('frequency', { enum: ['once', 'weekly', 'monthly', 'yearly'] }).notNull(),
   reminderDays: integer('reminder_days').notNull().default(3),
   status: text('status', { enum: ['pending', 'paid', 'overdue'] }).notNull(),
+  remindedForDueDate: integer('reminded_for_due_date', { mode: 'timestamp' }), // Due date the last reminder was queued for
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
 }, (table) => ({
@@ -231,6 +457,45 @@ export const billReminders = sqliteTable('bill_reminders', {
   tenantStatusIdx: index('idx_bill_reminders_tenant_status').on(table.tenantId, table.status),
 }));
 
+// Bill Payments Table - one row per paid cycle of a bill, optionally linked to the paying transaction
+export const billPayments = sqliteTable('bill_payments', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  billReminderId: text('bill_reminder_id')
+    .notNull()
+    .references(() => billReminders.id),
+  transactionId: text('transaction_id'), // Cleared when the transaction is deleted
+  dueDate: integer('due_date', { mode: 'timestamp' }).notNull(), // Due date of the cycle that was paid
+  amount: money('amount').notNull(),
+  paidAt: integer('paid_at', { mode: 'timestamp' }).notNull(),
+  source: text('source', { enum: ['manual', 'auto'] }).notNull().default('manual'), // 'auto' when matched to an imported or synced transaction
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantBillIdx: index('idx_bill_payments_tenant_bill').on(table.tenantId, table.billReminderId),
+  transactionIdx: uniqueIndex('uniq_bill_payments_transaction').on(table.transactionId),
+}));
+
+// Attachments Table - receipts and documents kept in the FILES bucket, linked to a transaction and/or a bill
+export const attachments = sqliteTable('attachments', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  transactionId: text('transaction_id').references(() => transactions.id),
+  billReminderId: text('bill_reminder_id').references(() => billReminders.id),
+  fileKey: text('file_key').notNull(), // R2 object key
+  fileName: text('file_name').notNull(),
+  contentType: text('content_type').notNull(),
+  fileSize: integer('file_size').notNull(), // in bytes
+  uploadedBy: text('uploaded_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantTransactionIdx: index('idx_attachments_tenant_transaction').on(table.tenantId, table.transactionId),
+  tenantBillReminderIdx: index('idx_attachments_tenant_bill_reminder').on(table.tenantId, table.billReminderId),
+}));
+
 // Recurring Transactions Table
 export const recurringTransactions = sqliteTable('recurring_transactions', {
   id: text('id').primaryKey(),
@@ -244,7 +509,7 @@ export const recurringTransactions = sqliteTable('recurring_transactions', {
     .notNull()
     .references(() => categories.id),
   description: text('description').notNull(),
-  amount: real('amount').notNull(),
+  amount: money('amount').notNull(),
   type: text('type', { enum: ['income', 'expense'] }).notNull(),
   frequency: text('frequency', { enum: ['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'] }).notNull(),
   startDate: integer('start_date', { mode: 'timestamp' }).notNull(),
@@ -270,8 +535,8 @@ export const goals = sqliteTable('goals', {
     .references(() => tenants.id),
   name: text('name').notNull(),
   description: text('description'),
-  targetAmount: real('target_amount').notNull(),
-  currentAmount: real('current_amount').notNull().default(0),
+  targetAmount: money('target_amount').notNull(),
+  currentAmount: money('current_amount').notNull().default(0),
   deadline: integer('deadline', { mode: 'timestamp' }),
   accountId: text('account_id').references(() => accounts.id),
   category: text('category', {
@@ -296,7 +561,7 @@ export const goalContributions = sqliteTable('goal_contributions', {
     .notNull()
     .references(() => goals.id),
   transactionId: text('transaction_id').references(() => transactions.id),
-  amount: real('amount').notNull(),
+  amount: money('amount').notNull(),
   date: integer('date', { mode: 'timestamp' }).notNull(),
   notes: text('notes'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
@@ -678,15 +943,19 @@ export const importLogs = sqliteTable('import_logs', {
   fileName: text('file_name').notNull(),
   fileSize: integer('file_size').notNull(), // in bytes
   fileType: text('file_type').notNull(),
-  status: text('status', { enum: ['processing', 'success', 'partial', 'failed'] }).notNull(),
+  status: text('status', { enum: ['processing', 'review', 'success', 'partial', 'failed', 'rolled_back'] }).notNull(),
   transactionsImported: integer('transactions_imported').notNull().default(0),
   transactionsFailed: integer('transactions_failed').notNull().default(0),
   transactionsTotal: integer('transactions_total').notNull().default(0),
   errorMessage: text('error_message'),
   errorDetails: text('error_details'), // JSON string with detailed errors
+  reviewData: text('review_data'), // JSON: dry-run rows with duplicate matches and the user's decisions
+  balanceChange: money('balance_change'), // Net change the import applied to the account balance
+  createdCategoryIds: text('created_category_ids'), // JSON array of categories the import created
   processingTimeMs: integer('processing_time_ms'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   completedAt: integer('completed_at', { mode: 'timestamp' }),
+  rolledBackAt: integer('rolled_back_at', { mode: 'timestamp' }),
 }, (table) => ({
   tenantIdx: index('idx_import_logs_tenant').on(table.tenantId),
   userIdx: index('idx_import_logs_user').on(table.userId),
@@ -694,6 +963,40 @@ export const importLogs = sqliteTable('import_logs', {
   tenantDateIdx: index('idx_import_logs_tenant_date').on(table.tenantId, table.createdAt),
 }));
 
+// Import Profiles Table (saved column mappings, matched on the file's header row)
+export const importProfiles = sqliteTable('import_profiles', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  name: text('name').notNull(),
+  headerSignature: text('header_signature').notNull(), // Normalized header row, see getHeaderSignature
+  headers: text('headers').notNull(), // JSON array of the original header names
+  mapping: text('mapping').notNull(), // JSON ColumnMapping
+  useCount: integer('use_count').notNull().default(0),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantNameIdx: uniqueIndex('uniq_import_profiles_tenant_name').on(table.tenantId, table.name),
+  tenantSignatureIdx: index('idx_import_profiles_tenant_signature').on(table.tenantId, table.headerSignature),
+}));
+
+// PDF Templates Table (tenant-defined bank statement layouts, used alongside the built-in templates)
+export const pdfTemplates = sqliteTable('pdf_templates', {
+  id: text('id').primaryKey(),
+  tenantId: text('tenant_id')
+    .notNull()
+    .references(() => tenants.id),
+  displayName: text('display_name').notNull(),
+  definition: text('definition').notNull(), // JSON BankPdfTemplateDefinition
+  createdBy: text('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  tenantNameIdx: uniqueIndex('uniq_pdf_templates_tenant_name').on(table.tenantId, table.displayName),
+}));
+
 // ============================================
 // FINANCIAL HEALTH SYSTEM TABLES
 // ============================================
@@ -821,11 +1124,11 @@ export const debtAccounts = sqliteTable('debt_accounts', {
   // Linked account (optional)
   linkedAccountId: text('linked_account_id').references(() => accounts.id),
   // Debt details
-  originalBalance: real('original_balance').notNull(),
-  currentBalance: real('current_balance').notNull(),
+  originalBalance: money('original_balance').notNull(),
+  currentBalance: money('current_balance').notNull(),
   interestRate: real('interest_rate'), // APR as decimal (e.g., 0.199 for 19.9%)
-  minimumPayment: real('minimum_payment'),
-  monthlyPayment: real('monthly_payment'),
+  minimumPayment: money('minimum_payment'),
+  monthlyPayment: money('monthly_payment'),
   // Loan term
   startDate: integer('start_date', { mode: 'timestamp' }),
   endDate: integer('end_date', { mode: 'timestamp' }),
@@ -1146,7 +1449,7 @@ export const notifications = sqliteTable('notifications', {
     .references(() => users.id),
   // Notification details
   type: text('type', {
-    enum: ['budget_alert', 'bill_reminder', 'goal_milestone', 'unusual_spending', 'low_balance', 'large_transaction', 'system', 'insight']
+    enum: ['budget_alert', 'bill_reminder', 'goal_milestone', 'unusual_spending', 'low_balance', 'large_transaction', 'custom_alert', 'system', 'insight']
   }).notNull(),
   category: text('category', {
     enum: ['alert', 'reminder', 'milestone', 'insight', 'system']
@@ -1302,6 +1605,7 @@ export const scheduledReportRuns = sqliteTable('scheduled_report_runs', {
   // Results
   recordCount: integer('record_count').default(0),
   fileSizeBytes: integer('file_size_bytes'),
+  fileKey: text('file_key'), // R2 object key of the generated report
   // Error handling
   errorMessage: text('error_message'),
   retryCount: integer('retry_count').default(0),
@@ -37,10 +37,18 @@ import notificationsRouter from './routes/notifications';
 import exportRouter from './routes/export';
 import scheduledReportsRouter from './routes/scheduledReports';
 import subscriptionsRouter from './routes/subscriptions';
+import transfersRouter from './routes/transfers';
+import reconciliationsRouter from './routes/reconciliations';
+import attachmentsRouter from './routes/attachments';
+import tagsRouter from './routes/tags';
+import categorizationRulesRouter from './routes/categorizationRules';
+import importProfilesRouter from './routes/importProfiles';
 import { getDb, billReminders, users, userSettings, accounts as accountsTable, importLogs as importLogsTable } from './db';
 import { createEmailService } from './services/email';
 import { parsePDF } from './utils/fileParser';
 import { persistTransactionsFromImport } from './services/importProcessor';
+import { getTenantPdfTemplates } from './services/pdfTemplates';
+import { findStatementBalancePoint, proposeReconciliation } from './services/reconciliation';
 import type { Env } from './types';
 // Note: Avoid direct dependency on '@cloudflare/workers-types' here for portability
 
@@ -62,10 +70,16 @@ app.route('/api/auth', auth);
 app.route('/api/auth', passwordRoutes);
 app.route('/api/accounts', accounts);
 app.route('/api/categories', categories);
+app.route('/api/categorization-rules', categorizationRulesRouter);
 app.route('/api/transactions', transactions);
+app.route('/api/transfers', transfersRouter);
+app.route('/api/reconciliations', reconciliationsRouter);
+app.route('/api/attachments', attachmentsRouter);
+app.route('/api/tags', tagsRouter);
 app.route('/api/budgets', budgets);
 app.route('/api/bill-reminders', billRemindersRouter);
 app.route('/api/files', filesRouter);
+app.route('/api/import-profiles', importProfilesRouter);
 app.route('/api/analytics', analytics);
 app.route('/api/recurring-transactions', recurringTransactions);
 app.route('/api/goals', goals);
@@ -146,7 +160,7 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
           continue;
         }
 
-        const { tenantId, accountId, logId, fileKey, defaultCategoryId, templateId } = body;
+        const { tenantId, accountId, logId, fileKey, defaultCategoryId, templateId, userId } = body;
 
         if (!tenantId || !accountId || !logId || !fileKey || !defaultCategoryId) {
           console.error('Invalid PDF import message payload', body);
@@ -197,7 +211,10 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
 
         try {
           const arrayBuffer = await storedFile.arrayBuffer();
-          const parsedTransactions = await parsePDF(arrayBuffer, { templateId });
+          const parsedTransactions = await parsePDF(arrayBuffer, {
+            templateId,
+            customTemplates: await getTenantPdfTemplates(db, tenantId),
+          });
 
           if (parsedTransactions.length === 0) {
             await db
@@ -215,7 +232,7 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
             continue;
           }
 
-          await persistTransactionsFromImport({
+          const persistenceResult = await persistTransactionsFromImport({
             db,
             tenantId,
             account,
@@ -223,8 +240,15 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
             parsedTransactions,
             logId,
             startedAt,
+            env,
           });
 
+          // A statement with a running balance column gives a reconciliation point
+          const balancePoint = findStatementBalancePoint(parsedTransactions);
+          if (balancePoint && persistenceResult.finalStatus !== 'failed') {
+            await proposeReconciliation(db, tenantId, userId ?? null, accountId, logId, balancePoint);
+          }
+
           console.log(`PDF import completed for log ${logId} (records: ${parsedTransactions.length})`);
           message.ack();
         } catch (error) {
@@ -270,6 +294,13 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
         continue;
       }
 
+      // The bill was paid, edited or rolled forward after this reminder was queued
+      if (billReminder.dueDate.getTime() !== new Date(dueDate).getTime()) {
+        console.log(`Bill reminder ${billReminderId} is now due ${billReminder.dueDate.toISOString()}, skipping reminder for ${dueDate}`);
+        message.ack();
+        continue;
+      }
+
       // Calculate days until due
       const daysUntilDue = Math.ceil((new Date(dueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
 
@@ -346,9 +377,72 @@ export async function queue(batch: any, env: Env['Bindings']): Promise<void> {
   }
 }
 
-// Scheduled handler (cron) for periodic transaction sync
-export async function scheduled(_event: ScheduledEvent, env: Env['Bindings'], _ctx: ExecutionContext): Promise<void> {
-  // Sync all active banking connections every 6 hours
+// Cron expressions configured in wrangler.toml
+const BANK_SYNC_CRON = '0 */6 * * *';
+const HOURLY_CRON = '0 * * * *';
+const DAILY_CRON = '0 7 * * *';
+
+// Scheduled handler (cron) - dispatches on the trigger that fired
+export async function scheduled(event: ScheduledEvent, env: Env['Bindings'], _ctx: ExecutionContext): Promise<void> {
+  if (event.cron === BANK_SYNC_CRON) {
+    await syncBankConnections(env);
+  }
+
+  if (event.cron === HOURLY_CRON) {
+    await runScheduledReports(env);
+    await postRecurringTransactions(env);
+  }
+
+  if (event.cron === DAILY_CRON) {
+    await sweepBillReminders(env);
+  }
+}
+
+// Mark past-due bills overdue and queue reminders that reached their lead time
+async function sweepBillReminders(env: Env['Bindings']): Promise<void> {
+  const db = getDb(env.DB);
+
+  try {
+    const { runBillReminderSweep } = await import('./services/billReminders');
+    const summary = await runBillReminderSweep(db, env.BILL_REMINDERS);
+
+    console.log(`Bill reminders: ${summary.reminded} queued, ${summary.overdue} marked overdue, ${summary.failed} failed`);
+  } catch (error) {
+    console.error('Bill reminder sweep error:', error);
+  }
+}
+
+// Post due occurrences of auto-create recurring transactions
+async function postRecurringTransactions(env: Env['Bindings']): Promise<void> {
+  const db = getDb(env.DB);
+
+  try {
+    const { runRecurringTransactions } = await import('./services/recurringTransactions');
+    const summary = await runRecurringTransactions(db);
+
+    console.log(`Recurring transactions: ${summary.posted} posted, ${summary.completed} completed, ${summary.failed} failed of ${summary.processed} due`);
+  } catch (error) {
+    console.error('Recurring transactions error:', error);
+  }
+}
+
+// Run scheduled reports whose next run time has passed
+async function runScheduledReports(env: Env['Bindings']): Promise<void> {
+  const db = getDb(env.DB);
+
+  try {
+    const { ScheduledReportRunner } = await import('./services/scheduledReportRunner.service');
+    const runner = new ScheduledReportRunner(db, env);
+    const summary = await runner.runDueReports();
+
+    console.log(`Scheduled reports: ${summary.succeeded} sent, ${summary.failed} failed of ${summary.processed} due`);
+  } catch (error) {
+    console.error('Scheduled reports error:', error);
+  }
+}
+
+// Sync all active banking connections every 6 hours
+async function syncBankConnections(env: Env['Bindings']): Promise<void> {
   const db = getDb(env.DB);
 
   try {
@@ -1,10 +1,15 @@
 import { Hono } from 'hono';
 import { eq, and, desc } from 'drizzle-orm';
-import { getDb, accounts, bankAccounts, bankConnections, transactions, recurringTransactions, goals } from '../db';
+import { getDb, accounts, bankAccounts, bankConnections, transactions, recurringTransactions, goals, categorizationRules, reconciliations } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { CreateAccountSchema } from '@finhome360/shared';
 import { getCurrentTimestamp } from '../utils/timestamp';
+import { deleteAccountSplits } from '../services/transactionSplits';
+import { unlinkTransfersForAccount } from '../services/transfers';
+import { deleteAccountAttachments } from '../services/attachments';
+import { deleteAccountTransactionTags } from '../services/tags';
+import { unlinkAccountBillPayments } from '../services/billReminders';
 import type { Env } from '../types';
 
 const accountsRouter = new Hono<Env>();
@@ -249,7 +254,12 @@ accountsRouter.delete('/:id', async c => {
     }
 
     // Delete related records first (cascading delete)
-    // 1. Delete transactions associated with this account
+    // 1. Delete transactions (and their split lines, tags, attachments and transfers) associated with this account
+    await deleteAccountSplits(db, tenantId, id);
+    await deleteAccountTransactionTags(db, tenantId, id);
+    await unlinkAccountBillPayments(db, tenantId, id);
+    await deleteAccountAttachments(db, c.env.FILES, tenantId, id);
+    await unlinkTransfersForAccount(db, tenantId, id);
     await db
       .delete(transactions)
       .where(and(eq(transactions.accountId, id), eq(transactions.tenantId, tenantId)))
@@ -274,6 +284,18 @@ accountsRouter.delete('/:id', async c => {
       .where(and(eq(goals.accountId, id), eq(goals.tenantId, tenantId)))
       .run();
 
+    // 5. Delete categorization rules scoped to this account (they can never match again)
+    await db
+      .delete(categorizationRules)
+      .where(and(eq(categorizationRules.accountId, id), eq(categorizationRules.tenantId, tenantId)))
+      .run();
+
+    // 6. Delete the account's statement reconciliations
+    await db
+      .delete(reconciliations)
+      .where(and(eq(reconciliations.accountId, id), eq(reconciliations.tenantId, tenantId)))
+      .run();
+
     // Finally, delete the account itself
     await db
       .delete(accounts)
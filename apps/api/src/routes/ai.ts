@@ -694,7 +694,7 @@ aiRouter.get('/budget-recommendations', async c => {
 
       const pdfBytes = await pdfDoc.save();
       const origin = c.req.header('Origin') || '*';
-      return new Response(pdfBytes, {
+      return new Response(pdfBytes as Uint8Array<ArrayBuffer>, {
         status: 200,
         headers: {
           'Content-Type': 'application/pdf',
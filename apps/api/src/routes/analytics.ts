@@ -1,7 +1,10 @@
 import { Hono } from 'hono';
-import { eq, and, sql, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, ne, isNull, sql, gte, lte, desc } from 'drizzle-orm';
 import { getDb, transactions, categories, accounts } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { getCategoryTotals } from '../services/transactionSplits';
+import { archivedFilter, parseIncludeArchived } from '../services/transactionArchive';
+import { getTagTotals, parseTagFilter } from '../services/tags';
 import type { Env } from '../types';
 import type { SpendingAnalytics } from '@finhome360/shared';
 
@@ -14,15 +17,16 @@ analytics.use('*', authMiddleware, tenantMiddleware);
 analytics.get('/spending', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   // Get summary
   const summary = await db
     .select({
       type: transactions.type,
-      total: sql<number>`sum(${transactions.amount})`,
+      total: sql<number>`sum(${transactions.amount})`.mapWith(transactions.amount),
     })
     .from(transactions)
-    .where(eq(transactions.tenantId, tenantId))
+    .where(and(eq(transactions.tenantId, tenantId), archivedFilter(includeArchived)))
     .groupBy(transactions.type)
     .all();
 
@@ -30,30 +34,34 @@ analytics.get('/spending', async c => {
   const totalExpenses = summary.find(s => s.type === 'expense')?.total || 0;
   const netCashflow = totalIncome - totalExpenses;
 
-  // Get by category
-  const byCategory = await db
-    .select({
-      categoryId: transactions.categoryId,
-      categoryName: categories.name,
-      amount: sql<number>`sum(${transactions.amount})`,
-    })
-    .from(transactions)
-    .leftJoin(categories, eq(transactions.categoryId, categories.id))
-    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.type, 'expense')))
-    .groupBy(transactions.categoryId, categories.name)
-    .all();
+  // Get by category (split transactions count per split line)
+  const [categoryTotals, tenantCategories] = await Promise.all([
+    getCategoryTotals(db, tenantId, { type: 'expense', includeArchived }),
+    db
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId))
+      .all(),
+  ]);
+  const categoryNames = new Map(tenantCategories.map(category => [category.id, category.name]));
+  const byCategory = Array.from(categoryTotals.entries()).map(([categoryId, amount]) => ({
+    categoryId,
+    categoryName: categoryNames.get(categoryId),
+    amount,
+  }));
 
   // Get trend data (last 6 months)
   const trendData = await db
     .select({
       date: sql<string>`strftime('%Y-%m-%d', ${transactions.date})`,
       type: transactions.type,
-      amount: sql<number>`sum(${transactions.amount})`,
+      amount: sql<number>`sum(${transactions.amount})`.mapWith(transactions.amount),
     })
     .from(transactions)
     .where(
       and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         sql`${transactions.date} >= date('now', '-6 months')`
       )
     )
@@ -105,16 +113,18 @@ analytics.get('/spending', async c => {
 analytics.get('/cashflow', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   // Get monthly cashflow trend (last 6 months)
   const trend = await db
     .select({
       date: sql<string>`strftime('%Y-%m', ${transactions.date})`,
       type: transactions.type,
-      total: sql<number>`sum(${transactions.amount})`,
+      total: sql<number>`sum(${transactions.amount})`.mapWith(transactions.amount),
     })
     .from(transactions)
-    .where(eq(transactions.tenantId, tenantId))
+    // Transfers move money between the tenant's own accounts, so they are not cashflow
+    .where(and(eq(transactions.tenantId, tenantId), ne(transactions.type, 'transfer'), archivedFilter(includeArchived)))
     .groupBy(sql`strftime('%Y-%m', ${transactions.date})`, transactions.type)
     .orderBy(sql`strftime('%Y-%m', ${transactions.date})`)
     .all();
@@ -129,6 +139,7 @@ analytics.get('/cashflow', async c => {
 analytics.get('/account-performance', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -136,20 +147,21 @@ analytics.get('/account-performance', async c => {
   const dateFilter = startDate && endDate
     ? and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         gte(transactions.date, new Date(startDate)),
         lte(transactions.date, new Date(endDate))
       )!
-    : eq(transactions.tenantId, tenantId);
+    : and(eq(transactions.tenantId, tenantId), archivedFilter(includeArchived))!;
 
   const accountStats = await db
     .select({
       accountId: transactions.accountId,
       accountName: accounts.name,
       accountType: accounts.type,
-      totalIncome: sql<number>`sum(case when ${transactions.type} = 'income' then ${transactions.amount} else 0 end)`,
-      totalExpenses: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`,
+      totalIncome: sql<number>`sum(case when ${transactions.type} = 'income' then ${transactions.amount} else 0 end)`.mapWith(transactions.amount),
+      totalExpenses: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
       transactionCount: sql<number>`count(*)`,
-      avgTransaction: sql<number>`avg(abs(${transactions.amount}))`,
+      avgTransaction: sql<number>`avg(abs(${transactions.amount}))`.mapWith(transactions.amount),
     })
     .from(transactions)
     .innerJoin(accounts, eq(transactions.accountId, accounts.id))
@@ -170,6 +182,7 @@ analytics.get('/account-performance', async c => {
 analytics.get('/category-trends', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const categoryId = c.req.query('categoryId');
   const startDate = c.req.query('startDate');
@@ -191,6 +204,10 @@ analytics.get('/category-trends', async c => {
 
   const filters = [eq(transactions.tenantId, tenantId)];
 
+  if (!includeArchived) {
+    filters.push(isNull(transactions.archivedAt));
+  }
+
   if (categoryId) {
     filters.push(eq(transactions.categoryId, categoryId));
   }
@@ -207,9 +224,9 @@ analytics.get('/category-trends', async c => {
       period: sql<string>`strftime('${sql.raw(dateFormat)}', ${transactions.date})`,
       categoryId: transactions.categoryId,
       categoryName: categories.name,
-      totalAmount: sql<number>`sum(abs(${transactions.amount}))`,
+      totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
       transactionCount: sql<number>`count(*)`,
-      avgAmount: sql<number>`avg(abs(${transactions.amount}))`,
+      avgAmount: sql<number>`avg(abs(${transactions.amount}))`.mapWith(transactions.amount),
     })
     .from(transactions)
     .leftJoin(categories, eq(transactions.categoryId, categories.id))
@@ -228,6 +245,7 @@ analytics.get('/category-trends', async c => {
 analytics.get('/top-merchants', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const limit = parseInt(c.req.query('limit') || '10', 10);
   const startDate = c.req.query('startDate');
@@ -236,18 +254,19 @@ analytics.get('/top-merchants', async c => {
   const whereClause = startDate && endDate
     ? and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         gte(transactions.date, new Date(startDate)),
         lte(transactions.date, new Date(endDate))
       )!
-    : eq(transactions.tenantId, tenantId);
+    : and(eq(transactions.tenantId, tenantId), archivedFilter(includeArchived))!;
 
   const topMerchants = await db
     .select({
       description: transactions.description,
       categoryName: categories.name,
       transactionCount: sql<number>`count(*)`,
-      totalAmount: sql<number>`sum(abs(${transactions.amount}))`,
-      avgAmount: sql<number>`avg(abs(${transactions.amount}))`,
+      totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
+      avgAmount: sql<number>`avg(abs(${transactions.amount}))`.mapWith(transactions.amount),
     })
     .from(transactions)
     .leftJoin(categories, eq(transactions.categoryId, categories.id))
@@ -267,6 +286,7 @@ analytics.get('/top-merchants', async c => {
 analytics.get('/transaction-velocity', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -274,10 +294,11 @@ analytics.get('/transaction-velocity', async c => {
   const whereClause = startDate && endDate
     ? and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         gte(transactions.date, new Date(startDate)),
         lte(transactions.date, new Date(endDate))
       )!
-    : eq(transactions.tenantId, tenantId);
+    : and(eq(transactions.tenantId, tenantId), archivedFilter(includeArchived))!;
 
   // Get transactions by day of week
   const byDayOfWeek = await db
@@ -293,8 +314,8 @@ analytics.get('/transaction-velocity', async c => {
         when 6 then 'Saturday'
       end`,
       transactionCount: sql<number>`count(*)`,
-      totalAmount: sql<number>`sum(abs(${transactions.amount}))`,
-      avgAmount: sql<number>`avg(abs(${transactions.amount}))`,
+      totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
+      avgAmount: sql<number>`avg(abs(${transactions.amount}))`.mapWith(transactions.amount),
     })
     .from(transactions)
     .where(whereClause)
@@ -307,7 +328,7 @@ analytics.get('/transaction-velocity', async c => {
     .select({
       hour: sql<number>`cast(strftime('%H', ${transactions.date}) as integer)`,
       transactionCount: sql<number>`count(*)`,
-      totalAmount: sql<number>`sum(abs(${transactions.amount}))`,
+      totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
     })
     .from(transactions)
     .where(whereClause)
@@ -328,6 +349,7 @@ analytics.get('/transaction-velocity', async c => {
 analytics.get('/comparative', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const period = c.req.query('period') || 'month'; // 'month', 'quarter', 'year'
   const compareCount = parseInt(c.req.query('compareCount') || '2', 10); // Compare last N periods
@@ -364,15 +386,16 @@ analytics.get('/comparative', async c => {
     periods.map(async ({ start, end, label }) => {
       const periodStats = await db
         .select({
-          totalIncome: sql<number>`sum(case when ${transactions.type} = 'income' then ${transactions.amount} else 0 end)`,
-          totalExpenses: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`,
+          totalIncome: sql<number>`sum(case when ${transactions.type} = 'income' then ${transactions.amount} else 0 end)`.mapWith(transactions.amount),
+          totalExpenses: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
           transactionCount: sql<number>`count(*)`,
-          avgTransaction: sql<number>`avg(abs(${transactions.amount}))`,
+          avgTransaction: sql<number>`avg(abs(${transactions.amount}))`.mapWith(transactions.amount),
         })
         .from(transactions)
         .where(
           and(
             eq(transactions.tenantId, tenantId),
+            archivedFilter(includeArchived),
             gte(transactions.date, start),
             lte(transactions.date, end)
           )
@@ -383,13 +406,14 @@ analytics.get('/comparative', async c => {
       const categoryBreakdown = await db
         .select({
           categoryName: categories.name,
-          totalAmount: sql<number>`sum(abs(${transactions.amount}))`,
+          totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
         })
         .from(transactions)
         .leftJoin(categories, eq(transactions.categoryId, categories.id))
         .where(
           and(
             eq(transactions.tenantId, tenantId),
+            archivedFilter(includeArchived),
             gte(transactions.date, start),
             lte(transactions.date, end)
           )
@@ -418,4 +442,27 @@ analytics.get('/comparative', async c => {
   });
 });
 
+// Get income and expense totals grouped by tag.
+// A transaction carrying several tags counts towards each of them, so totals can overlap.
+analytics.get('/tags', async c => {
+  const tenantId = c.get('tenantId')!;
+  const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
+
+  const startDate = c.req.query('startDate');
+  const endDate = c.req.query('endDate');
+  const tagNames = parseTagFilter(c.req.query('tags'));
+
+  const totals = await getTagTotals(db, tenantId, {
+    startDate: startDate ? new Date(startDate) : undefined,
+    endDate: endDate ? new Date(endDate) : undefined,
+    includeArchived,
+  });
+
+  return c.json({
+    success: true,
+    data: tagNames.length > 0 ? totals.filter(total => tagNames.includes(total.name)) : totals,
+  });
+});
+
 export default analytics;
@@ -0,0 +1,205 @@
+import { Hono } from 'hono';
+import { and, eq } from 'drizzle-orm';
+import { getDb, billReminders, transactions } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import {
+  createAttachment,
+  deleteAttachment,
+  getAttachment,
+  listAttachments,
+  validateAttachmentFile,
+  type Attachment,
+} from '../services/attachments';
+import type { Env } from '../types';
+
+const attachmentsRouter = new Hono<Env>();
+
+// Apply middleware
+attachmentsRouter.use('*', authMiddleware, tenantMiddleware);
+
+// The object key stays server-side
+function toAttachmentResponse({ fileKey: _fileKey, ...attachment }: Attachment) {
+  return attachment;
+}
+
+// GET /api/attachments?transactionId=&billReminderId= - Attachments of a transaction or bill reminder
+attachmentsRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const transactionId = c.req.query('transactionId');
+    const billReminderId = c.req.query('billReminderId');
+    const db = getDb(c.env.DB);
+
+    if (!transactionId && !billReminderId) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'transactionId or billReminderId is required' } },
+        400
+      );
+    }
+
+    const data = await listAttachments(db, tenantId, { transactionId, billReminderId });
+
+    return c.json({ success: true, data: data.map(toAttachmentResponse) });
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch attachments' } },
+      500
+    );
+  }
+});
+
+// POST /api/attachments - Upload a receipt or document.
+// Multipart: `file`, plus `transactionId` and/or `billReminderId`.
+attachmentsRouter.post('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const db = getDb(c.env.DB);
+    const formData = await c.req.formData();
+
+    const fileEntry = formData.get('file');
+    const transactionId = (formData.get('transactionId') as string) || null;
+    const billReminderId = (formData.get('billReminderId') as string) || null;
+
+    if (!fileEntry || typeof fileEntry === 'string') {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'No file provided or invalid file' } },
+        400
+      );
+    }
+    if (!transactionId && !billReminderId) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'transactionId or billReminderId is required' } },
+        400
+      );
+    }
+
+    const file = fileEntry as File;
+    const fileError = validateAttachmentFile(file);
+    if (fileError) {
+      return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message: fileError } }, 400);
+    }
+
+    if (transactionId) {
+      const transaction = await db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.id, transactionId), eq(transactions.tenantId, tenantId)))
+        .get();
+      if (!transaction) {
+        return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Transaction not found' } }, 404);
+      }
+    }
+
+    if (billReminderId) {
+      const billReminder = await db
+        .select({ id: billReminders.id })
+        .from(billReminders)
+        .where(and(eq(billReminders.id, billReminderId), eq(billReminders.tenantId, tenantId)))
+        .get();
+      if (!billReminder) {
+        return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Bill reminder not found' } }, 404);
+      }
+    }
+
+    if (!c.env.FILES) {
+      return c.json(
+        { success: false, error: { code: 'STORAGE_UNAVAILABLE', message: 'File storage is not configured' } },
+        503
+      );
+    }
+
+    const attachment = await createAttachment(db, c.env.FILES, tenantId, user.id, file, { transactionId, billReminderId });
+
+    return c.json({ success: true, data: toAttachmentResponse(attachment) }, 201);
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to upload attachment' } },
+      500
+    );
+  }
+});
+
+// GET /api/attachments/:id - Attachment details
+attachmentsRouter.get('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const attachment = await getAttachment(db, tenantId, c.req.param('id'));
+    if (!attachment) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Attachment not found' } }, 404);
+    }
+
+    return c.json({ success: true, data: toAttachmentResponse(attachment) });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch attachment' } },
+      500
+    );
+  }
+});
+
+// GET /api/attachments/:id/download - Stream the stored file
+attachmentsRouter.get('/:id/download', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const attachment = await getAttachment(db, tenantId, c.req.param('id'));
+    if (!attachment) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Attachment not found' } }, 404);
+    }
+
+    const object = c.env.FILES ? await c.env.FILES.get(attachment.fileKey) : null;
+    if (!object) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Attachment file is missing from storage' } },
+        404
+      );
+    }
+
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': object.httpMetadata?.contentType || attachment.contentType,
+        'Content-Length': object.size.toString(),
+        'Content-Disposition': `attachment; filename="${attachment.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to download attachment' } },
+      500
+    );
+  }
+});
+
+// DELETE /api/attachments/:id - Delete an attachment and its file
+attachmentsRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const attachment = await getAttachment(db, tenantId, c.req.param('id'));
+    if (!attachment) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Attachment not found' } }, 404);
+    }
+
+    await deleteAttachment(db, c.env.FILES, attachment);
+
+    return c.json({ success: true, data: { message: 'Attachment deleted successfully' } });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete attachment' } },
+      500
+    );
+  }
+});
+
+export default attachmentsRouter;
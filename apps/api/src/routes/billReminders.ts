@@ -1,10 +1,18 @@
 import { Hono } from 'hono';
 import { eq, and, desc } from 'drizzle-orm';
-import { getDb, billReminders, categories } from '../db';
+import { getDb, billReminders, billPayments, categories, transactions } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
-import { CreateBillReminderSchema } from '@finhome360/shared';
+import { CreateBillReminderSchema, PayBillReminderSchema } from '@finhome360/shared';
 import { getCurrentTimestamp } from '../utils/timestamp';
+import { deleteBillReminderAttachments } from '../services/attachments';
+import {
+  getBillPaymentForTransaction,
+  isReminderDue,
+  listBillPayments,
+  payBill,
+  sendBillReminder,
+} from '../services/billReminders';
 import type { Env } from '../types';
 
 const billRemindersRouter = new Hono<Env>();
@@ -29,6 +37,7 @@ billRemindersRouter.get('/', async c => {
         frequency: billReminders.frequency,
         reminderDays: billReminders.reminderDays,
         status: billReminders.status,
+        remindedForDueDate: billReminders.remindedForDueDate,
         createdAt: billReminders.createdAt,
         updatedAt: billReminders.updatedAt,
         category: {
@@ -108,22 +117,17 @@ billRemindersRouter.post('/', validateRequest(CreateBillReminderSchema), async c
       id: crypto.randomUUID(),
       tenantId,
       ...body,
+      remindedForDueDate: null,
       createdAt: now,
       updatedAt: now,
     };
 
     await db.insert(billReminders).values(newBillReminder).run();
 
-    // Queue bill reminder notification if due soon
-    const daysUntilDue = Math.ceil((newBillReminder.dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-    
-    if (daysUntilDue <= newBillReminder.reminderDays && c.env.BILL_REMINDERS) {
-      await c.env.BILL_REMINDERS.send({
-        type: 'bill-reminder',
-        billReminderId: newBillReminder.id,
-        tenantId,
-        dueDate: newBillReminder.dueDate.toISOString(),
-      });
+    // Queue the reminder now if the bill is already within its lead time; later ones come from the daily sweep
+    if (isReminderDue(newBillReminder, now) && c.env.BILL_REMINDERS) {
+      await sendBillReminder(db, c.env.BILL_REMINDERS, newBillReminder);
+      newBillReminder.remindedForDueDate = newBillReminder.dueDate;
     }
 
     return c.json(
@@ -145,6 +149,122 @@ billRemindersRouter.post('/', validateRequest(CreateBillReminderSchema), async c
   }
 });
 
+// Payment history of a bill, latest cycle first
+billRemindersRouter.get('/:id/payments', async c => {
+  try {
+    const id = c.req.param('id');
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const billReminder = await db
+      .select({ id: billReminders.id })
+      .from(billReminders)
+      .where(and(eq(billReminders.id, id), eq(billReminders.tenantId, tenantId)))
+      .get();
+
+    if (!billReminder) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Bill reminder not found' } },
+        404
+      );
+    }
+
+    const payments = await listBillPayments(db, tenantId, id);
+
+    return c.json({
+      success: true,
+      data: payments,
+    });
+  } catch (error) {
+    console.error('Error fetching bill payments:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch bill payments' },
+      },
+      500
+    );
+  }
+});
+
+// Mark the current cycle paid, optionally linking the paying transaction.
+// Recurring bills move on to their next due date.
+billRemindersRouter.post('/:id/pay', validateRequest(PayBillReminderSchema), async c => {
+  try {
+    const id = c.req.param('id');
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData');
+    const db = getDb(c.env.DB);
+
+    const billReminder = await db
+      .select()
+      .from(billReminders)
+      .where(and(eq(billReminders.id, id), eq(billReminders.tenantId, tenantId)))
+      .get();
+
+    if (!billReminder) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Bill reminder not found' } },
+        404
+      );
+    }
+
+    if (billReminder.status === 'paid') {
+      return c.json(
+        { success: false, error: { code: 'ALREADY_PAID', message: 'This bill has already been paid' } },
+        409
+      );
+    }
+
+    let transaction: typeof transactions.$inferSelect | undefined;
+    if (body.transactionId) {
+      transaction = await db
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, body.transactionId), eq(transactions.tenantId, tenantId)))
+        .get();
+
+      if (!transaction) {
+        return c.json(
+          { success: false, error: { code: 'INVALID_TRANSACTION', message: 'Transaction not found or does not belong to your organization' } },
+          400
+        );
+      }
+
+      if (transaction.type !== 'expense') {
+        return c.json(
+          { success: false, error: { code: 'INVALID_TRANSACTION', message: 'Only expense transactions can pay a bill' } },
+          400
+        );
+      }
+
+      const existingPayment = await getBillPaymentForTransaction(db, tenantId, transaction.id);
+      if (existingPayment) {
+        return c.json(
+          { success: false, error: { code: 'TRANSACTION_ALREADY_LINKED', message: 'This transaction already pays a bill' } },
+          409
+        );
+      }
+    }
+
+    const result = await payBill(db, billReminder, { transaction, paidAt: body.paidAt });
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error paying bill reminder:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to pay bill reminder' },
+      },
+      500
+    );
+  }
+});
+
 // Update bill reminder
 billRemindersRouter.put('/:id', validateRequest(CreateBillReminderSchema), async c => {
   try {
@@ -220,6 +340,11 @@ billRemindersRouter.delete('/:id', async c => {
       );
     }
 
+    await deleteBillReminderAttachments(db, c.env.FILES, tenantId, [id]);
+    await db
+      .delete(billPayments)
+      .where(and(eq(billPayments.billReminderId, id), eq(billPayments.tenantId, tenantId)))
+      .run();
     await db
       .delete(billReminders)
       .where(and(eq(billReminders.id, id), eq(billReminders.tenantId, tenantId)))
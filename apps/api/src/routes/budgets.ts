@@ -1,12 +1,53 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { eq, and } from 'drizzle-orm';
+import type { ZodError } from 'zod';
+import {
+  AssignBudgetSchema,
+  BudgetProgressParamsSchema,
+  CreateBudgetSchema,
+  UpdateBudgetSchema,
+  subtractMoney,
+  sumMoney,
+  type CreateBudgetRequest,
+  type UpdateBudgetRequest,
+} from '@finhome360/shared';
 import { getDb, budgets, categories } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
 import { getCurrentTimestamp } from '../utils/timestamp';
+import {
+  assignToEnvelope,
+  budgetPeriodAt,
+  deleteBudgetAllocations,
+  findOverlappingBudget,
+  getBudgetAllocation,
+  getBudgetHistory,
+  getBudgetProgress,
+  getEnvelopeSummary,
+} from '../services/budgets';
+import { parseIncludeArchived } from '../services/transactionArchive';
 import type { Env } from '../types';
 
 const budgetsRouter = new Hono<Env>();
 
+function invalidQuery(c: Context<Env>, error: ZodError) {
+  return c.json(
+    {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid query parameters',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+    },
+    400
+  );
+}
+
 // Apply middleware
 budgetsRouter.use('*', authMiddleware, tenantMiddleware);
 
@@ -14,6 +55,7 @@ budgetsRouter.use('*', authMiddleware, tenantMiddleware);
 budgetsRouter.get('/', async c => {
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
   const allBudgets = await db
     .select({
@@ -22,6 +64,8 @@ budgetsRouter.get('/', async c => {
       categoryId: budgets.categoryId,
       amount: budgets.amount,
       period: budgets.period,
+      rollover: budgets.rollover,
+      mode: budgets.mode,
       startDate: budgets.startDate,
       endDate: budgets.endDate,
       createdAt: budgets.createdAt,
@@ -38,28 +82,100 @@ budgetsRouter.get('/', async c => {
     .where(eq(budgets.tenantId, tenantId))
     .all();
 
+  // Progress of the current period, or the last one for budgets that have ended
+  const now = new Date();
+  const budgetsWithSpent = await Promise.all(
+    allBudgets.map(async budget => {
+      const history = await getBudgetHistory(db, tenantId, budget, budget.category?.name ?? '', now, includeArchived);
+      const progress = history[history.length - 1] ?? null;
+
+      return { ...budget, spent: progress?.spent ?? 0, progress };
+    })
+  );
+
   return c.json({
     success: true,
-    data: allBudgets,
+    data: budgetsWithSpent,
   });
 });
 
+// Current period progress of every running budget
+budgetsRouter.get('/progress', async c => {
+  const validation = BudgetProgressParamsSchema.safeParse(c.req.query());
+  if (!validation.success) {
+    return invalidQuery(c, validation.error);
+  }
+
+  const tenantId = c.get('tenantId')!;
+  const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
+  const progress = await getBudgetProgress(db, tenantId, validation.data.date ?? new Date(), includeArchived);
+
+  return c.json({ success: true, data: progress });
+});
+
+// Envelope budgets and the income still to be assigned to them
+budgetsRouter.get('/envelopes', async c => {
+  const validation = BudgetProgressParamsSchema.safeParse(c.req.query());
+  if (!validation.success) {
+    return invalidQuery(c, validation.error);
+  }
+
+  const tenantId = c.get('tenantId')!;
+  const db = getDb(c.env.DB);
+  const summary = await getEnvelopeSummary(db, tenantId, validation.data.date ?? new Date());
+
+  return c.json({ success: true, data: summary });
+});
+
+// Budgets track spending, so they must use one of the tenant's expense categories
+async function budgetCategoryError(db: ReturnType<typeof getDb>, tenantId: string, categoryId: string): Promise<string | null> {
+  const category = await db
+    .select({ type: categories.type })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), eq(categories.tenantId, tenantId)))
+    .get();
+
+  if (!category) return 'Category not found or does not belong to your organization';
+  if (category.type !== 'expense') return 'Budgets can only track expense categories';
+  return null;
+}
+
+function overlapError(c: Context<Env>) {
+  return c.json(
+    {
+      success: false,
+      error: { code: 'BUDGET_OVERLAP', message: 'A budget for this category and period already covers these dates' },
+    },
+    409
+  );
+}
+
 // Create budget
-budgetsRouter.post('/', async c => {
+budgetsRouter.post('/', validateRequest(CreateBudgetSchema), async c => {
   const tenantId = c.get('tenantId')!;
-  const body = await c.req.json();
+  const body: CreateBudgetRequest = c.get('validatedData');
   const db = getDb(c.env.DB);
 
-  const now = getCurrentTimestamp();
+  const categoryError = await budgetCategoryError(db, tenantId, body.categoryId);
+  if (categoryError) {
+    return c.json({ success: false, error: { code: 'INVALID_CATEGORY', message: categoryError } }, 400);
+  }
 
+  const now = getCurrentTimestamp();
   const newBudget = {
     id: crypto.randomUUID(),
     tenantId,
     ...body,
+    endDate: body.endDate ?? null,
     createdAt: now,
     updatedAt: now,
   };
 
+  if (await findOverlappingBudget(db, tenantId, newBudget)) {
+    return overlapError(c);
+  }
+
   await db.insert(budgets).values(newBudget).run();
 
   return c.json({
@@ -69,30 +185,153 @@ budgetsRouter.post('/', async c => {
 });
 
 // Update budget
-budgetsRouter.put('/:id', async c => {
+budgetsRouter.put('/:id', validateRequest(UpdateBudgetSchema), async c => {
   const id = c.req.param('id');
   const tenantId = c.get('tenantId')!;
-  const body = await c.req.json();
+  const body: UpdateBudgetRequest = c.get('validatedData');
   const db = getDb(c.env.DB);
 
+  const existing = await db
+    .select()
+    .from(budgets)
+    .where(and(eq(budgets.id, id), eq(budgets.tenantId, tenantId)))
+    .get();
+
+  if (!existing) {
+    return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Budget not found' } }, 404);
+  }
+
+  if (body.categoryId && body.categoryId !== existing.categoryId) {
+    const categoryError = await budgetCategoryError(db, tenantId, body.categoryId);
+    if (categoryError) {
+      return c.json({ success: false, error: { code: 'INVALID_CATEGORY', message: categoryError } }, 400);
+    }
+  }
+
+  const updated = { ...existing, ...body, updatedAt: getCurrentTimestamp() };
+
+  // Only one of the dates may have been sent, so the range is checked after merging
+  if (updated.endDate && updated.endDate < updated.startDate) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: [{ field: 'endDate', message: 'End date must not be before the start date' }],
+        },
+      },
+      400
+    );
+  }
+
+  if (await findOverlappingBudget(db, tenantId, updated, id)) {
+    return overlapError(c);
+  }
+
   await db
     .update(budgets)
-    .set({ ...body, updatedAt: getCurrentTimestamp() })
+    .set({ ...body, updatedAt: updated.updatedAt })
     .where(and(eq(budgets.id, id), eq(budgets.tenantId, tenantId)))
     .run();
 
   return c.json({
     success: true,
-    data: { id, ...body },
+    data: updated,
   });
 });
 
+// Progress of a budget's most recent periods, oldest first
+budgetsRouter.get('/:id/history', async c => {
+  const validation = BudgetProgressParamsSchema.safeParse(c.req.query());
+  if (!validation.success) {
+    return invalidQuery(c, validation.error);
+  }
+
+  const id = c.req.param('id');
+  const tenantId = c.get('tenantId')!;
+  const db = getDb(c.env.DB);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
+
+  const row = await db
+    .select({ budget: budgets, categoryName: categories.name })
+    .from(budgets)
+    .leftJoin(categories, eq(budgets.categoryId, categories.id))
+    .where(and(eq(budgets.id, id), eq(budgets.tenantId, tenantId)))
+    .get();
+
+  if (!row) {
+    return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Budget not found' } }, 404);
+  }
+
+  const { date, periods } = validation.data;
+  const history = await getBudgetHistory(db, tenantId, row.budget, row.categoryName ?? '', date ?? new Date(), includeArchived);
+
+  return c.json({ success: true, data: history.slice(-periods) });
+});
+
+// Assign income to an envelope budget for one period. The amount replaces
+// what was assigned to that period before; income not yet assigned must cover it.
+budgetsRouter.post('/:id/assign', validateRequest(AssignBudgetSchema), async c => {
+  const id = c.req.param('id');
+  const tenantId = c.get('tenantId')!;
+  const body = c.get('validatedData');
+  const db = getDb(c.env.DB);
+
+  const budget = await db
+    .select()
+    .from(budgets)
+    .where(and(eq(budgets.id, id), eq(budgets.tenantId, tenantId)))
+    .get();
+
+  if (!budget) {
+    return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Budget not found' } }, 404);
+  }
+
+  if (budget.mode !== 'envelope') {
+    return c.json(
+      { success: false, error: { code: 'NOT_ENVELOPE_BUDGET', message: 'Income can only be assigned to envelope budgets' } },
+      400
+    );
+  }
+
+  const now = new Date();
+  const date: Date = body.date ?? now;
+  const period = budgetPeriodAt(budget, date);
+  if (!period) {
+    return c.json(
+      { success: false, error: { code: 'OUTSIDE_BUDGET_PERIOD', message: 'The date is outside the budget\'s start and end dates' } },
+      400
+    );
+  }
+
+  // Checked as of the later of today and the period, so earlier periods cannot
+  // take income already assigned to later ones
+  const [summary, existing] = await Promise.all([
+    getEnvelopeSummary(db, tenantId, date > now ? date : now),
+    getBudgetAllocation(db, budget, period.start),
+  ]);
+  const toBeBudgeted = subtractMoney(sumMoney([summary.toBeBudgeted, existing?.amount ?? 0]), body.amount);
+
+  if (toBeBudgeted < 0) {
+    return c.json(
+      { success: false, error: { code: 'INSUFFICIENT_FUNDS', message: 'Not enough unassigned income to cover this amount' } },
+      409
+    );
+  }
+
+  const allocation = await assignToEnvelope(db, budget, period.start, body.amount);
+
+  return c.json({ success: true, data: { allocation, toBeBudgeted } });
+});
+
 // Delete budget
 budgetsRouter.delete('/:id', async c => {
   const id = c.req.param('id');
   const tenantId = c.get('tenantId')!;
   const db = getDb(c.env.DB);
 
+  await deleteBudgetAllocations(db, tenantId, id);
   await db
     .delete(budgets)
     .where(and(eq(budgets.id, id), eq(budgets.tenantId, tenantId)))
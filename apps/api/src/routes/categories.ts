@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import { eq, and, desc } from 'drizzle-orm';
-import { getDb, categories } from '../db';
+import { getDb, categories, merchantCategoryRules, categorizationRules } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { CreateCategorySchema } from '@finhome360/shared';
@@ -190,6 +190,19 @@ categoriesRouter.delete('/:id', async c => {
       );
     }
 
+    // Learned merchant rules pointing at the category are no longer useful
+    await db
+      .delete(merchantCategoryRules)
+      .where(and(eq(merchantCategoryRules.categoryId, id), eq(merchantCategoryRules.tenantId, tenantId)))
+      .run();
+
+    // Categorization rules keep their other actions but stop setting the category
+    await db
+      .update(categorizationRules)
+      .set({ setCategoryId: null })
+      .where(and(eq(categorizationRules.setCategoryId, id), eq(categorizationRules.tenantId, tenantId)))
+      .run();
+
     await db
       .delete(categories)
       .where(and(eq(categories.id, id), eq(categories.tenantId, tenantId)))
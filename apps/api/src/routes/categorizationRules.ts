@@ -0,0 +1,230 @@
+import { Hono } from 'hono';
+import { eq, and } from 'drizzle-orm';
+import { getDb, accounts, categories } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  CreateCategorizationRuleSchema,
+  UpdateCategorizationRuleSchema,
+  PreviewCategorizationRuleSchema,
+  type CategorizationRuleActions,
+  type CategorizationRuleConditions,
+  type CreateCategorizationRuleRequest,
+  type UpdateCategorizationRuleRequest,
+  type PreviewCategorizationRuleRequest,
+} from '@finhome360/shared';
+import {
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  previewRule,
+  toRuleDefinition,
+  toRuleResponse,
+} from '../services/categorizationRules';
+import type { Env } from '../types';
+
+const categorizationRulesRouter = new Hono<Env>();
+
+// Apply middleware
+categorizationRulesRouter.use('*', authMiddleware, tenantMiddleware);
+
+/**
+ * Check that the account and category a rule refers to belong to the tenant.
+ * Returns an error message, or null when all references are valid.
+ */
+async function findInvalidReference(
+  db: ReturnType<typeof getDb>,
+  tenantId: string,
+  conditions?: CategorizationRuleConditions,
+  actions?: CategorizationRuleActions
+): Promise<string | null> {
+  if (conditions?.accountId) {
+    const account = await db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.id, conditions.accountId), eq(accounts.tenantId, tenantId)))
+      .get();
+    if (!account) return 'Account not found';
+  }
+
+  if (actions?.categoryId) {
+    const category = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.id, actions.categoryId), eq(categories.tenantId, tenantId)))
+      .get();
+    if (!category) return 'Category not found';
+  }
+
+  return null;
+}
+
+const parseLimit = (value: string | undefined) => Math.min(Math.max(parseInt(value || '100') || 100, 1), 500);
+
+// Get all rules in the order they run
+categorizationRulesRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const rules = await listRules(db, tenantId);
+
+    return c.json({ success: true, data: rules.map(toRuleResponse) });
+  } catch (error) {
+    console.error('Error fetching categorization rules:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch categorization rules' } },
+      500
+    );
+  }
+});
+
+// Preview which existing transactions an unsaved rule would change
+categorizationRulesRouter.post('/preview', validateRequest(PreviewCategorizationRuleSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as PreviewCategorizationRuleRequest;
+    const db = getDb(c.env.DB);
+
+    const preview = await previewRule(
+      db,
+      tenantId,
+      toRuleDefinition(body.conditions, body.actions),
+      parseLimit(c.req.query('limit'))
+    );
+
+    return c.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('Error previewing categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to preview categorization rule' } },
+      500
+    );
+  }
+});
+
+// Get single rule
+categorizationRulesRouter.get('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const rule = await getRule(db, tenantId, c.req.param('id'));
+    if (!rule) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Rule not found' } }, 404);
+    }
+
+    return c.json({ success: true, data: toRuleResponse(rule) });
+  } catch (error) {
+    console.error('Error fetching categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch categorization rule' } },
+      500
+    );
+  }
+});
+
+// Preview which existing transactions a saved rule would change
+categorizationRulesRouter.get('/:id/preview', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const rule = await getRule(db, tenantId, c.req.param('id'));
+    if (!rule) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Rule not found' } }, 404);
+    }
+
+    const preview = await previewRule(db, tenantId, rule, parseLimit(c.req.query('limit')));
+
+    return c.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('Error previewing categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to preview categorization rule' } },
+      500
+    );
+  }
+});
+
+// Create rule
+categorizationRulesRouter.post('/', validateRequest(CreateCategorizationRuleSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as CreateCategorizationRuleRequest;
+    const db = getDb(c.env.DB);
+
+    const invalidReference = await findInvalidReference(db, tenantId, body.conditions, body.actions);
+    if (invalidReference) {
+      return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message: invalidReference } }, 400);
+    }
+
+    const rule = await createRule(db, tenantId, body);
+
+    return c.json({ success: true, data: toRuleResponse(rule) }, 201);
+  } catch (error) {
+    console.error('Error creating categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create categorization rule' } },
+      500
+    );
+  }
+});
+
+// Update rule
+categorizationRulesRouter.put('/:id', validateRequest(UpdateCategorizationRuleSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const body = c.get('validatedData') as UpdateCategorizationRuleRequest;
+    const db = getDb(c.env.DB);
+
+    const existing = await getRule(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Rule not found' } }, 404);
+    }
+
+    const invalidReference = await findInvalidReference(db, tenantId, body.conditions, body.actions);
+    if (invalidReference) {
+      return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message: invalidReference } }, 400);
+    }
+
+    const rule = await updateRule(db, tenantId, id, body);
+
+    return c.json({ success: true, data: rule ? toRuleResponse(rule) : null });
+  } catch (error) {
+    console.error('Error updating categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update categorization rule' } },
+      500
+    );
+  }
+});
+
+// Delete rule
+categorizationRulesRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const db = getDb(c.env.DB);
+
+    const existing = await getRule(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Rule not found' } }, 404);
+    }
+
+    await deleteRule(db, tenantId, id);
+
+    return c.json({ success: true, data: { message: 'Rule deleted successfully' } });
+  } catch (error) {
+    console.error('Error deleting categorization rule:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete categorization rule' } },
+      500
+    );
+  }
+});
+
+export default categorizationRulesRouter;
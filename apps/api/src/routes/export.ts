@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { authMiddleware } from '../middleware/auth';
-import { ExportService, ExportFormat } from '../services/export.service';
+import { ExportService, ExportFormat, type ExportResult } from '../services/export.service';
+import { parseIncludeArchived } from '../services/transactionArchive';
 import type { Env } from '../types';
 
 const router = new Hono<Env>();
@@ -8,6 +9,16 @@ const router = new Hono<Env>();
 // Apply auth middleware to all routes
 router.use('/*', authMiddleware);
 
+// Send an export as a file download in its own format
+function exportResponse(result: ExportResult): Response {
+  return new Response(result.data as string | Uint8Array<ArrayBuffer>, {
+    headers: {
+      'Content-Type': result.mimeType,
+      'Content-Disposition': `attachment; filename="${result.filename}"`,
+    },
+  });
+}
+
 /**
  * Export transactions
  * GET /export/transactions?format=csv&startDate=2024-01-01&endDate=2024-12-31
@@ -22,6 +33,7 @@ router.get('/transactions', async (c) => {
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
     const accountId = query.accountId;
     const categoryId = query.categoryId;
+    const includeArchived = parseIncludeArchived(query.includeArchived);
 
     const result = await ExportService.exportTransactions(c, tenantId, {
       format,
@@ -29,26 +41,10 @@ router.get('/transactions', async (c) => {
       endDate,
       accountId,
       categoryId,
+      includeArchived,
     });
 
-    if (format === 'csv') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else if (format === 'json') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else {
-      // PDF format returns JSON data for frontend PDF generation
-      return c.json({ success: true, data: result.data });
-    }
+    return exportResponse(result);
   } catch (error: any) {
     console.error('Error exporting transactions:', error);
     return c.json(
@@ -73,30 +69,16 @@ router.get('/budgets', async (c) => {
     const format = (query.format as ExportFormat) || 'csv';
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
+    const includeArchived = parseIncludeArchived(query.includeArchived);
 
     const result = await ExportService.exportBudgets(c, tenantId, {
       format,
       startDate,
       endDate,
+      includeArchived,
     });
 
-    if (format === 'csv') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else if (format === 'json') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else {
-      return c.json({ success: true, data: result.data });
-    }
+    return exportResponse(result);
   } catch (error: any) {
     console.error('Error exporting budgets:', error);
     return c.json(
@@ -126,23 +108,7 @@ router.get('/goals', async (c) => {
       includeContributions,
     });
 
-    if (format === 'csv') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else if (format === 'json') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else {
-      return c.json({ success: true, data: result.data });
-    }
+    return exportResponse(result);
   } catch (error: any) {
     console.error('Error exporting goals:', error);
     return c.json(
@@ -167,30 +133,16 @@ router.get('/analytics', async (c) => {
     const format = (query.format as ExportFormat) || 'csv';
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
+    const includeArchived = parseIncludeArchived(query.includeArchived);
 
     const result = await ExportService.exportAnalytics(c, tenantId, {
       format,
       startDate,
       endDate,
+      includeArchived,
     });
 
-    if (format === 'csv') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else if (format === 'json') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else {
-      return c.json({ success: true, data: result.data });
-    }
+    return exportResponse(result);
   } catch (error: any) {
     console.error('Error exporting analytics:', error);
     return c.json(
@@ -215,30 +167,16 @@ router.get('/all', async (c) => {
     const format = (query.format as ExportFormat) || 'json';
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
+    const includeArchived = parseIncludeArchived(query.includeArchived);
 
     const result = await ExportService.exportAll(c, tenantId, {
       format,
       startDate,
       endDate,
+      includeArchived,
     });
 
-    if (format === 'csv') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else if (format === 'json') {
-      return new Response(result.data as string, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Disposition': `attachment; filename="${result.filename}"`,
-        },
-      });
-    } else {
-      return c.json({ success: true, data: result.data });
-    }
+    return exportResponse(result);
   } catch (error: any) {
     console.error('Error exporting all data:', error);
     return c.json(
@@ -2,9 +2,57 @@ import { Hono } from 'hono';
 import { eq, and, desc } from 'drizzle-orm';
 import { getDb, accounts, categories, importLogs } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
-import { parseCSV, parseOFX, mapCSVToTransactions, mapOFXToTransactions, parsePDF, parseXML, parseJSON, parseXLS, parseMT940 } from '../utils/fileParser';
+import { validateRequest } from '../middleware/validation';
+import {
+  ColumnMappingSchema,
+  CommitImportReviewSchema,
+  type ColumnMapping,
+  type CommitImportReviewRequest,
+} from '@finhome360/shared';
+import {
+  parseOFX,
+  mapCSVToTransactions,
+  mapOFXToTransactions,
+  parsePDF,
+  parseXML,
+  parseJSON,
+  parseMT940Statement,
+  parseQIF,
+  parseCAMT053,
+  isCAMT053,
+  isTabularFile,
+  readTabularFile,
+  applyColumnMapping,
+  suggestColumnMapping,
+  findMissingColumns,
+  type SpreadsheetParseOptions,
+  type TabularData,
+  type SkippedRow,
+  type MT940Statement,
+} from '../utils/fileParser';
 import { getCurrentTimestamp } from '../utils/timestamp';
 import { persistTransactionsFromImport } from '../services/importProcessor';
+import {
+  findProfileForHeaders,
+  getHeaderSignature,
+  getProfile,
+  recordProfileUse,
+  saveProfile,
+  type ImportProfile,
+} from '../services/importProfiles';
+import { hasReconciledTransactions, rollbackImport } from '../services/importRollback';
+import { findStatementBalancePoint, proposeReconciliation, type StatementBalancePoint } from '../services/reconciliation';
+import { getTenantPdfTemplates } from '../services/pdfTemplates';
+import {
+  DEFAULT_DUPLICATE_WINDOW_DAYS,
+  MAX_DUPLICATE_WINDOW_DAYS,
+  applyReviewDecisions,
+  findImportDuplicates,
+  parseImportReview,
+  stageImportReview,
+  summarizeReview,
+  type ImportReview,
+} from '../services/importReview';
 import type { Env } from '../types';
 import type { ParsedTransaction } from '../utils/fileParser';
 
@@ -13,6 +61,189 @@ const filesRouter = new Hono<Env>();
 // Apply middleware
 filesRouter.use('*', authMiddleware, tenantMiddleware);
 
+// Rows returned by the import preview
+const PREVIEW_ROW_COUNT = 10;
+const MAX_REPORTED_SKIPPED_ROWS = 50;
+
+/**
+ * Worksheet to read from an Excel upload: a sheet name or a zero-based index
+ */
+function readSheetOption(formData: FormData): SpreadsheetParseOptions['sheet'] {
+  const sheetEntry = formData.get('sheet');
+  if (typeof sheetEntry !== 'string' || !sheetEntry.trim()) return undefined;
+  const sheet = sheetEntry.trim();
+  return /^\d+$/.test(sheet) ? parseInt(sheet, 10) : sheet;
+}
+
+/**
+ * Column mapping sent with a preview or import: inline JSON in `mapping`, or a saved `profileId`
+ */
+async function readMappingOption(
+  db: ReturnType<typeof getDb>,
+  tenantId: string,
+  formData: FormData
+): Promise<{ mapping?: ColumnMapping; profile?: ImportProfile; error?: string }> {
+  const profileId = formData.get('profileId');
+  if (typeof profileId === 'string' && profileId) {
+    const profile = await getProfile(db, tenantId, profileId);
+    if (!profile) return { error: 'Import profile not found' };
+    return { mapping: JSON.parse(profile.mapping), profile };
+  }
+
+  const mappingEntry = formData.get('mapping');
+  if (typeof mappingEntry !== 'string' || !mappingEntry) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(mappingEntry);
+  } catch {
+    return { error: 'mapping must be valid JSON' };
+  }
+
+  const result = ColumnMappingSchema.safeParse(raw);
+  if (!result.success) {
+    return { error: result.error.errors.map(issue => `${issue.path.join('.') || 'mapping'}: ${issue.message}`).join('; ') };
+  }
+  return { mapping: result.data };
+}
+
+async function failImportLog(db: ReturnType<typeof getDb>, logId: string, message: string, startTime: number): Promise<void> {
+  await db
+    .update(importLogs)
+    .set({
+      status: 'failed',
+      errorMessage: message,
+      completedAt: new Date(),
+      processingTimeMs: Date.now() - startTime,
+    })
+    .where(eq(importLogs.id, logId))
+    .run();
+}
+
+/**
+ * Dry-run uploads classify rows against existing transactions and wait for the user to commit
+ */
+function readDryRunOption(formData: FormData): { dryRun: boolean; windowDays: number } {
+  const dryRun = formData.get('dryRun');
+  const windowEntry = formData.get('duplicateWindowDays');
+  const windowDays = typeof windowEntry === 'string' && /^\d+$/.test(windowEntry.trim())
+    ? Math.min(parseInt(windowEntry, 10), MAX_DUPLICATE_WINDOW_DAYS)
+    : DEFAULT_DUPLICATE_WINDOW_DAYS;
+  return { dryRun: dryRun === 'true' || dryRun === '1', windowDays };
+}
+
+/**
+ * Keep a copy of the uploaded file in R2 alongside its import log
+ */
+async function storeImportFile(
+  env: Env['Bindings'],
+  params: { tenantId: string; accountId: string; logId: string; file: File; content: string | ArrayBuffer; transactionCount: number }
+): Promise<void> {
+  if (!env.FILES) return;
+
+  const { tenantId, accountId, logId, file, content, transactionCount } = params;
+  const fileKey = `${tenantId}/${accountId}/${Date.now()}-${file.name}`;
+  await env.FILES.put(fileKey, content, {
+    httpMetadata: {
+      contentType: file.type || 'application/octet-stream',
+    },
+    customMetadata: {
+      tenantId,
+      accountId,
+      logId,
+      uploadedAt: new Date().toISOString(),
+      transactionCount: transactionCount.toString(),
+    },
+  });
+}
+
+function toReviewResponse(
+  logId: string,
+  account: typeof accounts.$inferSelect,
+  review: ImportReview,
+  profile: ImportProfile | null
+) {
+  return {
+    logId,
+    status: 'review' as const,
+    accountId: account.id,
+    accountName: account.name,
+    windowDays: review.windowDays,
+    summary: summarizeReview(review.rows),
+    rows: review.rows,
+    importProfile: profile ? { id: profile.id, name: profile.name } : undefined,
+  };
+}
+
+/**
+ * Warnings for MT940 statements whose closing balance does not match opening balance plus movements
+ */
+function describeBalanceMismatches(statements?: MT940Statement[]): string[] | undefined {
+  const warnings = (statements ?? [])
+    .filter(statement => statement.balanced === false)
+    .map(statement => {
+      const label = statement.statementNumber || statement.reference || 'Statement';
+      const currency = statement.closingBalance?.currency ?? '';
+      return `${label}: closing balance differs from opening balance plus transactions by ${statement.difference!.toFixed(2)} ${currency}`.trim();
+    });
+  return warnings.length > 0 ? warnings : undefined;
+}
+
+/**
+ * Propose the statement's closing balance as a reconciliation point once its transactions are in
+ */
+async function proposeImportReconciliation(
+  db: ReturnType<typeof getDb>,
+  tenantId: string,
+  userId: string,
+  accountId: string,
+  logId: string,
+  point: StatementBalancePoint | null | undefined,
+  finalStatus: 'success' | 'partial' | 'failed'
+) {
+  if (!point || finalStatus === 'failed') return undefined;
+  const reconciliation = await proposeReconciliation(db, tenantId, userId, accountId, logId, point);
+  return reconciliation ?? undefined;
+}
+
+/**
+ * Use the requested default category, or the tenant's "Uncategorized" category (created on first use)
+ */
+async function resolveImportCategoryId(
+  db: ReturnType<typeof getDb>,
+  tenantId: string,
+  defaultCategoryId: string | null
+): Promise<string> {
+  if (defaultCategoryId) return defaultCategoryId;
+
+  // Try to find an "Uncategorized" category
+  const uncategorized = await db
+    .select()
+    .from(categories)
+    .where(and(eq(categories.tenantId, tenantId), eq(categories.name, 'Uncategorized')))
+    .get();
+
+  if (uncategorized) return uncategorized.id;
+
+  // Create default category
+  const now = getCurrentTimestamp();
+  const categoryId = crypto.randomUUID();
+  await db
+    .insert(categories)
+    .values({
+      id: categoryId,
+      tenantId,
+      name: 'Uncategorized',
+      type: 'expense',
+      color: '#999999',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .run();
+
+  return categoryId;
+}
+
 // Upload and parse bank statement (supports multiple files)
 filesRouter.post('/upload', async c => {
   const startTime = Date.now();
@@ -25,6 +256,9 @@ filesRouter.post('/upload', async c => {
     const fileEntry = formData.get('file');
     const accountId = formData.get('accountId') as string;
     const defaultCategoryId = formData.get('defaultCategoryId') as string;
+    const { dryRun, windowDays } = readDryRunOption(formData);
+    // Optional PDF template (built-in or tenant) to use instead of detecting one
+    const pdfTemplateId = (formData.get('templateId') as string) || undefined;
 
     if (!fileEntry || typeof fileEntry === 'string') {
       return c.json(
@@ -104,46 +338,19 @@ filesRouter.post('/upload', async c => {
       );
     }
 
-    // Get or create default category
-    let categoryId = defaultCategoryId;
-    if (!categoryId) {
-      // Try to find an "Uncategorized" category
-      const uncategorized = await db
-        .select()
-        .from(categories)
-        .where(and(eq(categories.tenantId, tenantId), eq(categories.name, 'Uncategorized')))
-        .get();
-
-      if (uncategorized) {
-        categoryId = uncategorized.id;
-      } else {
-        // Create default category
-        const now = getCurrentTimestamp();
-        categoryId = crypto.randomUUID();
-        await db
-          .insert(categories)
-          .values({
-            id: categoryId,
-            tenantId,
-            name: 'Uncategorized',
-            type: 'expense',
-            color: '#999999',
-            createdAt: now,
-            updatedAt: now,
-          })
-          .run();
-      }
-    }
+    const categoryId = await resolveImportCategoryId(db, tenantId, defaultCategoryId);
 
     const lowerCaseName = fileName.toLowerCase();
     let parsedTransactions: ParsedTransaction[] = [];
     let parseError: string | null = null;
     let fileContentForStorage: string | ArrayBuffer | null = null;
+    let matchedProfile: ImportProfile | null = null;
+    let statementBalances: MT940Statement[] | undefined;
 
     try {
       if (lowerCaseName.endsWith('.pdf')) {
-        // Check if queue-based processing is available
-        if (c.env.FILES && c.env.BILL_REMINDERS) {
+        // Check if queue-based processing is available (dry runs are parsed inline for review)
+        if (c.env.FILES && c.env.BILL_REMINDERS && !dryRun) {
           const arrayBuffer = await file.arrayBuffer();
           const fileKey = `imports/${tenantId}/${accountId}/${logId}-${Date.now()}-${fileName}`;
 
@@ -167,6 +374,7 @@ filesRouter.post('/upload', async c => {
             logId,
             fileKey,
             defaultCategoryId: categoryId,
+            templateId: pdfTemplateId,
             userId: user.id,
             fileName,
           });
@@ -189,29 +397,43 @@ filesRouter.post('/upload', async c => {
         // Fallback to direct PDF parsing if queue is not available
         const arrayBuffer = await file.arrayBuffer();
         fileContentForStorage = arrayBuffer;
-        parsedTransactions = await parsePDF(arrayBuffer);
+        parsedTransactions = await parsePDF(arrayBuffer, {
+          templateId: pdfTemplateId,
+          customTemplates: await getTenantPdfTemplates(db, tenantId),
+        });
 
         if (parsedTransactions.length === 0) {
           parseError = 'PDF parsing is limited. Please export your bank statement as CSV, Excel, or another supported format for best results.';
         }
+      } else if (isTabularFile(lowerCaseName)) {
+        const arrayBuffer = await file.arrayBuffer();
+        fileContentForStorage = arrayBuffer;
+
+        const table = await readTabularFile(lowerCaseName, arrayBuffer, { sheet: readSheetOption(formData) });
+
+        // A saved profile for this header row replaces the guessed column mapping
+        matchedProfile = await findProfileForHeaders(db, tenantId, table.headers) ?? null;
+        parsedTransactions = matchedProfile
+          ? applyColumnMapping(table.rows, JSON.parse(matchedProfile.mapping)).transactions
+          : mapCSVToTransactions(table.rows);
       } else {
         const content = await file.text();
         fileContentForStorage = content;
 
-        if (lowerCaseName.endsWith('.csv')) {
-          const { rows } = parseCSV(content);
-          parsedTransactions = mapCSVToTransactions(rows);
-        } else if (lowerCaseName.endsWith('.ofx') || lowerCaseName.endsWith('.qfx')) {
+        if (lowerCaseName.endsWith('.ofx') || lowerCaseName.endsWith('.qfx')) {
           const ofxTransactions = parseOFX(content);
           parsedTransactions = mapOFXToTransactions(ofxTransactions);
         } else if (lowerCaseName.endsWith('.json')) {
           parsedTransactions = parseJSON(content);
+        } else if (lowerCaseName.endsWith('.qif')) {
+          parsedTransactions = parseQIF(content);
         } else if (lowerCaseName.endsWith('.xml')) {
-          parsedTransactions = parseXML(content);
+          // ISO 20022 statements are recognised by their root element
+          parsedTransactions = isCAMT053(content) ? parseCAMT053(content) : parseXML(content);
         } else if (lowerCaseName.endsWith('.txt') || lowerCaseName.endsWith('.mt940')) {
-          parsedTransactions = parseMT940(content);
-        } else if (lowerCaseName.endsWith('.xls') || lowerCaseName.endsWith('.xlsx')) {
-          parsedTransactions = parseXLS(content);
+          const mt940 = parseMT940Statement(content);
+          parsedTransactions = mt940.transactions;
+          statementBalances = mt940.statements;
         } else {
           parseError = 'Unsupported file format';
         }
@@ -244,32 +466,344 @@ filesRouter.post('/upload', async c => {
       );
     }
 
+    if (dryRun) {
+      const review: ImportReview = {
+        defaultCategoryId: categoryId,
+        windowDays,
+        importProfileId: matchedProfile?.id ?? null,
+        rows: await findImportDuplicates(db, tenantId, accountId, parsedTransactions, windowDays),
+        statementBalance: findStatementBalancePoint(parsedTransactions, statementBalances),
+      };
+      await stageImportReview(db, logId, review, startTime);
+
+      if (fileContentForStorage !== null) {
+        await storeImportFile(c.env, { tenantId, accountId, logId, file, content: fileContentForStorage, transactionCount: review.rows.length });
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          ...toReviewResponse(logId, account, review, matchedProfile),
+          statementBalances,
+          warnings: describeBalanceMismatches(statementBalances),
+        },
+      });
+    }
+
     const persistenceResult = await persistTransactionsFromImport({
       db,
       tenantId,
       account,
-      defaultCategoryId: categoryId!,
+      defaultCategoryId: categoryId,
       parsedTransactions,
       logId,
       startedAt: startTime,
+      env: c.env,
     });
 
-    if (c.env.FILES && fileContentForStorage !== null) {
-      const fileKey = `${tenantId}/${accountId}/${Date.now()}-${fileName}`;
-      await c.env.FILES.put(fileKey, fileContentForStorage, {
-        httpMetadata: {
-          contentType: file.type || 'application/octet-stream',
+    if (matchedProfile) {
+      await recordProfileUse(db, tenantId, matchedProfile.id);
+    }
+
+    const proposedReconciliation = await proposeImportReconciliation(
+      db,
+      tenantId,
+      user.id,
+      accountId,
+      logId,
+      findStatementBalancePoint(parsedTransactions, statementBalances),
+      persistenceResult.finalStatus
+    );
+
+    if (fileContentForStorage !== null) {
+      await storeImportFile(c.env, { tenantId, accountId, logId, file, content: fileContentForStorage, transactionCount: persistenceResult.total });
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        logId,
+        imported: persistenceResult.importedCount,
+        skipped: persistenceResult.skippedCount,
+        total: persistenceResult.total,
+        accountId,
+        accountName: persistenceResult.accountName,
+        newBalance: persistenceResult.newBalance,
+        transactions: persistenceResult.createdTransactions.slice(0, 10),
+        errors: persistenceResult.errors.length > 0 ? persistenceResult.errors : undefined,
+        processingTimeMs: persistenceResult.processingTimeMs,
+        importProfile: matchedProfile ? { id: matchedProfile.id, name: matchedProfile.name } : undefined,
+        statementBalances,
+        warnings: describeBalanceMismatches(statementBalances),
+        proposedReconciliation,
+      },
+    });
+  } catch (error) {
+    console.error('File upload error:', error);
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to process file upload',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      500
+    );
+  }
+});
+
+// Preview a CSV or Excel file before importing: headers, sample rows and a suggested column mapping.
+// Send `mapping` (JSON) or `profileId` to see how a specific mapping reads the file.
+filesRouter.post('/preview', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+    const formData = await c.req.formData();
+    const fileEntry = formData.get('file');
+
+    if (!fileEntry || typeof fileEntry === 'string') {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'No file provided or invalid file' } },
+        400
+      );
+    }
+
+    const file = fileEntry as File;
+    if (!isTabularFile(file.name)) {
+      return c.json(
+        { success: false, error: { code: 'UNSUPPORTED_FORMAT', message: 'Column mapping is only supported for CSV and Excel files' } },
+        400
+      );
+    }
+
+    let table: TabularData;
+    try {
+      table = await readTabularFile(file.name, await file.arrayBuffer(), { sheet: readSheetOption(formData) });
+    } catch (err: any) {
+      return c.json({ success: false, error: { code: 'PARSE_ERROR', message: `Failed to parse file: ${err.message}` } }, 400);
+    }
+
+    const requested = await readMappingOption(db, tenantId, formData);
+    if (requested.error) {
+      return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message: requested.error } }, 400);
+    }
+
+    const profile = requested.profile ?? (requested.mapping ? null : await findProfileForHeaders(db, tenantId, table.headers)) ?? null;
+    const suggestedMapping: Partial<ColumnMapping> = requested.mapping
+      ?? (profile ? JSON.parse(profile.mapping) : suggestColumnMapping(table.headers, table.rows));
+
+    // Once the mapping is complete, show how it reads the file
+    const complete = ColumnMappingSchema.safeParse(suggestedMapping);
+    const missingColumns = complete.success ? findMissingColumns(complete.data, table.headers) : [];
+    if (requested.mapping && missingColumns.length > 0) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Columns not found in file: ${missingColumns.join(', ')}` } },
+        400
+      );
+    }
+
+    let preview: {
+      transactions: ParsedTransaction[];
+      parsedCount: number;
+      skippedCount: number;
+      skipped: SkippedRow[];
+    } | null = null;
+    if (complete.success && missingColumns.length === 0) {
+      const result = applyColumnMapping(table.rows, complete.data);
+      preview = {
+        transactions: result.transactions.slice(0, PREVIEW_ROW_COUNT),
+        parsedCount: result.transactions.length,
+        skippedCount: result.skipped.length,
+        skipped: result.skipped.slice(0, MAX_REPORTED_SKIPPED_ROWS),
+      };
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        fileName: file.name,
+        sheet: table.sheet,
+        sheets: table.sheets,
+        headers: table.headers,
+        headerSignature: getHeaderSignature(table.headers),
+        rowCount: table.rows.length,
+        sampleRows: table.rows.slice(0, PREVIEW_ROW_COUNT),
+        suggestedMapping,
+        mappingComplete: preview !== null,
+        profile: profile ? { id: profile.id, name: profile.name } : null,
+        preview,
+      },
+    });
+  } catch (error) {
+    console.error('Import preview error:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to preview file' } },
+      500
+    );
+  }
+});
+
+// Import a CSV or Excel file with an explicit column mapping (`mapping` JSON or `profileId`).
+// Send `saveProfileAs` to store the mapping as a named profile for future uploads.
+filesRouter.post('/import', async c => {
+  const startTime = Date.now();
+
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const db = getDb(c.env.DB);
+    const formData = await c.req.formData();
+
+    const fileEntry = formData.get('file');
+    const accountId = formData.get('accountId') as string;
+    const defaultCategoryId = formData.get('defaultCategoryId') as string;
+    const saveProfileAs = formData.get('saveProfileAs');
+    const { dryRun, windowDays } = readDryRunOption(formData);
+
+    if (!fileEntry || typeof fileEntry === 'string') {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'No file provided or invalid file' } },
+        400
+      );
+    }
+    if (!accountId) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Account ID is required' } },
+        400
+      );
+    }
+
+    const file = fileEntry as File;
+    const fileName = file.name;
+    if (!isTabularFile(fileName)) {
+      return c.json(
+        { success: false, error: { code: 'UNSUPPORTED_FORMAT', message: 'Column mapping is only supported for CSV and Excel files' } },
+        400
+      );
+    }
+
+    const requested = await readMappingOption(db, tenantId, formData);
+    if (requested.error || !requested.mapping) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: requested.error || 'A column mapping or profileId is required' } },
+        400
+      );
+    }
+    const mapping = requested.mapping;
+
+    // Create import log entry (initial status: processing)
+    const logId = crypto.randomUUID();
+    await db
+      .insert(importLogs)
+      .values({
+        id: logId,
+        tenantId,
+        userId: user.id,
+        accountId,
+        fileName,
+        fileSize: file.size,
+        fileType: fileName.substring(fileName.lastIndexOf('.')).toLowerCase(),
+        status: 'processing',
+        transactionsImported: 0,
+        transactionsFailed: 0,
+        transactionsTotal: 0,
+        createdAt: new Date(),
+      })
+      .run();
+
+    // Verify account belongs to tenant
+    const account = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, accountId), eq(accounts.tenantId, tenantId)))
+      .get();
+
+    if (!account) {
+      await failImportLog(db, logId, 'Account not found', startTime);
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } }, 404);
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    let table: TabularData;
+    try {
+      table = await readTabularFile(fileName, arrayBuffer, { sheet: readSheetOption(formData) });
+    } catch (err: any) {
+      const message = `Failed to parse file: ${err.message}`;
+      await failImportLog(db, logId, message, startTime);
+      return c.json({ success: false, error: { code: 'PARSE_ERROR', message } }, 400);
+    }
+
+    const missingColumns = findMissingColumns(mapping, table.headers);
+    if (missingColumns.length > 0) {
+      const message = `Columns not found in file: ${missingColumns.join(', ')}`;
+      await failImportLog(db, logId, message, startTime);
+      return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message } }, 400);
+    }
+
+    const { transactions: parsedTransactions, skipped } = applyColumnMapping(table.rows, mapping);
+    if (parsedTransactions.length === 0) {
+      const message = 'No transactions could be read with this column mapping';
+      await failImportLog(db, logId, message, startTime);
+      return c.json(
+        {
+          success: false,
+          error: { code: 'EMPTY_FILE', message, details: skipped.slice(0, MAX_REPORTED_SKIPPED_ROWS) },
         },
-        customMetadata: {
-          tenantId,
-          accountId,
-          logId,
-          uploadedAt: new Date().toISOString(),
-          transactionCount: persistenceResult.total.toString(),
+        400
+      );
+    }
+
+    const categoryId = await resolveImportCategoryId(db, tenantId, defaultCategoryId);
+
+    // Save the mapping for next time
+    let profile = requested.profile ?? null;
+    if (typeof saveProfileAs === 'string' && saveProfileAs.trim()) {
+      profile = await saveProfile(db, tenantId, {
+        name: saveProfileAs.trim().slice(0, 100),
+        headers: table.headers,
+        mapping,
+      });
+    }
+
+    if (dryRun) {
+      const review: ImportReview = {
+        defaultCategoryId: categoryId,
+        windowDays,
+        importProfileId: profile?.id ?? null,
+        rows: await findImportDuplicates(db, tenantId, accountId, parsedTransactions, windowDays),
+      };
+      await stageImportReview(db, logId, review, startTime);
+      await storeImportFile(c.env, { tenantId, accountId, logId, file, content: arrayBuffer, transactionCount: review.rows.length });
+
+      return c.json({
+        success: true,
+        data: {
+          ...toReviewResponse(logId, account, review, profile),
+          unreadableRows: skipped.length > 0 ? skipped.slice(0, MAX_REPORTED_SKIPPED_ROWS) : undefined,
         },
       });
     }
 
+    const persistenceResult = await persistTransactionsFromImport({
+      db,
+      tenantId,
+      account,
+      defaultCategoryId: categoryId,
+      parsedTransactions,
+      logId,
+      startedAt: startTime,
+      env: c.env,
+    });
+
+    // Count this import against the profile used
+    if (profile) {
+      await recordProfileUse(db, tenantId, profile.id);
+    }
+
+    await storeImportFile(c.env, { tenantId, accountId, logId, file, content: arrayBuffer, transactionCount: persistenceResult.total });
+
     return c.json({
       success: true,
       data: {
@@ -282,17 +816,19 @@ filesRouter.post('/upload', async c => {
         newBalance: persistenceResult.newBalance,
         transactions: persistenceResult.createdTransactions.slice(0, 10),
         errors: persistenceResult.errors.length > 0 ? persistenceResult.errors : undefined,
+        unreadableRows: skipped.length > 0 ? skipped.slice(0, MAX_REPORTED_SKIPPED_ROWS) : undefined,
+        importProfile: profile ? { id: profile.id, name: profile.name } : undefined,
         processingTimeMs: persistenceResult.processingTimeMs,
       },
     });
   } catch (error) {
-    console.error('File upload error:', error);
+    console.error('Mapped import error:', error);
     return c.json(
       {
         success: false,
         error: {
           code: 'INTERNAL_ERROR',
-          message: 'Failed to process file upload',
+          message: 'Failed to import file',
           details: error instanceof Error ? error.message : 'Unknown error',
         },
       },
@@ -317,9 +853,10 @@ filesRouter.get('/logs', async c => {
 
     return c.json({
       success: true,
-      data: logs.map(log => ({
+      data: logs.map(({ reviewData, ...log }) => ({
         ...log,
         errorDetails: log.errorDetails ? JSON.parse(log.errorDetails) : null,
+        reviewSummary: reviewData ? summarizeReview(parseImportReview(reviewData).rows) : null,
       })),
     });
   } catch (error) {
@@ -362,6 +899,7 @@ filesRouter.get('/logs/:id', async c => {
       data: {
         ...log,
         errorDetails: log.errorDetails ? JSON.parse(log.errorDetails) : null,
+        reviewData: log.reviewData ? parseImportReview(log.reviewData) : null,
       },
     });
   } catch (error) {
@@ -376,6 +914,201 @@ filesRouter.get('/logs/:id', async c => {
   }
 });
 
+// Commit a dry-run import. Each row's decision is recorded on the import log.
+filesRouter.post('/logs/:id/commit', validateRequest(CommitImportReviewSchema), async c => {
+  const startTime = Date.now();
+
+  try {
+    const { id } = c.req.param();
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const { decisions } = c.get('validatedData') as CommitImportReviewRequest;
+    const db = getDb(c.env.DB);
+
+    // Claim the log so a repeated or concurrent commit cannot import the rows twice
+    const log = await db
+      .update(importLogs)
+      .set({ status: 'processing' })
+      .where(and(eq(importLogs.id, id), eq(importLogs.tenantId, tenantId), eq(importLogs.status, 'review')))
+      .returning()
+      .get();
+
+    if (!log) {
+      const existing = await db
+        .select({ id: importLogs.id })
+        .from(importLogs)
+        .where(and(eq(importLogs.id, id), eq(importLogs.tenantId, tenantId)))
+        .get();
+      if (!existing) {
+        return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Import log not found' } }, 404);
+      }
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'This import is not awaiting review' } },
+        409
+      );
+    }
+
+    // Hand the log back for review when the request cannot be committed
+    const releaseLog = () =>
+      db.update(importLogs).set({ status: 'review' }).where(eq(importLogs.id, id)).run();
+
+    if (!log.reviewData || !log.accountId) {
+      await releaseLog();
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'This import is not awaiting review' } },
+        409
+      );
+    }
+
+    const review = parseImportReview(log.reviewData);
+    const unknownRows = decisions.filter(decision => !review.rows.some(row => row.row === decision.row));
+    if (unknownRows.length > 0) {
+      await releaseLog();
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Unknown rows: ${unknownRows.map(decision => decision.row).join(', ')}`,
+          },
+        },
+        400
+      );
+    }
+
+    const account = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, log.accountId), eq(accounts.tenantId, tenantId)))
+      .get();
+
+    if (!account) {
+      await releaseLog();
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } }, 404);
+    }
+
+    const rows = applyReviewDecisions(review.rows, decisions);
+    const selected = rows.filter(row => row.decision === 'import').map(row => row.transaction);
+
+    const persistenceResult = await persistTransactionsFromImport({
+      db,
+      tenantId,
+      account,
+      defaultCategoryId: await resolveImportCategoryId(db, tenantId, review.defaultCategoryId),
+      parsedTransactions: selected,
+      logId: id,
+      startedAt: startTime,
+      env: c.env,
+    });
+
+    // Keep every row of the file on the log together with what the user decided
+    await db
+      .update(importLogs)
+      .set({
+        transactionsTotal: rows.length,
+        reviewData: JSON.stringify({ ...review, rows }),
+      })
+      .where(eq(importLogs.id, id))
+      .run();
+
+    if (review.importProfileId) {
+      await recordProfileUse(db, tenantId, review.importProfileId);
+    }
+
+    const proposedReconciliation = await proposeImportReconciliation(
+      db,
+      tenantId,
+      user.id,
+      account.id,
+      id,
+      review.statementBalance,
+      persistenceResult.finalStatus
+    );
+
+    return c.json({
+      success: true,
+      data: {
+        logId: id,
+        imported: persistenceResult.importedCount,
+        skipped: rows.length - selected.length,
+        failed: persistenceResult.skippedCount,
+        total: rows.length,
+        accountId: account.id,
+        accountName: persistenceResult.accountName,
+        newBalance: persistenceResult.newBalance,
+        transactions: persistenceResult.createdTransactions.slice(0, 10),
+        errors: persistenceResult.errors.length > 0 ? persistenceResult.errors : undefined,
+        processingTimeMs: persistenceResult.processingTimeMs,
+        proposedReconciliation,
+      },
+    });
+  } catch (error) {
+    console.error('Error committing import review:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to commit import' } },
+      500
+    );
+  }
+});
+
+// Roll back an import: deletes the transactions it created and reverses its balance change
+filesRouter.post('/logs/:id/rollback', async c => {
+  try {
+    const { id } = c.req.param();
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const log = await db
+      .select()
+      .from(importLogs)
+      .where(and(eq(importLogs.id, id), eq(importLogs.tenantId, tenantId)))
+      .get();
+
+    if (!log) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Import log not found' } }, 404);
+    }
+    if (log.status === 'rolled_back') {
+      return c.json(
+        { success: false, error: { code: 'ALREADY_ROLLED_BACK', message: 'This import has already been rolled back' } },
+        409
+      );
+    }
+    if (log.status !== 'success' && log.status !== 'partial') {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only completed imports can be rolled back' } },
+        409
+      );
+    }
+
+    if (await hasReconciledTransactions(db, tenantId, id)) {
+      return c.json(
+        {
+          success: false,
+          error: { code: 'TRANSACTION_RECONCILED', message: 'Some of these transactions are reconciled; reopen the reconciliation first' },
+        },
+        409
+      );
+    }
+
+    const result = await rollbackImport(db, c.env.FILES, tenantId, log);
+
+    return c.json({
+      success: true,
+      data: {
+        logId: id,
+        status: 'rolled_back',
+        ...result,
+      },
+    });
+  } catch (error) {
+    console.error('Error rolling back import:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to roll back import' } },
+      500
+    );
+  }
+});
+
 // Get upload history (list files from R2)
 filesRouter.get('/uploads', async c => {
   try {
@@ -0,0 +1,148 @@
+import { Hono } from 'hono';
+import { getDb } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  CreateImportProfileSchema,
+  UpdateImportProfileSchema,
+  type CreateImportProfileRequest,
+  type UpdateImportProfileRequest,
+} from '@finhome360/shared';
+import {
+  listProfiles,
+  getProfile,
+  getProfileByName,
+  createProfile,
+  updateProfile,
+  deleteProfile,
+  toProfileResponse,
+} from '../services/importProfiles';
+import type { Env } from '../types';
+
+const importProfilesRouter = new Hono<Env>();
+
+// Apply middleware
+importProfilesRouter.use('*', authMiddleware, tenantMiddleware);
+
+// Get all saved column mapping profiles
+importProfilesRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const profiles = await listProfiles(db, tenantId);
+
+    return c.json({ success: true, data: profiles.map(toProfileResponse) });
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch import profiles' } },
+      500
+    );
+  }
+});
+
+// Get single profile
+importProfilesRouter.get('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const profile = await getProfile(db, tenantId, c.req.param('id'));
+    if (!profile) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Import profile not found' } }, 404);
+    }
+
+    return c.json({ success: true, data: toProfileResponse(profile) });
+  } catch (error) {
+    console.error('Error fetching import profile:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch import profile' } },
+      500
+    );
+  }
+});
+
+// Create profile
+importProfilesRouter.post('/', validateRequest(CreateImportProfileSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as CreateImportProfileRequest;
+    const db = getDb(c.env.DB);
+
+    if (await getProfileByName(db, tenantId, body.name)) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_PROFILE', message: 'An import profile with this name already exists' } },
+        409
+      );
+    }
+
+    const profile = await createProfile(db, tenantId, body);
+
+    return c.json({ success: true, data: toProfileResponse(profile) }, 201);
+  } catch (error) {
+    console.error('Error creating import profile:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create import profile' } },
+      500
+    );
+  }
+});
+
+// Update profile
+importProfilesRouter.put('/:id', validateRequest(UpdateImportProfileSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const body = c.get('validatedData') as UpdateImportProfileRequest;
+    const db = getDb(c.env.DB);
+
+    const existing = await getProfile(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Import profile not found' } }, 404);
+    }
+
+    if (body.name && body.name !== existing.name && (await getProfileByName(db, tenantId, body.name))) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_PROFILE', message: 'An import profile with this name already exists' } },
+        409
+      );
+    }
+
+    const profile = await updateProfile(db, tenantId, id, body);
+
+    return c.json({ success: true, data: profile ? toProfileResponse(profile) : null });
+  } catch (error) {
+    console.error('Error updating import profile:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update import profile' } },
+      500
+    );
+  }
+});
+
+// Delete profile
+importProfilesRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const db = getDb(c.env.DB);
+
+    const existing = await getProfile(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Import profile not found' } }, 404);
+    }
+
+    await deleteProfile(db, tenantId, id);
+
+    return c.json({ success: true, data: { message: 'Import profile deleted successfully' } });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete import profile' } },
+      500
+    );
+  }
+});
+
+export default importProfilesRouter;
@@ -1,6 +1,15 @@
 import { Hono } from 'hono';
 import { authMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
 import { NotificationsService } from '../services/notifications.service';
+import { AlertRulesService } from '../services/alertRules.service';
+import {
+  AlertConditionParseError,
+  CreateAlertRuleSchema,
+  UpdateAlertRuleSchema,
+  type CreateAlertRuleRequest,
+  type UpdateAlertRuleRequest,
+} from '@finhome360/shared';
 import type { Env } from '../types';
 
 const router = new Hono<Env>();
@@ -216,4 +225,185 @@ router.post('/check-alerts', async (c) => {
   }
 });
 
+// ============================================
+// ALERT RULES
+// ============================================
+
+/**
+ * Get the current user's alert rules
+ * GET /notifications/rules
+ */
+router.get('/rules', async (c) => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+
+    const rules = await AlertRulesService.getRules(c, tenantId, user.id);
+
+    return c.json({ success: true, data: rules.map(rule => AlertRulesService.toResponse(rule)) });
+  } catch (error: any) {
+    console.error('Error fetching alert rules:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch alert rules' },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Get a single alert rule
+ * GET /notifications/rules/:id
+ */
+router.get('/rules/:id', async (c) => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const { id } = c.req.param();
+
+    const rule = await AlertRulesService.getRule(c, tenantId, user.id, id);
+    if (!rule) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Alert rule not found' } },
+        404
+      );
+    }
+
+    return c.json({ success: true, data: AlertRulesService.toResponse(rule) });
+  } catch (error: any) {
+    console.error('Error fetching alert rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch alert rule' },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Create an alert rule
+ * POST /notifications/rules
+ * Body conditions may be a condition tree or an expression,
+ * e.g. "category = Dining AND amount > 50"
+ */
+router.post('/rules', validateRequest(CreateAlertRuleSchema), async (c) => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const body = c.get('validatedData') as CreateAlertRuleRequest;
+
+    const invalidReference = await AlertRulesService.findInvalidReference(c, tenantId, body);
+    if (invalidReference) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: invalidReference } },
+        400
+      );
+    }
+
+    const rule = await AlertRulesService.createRule(c, tenantId, user.id, body);
+
+    return c.json({ success: true, data: AlertRulesService.toResponse(rule) }, 201);
+  } catch (error: any) {
+    if (error instanceof AlertConditionParseError) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        400
+      );
+    }
+    console.error('Error creating alert rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create alert rule' },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Update an alert rule
+ * PUT /notifications/rules/:id
+ */
+router.put('/rules/:id', validateRequest(UpdateAlertRuleSchema), async (c) => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const { id } = c.req.param();
+    const body = c.get('validatedData') as UpdateAlertRuleRequest;
+
+    const existing = await AlertRulesService.getRule(c, tenantId, user.id, id);
+    if (!existing) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Alert rule not found' } },
+        404
+      );
+    }
+
+    const invalidReference = await AlertRulesService.findInvalidReference(c, tenantId, body);
+    if (invalidReference) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: invalidReference } },
+        400
+      );
+    }
+
+    const rule = await AlertRulesService.updateRule(c, tenantId, user.id, id, body);
+
+    return c.json({ success: true, data: rule ? AlertRulesService.toResponse(rule) : null });
+  } catch (error: any) {
+    if (error instanceof AlertConditionParseError) {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        400
+      );
+    }
+    console.error('Error updating alert rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update alert rule' },
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Delete an alert rule
+ * DELETE /notifications/rules/:id
+ */
+router.delete('/rules/:id', async (c) => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const { id } = c.req.param();
+
+    const existing = await AlertRulesService.getRule(c, tenantId, user.id, id);
+    if (!existing) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Alert rule not found' } },
+        404
+      );
+    }
+
+    await AlertRulesService.deleteRule(c, tenantId, user.id, id);
+
+    return c.json({ success: true, data: { id } });
+  } catch (error: any) {
+    console.error('Error deleting alert rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete alert rule' },
+      },
+      500
+    );
+  }
+});
+
 export default router;
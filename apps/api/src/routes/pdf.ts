@@ -1,28 +1,241 @@
 import { Hono } from 'hono';
-import { BANK_PDF_TEMPLATES } from '@finhome360/shared';
-import { authMiddleware } from '../middleware/auth';
+import {
+  BANK_PDF_TEMPLATES,
+  CreatePdfTemplateSchema,
+  UpdatePdfTemplateSchema,
+  compilePdfTemplate,
+  type BankPdfTemplate,
+  type CreatePdfTemplateRequest,
+  type UpdatePdfTemplateRequest,
+} from '@finhome360/shared';
+import { getDb } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { extractPdfText, parseBankPdfText } from '../utils/fileParser';
+import {
+  builtInTemplateResponse,
+  createPdfTemplate,
+  deletePdfTemplate,
+  getPdfTemplate,
+  getPdfTemplateByName,
+  getTenantPdfTemplates,
+  listPdfTemplates,
+  toPdfTemplateResponse,
+  updatePdfTemplate,
+} from '../services/pdfTemplates';
 import type { Env } from '../types';
 
 const pdfRouter = new Hono<Env>();
 
-// Apply auth middleware
-pdfRouter.use('*', authMiddleware);
-
-// GET /api/pdf/templates - Return available PDF templates for UI selector
-pdfRouter.get('/templates', c => {
-  const templates = BANK_PDF_TEMPLATES.map(tpl => ({
-    id: tpl.id,
-    displayName: tpl.displayName,
-    description: tpl.description,
-    currencySymbol: tpl.currencySymbol,
-    dateFormat: tpl.dateFormat,
-    notes: tpl.notes,
-  }));
-
-  return c.json({
-    success: true,
-    data: templates,
-  });
+// Unmatched lines returned by the template test, enough to write a pattern against
+const MAX_TEST_UNMATCHED_LINES = 200;
+
+// Apply middleware
+pdfRouter.use('*', authMiddleware, tenantMiddleware);
+
+function isBuiltInTemplate(id: string): boolean {
+  return BANK_PDF_TEMPLATES.some(template => template.id === id);
+}
+
+// GET /api/pdf/templates - Built-in and tenant templates for the UI selector
+pdfRouter.get('/templates', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const custom = await listPdfTemplates(db, tenantId);
+
+    return c.json({
+      success: true,
+      data: [...custom.map(toPdfTemplateResponse), ...BANK_PDF_TEMPLATES.map(builtInTemplateResponse)],
+    });
+  } catch (error) {
+    console.error('Error fetching PDF templates:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch PDF templates' } },
+      500
+    );
+  }
+});
+
+// POST /api/pdf/templates/test - Run a template against a statement and show the rows it matches.
+// Multipart: `file` (PDF) or `text` (already extracted), plus a candidate `template` (JSON) or a saved `templateId`.
+// With neither, the template is detected as it would be on upload.
+pdfRouter.post('/templates/test', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+    const formData = await c.req.formData();
+
+    const fileEntry = formData.get('file');
+    const textEntry = formData.get('text');
+    const templateEntry = formData.get('template');
+    const templateId = formData.get('templateId');
+
+    let text: string;
+    if (fileEntry && typeof fileEntry !== 'string') {
+      try {
+        text = await extractPdfText(await (fileEntry as File).arrayBuffer());
+      } catch (err: any) {
+        return c.json({ success: false, error: { code: 'PARSE_ERROR', message: `Failed to read PDF: ${err.message}` } }, 400);
+      }
+    } else if (typeof textEntry === 'string' && textEntry.trim()) {
+      text = textEntry;
+    } else {
+      return c.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'A PDF file or extracted text is required' } },
+        400
+      );
+    }
+
+    let candidate: BankPdfTemplate | undefined;
+    if (typeof templateEntry === 'string' && templateEntry) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(templateEntry);
+      } catch {
+        return c.json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'template must be valid JSON' } }, 400);
+      }
+
+      const result = CreatePdfTemplateSchema.safeParse(raw);
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: result.error.errors.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`).join('; '),
+            },
+          },
+          400
+        );
+      }
+      candidate = compilePdfTemplate('candidate', result.data);
+    }
+
+    const result = parseBankPdfText(text, {
+      template: candidate,
+      templateId: typeof templateId === 'string' && templateId ? templateId : undefined,
+      customTemplates: await getTenantPdfTemplates(db, tenantId),
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        template: result.template ? { id: result.template.id, displayName: result.template.displayName } : null,
+        detectKeywordsFound: result.template
+          ? result.template.detectKeywords.filter(keyword => text.toLowerCase().includes(keyword.toLowerCase()))
+          : [],
+        transactionCount: result.transactions.length,
+        rows: result.transactions.map((transaction, index) => ({ line: result.matchedLines[index], transaction })),
+        unmatchedLines: result.unmatchedLines.slice(0, MAX_TEST_UNMATCHED_LINES),
+        warnings: result.warnings,
+      },
+    });
+  } catch (error) {
+    console.error('Error testing PDF template:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to test PDF template' } },
+      500
+    );
+  }
+});
+
+// POST /api/pdf/templates - Save a tenant template
+pdfRouter.post('/templates', validateRequest(CreatePdfTemplateSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const body = c.get('validatedData') as CreatePdfTemplateRequest;
+    const db = getDb(c.env.DB);
+
+    if (await getPdfTemplateByName(db, tenantId, body.displayName)) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_TEMPLATE', message: 'A PDF template with this name already exists' } },
+        409
+      );
+    }
+
+    const template = await createPdfTemplate(db, tenantId, user.id, body);
+
+    return c.json({ success: true, data: toPdfTemplateResponse(template) }, 201);
+  } catch (error) {
+    console.error('Error creating PDF template:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create PDF template' } },
+      500
+    );
+  }
+});
+
+// PUT /api/pdf/templates/:id - Update a tenant template
+pdfRouter.put('/templates/:id', validateRequest(UpdatePdfTemplateSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const body = c.get('validatedData') as UpdatePdfTemplateRequest;
+    const db = getDb(c.env.DB);
+
+    if (isBuiltInTemplate(id)) {
+      return c.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Built-in templates cannot be changed' } },
+        403
+      );
+    }
+
+    const existing = await getPdfTemplate(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'PDF template not found' } }, 404);
+    }
+
+    if (body.displayName && body.displayName !== existing.displayName && (await getPdfTemplateByName(db, tenantId, body.displayName))) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_TEMPLATE', message: 'A PDF template with this name already exists' } },
+        409
+      );
+    }
+
+    const template = await updatePdfTemplate(db, tenantId, existing, body);
+
+    return c.json({ success: true, data: template ? toPdfTemplateResponse(template) : null });
+  } catch (error) {
+    console.error('Error updating PDF template:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update PDF template' } },
+      500
+    );
+  }
+});
+
+// DELETE /api/pdf/templates/:id - Delete a tenant template
+pdfRouter.delete('/templates/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const db = getDb(c.env.DB);
+
+    if (isBuiltInTemplate(id)) {
+      return c.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Built-in templates cannot be deleted' } },
+        403
+      );
+    }
+
+    const existing = await getPdfTemplate(db, tenantId, id);
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'PDF template not found' } }, 404);
+    }
+
+    await deletePdfTemplate(db, tenantId, id);
+
+    return c.json({ success: true, data: { message: 'PDF template deleted successfully' } });
+  } catch (error) {
+    console.error('Error deleting PDF template:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete PDF template' } },
+      500
+    );
+  }
 });
 
 export default pdfRouter;
@@ -0,0 +1,355 @@
+import { Hono } from 'hono';
+import { and, eq } from 'drizzle-orm';
+import {
+  CompleteReconciliationSchema,
+  CreateReconciliationSchema,
+  MarkReconciliationClearedSchema,
+  StartReconciliationSchema,
+  type CompleteReconciliationRequest,
+  type CreateReconciliationRequest,
+  type MarkReconciliationClearedRequest,
+  type StartReconciliationRequest,
+} from '@finhome360/shared';
+import { getDb, accounts } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  completeReconciliation,
+  createReconciliation,
+  deleteReconciliation,
+  getActiveReconciliation,
+  getLastCompletedReconciliation,
+  getReconciliation,
+  getReconciliationSummary,
+  getReconciliationTransactions,
+  listReconciliations,
+  reopenReconciliation,
+  setTransactionsCleared,
+  startReconciliation,
+} from '../services/reconciliation';
+import type { Env } from '../types';
+
+const reconciliationsRouter = new Hono<Env>();
+
+// Apply middleware
+reconciliationsRouter.use('*', authMiddleware, tenantMiddleware);
+
+// GET /api/reconciliations?accountId= - Reconciliations, latest statement first
+reconciliationsRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const accountId = c.req.query('accountId');
+    const db = getDb(c.env.DB);
+
+    const data = await listReconciliations(db, tenantId, accountId || undefined);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching reconciliations:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch reconciliations' } },
+      500
+    );
+  }
+});
+
+// POST /api/reconciliations - Start reconciling an account against a statement closing balance
+reconciliationsRouter.post('/', validateRequest(CreateReconciliationSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const user = c.get('user')!;
+    const body = c.get('validatedData') as CreateReconciliationRequest;
+    const db = getDb(c.env.DB);
+
+    const account = await db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.id, body.accountId), eq(accounts.tenantId, tenantId)))
+      .get();
+
+    if (!account) {
+      return c.json(
+        {
+          success: false,
+          error: { code: 'INVALID_ACCOUNT', message: 'Account not found or does not belong to your organization' },
+        },
+        400
+      );
+    }
+
+    if (await getActiveReconciliation(db, tenantId, body.accountId)) {
+      return c.json(
+        { success: false, error: { code: 'RECONCILIATION_IN_PROGRESS', message: 'Finish or discard the open reconciliation for this account first' } },
+        409
+      );
+    }
+
+    const last = await getLastCompletedReconciliation(db, tenantId, body.accountId);
+    if (last && body.statementDate.getTime() <= last.statementDate.getTime()) {
+      return c.json(
+        { success: false, error: { code: 'INVALID_DATE', message: 'The statement date must be after the last reconciled statement' } },
+        400
+      );
+    }
+
+    const created = await createReconciliation(db, tenantId, user.id, {
+      accountId: body.accountId,
+      statementDate: body.statementDate,
+      statementBalance: body.statementBalance,
+      source: 'manual',
+    });
+    const reconciliation = await startReconciliation(db, tenantId, created, body.openingBalance);
+
+    return c.json(
+      {
+        success: true,
+        data: {
+          ...reconciliation,
+          summary: await getReconciliationSummary(db, tenantId, reconciliation),
+          transactions: await getReconciliationTransactions(db, tenantId, reconciliation),
+        },
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error creating reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create reconciliation' } },
+      500
+    );
+  }
+});
+
+// GET /api/reconciliations/:id - Reconciliation with its running difference and the transactions to tick off
+reconciliationsRouter.get('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const reconciliation = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!reconciliation) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        ...reconciliation,
+        summary: reconciliation.status === 'proposed' ? null : await getReconciliationSummary(db, tenantId, reconciliation),
+        transactions: await getReconciliationTransactions(db, tenantId, reconciliation),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch reconciliation' } },
+      500
+    );
+  }
+});
+
+// POST /api/reconciliations/:id/start - Accept a reconciliation proposed by an import
+reconciliationsRouter.post('/:id/start', validateRequest(StartReconciliationSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as StartReconciliationRequest;
+    const db = getDb(c.env.DB);
+
+    const proposed = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!proposed) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+    if (proposed.status !== 'proposed') {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only proposed reconciliations can be started' } },
+        409
+      );
+    }
+    if (await getActiveReconciliation(db, tenantId, proposed.accountId)) {
+      return c.json(
+        { success: false, error: { code: 'RECONCILIATION_IN_PROGRESS', message: 'Finish or discard the open reconciliation for this account first' } },
+        409
+      );
+    }
+
+    const last = await getLastCompletedReconciliation(db, tenantId, proposed.accountId);
+    if (last && proposed.statementDate.getTime() <= last.statementDate.getTime()) {
+      return c.json(
+        { success: false, error: { code: 'INVALID_DATE', message: 'A later statement has already been reconciled' } },
+        409
+      );
+    }
+
+    const reconciliation = await startReconciliation(db, tenantId, proposed, body.openingBalance);
+
+    return c.json({
+      success: true,
+      data: {
+        ...reconciliation,
+        summary: await getReconciliationSummary(db, tenantId, reconciliation),
+        transactions: await getReconciliationTransactions(db, tenantId, reconciliation),
+      },
+    });
+  } catch (error) {
+    console.error('Error starting reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to start reconciliation' } },
+      500
+    );
+  }
+});
+
+// PUT /api/reconciliations/:id/cleared - Tick transactions off (or untick them)
+reconciliationsRouter.put('/:id/cleared', validateRequest(MarkReconciliationClearedSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as MarkReconciliationClearedRequest;
+    const db = getDb(c.env.DB);
+
+    const reconciliation = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!reconciliation) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+    if (reconciliation.status !== 'in_progress') {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'This reconciliation is not in progress' } },
+        409
+      );
+    }
+
+    const changedCount = await setTransactionsCleared(db, tenantId, reconciliation, body.transactionIds, body.cleared);
+
+    return c.json({
+      success: true,
+      data: {
+        changedCount,
+        summary: await getReconciliationSummary(db, tenantId, reconciliation),
+      },
+    });
+  } catch (error) {
+    console.error('Error updating reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update reconciliation' } },
+      500
+    );
+  }
+});
+
+// POST /api/reconciliations/:id/complete - Lock the ticked transactions once the difference is zero
+reconciliationsRouter.post('/:id/complete', validateRequest(CompleteReconciliationSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as CompleteReconciliationRequest;
+    const db = getDb(c.env.DB);
+
+    const reconciliation = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!reconciliation) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+    if (reconciliation.status !== 'in_progress') {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'This reconciliation is not in progress' } },
+        409
+      );
+    }
+
+    const summary = await getReconciliationSummary(db, tenantId, reconciliation);
+    if (!summary.balanced) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_BALANCED',
+            message: `Cleared transactions differ from the statement balance by ${summary.difference.toFixed(2)}`,
+          },
+        },
+        400
+      );
+    }
+
+    const result = await completeReconciliation(db, tenantId, reconciliation, summary, body.adjustBalance);
+
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error completing reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to complete reconciliation' } },
+      500
+    );
+  }
+});
+
+// POST /api/reconciliations/:id/reopen - Unlock the account's latest completed reconciliation
+reconciliationsRouter.post('/:id/reopen', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const reconciliation = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!reconciliation) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+
+    const last = await getLastCompletedReconciliation(db, tenantId, reconciliation.accountId);
+    if (reconciliation.status !== 'completed' || last?.id !== reconciliation.id) {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only the latest completed reconciliation can be reopened' } },
+        409
+      );
+    }
+    if (await getActiveReconciliation(db, tenantId, reconciliation.accountId)) {
+      return c.json(
+        { success: false, error: { code: 'RECONCILIATION_IN_PROGRESS', message: 'Finish or discard the open reconciliation for this account first' } },
+        409
+      );
+    }
+
+    const reopened = await reopenReconciliation(db, tenantId, reconciliation);
+
+    return c.json({
+      success: true,
+      data: {
+        ...reopened,
+        summary: await getReconciliationSummary(db, tenantId, reopened),
+        transactions: await getReconciliationTransactions(db, tenantId, reopened),
+      },
+    });
+  } catch (error) {
+    console.error('Error reopening reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to reopen reconciliation' } },
+      500
+    );
+  }
+});
+
+// DELETE /api/reconciliations/:id - Discard a proposed or in-progress reconciliation
+reconciliationsRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const reconciliation = await getReconciliation(db, tenantId, c.req.param('id'));
+    if (!reconciliation) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Reconciliation not found' } }, 404);
+    }
+    if (reconciliation.status === 'completed') {
+      return c.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Reopen a completed reconciliation before discarding it' } },
+        409
+      );
+    }
+
+    await deleteReconciliation(db, tenantId, reconciliation);
+
+    return c.json({ success: true, data: { message: 'Reconciliation discarded' } });
+  } catch (error) {
+    console.error('Error deleting reconciliation:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete reconciliation' } },
+      500
+    );
+  }
+});
+
+export default reconciliationsRouter;
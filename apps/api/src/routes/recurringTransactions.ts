@@ -3,7 +3,8 @@ import { eq, and } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { getDb, recurringTransactions, accounts, categories } from '../db';
-import { CreateRecurringTransactionSchema } from '@finhome360/shared';
+import { CreateRecurringTransactionSchema, UpcomingRecurringParamsSchema } from '@finhome360/shared';
+import { getUpcomingOccurrences } from '../services/recurringTransactions';
 import type { Env } from '../types';
 
 const router = new Hono<Env>();
@@ -59,6 +60,44 @@ router.get('/', async (c) => {
   }
 });
 
+// Occurrences due within the next N days (default 30), across all active templates
+router.get('/upcoming', async (c) => {
+  try {
+    const validation = UpcomingRecurringParamsSchema.safeParse(c.req.query());
+    if (!validation.success) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: validation.error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+        },
+        400
+      );
+    }
+
+    const db = getDb(c.env.DB);
+    const tenantId = c.get('tenantId')!;
+    const occurrences = await getUpcomingOccurrences(db, tenantId, validation.data.days);
+
+    return c.json({ success: true, data: occurrences });
+  } catch (error: any) {
+    console.error('Error fetching upcoming recurring transactions:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch upcoming recurring transactions' },
+      },
+      500
+    );
+  }
+});
+
 // Get a single recurring transaction
 router.get('/:id', async (c) => {
   try {
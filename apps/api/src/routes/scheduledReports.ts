@@ -2,11 +2,58 @@ import { Hono } from 'hono';
 import { authMiddleware } from '../middleware/auth';
 import { getDb } from '../db';
 import { ScheduledReportsService, CreateScheduledReportInput, UpdateScheduledReportInput } from '../services/scheduledReports.service';
-import type { Env } from '../types';
+import { verifyReportDownload } from '../services/reportDownloads';
+import type { AppContext, Env } from '../types';
 
 const scheduledReportsRouter = new Hono<Env>();
 
-// Apply auth middleware to all routes
+// Stream a run's stored file from R2
+async function serveRunFile(c: AppContext, fileKey: string | null | undefined) {
+  const object = fileKey ? await c.env.FILES.get(fileKey) : null;
+  if (!fileKey || !object) {
+    return c.json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Report file has expired or was removed' },
+    }, 404);
+  }
+
+  const filename = fileKey.split('/').pop() || 'report';
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+// Download a run's file through the signed link in the report email.
+// Registered before the auth middleware: the signature is the credential.
+scheduledReportsRouter.get('/runs/:runId/file', async (c) => {
+  const runId = c.req.param('runId');
+
+  try {
+    const valid = await verifyReportDownload(c.env.JWT_SECRET, runId, c.req.query('expires'), c.req.query('signature'));
+    if (!valid) {
+      return c.json({
+        success: false,
+        error: { code: 'INVALID_LINK', message: 'This download link is invalid or has expired' },
+      }, 403);
+    }
+
+    const service = new ScheduledReportsService(getDb(c.env.DB));
+    const run = await service.getRunById(runId);
+
+    return serveRunFile(c, run?.fileKey);
+  } catch (error) {
+    console.error('Error downloading report run:', error);
+    return c.json({
+      success: false,
+      error: { code: 'FETCH_ERROR', message: 'Failed to download report' },
+    }, 500);
+  }
+});
+
+// Apply auth middleware to all other routes
 scheduledReportsRouter.use('*', authMiddleware);
 
 // Get all scheduled reports for the user
@@ -86,6 +133,34 @@ scheduledReportsRouter.get('/:id/history', async (c) => {
   }
 });
 
+// Download the file generated by a report run
+scheduledReportsRouter.get('/:id/runs/:runId/download', async (c) => {
+  const db = getDb(c.env.DB);
+  const tenantId = c.get('tenantId')!;
+  const reportId = c.req.param('id');
+  const runId = c.req.param('runId');
+
+  try {
+    const service = new ScheduledReportsService(db);
+    const run = await service.getRun(tenantId, reportId, runId);
+
+    if (!run || !run.fileKey) {
+      return c.json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Report file not found' },
+      }, 404);
+    }
+
+    return serveRunFile(c, run.fileKey);
+  } catch (error) {
+    console.error('Error downloading report run:', error);
+    return c.json({
+      success: false,
+      error: { code: 'FETCH_ERROR', message: 'Failed to download report' },
+    }, 500);
+  }
+});
+
 // Create a new scheduled report
 scheduledReportsRouter.post('/', async (c) => {
   const db = getDb(c.env.DB);
@@ -0,0 +1,116 @@
+import { Hono } from 'hono';
+import { CreateTagSchema, UpdateTagSchema, type CreateTagRequest, type UpdateTagRequest } from '@finhome360/shared';
+import { getDb } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { createTag, deleteTag, getTag, getTagByName, listTags, normalizeTagName, updateTag } from '../services/tags';
+import type { Env } from '../types';
+
+const tagsRouter = new Hono<Env>();
+
+// Apply middleware
+tagsRouter.use('*', authMiddleware, tenantMiddleware);
+
+// GET /api/tags - Tags with the number of transactions carrying each
+tagsRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const data = await listTags(db, tenantId);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch tags' } },
+      500
+    );
+  }
+});
+
+// POST /api/tags - Create a tag
+tagsRouter.post('/', validateRequest(CreateTagSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as CreateTagRequest;
+    const db = getDb(c.env.DB);
+
+    if (await getTagByName(db, tenantId, body.name)) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_TAG', message: 'A tag with this name already exists' } },
+        409
+      );
+    }
+
+    const tag = await createTag(db, tenantId, body);
+
+    return c.json({ success: true, data: tag }, 201);
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create tag' } },
+      500
+    );
+  }
+});
+
+// PUT /api/tags/:id - Rename or recolor a tag
+tagsRouter.put('/:id', validateRequest(UpdateTagSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as UpdateTagRequest;
+    const db = getDb(c.env.DB);
+
+    const existing = await getTag(db, tenantId, c.req.param('id'));
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Tag not found' } }, 404);
+    }
+
+    if (
+      body.name &&
+      normalizeTagName(body.name) !== existing.name &&
+      (await getTagByName(db, tenantId, body.name))
+    ) {
+      return c.json(
+        { success: false, error: { code: 'DUPLICATE_TAG', message: 'A tag with this name already exists' } },
+        409
+      );
+    }
+
+    const tag = await updateTag(db, existing, body);
+
+    return c.json({ success: true, data: tag });
+  } catch (error) {
+    console.error('Error updating tag:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update tag' } },
+      500
+    );
+  }
+});
+
+// DELETE /api/tags/:id - Delete a tag and remove it from its transactions
+tagsRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const existing = await getTag(db, tenantId, c.req.param('id'));
+    if (!existing) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Tag not found' } }, 404);
+    }
+
+    await deleteTag(db, existing);
+
+    return c.json({ success: true, data: { message: 'Tag deleted successfully' } });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete tag' } },
+      500
+    );
+  }
+});
+
+export default tagsRouter;
@@ -1,7 +1,8 @@
 import { Hono } from 'hono';
 import { eq, and } from 'drizzle-orm';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
-import { getDb, tenants, users, tenantMembers, accounts, transactions, categories, goals, billReminders, budgets, recurringTransactions, goalContributions, userSettings } from '../db';
+import { getDb, tenants, users, tenantMembers, accounts, transactions, categories, goals, billReminders, billPayments, budgets, budgetAllocations, recurringTransactions, goalContributions, userSettings, transactionSplits, transfers, merchantCategoryRules, categorizationSuggestions, categorizationRules, importProfiles, pdfTemplates, reconciliations, transactionTags, tags } from '../db';
+import { deleteTenantAttachments } from '../services/attachments';
 import type { Env } from '../types';
 
 const router = new Hono<Env>();
@@ -166,6 +167,20 @@ router.delete('/delete', tenantMiddleware, async (c) => {
     const tenantGoalIds = await db.select({ id: goals.id }).from(goals).where(eq(goals.tenantId, tenantId)).all();
     const goalIds = tenantGoalIds.map(g => g.id);
     
+    // Split lines, tags, attachments, transfers, bill payments and learned categorization data reference transactions and categories, so they go first
+    await db.delete(transactionSplits).where(eq(transactionSplits.tenantId, tenantId)).run();
+    await db.delete(transactionTags).where(eq(transactionTags.tenantId, tenantId)).run();
+    await db.delete(tags).where(eq(tags.tenantId, tenantId)).run();
+    await deleteTenantAttachments(db, c.env.FILES, tenantId);
+    await db.delete(transfers).where(eq(transfers.tenantId, tenantId)).run();
+    await db.delete(merchantCategoryRules).where(eq(merchantCategoryRules.tenantId, tenantId)).run();
+    await db.delete(categorizationSuggestions).where(eq(categorizationSuggestions.tenantId, tenantId)).run();
+    await db.delete(categorizationRules).where(eq(categorizationRules.tenantId, tenantId)).run();
+    await db.delete(importProfiles).where(eq(importProfiles.tenantId, tenantId)).run();
+    await db.delete(pdfTemplates).where(eq(pdfTemplates.tenantId, tenantId)).run();
+    await db.delete(reconciliations).where(eq(reconciliations.tenantId, tenantId)).run();
+    await db.delete(billPayments).where(eq(billPayments.tenantId, tenantId)).run();
+
     await Promise.all([
       // Delete goal contributions first (using goalId relationship)
       ...goalIds.map(goalId => 
@@ -177,6 +192,8 @@ router.delete('/delete', tenantMiddleware, async (c) => {
       db.delete(recurringTransactions).where(eq(recurringTransactions.tenantId, tenantId)).run(),
       // Delete bill reminders
       db.delete(billReminders).where(eq(billReminders.tenantId, tenantId)).run(),
+      // Delete envelope allocations
+      db.delete(budgetAllocations).where(eq(budgetAllocations.tenantId, tenantId)).run(),
     ]);
 
     // Delete remaining tenant data
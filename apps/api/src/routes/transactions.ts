@@ -1,16 +1,56 @@
                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                              import { Hono } from 'hono';
-import { eq, and, desc } from 'drizzle-orm';
-import { getDb, transactions, accounts, categories } from '../db';
+import { eq, and, desc, isNotNull } from 'drizzle-orm';
+import { getDb, transactions, accounts, categories, transfers, merchantCategoryRules } from '../db';
 import { authMiddleware, tenantMiddleware } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
-import { CreateTransactionSchema } from '@finhome360/shared';
+import {
+  CreateTransactionSchema,
+  SplitTransactionSchema,
+  UpdateMerchantRuleSchema,
+  BulkArchiveTransactionsSchema,
+  BulkTagTransactionsSchema,
+  TransactionSearchParamsSchema,
+  UpdateTransactionSchema,
+  type BulkArchiveTransactionsRequest,
+  type BulkTagTransactionsRequest,
+  type SplitTransactionRequest,
+  type UpdateMerchantRuleRequest,
+  type UpdateTransactionRequest,
+} from '@finhome360/shared';
 import { getCurrentTimestamp } from '../utils/timestamp';
 import { 
   categorizeTransaction, 
   categorizeBatch, 
   getMerchantPatterns,
-  getCategorizationStats 
+  getLearnedRules,
+  getCategorizationStats,
+  learnFromCorrection,
+  recordAppliedSuggestion,
+  listLearnedRules,
+  updateLearnedRule,
+  deleteLearnedRule,
+  extractMerchantName,
 } from '../services/categorization';
+import { AlertRulesService } from '../services/alertRules.service';
+import { getSplits, replaceSplits, deleteSplits, validateSplitTotal } from '../services/transactionSplits';
+import { unlinkTransfersForTransactions } from '../services/transfers';
+import { archivedFilter, parseIncludeArchived, setArchived } from '../services/transactionArchive';
+import { applyRulesToTransactions, evaluateRules, getActiveRules, hasChanges } from '../services/categorizationRules';
+import { findReconciledTransactionIds, RECONCILED_EDITABLE_FIELDS } from '../services/reconciliation';
+import { deleteAllTransactionAttachments, deleteTransactionAttachments } from '../services/attachments';
+import {
+  deleteTransactionTags,
+  ensureTags,
+  getTagsByName,
+  getTagsForTransactions,
+  parseTagFilter,
+  parseTagMatch,
+  tagFilter,
+  tagTransactions,
+  untagTransactions,
+} from '../services/tags';
+import { buildSearchFilters, decodeSearchCursor, searchTransactions } from '../services/transactionSearch';
+import { unlinkBillPayments } from '../services/billReminders';
 import type { Env } from '../types';
 
 const transactionsRouter = new Hono<Env>();
@@ -34,8 +74,13 @@ transactionsRouter.get('/', async c => {
   const maxLimit = 500;
   const safeLimit = Math.min(Math.max(1, limit), maxLimit);
   const safeOffset = Math.max(0, offset);
+  const includeArchived = parseIncludeArchived(c.req.query('includeArchived'));
 
-  const paginatedTransactions = await db
+  // ?tags=groceries,holiday&tagMatch=all
+  const tagNames = parseTagFilter(c.req.query('tags'));
+  const tagMatch = parseTagMatch(c.req.query('tagMatch'));
+
+  const rows = await db
     .select({
       id: transactions.id,
       tenantId: transactions.tenantId,
@@ -46,6 +91,7 @@ transactionsRouter.get('/', async c => {
       date: transactions.date,
       type: transactions.type,
       notes: transactions.notes,
+      archivedAt: transactions.archivedAt,
       createdAt: transactions.createdAt,
       updatedAt: transactions.updatedAt,
       account: {
@@ -62,12 +108,21 @@ transactionsRouter.get('/', async c => {
     .from(transactions)
     .leftJoin(accounts, eq(transactions.accountId, accounts.id))
     .leftJoin(categories, eq(transactions.categoryId, categories.id))
-    .where(eq(transactions.tenantId, tenantId))
+    .where(
+      and(
+        eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
+        tagNames.length > 0 ? tagFilter(db, tenantId, tagNames, tagMatch) : undefined
+      )
+    )
     .orderBy(desc(transactions.date))
     .limit(safeLimit)
     .offset(safeOffset)
     .all();
 
+  const tagsByTransaction = await getTagsForTransactions(db, tenantId, rows.map(row => row.id));
+  const paginatedTransactions = rows.map(row => ({ ...row, tags: tagsByTransaction.get(row.id) ?? [] }));
+
   return c.json({
     success: true,
     data: paginatedTransactions,
@@ -79,6 +134,64 @@ transactionsRouter.get('/', async c => {
   });
 });
 
+// Search transactions: full text over description and notes plus filters, with cursor paging.
+// e.g. ?q=amazon amount>30 date:2024-Q2 account:"Credit Card" (MUST be before /:id route)
+transactionsRouter.get('/search', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const validation = TransactionSearchParamsSchema.safeParse(c.req.query());
+    if (!validation.success) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid search parameters',
+            details: validation.error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+        },
+        400
+      );
+    }
+
+    const params = validation.data;
+    const { filters, error } = buildSearchFilters(params, parseIncludeArchived(c.req.query('includeArchived')));
+    if (error) {
+      return c.json({ success: false, error: { code: 'INVALID_QUERY', message: error } }, 400);
+    }
+
+    const cursor = params.cursor ? decodeSearchCursor(params.cursor) : null;
+    if (params.cursor && !cursor) {
+      return c.json({ success: false, error: { code: 'INVALID_CURSOR', message: 'Invalid pagination cursor' } }, 400);
+    }
+
+    const result = await searchTransactions(db, tenantId, filters, { cursor, limit: params.limit });
+
+    return c.json({
+      success: true,
+      data: result.transactions,
+      totals: result.totals,
+      pagination: {
+        limit: params.limit,
+        count: result.transactions.length,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('Transaction search error:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to search transactions' } },
+      500
+    );
+  }
+});
+
 // Get categorization statistics
 transactionsRouter.get('/categorization-stats', async c => {
   try {
@@ -103,6 +216,147 @@ transactionsRouter.get('/categorization-stats', async c => {
   }
 });
 
+// Get merchant -> category rules learned from corrections
+transactionsRouter.get('/merchant-rules', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const rules = await listLearnedRules(db, tenantId);
+
+    return c.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('Error fetching merchant rules:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch merchant rules' },
+      },
+      500
+    );
+  }
+});
+
+// Edit a learned merchant rule
+transactionsRouter.put('/merchant-rules/:ruleId', validateRequest(UpdateMerchantRuleSchema), async c => {
+  try {
+    const ruleId = c.req.param('ruleId');
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as UpdateMerchantRuleRequest;
+    const db = getDb(c.env.DB);
+
+    const rule = await db
+      .select({ id: merchantCategoryRules.id })
+      .from(merchantCategoryRules)
+      .where(and(eq(merchantCategoryRules.id, ruleId), eq(merchantCategoryRules.tenantId, tenantId)))
+      .get();
+
+    if (!rule) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Merchant rule not found' } },
+        404
+      );
+    }
+
+    if (body.categoryId) {
+      const category = await db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(and(eq(categories.id, body.categoryId), eq(categories.tenantId, tenantId)))
+        .get();
+
+      if (!category) {
+        return c.json(
+          { success: false, error: { code: 'INVALID_CATEGORY', message: 'Category not found' } },
+          400
+        );
+      }
+    }
+
+    if (body.merchant !== undefined) {
+      const merchant = extractMerchantName(body.merchant);
+      if (!merchant) {
+        return c.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Merchant name is empty after normalization' } },
+          400
+        );
+      }
+
+      const duplicate = await db
+        .select({ id: merchantCategoryRules.id })
+        .from(merchantCategoryRules)
+        .where(and(eq(merchantCategoryRules.tenantId, tenantId), eq(merchantCategoryRules.merchant, merchant)))
+        .get();
+
+      if (duplicate && duplicate.id !== ruleId) {
+        return c.json(
+          { success: false, error: { code: 'DUPLICATE_RULE', message: 'A rule for this merchant already exists' } },
+          409
+        );
+      }
+    }
+
+    await updateLearnedRule(db, tenantId, ruleId, body);
+
+    const rules = await listLearnedRules(db, tenantId);
+
+    return c.json({
+      success: true,
+      data: rules.find(r => r.id === ruleId),
+    });
+  } catch (error) {
+    console.error('Error updating merchant rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update merchant rule' },
+      },
+      500
+    );
+  }
+});
+
+// Delete a learned merchant rule
+transactionsRouter.delete('/merchant-rules/:ruleId', async c => {
+  try {
+    const ruleId = c.req.param('ruleId');
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const rule = await db
+      .select({ id: merchantCategoryRules.id })
+      .from(merchantCategoryRules)
+      .where(and(eq(merchantCategoryRules.id, ruleId), eq(merchantCategoryRules.tenantId, tenantId)))
+      .get();
+
+    if (!rule) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Merchant rule not found' } },
+        404
+      );
+    }
+
+    await deleteLearnedRule(db, tenantId, ruleId);
+
+    return c.json({
+      success: true,
+      data: { message: 'Merchant rule deleted successfully' },
+    });
+  } catch (error) {
+    console.error('Error deleting merchant rule:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete merchant rule' },
+      },
+      500
+    );
+  }
+});
+
 // Get single transaction
 transactionsRouter.get('/:id', async c => {
   const id = c.req.param('id');
@@ -122,9 +376,12 @@ transactionsRouter.get('/:id', async c => {
     );
   }
 
+  const splits = await getSplits(db, tenantId, id);
+  const tagsByTransaction = await getTagsForTransactions(db, tenantId, [id]);
+
   return c.json({
     success: true,
-    data: transaction,
+    data: { ...transaction, splits, tags: tagsByTransaction.get(id) ?? [] },
   });
 });
 
@@ -189,6 +446,7 @@ transactionsRouter.post('/', validateRequest(CreateTransactionSchema), async c =
       accountId: body.accountId,
       categoryId: body.categoryId,
       amount: body.amount,
+      currency: account.currency,
       description: body.description,
       date,
       type: body.type,
@@ -199,6 +457,13 @@ transactionsRouter.post('/', validateRequest(CreateTransactionSchema), async c =
 
     await db.insert(transactions).values(newTransaction).run();
 
+    // Alert rules must never block transaction creation
+    try {
+      await AlertRulesService.evaluateTransactions(c, tenantId, [newTransaction]);
+    } catch (alertError) {
+      console.error('Error evaluating alert rules:', alertError);
+    }
+
     return c.json({
       success: true,
       data: newTransaction,
@@ -215,12 +480,154 @@ transactionsRouter.post('/', validateRequest(CreateTransactionSchema), async c =
   }
 });
 
+// Get split lines of a transaction
+transactionsRouter.get('/:id/splits', async c => {
+  try {
+    const id = c.req.param('id');
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const transaction = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
+      .get();
+
+    if (!transaction) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Transaction not found' } },
+        404
+      );
+    }
+
+    const splits = await getSplits(db, tenantId, id);
+
+    return c.json({
+      success: true,
+      data: splits,
+    });
+  } catch (error) {
+    console.error('Error fetching transaction splits:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch transaction splits' },
+      },
+      500
+    );
+  }
+});
+
+// Split a transaction across categories (replaces any existing split lines)
+transactionsRouter.put('/:id/splits', validateRequest(SplitTransactionSchema), async c => {
+  try {
+    const id = c.req.param('id');
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as SplitTransactionRequest;
+    const db = getDb(c.env.DB);
+
+    const transaction = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
+      .get();
+
+    if (!transaction) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Transaction not found' } },
+        404
+      );
+    }
+
+    const totalError = validateSplitTotal(transaction.amount, body.splits);
+    if (totalError) {
+      return c.json(
+        { success: false, error: { code: 'SPLIT_MISMATCH', message: totalError } },
+        400
+      );
+    }
+
+    // Verify that every category exists and belongs to the tenant
+    const tenantCategories = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId))
+      .all();
+    const categoryIds = new Set(tenantCategories.map(category => category.id));
+
+    if (body.splits.some(line => !categoryIds.has(line.categoryId))) {
+      return c.json(
+        {
+          success: false,
+          error: { code: 'INVALID_CATEGORY', message: 'Category not found or does not belong to your organization' }
+        },
+        400
+      );
+    }
+
+    await replaceSplits(db, tenantId, id, body.splits);
+    const splits = await getSplits(db, tenantId, id);
+
+    return c.json({
+      success: true,
+      data: { ...transaction, splits },
+    });
+  } catch (error) {
+    console.error('Error splitting transaction:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to split transaction' },
+      },
+      500
+    );
+  }
+});
+
+// Remove the split lines of a transaction
+transactionsRouter.delete('/:id/splits', async c => {
+  try {
+    const id = c.req.param('id');
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+
+    const transaction = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
+      .get();
+
+    if (!transaction) {
+      return c.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Transaction not found' } },
+        404
+      );
+    }
+
+    await deleteSplits(db, tenantId, [id]);
+
+    return c.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Error removing transaction splits:', error);
+    return c.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to remove transaction splits' },
+      },
+      500
+    );
+  }
+});
+
 // Update transaction
-transactionsRouter.put('/:id', async c => {
+transactionsRouter.put('/:id', validateRequest(UpdateTransactionSchema), async c => {
   try {
     const id = c.req.param('id');
     const tenantId = c.get('tenantId')!;
-    const body = await c.req.json();
+    const body = c.get('validatedData') as UpdateTransactionRequest;
     const db = getDb(c.env.DB);
 
     // First check if transaction exists
@@ -237,28 +644,48 @@ transactionsRouter.put('/:id', async c => {
       );
     }
 
-    // Convert date if provided
-    const updateData: any = { ...body, updatedAt: getCurrentTimestamp() };
-    if (body.date) {
-      const date = new Date(body.date);
-      if (isNaN(date.getTime())) {
+    // Reconciled transactions only accept changes that leave the balance alone
+    if (existingTransaction.reconciledAt && Object.keys(body).some(field => !RECONCILED_EDITABLE_FIELDS.includes(field))) {
+      return c.json(
+        {
+          success: false,
+          error: { code: 'TRANSACTION_RECONCILED', message: 'Reconciled transactions can only have their category and notes changed' }
+        },
+        409
+      );
+    }
+
+    // Split lines must keep adding up to the parent amount
+    if (body.amount !== undefined && Math.abs(body.amount) !== Math.abs(existingTransaction.amount)) {
+      const splits = await getSplits(db, tenantId, id);
+      if (splits.length > 0) {
         return c.json(
-          { 
-            success: false, 
-            error: { code: 'INVALID_DATE', message: 'Invalid date format' } 
+          {
+            success: false,
+            error: { code: 'SPLIT_MISMATCH', message: 'Update or remove the split lines before changing the amount' }
           },
           400
         );
       }
-      updateData.date = date;
     }
 
+    const updateData = { ...body, updatedAt: getCurrentTimestamp() };
+
     await db
       .update(transactions)
       .set(updateData)
       .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
       .run();
 
+    // A changed category is a correction to learn from
+    if (body.categoryId && body.categoryId !== existingTransaction.categoryId) {
+      try {
+        await learnFromCorrection(db, tenantId, id, body.categoryId);
+      } catch (learnError) {
+        console.error('Error learning from category correction:', learnError);
+      }
+    }
+
     return c.json({
       success: true,
       data: { id, ...updateData },
@@ -275,6 +702,62 @@ transactionsRouter.put('/:id', async c => {
   }
 });
 
+// Bulk tag selected transactions, creating tags that don't exist yet (MUST be before /:id route)
+transactionsRouter.post('/bulk/tag', validateRequest(BulkTagTransactionsSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as BulkTagTransactionsRequest;
+    const db = getDb(c.env.DB);
+
+    const tagged = await ensureTags(db, tenantId, body.tags);
+    const { transactionCount, addedCount } = await tagTransactions(
+      db,
+      tenantId,
+      body.transactionIds,
+      tagged.map(tag => tag.id)
+    );
+
+    return c.json({
+      success: true,
+      data: { transactionCount, addedCount, tags: tagged },
+    });
+  } catch (error) {
+    console.error('Bulk tag error:', error);
+    return c.json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to tag transactions' }
+    }, 500);
+  }
+});
+
+// Remove tags from selected transactions (MUST be before /:id route)
+transactionsRouter.post('/bulk/untag', validateRequest(BulkTagTransactionsSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as BulkTagTransactionsRequest;
+    const db = getDb(c.env.DB);
+
+    const existing = await getTagsByName(db, tenantId, body.tags);
+    await untagTransactions(
+      db,
+      tenantId,
+      body.transactionIds,
+      existing.map(tag => tag.id)
+    );
+
+    return c.json({
+      success: true,
+      data: { tags: existing },
+    });
+  } catch (error) {
+    console.error('Bulk untag error:', error);
+    return c.json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to untag transactions' }
+    }, 500);
+  }
+});
+
 // Bulk delete selected transactions (MUST be before /:id route)
 transactionsRouter.delete('/bulk', async c => {
   try {
@@ -296,6 +779,23 @@ transactionsRouter.delete('/bulk', async c => {
       }, 400);
     }
 
+    const reconciledIds = await findReconciledTransactionIds(db, tenantId, body.transactionIds);
+    if (reconciledIds.length > 0) {
+      return c.json({
+        success: false,
+        error: {
+          code: 'TRANSACTION_RECONCILED',
+          message: `${reconciledIds.length} of the selected transactions are reconciled and cannot be deleted`
+        }
+      }, 409);
+    }
+
+    await deleteSplits(db, tenantId, body.transactionIds);
+    await deleteTransactionTags(db, tenantId, body.transactionIds);
+    await unlinkBillPayments(db, tenantId, body.transactionIds);
+    await deleteTransactionAttachments(db, c.env.FILES, tenantId, body.transactionIds);
+    await unlinkTransfersForTransactions(db, tenantId, body.transactionIds);
+
     // Delete transactions (with tenant isolation)
     let deletedCount = 0;
     for (const transactionId of body.transactionIds) {
@@ -345,6 +845,23 @@ transactionsRouter.delete('/clear', async c => {
       }, 400);
     }
 
+    // Like bulk delete, refuse while any transaction is locked by a reconciliation
+    const reconciled = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.tenantId, tenantId), isNotNull(transactions.reconciledAt)))
+      .limit(1)
+      .get();
+    if (reconciled) {
+      return c.json({
+        success: false,
+        error: {
+          code: 'TRANSACTION_RECONCILED',
+          message: 'Some transactions are reconciled; reopen their reconciliations before clearing all transactions'
+        }
+      }, 409);
+    }
+
     // Get count before deletion for reporting
     const existingTransactions = await db
       .select({ id: transactions.id })
@@ -354,7 +871,12 @@ transactionsRouter.delete('/clear', async c => {
 
     const totalCount = existingTransactions.length;
 
-    // Delete all transactions for the tenant
+    // Delete all transactions (with split lines and transfers) for the tenant
+    await deleteSplits(db, tenantId);
+    await deleteTransactionTags(db, tenantId);
+    await unlinkBillPayments(db, tenantId);
+    await deleteAllTransactionAttachments(db, c.env.FILES, tenantId);
+    await db.delete(transfers).where(eq(transfers.tenantId, tenantId)).run();
     await db
       .delete(transactions)
       .where(eq(transactions.tenantId, tenantId));
@@ -396,6 +918,21 @@ transactionsRouter.delete('/:id', async c => {
       );
     }
 
+    if (existingTransaction.reconciledAt) {
+      return c.json(
+        { success: false, error: { code: 'TRANSACTION_RECONCILED', message: 'Reconciled transactions cannot be deleted' } },
+        409
+      );
+    }
+
+    await deleteSplits(db, tenantId, [id]);
+    await deleteTransactionTags(db, tenantId, [id]);
+    await unlinkBillPayments(db, tenantId, [id]);
+    await deleteTransactionAttachments(db, c.env.FILES, tenantId, [id]);
+    if (existingTransaction.transferId) {
+      // The other side of the transfer is kept as a plain expense/income
+      await unlinkTransfersForTransactions(db, tenantId, [id]);
+    }
     await db
       .delete(transactions)
       .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
@@ -442,12 +979,16 @@ transactionsRouter.post('/:id/auto-categorize', async c => {
     }
 
     // Get categorization suggestion
-    const merchantPatterns = await getMerchantPatterns(db, tenantId);
+    const [merchantPatterns, learnedRules] = await Promise.all([
+      getMerchantPatterns(db, tenantId),
+      getLearnedRules(db, tenantId),
+    ]);
     const result = await categorizeTransaction(
       db,
       tenantId,
       transaction.description,
-      merchantPatterns
+      merchantPatterns,
+      learnedRules
     );
 
     // If confidence is high enough, auto-apply
@@ -460,6 +1001,7 @@ transactionsRouter.post('/:id/auto-categorize', async c => {
         })
         .where(and(eq(transactions.id, id), eq(transactions.tenantId, tenantId)))
         .run();
+      await recordAppliedSuggestion(db, tenantId, id, result);
 
       return c.json({
         success: true,
@@ -514,6 +1056,9 @@ transactionsRouter.post('/auto-categorize-batch', async c => {
           description: transactions.description,
           amount: transactions.amount,
           categoryId: transactions.categoryId,
+          type: transactions.type,
+          accountId: transactions.accountId,
+          notes: transactions.notes,
         })
         .from(transactions)
         .where(eq(transactions.tenantId, tenantId))
@@ -530,20 +1075,36 @@ transactionsRouter.post('/auto-categorize-batch', async c => {
           description: transactions.description,
           amount: transactions.amount,
           categoryId: transactions.categoryId,
+          type: transactions.type,
+          accountId: transactions.accountId,
+          notes: transactions.notes,
         })
         .from(transactions)
         .where(eq(transactions.tenantId, tenantId))
         .all();
     }
 
+    // Tenant categorization rules run first and take precedence over suggestions
+    const rules = await getActiveRules(db, tenantId);
+    const ruleOutcomes = autoApply
+      ? await applyRulesToTransactions(db, tenantId, transactionsToProcess, rules)
+      : transactionsToProcess
+          .map(t => ({ transactionId: t.id, ...evaluateRules(rules, t) }))
+          .filter(hasChanges);
+    const categorizedByRule = new Set(
+      ruleOutcomes.filter(outcome => outcome.changes.categoryId).map(outcome => outcome.transactionId)
+    );
+
     // Categorize batch
     const results = await categorizeBatch(
       db,
       tenantId,
-      transactionsToProcess.map(t => ({
-        id: t.id,
-        description: t.description,
-      }))
+      transactionsToProcess
+        .filter(t => !categorizedByRule.has(t.id))
+        .map(t => ({
+          id: t.id,
+          description: t.description,
+        }))
     );
 
     // Apply high-confidence suggestions if autoApply is true
@@ -560,6 +1121,7 @@ transactionsRouter.post('/auto-categorize-batch', async c => {
           })
           .where(and(eq(transactions.id, transactionId), eq(transactions.tenantId, tenantId)))
           .run();
+        await recordAppliedSuggestion(db, tenantId, transactionId, result);
         
         appliedCount++;
       }
@@ -574,8 +1136,10 @@ transactionsRouter.post('/auto-categorize-batch', async c => {
     return c.json({
       success: true,
       data: {
-        processed: suggestions.length,
+        processed: transactionsToProcess.length,
         applied: appliedCount,
+        rulesApplied: autoApply ? ruleOutcomes.length : 0,
+        ruleMatches: ruleOutcomes,
         suggestions,
       },
     });
@@ -592,47 +1156,13 @@ transactionsRouter.post('/auto-categorize-batch', async c => {
 });
 
 // Bulk archive selected transactions
-transactionsRouter.patch('/bulk/archive', async c => {
+transactionsRouter.patch('/bulk/archive', validateRequest(BulkArchiveTransactionsSchema), async c => {
   try {
     const tenantId = c.get('tenantId')!;
     const db = getDb(c.env.DB);
-    const body = await c.req.json();
-    
-    if (!body.transactionIds || !Array.isArray(body.transactionIds)) {
-      return c.json({
-        success: false,
-        error: { code: 'VALIDATION_ERROR', message: 'transactionIds array is required' }
-      }, 400);
-    }
+    const { transactionIds } = c.get('validatedData') as BulkArchiveTransactionsRequest;
 
-    if (body.transactionIds.length === 0) {
-      return c.json({
-        success: false,
-        error: { code: 'VALIDATION_ERROR', message: 'At least one transaction ID is required' }
-      }, 400);
-    }
-
-    // Archive transactions by adding archived note
-    let archivedCount = 0;
-    for (const transactionId of body.transactionIds) {
-      try {
-        await db
-          .update(transactions)
-          .set({
-            notes: 'ARCHIVED',
-            updatedAt: getCurrentTimestamp()
-          })
-          .where(
-            and(
-              eq(transactions.tenantId, tenantId),
-              eq(transactions.id, transactionId)
-            )
-          );
-        archivedCount++;
-      } catch (error) {
-        console.error(`Failed to archive transaction ${transactionId}:`, error);
-      }
-    }
+    const archivedCount = await setArchived(db, tenantId, transactionIds, true);
 
     return c.json({
       success: true,
@@ -650,4 +1180,29 @@ transactionsRouter.patch('/bulk/archive', async c => {
   }
 });
 
+// Bulk unarchive selected transactions
+transactionsRouter.patch('/bulk/unarchive', validateRequest(BulkArchiveTransactionsSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+    const { transactionIds } = c.get('validatedData') as BulkArchiveTransactionsRequest;
+
+    const unarchivedCount = await setArchived(db, tenantId, transactionIds, false);
+
+    return c.json({
+      success: true,
+      data: { 
+        message: `Successfully unarchived ${unarchivedCount} transaction${unarchivedCount !== 1 ? 's' : ''}`,
+        unarchivedCount 
+      }
+    });
+  } catch (error: any) {
+    console.error('Bulk unarchive error:', error);
+    return c.json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to unarchive transactions' }
+    }, 500);
+  }
+});
+
 export default transactionsRouter;
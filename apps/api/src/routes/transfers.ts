@@ -0,0 +1,283 @@
+import { Hono } from 'hono';
+import { eq, and, desc, gte, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { getDb, accounts, transactions, transfers } from '../db';
+import { authMiddleware, tenantMiddleware } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  CreateTransferSchema,
+  LinkTransferSchema,
+  type CreateTransferRequest,
+  type LinkTransferRequest,
+} from '@finhome360/shared';
+import {
+  createTransfer,
+  linkTransfer,
+  removeTransfer,
+  autoMatchTransfers,
+  TRANSFER_MATCH_WINDOW_DAYS,
+} from '../services/transfers';
+import { findReconciledTransactionIds } from '../services/reconciliation';
+import { deleteTransactionAttachments } from '../services/attachments';
+import { deleteTransactionTags } from '../services/tags';
+import type { Env } from '../types';
+
+const transfersRouter = new Hono<Env>();
+
+const fromAccounts = alias(accounts, 'from_accounts');
+const toAccounts = alias(accounts, 'to_accounts');
+
+// Apply middleware
+transfersRouter.use('*', authMiddleware, tenantMiddleware);
+
+const selectTransfers = (db: ReturnType<typeof getDb>) =>
+  db
+    .select({
+      id: transfers.id,
+      fromAccountId: transfers.fromAccountId,
+      fromAccountName: fromAccounts.name,
+      toAccountId: transfers.toAccountId,
+      toAccountName: toAccounts.name,
+      fromTransactionId: transfers.fromTransactionId,
+      toTransactionId: transfers.toTransactionId,
+      amount: transfers.amount,
+      date: transfers.date,
+      description: transfers.description,
+      source: transfers.source,
+      createdAt: transfers.createdAt,
+      updatedAt: transfers.updatedAt,
+    })
+    .from(transfers)
+    .leftJoin(fromAccounts, eq(transfers.fromAccountId, fromAccounts.id))
+    .leftJoin(toAccounts, eq(transfers.toAccountId, toAccounts.id));
+
+// Get all transfers
+transfersRouter.get('/', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+    const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500);
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    const data = await selectTransfers(db)
+      .where(eq(transfers.tenantId, tenantId))
+      .orderBy(desc(transfers.date))
+      .limit(limit)
+      .offset(offset)
+      .all();
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch transfers' } },
+      500
+    );
+  }
+});
+
+// Get single transfer
+transfersRouter.get('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const db = getDb(c.env.DB);
+
+    const transfer = await selectTransfers(db)
+      .where(and(eq(transfers.id, id), eq(transfers.tenantId, tenantId)))
+      .get();
+
+    if (!transfer) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Transfer not found' } }, 404);
+    }
+
+    return c.json({ success: true, data: transfer });
+  } catch (error) {
+    console.error('Error fetching transfer:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch transfer' } },
+      500
+    );
+  }
+});
+
+// Move money between two of the tenant's accounts
+transfersRouter.post('/', validateRequest(CreateTransferSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as CreateTransferRequest;
+    const db = getDb(c.env.DB);
+
+    const ownedAccounts = await db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.tenantId, tenantId), inArray(accounts.id, [body.fromAccountId, body.toAccountId])))
+      .all();
+
+    if (ownedAccounts.length !== 2) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } }, 404);
+    }
+
+    const transfer = await createTransfer(db, tenantId, body);
+
+    return c.json({ success: true, data: transfer }, 201);
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create transfer' } },
+      500
+    );
+  }
+});
+
+// Link an existing debit and credit as a transfer
+transfersRouter.post('/link', validateRequest(LinkTransferSchema), async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const body = c.get('validatedData') as LinkTransferRequest;
+    const db = getDb(c.env.DB);
+
+    const sides = await db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.tenantId, tenantId),
+          inArray(transactions.id, [body.fromTransactionId, body.toTransactionId])
+        )
+      )
+      .all();
+
+    const from = sides.find(txn => txn.id === body.fromTransactionId);
+    const to = sides.find(txn => txn.id === body.toTransactionId);
+
+    if (!from || !to) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Transaction not found' } }, 404);
+    }
+
+    if (from.transferId || to.transferId) {
+      return c.json(
+        { success: false, error: { code: 'ALREADY_LINKED', message: 'Transaction is already part of a transfer' } },
+        409
+      );
+    }
+
+    // Linking retypes both sides, which would change the totals of a reconciled period
+    if ((await findReconciledTransactionIds(db, tenantId, [from.id, to.id])).length > 0) {
+      return c.json(
+        { success: false, error: { code: 'TRANSACTION_RECONCILED', message: 'Reconciled transactions cannot be linked as a transfer' } },
+        409
+      );
+    }
+
+    if (from.accountId === to.accountId) {
+      return c.json(
+        { success: false, error: { code: 'INVALID_TRANSFER', message: 'Both transactions are on the same account' } },
+        400
+      );
+    }
+
+    if (from.type !== 'expense' || to.type !== 'income') {
+      return c.json(
+        {
+          success: false,
+          error: { code: 'INVALID_TRANSFER', message: 'A transfer links an expense to an income transaction' },
+        },
+        400
+      );
+    }
+
+    if (Math.abs(Math.abs(from.amount) - Math.abs(to.amount)) > 0.005) {
+      return c.json(
+        { success: false, error: { code: 'AMOUNT_MISMATCH', message: 'Transaction amounts do not match' } },
+        400
+      );
+    }
+
+    const transfer = await linkTransfer(db, tenantId, from, to, 'linked');
+
+    return c.json({ success: true, data: transfer }, 201);
+  } catch (error) {
+    console.error('Error linking transfer:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to link transfer' } },
+      500
+    );
+  }
+});
+
+// Run the transfer matcher over recent transactions
+transfersRouter.post('/match', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const db = getDb(c.env.DB);
+    const days = Math.min(parseInt(c.req.query('days') || '90'), 365);
+    const windowDays = parseInt(c.req.query('windowDays') || String(TRANSFER_MATCH_WINDOW_DAYS));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const recent = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.tenantId, tenantId), gte(transactions.date, since)))
+      .all();
+
+    const matched = await autoMatchTransfers(db, tenantId, recent, windowDays);
+
+    return c.json({ success: true, data: { matched: matched.length, transfers: matched } });
+  } catch (error) {
+    console.error('Error matching transfers:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to match transfers' } },
+      500
+    );
+  }
+});
+
+// Delete a created transfer, or unlink a matched/linked one
+transfersRouter.delete('/:id', async c => {
+  try {
+    const tenantId = c.get('tenantId')!;
+    const id = c.req.param('id');
+    const db = getDb(c.env.DB);
+
+    const transfer = await db
+      .select()
+      .from(transfers)
+      .where(and(eq(transfers.id, id), eq(transfers.tenantId, tenantId)))
+      .get();
+
+    if (!transfer) {
+      return c.json({ success: false, error: { code: 'NOT_FOUND', message: 'Transfer not found' } }, 404);
+    }
+
+    // Deleting a created transfer deletes its transactions, which reconciliation locks
+    if (
+      transfer.source === 'created' &&
+      (await findReconciledTransactionIds(db, tenantId, [transfer.fromTransactionId, transfer.toTransactionId])).length > 0
+    ) {
+      return c.json(
+        { success: false, error: { code: 'TRANSACTION_RECONCILED', message: 'This transfer is reconciled and cannot be deleted' } },
+        409
+      );
+    }
+
+    if (transfer.source === 'created') {
+      await deleteTransactionTags(db, tenantId, [transfer.fromTransactionId, transfer.toTransactionId]);
+      await deleteTransactionAttachments(db, c.env.FILES, tenantId, [transfer.fromTransactionId, transfer.toTransactionId]);
+    }
+    await removeTransfer(db, tenantId, transfer);
+
+    return c.json({
+      success: true,
+      data: { message: transfer.source === 'created' ? 'Transfer deleted' : 'Transfer unlinked' },
+    });
+  } catch (error) {
+    console.error('Error deleting transfer:', error);
+    return c.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete transfer' } },
+      500
+    );
+  }
+});
+
+export default transfersRouter;
@@ -10,6 +10,7 @@ import {
   financialHealthScores,
   debtAccounts
 } from '../db';
+import { roundMoney, subtractMoney, sumMoney, sumMoneyBy } from '@finhome360/shared';
 import type { AppContext } from '../types';
 import { CloudflareAIService } from './workersai.service';
 
@@ -158,18 +159,20 @@ export class AIAdvisorService {
     const expensesByCategory: Record<string, number> = {};
     recentTransactions.filter(t => t.type === 'expense').forEach(t => {
       const cat = t.categoryName || 'Other';
-      expensesByCategory[cat] = (expensesByCategory[cat] || 0) + Math.abs(t.amount);
+      expensesByCategory[cat] = sumMoney([expensesByCategory[cat], Math.abs(t.amount)]);
     });
 
     // Calculate trends
-    const lastMonthIncome = recentTransactions
-      .filter(t => t.type === 'income' && t.date >= lastMonth && t.date < currentMonthStart)
-      .reduce((sum, t) => sum + t.amount, 0);
+    const lastMonthIncome = sumMoneyBy(
+      recentTransactions.filter(t => t.type === 'income' && t.date >= lastMonth && t.date < currentMonthStart),
+      t => t.amount
+    );
     const incomeTrend = monthlyIncome > 0 ? ((lastMonthIncome - monthlyIncome) / monthlyIncome) * 100 : 0;
 
-    const lastMonthExpenses = Math.abs(recentTransactions
-      .filter(t => t.type === 'expense' && t.date >= lastMonth && t.date < currentMonthStart)
-      .reduce((sum, t) => sum + t.amount, 0));
+    const lastMonthExpenses = Math.abs(sumMoneyBy(
+      recentTransactions.filter(t => t.type === 'expense' && t.date >= lastMonth && t.date < currentMonthStart),
+      t => t.amount
+    ));
     const expensesTrend = monthlyExpenses > 0 ? ((lastMonthExpenses - monthlyExpenses) / monthlyExpenses) * 100 : 0;
 
     // Get savings accounts
@@ -180,7 +183,7 @@ export class AIAdvisorService {
         eq(accounts.tenantId, tenantId),
         eq(accounts.type, 'savings')
       ));
-    const totalSavings = savingsAccounts.reduce((sum, a) => sum + a.balance, 0);
+    const totalSavings = sumMoneyBy(savingsAccounts, a => a.balance);
 
     // Get debt info
     const debts = await db
@@ -190,8 +193,8 @@ export class AIAdvisorService {
         eq(debtAccounts.tenantId, tenantId),
         eq(debtAccounts.status, 'active')
       ));
-    const totalDebt = debts.reduce((sum, d) => sum + d.currentBalance, 0);
-    const monthlyDebtPayments = debts.reduce((sum, d) => sum + (d.monthlyPayment || d.minimumPayment || 0), 0);
+    const totalDebt = sumMoneyBy(debts, d => d.currentBalance);
+    const monthlyDebtPayments = sumMoneyBy(debts, d => d.monthlyPayment || d.minimumPayment);
 
     // Get goals
     const activeGoals = await db
@@ -281,10 +284,10 @@ export class AIAdvisorService {
       }
 
       if (t.type === 'income') {
-        monthlyData[monthKey].income += t.amount;
+        monthlyData[monthKey].income = sumMoney([monthlyData[monthKey].income, t.amount]);
       } else if (t.type === 'expense') {
         const cat = t.categoryName || 'Other';
-        monthlyData[monthKey].expenses[cat] = (monthlyData[monthKey].expenses[cat] || 0) + Math.abs(t.amount);
+        monthlyData[monthKey].expenses[cat] = sumMoney([monthlyData[monthKey].expenses[cat], Math.abs(t.amount)]);
       }
     });
 
@@ -311,7 +314,7 @@ export class AIAdvisorService {
 
         categoryBreakdown.push({
           category,
-          predictedAmount: Math.round(predictedAmount * 100) / 100,
+          predictedAmount: roundMoney(predictedAmount),
           confidence: Math.max(0.5, Math.min(0.95, 1 - Math.abs(trend.volatility))),
           trend: trend.growthRate > 2 ? 'increasing' : trend.growthRate < -2 ? 'decreasing' : 'stable',
           percentageChange: trend.growthRate,
@@ -321,9 +324,9 @@ export class AIAdvisorService {
 
       forecasts.push({
         month: forecastMonthKey,
-        predictedIncome: Math.round(avgIncome * 100) / 100,
-        predictedExpenses: Math.round(totalPredictedExpenses * 100) / 100,
-        predictedSavings: Math.round((avgIncome - totalPredictedExpenses) * 100) / 100,
+        predictedIncome: roundMoney(avgIncome),
+        predictedExpenses: roundMoney(totalPredictedExpenses),
+        predictedSavings: roundMoney(avgIncome - totalPredictedExpenses),
         confidence: 0.75 - (i * 0.05), // Confidence decreases with time
         categoryBreakdown: categoryBreakdown.sort((a, b) => b.predictedAmount - a.predictedAmount)
       });
@@ -376,11 +379,11 @@ export class AIAdvisorService {
 
     for (const goal of activeGoals) {
       const goalContribs = contributions.filter(c => c.goalId === goal.id);
-      const totalContributed = goalContribs.reduce((sum, c) => sum + c.amount, 0);
+      const totalContributed = sumMoneyBy(goalContribs, c => c.amount);
       const monthsOfData = Math.max(1, goalContribs.length > 0 ? 3 : 1);
       const currentMonthlyAverage = totalContributed / monthsOfData;
 
-      const remaining = goal.targetAmount - goal.currentAmount;
+      const remaining = subtractMoney(goal.targetAmount, goal.currentAmount);
       let projectedCompletionDate: Date | null = null;
       let requiredMonthlyContribution = 0;
       let probabilityOfSuccess = 0.5;
@@ -428,8 +431,8 @@ export class AIAdvisorService {
         deadline: goal.deadline,
         projectedCompletionDate,
         onTrack,
-        requiredMonthlyContribution: Math.round(requiredMonthlyContribution * 100) / 100,
-        currentMonthlyAverage: Math.round(currentMonthlyAverage * 100) / 100,
+        requiredMonthlyContribution: roundMoney(requiredMonthlyContribution),
+        currentMonthlyAverage: roundMoney(currentMonthlyAverage),
         probabilityOfSuccess: Math.round(probabilityOfSuccess * 100) / 100,
         recommendations
       });
@@ -457,9 +460,9 @@ export class AIAdvisorService {
       return null;
     }
 
-    const totalDebt = debts.reduce((sum, d) => sum + d.currentBalance, 0);
-    const totalMinPayments = debts.reduce((sum, d) => sum + (d.minimumPayment || 0), 0);
-    const monthlyPayment = totalMinPayments + extraMonthlyPayment;
+    const totalDebt = sumMoneyBy(debts, d => d.currentBalance);
+    const totalMinPayments = sumMoneyBy(debts, d => d.minimumPayment);
+    const monthlyPayment = sumMoney([totalMinPayments, extraMonthlyPayment]);
 
     // Calculate avalanche strategy (highest interest first)
     const avalancheOrder = [...debts].sort((a, b) => (b.interestRate || 0) - (a.interestRate || 0));
@@ -494,10 +497,10 @@ export class AIAdvisorService {
 
     return {
       method,
-      totalDebt: Math.round(totalDebt * 100) / 100,
-      monthlyPayment: Math.round(monthlyPayment * 100) / 100,
+      totalDebt,
+      monthlyPayment,
       projectedPayoffDate: selectedResult.payoffDate,
-      totalInterestSaved: Math.round((snowballResult.totalInterest - avalancheResult.totalInterest) * 100) / 100,
+      totalInterestSaved: roundMoney(snowballResult.totalInterest - avalancheResult.totalInterest),
       payoffOrder: selectedOrder.map((d, i) => ({
         debtId: d.id,
         debtName: d.name,
@@ -613,7 +616,7 @@ Focus on practical, actionable UK-specific advice. Use British English.`;
   // ==========================================
 
   private static calculateMonthlyAverage(txns: Array<{ amount: number }>, months: number): number {
-    const total = txns.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    const total = sumMoneyBy(txns, t => Math.abs(t.amount));
     return total / Math.max(1, months);
   }
 
@@ -655,7 +658,7 @@ Focus on practical, actionable UK-specific advice. Use British English.`;
       const volatility = average > 0 ? Math.sqrt(variance) / average : 0;
 
       trends[category] = {
-        average: Math.round(average * 100) / 100,
+        average: roundMoney(average),
         growthRate: Math.round(growthRate * 10) / 10,
         volatility: Math.round(volatility * 100) / 100
       };
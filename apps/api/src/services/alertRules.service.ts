@@ -0,0 +1,422 @@
+import { eq, and, desc } from 'drizzle-orm';
+import {
+  DEFAULT_CURRENCY,
+  parseAlertCondition,
+  formatAlertCondition,
+  evaluateAlertCondition,
+  type AlertCondition,
+  type CreateAlertRuleRequest,
+  type UpdateAlertRuleRequest,
+} from '@finhome360/shared';
+import {
+  getDb,
+  alertRules,
+  accounts,
+  budgets,
+  categories,
+  transactions,
+  userSettings,
+  users,
+} from '../db';
+import { createEmailService } from './email';
+import { NotificationsService, type NotificationContext } from './notifications.service';
+
+/**
+ * Alert Rules Service
+ *
+ * Tenant users define rules with a small condition language
+ * (e.g. `category = Dining AND amount > 50`). Rules are evaluated against
+ * newly created, imported and bank-synced transactions, and matches are
+ * delivered through NotificationsService, respecting each rule's cooldown.
+ */
+
+export type AlertRule = typeof alertRules.$inferSelect;
+
+export type RuleTransaction = Pick<
+  typeof transactions.$inferSelect,
+  'id' | 'accountId' | 'categoryId' | 'amount' | 'description' | 'type'
+>;
+
+export interface AlertRuleResponse extends Omit<AlertRule, 'conditions' | 'actions'> {
+  conditions: AlertCondition | null;
+  expression: string | null;
+  actions: string[];
+}
+
+export class AlertRulesService {
+  /**
+   * Accept either a condition tree or a text expression.
+   * Throws AlertConditionParseError for invalid expressions.
+   */
+  static normalizeConditions(conditions: string | AlertCondition): AlertCondition {
+    return typeof conditions === 'string' ? parseAlertCondition(conditions) : conditions;
+  }
+
+  /**
+   * Parse stored JSON columns for API responses
+   */
+  static toResponse(rule: AlertRule): AlertRuleResponse {
+    const conditions = this.parseStoredConditions(rule);
+    let actions: string[] = [];
+    try {
+      actions = JSON.parse(rule.actions);
+    } catch {
+      actions = ['notify'];
+    }
+
+    return {
+      ...rule,
+      conditions,
+      expression: conditions ? formatAlertCondition(conditions) : null,
+      actions,
+    };
+  }
+
+  private static parseStoredConditions(rule: AlertRule): AlertCondition | null {
+    try {
+      return JSON.parse(rule.conditions) as AlertCondition;
+    } catch {
+      console.error(`Alert rule ${rule.id} has invalid conditions`);
+      return null;
+    }
+  }
+
+  /**
+   * Check that linked category/account/budget belong to the tenant.
+   * Returns an error message, or null when all references are valid.
+   */
+  static async findInvalidReference(
+    c: NotificationContext,
+    tenantId: string,
+    input: { categoryId?: string; accountId?: string; budgetId?: string }
+  ): Promise<string | null> {
+    const db = getDb(c.env.DB);
+
+    if (input.categoryId) {
+      const category = await db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(and(eq(categories.id, input.categoryId), eq(categories.tenantId, tenantId)))
+        .get();
+      if (!category) return 'Category not found';
+    }
+
+    if (input.accountId) {
+      const account = await db
+        .select({ id: accounts.id })
+        .from(accounts)
+        .where(and(eq(accounts.id, input.accountId), eq(accounts.tenantId, tenantId)))
+        .get();
+      if (!account) return 'Account not found';
+    }
+
+    if (input.budgetId) {
+      const budget = await db
+        .select({ id: budgets.id })
+        .from(budgets)
+        .where(and(eq(budgets.id, input.budgetId), eq(budgets.tenantId, tenantId)))
+        .get();
+      if (!budget) return 'Budget not found';
+    }
+
+    return null;
+  }
+
+  /**
+   * Get a user's alert rules
+   */
+  static async getRules(c: NotificationContext, tenantId: string, userId: string): Promise<AlertRule[]> {
+    const db = getDb(c.env.DB);
+
+    return db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.tenantId, tenantId), eq(alertRules.userId, userId)))
+      .orderBy(desc(alertRules.createdAt))
+      .all();
+  }
+
+  /**
+   * Get a single alert rule
+   */
+  static async getRule(
+    c: NotificationContext,
+    tenantId: string,
+    userId: string,
+    ruleId: string
+  ): Promise<AlertRule | undefined> {
+    const db = getDb(c.env.DB);
+
+    return db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.id, ruleId),
+        eq(alertRules.tenantId, tenantId),
+        eq(alertRules.userId, userId)
+      ))
+      .get();
+  }
+
+  /**
+   * Create an alert rule
+   */
+  static async createRule(
+    c: NotificationContext,
+    tenantId: string,
+    userId: string,
+    input: CreateAlertRuleRequest
+  ): Promise<AlertRule> {
+    const db = getDb(c.env.DB);
+    const now = new Date();
+
+    const rule = {
+      id: crypto.randomUUID(),
+      tenantId,
+      userId,
+      name: input.name,
+      description: input.description || null,
+      isEnabled: input.isEnabled,
+      ruleType: input.ruleType,
+      conditions: JSON.stringify(this.normalizeConditions(input.conditions)),
+      actions: JSON.stringify(input.actions),
+      categoryId: input.categoryId || null,
+      accountId: input.accountId || null,
+      budgetId: input.budgetId || null,
+      cooldownMinutes: input.cooldownMinutes,
+      lastTriggeredAt: null,
+      triggerCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await db.insert(alertRules).values(rule).run();
+
+    return rule;
+  }
+
+  /**
+   * Update an alert rule
+   */
+  static async updateRule(
+    c: NotificationContext,
+    tenantId: string,
+    userId: string,
+    ruleId: string,
+    input: UpdateAlertRuleRequest
+  ): Promise<AlertRule | undefined> {
+    const db = getDb(c.env.DB);
+
+    const updateData: Partial<typeof alertRules.$inferInsert> = { updatedAt: new Date() };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.isEnabled !== undefined) updateData.isEnabled = input.isEnabled;
+    if (input.ruleType !== undefined) updateData.ruleType = input.ruleType;
+    if (input.conditions !== undefined) {
+      updateData.conditions = JSON.stringify(this.normalizeConditions(input.conditions));
+    }
+    if (input.actions !== undefined) updateData.actions = JSON.stringify(input.actions);
+    if (input.categoryId !== undefined) updateData.categoryId = input.categoryId || null;
+    if (input.accountId !== undefined) updateData.accountId = input.accountId || null;
+    if (input.budgetId !== undefined) updateData.budgetId = input.budgetId || null;
+    if (input.cooldownMinutes !== undefined) updateData.cooldownMinutes = input.cooldownMinutes;
+
+    await db
+      .update(alertRules)
+      .set(updateData)
+      .where(and(
+        eq(alertRules.id, ruleId),
+        eq(alertRules.tenantId, tenantId),
+        eq(alertRules.userId, userId)
+      ))
+      .run();
+
+    return this.getRule(c, tenantId, userId, ruleId);
+  }
+
+  /**
+   * Delete an alert rule
+   */
+  static async deleteRule(c: NotificationContext, tenantId: string, userId: string, ruleId: string): Promise<void> {
+    const db = getDb(c.env.DB);
+
+    await db
+      .delete(alertRules)
+      .where(and(
+        eq(alertRules.id, ruleId),
+        eq(alertRules.tenantId, tenantId),
+        eq(alertRules.userId, userId)
+      ))
+      .run();
+  }
+
+  /**
+   * Evaluate the tenant's enabled rules against a batch of new transactions.
+   * Each rule fires at most once per batch and not again until its cooldown
+   * has passed. Returns the number of rules triggered.
+   */
+  static async evaluateTransactions(
+    c: NotificationContext,
+    tenantId: string,
+    newTransactions: RuleTransaction[]
+  ): Promise<number> {
+    if (newTransactions.length === 0) return 0;
+
+    const db = getDb(c.env.DB);
+    const now = new Date();
+
+    const rules = await db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.tenantId, tenantId), eq(alertRules.isEnabled, true)))
+      .all();
+
+    const activeRules = rules.filter(rule => {
+      if (!rule.lastTriggeredAt) return true;
+      const cooldownMs = (rule.cooldownMinutes ?? 60) * 60 * 1000;
+      return now.getTime() - rule.lastTriggeredAt.getTime() >= cooldownMs;
+    });
+
+    if (activeRules.length === 0) return 0;
+
+    const [accountRows, categoryRows] = await Promise.all([
+      db
+        .select({ id: accounts.id, name: accounts.name, balance: accounts.balance, currency: accounts.currency })
+        .from(accounts)
+        .where(eq(accounts.tenantId, tenantId))
+        .all(),
+      db
+        .select({ id: categories.id, name: categories.name })
+        .from(categories)
+        .where(eq(categories.tenantId, tenantId))
+        .all(),
+    ]);
+
+    const accountMap = new Map(accountRows.map(account => [account.id, account]));
+    const categoryMap = new Map(categoryRows.map(category => [category.id, category.name]));
+
+    let triggered = 0;
+
+    for (const rule of activeRules) {
+      const condition = this.parseStoredConditions(rule);
+      if (!condition) continue;
+
+      const matches = newTransactions.filter(txn => {
+        if (rule.accountId && txn.accountId !== rule.accountId) return false;
+        if (rule.categoryId && txn.categoryId !== rule.categoryId) return false;
+
+        const account = accountMap.get(txn.accountId);
+        return evaluateAlertCondition(condition, {
+          amount: txn.amount,
+          type: txn.type,
+          category: categoryMap.get(txn.categoryId) ?? null,
+          account: account?.name ?? null,
+          description: txn.description,
+          balance: account?.balance ?? null,
+        });
+      });
+
+      if (matches.length === 0) continue;
+
+      try {
+        await this.triggerRule(c, rule, condition, matches, accountMap.get(matches[0].accountId)?.currency);
+        triggered++;
+      } catch (error) {
+        console.error(`Failed to trigger alert rule ${rule.id}:`, error);
+      }
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Format an amount in a currency, e.g. £12.50 or €12.50
+   */
+  private static formatAmount(amount: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+    } catch {
+      return `${currency} ${amount.toFixed(2)}`;
+    }
+  }
+
+  /**
+   * Deliver a rule match and start its cooldown. Amounts are shown in the
+   * account's currency, or the tenant's settings currency when it is unknown.
+   */
+  private static async triggerRule(
+    c: NotificationContext,
+    rule: AlertRule,
+    condition: AlertCondition,
+    matches: RuleTransaction[],
+    accountCurrency?: string
+  ): Promise<void> {
+    const db = getDb(c.env.DB);
+    const expression = formatAlertCondition(condition);
+    const first = matches[0];
+
+    let message = `${matches.length} new transactions matched your rule: ${expression}.`;
+    if (matches.length === 1) {
+      const settings = accountCurrency
+        ? undefined
+        : await db
+            .select({ currency: userSettings.currency })
+            .from(userSettings)
+            .where(eq(userSettings.tenantId, rule.tenantId))
+            .get();
+      const currency = accountCurrency ?? settings?.currency ?? DEFAULT_CURRENCY;
+      message = `"${first.description}" (${this.formatAmount(Math.abs(first.amount), currency)}) matched your rule: ${expression}.`;
+    }
+
+    const notification = await NotificationsService.createNotification(c, {
+      tenantId: rule.tenantId,
+      userId: rule.userId,
+      type: 'custom_alert',
+      category: 'alert',
+      priority: 'medium',
+      title: `Alert: ${rule.name}`,
+      message,
+      actionUrl: '/dashboard/transactions',
+      actionLabel: 'View Transactions',
+      icon: '🔔',
+      color: '#6366f1',
+      relatedEntityType: 'transaction',
+      relatedEntityId: first.id,
+      metadata: {
+        ruleId: rule.id,
+        matchCount: matches.length,
+        transactionIds: matches.slice(0, 20).map(txn => txn.id),
+      },
+    });
+
+    const actions = this.toResponse(rule).actions;
+    if (actions.includes('email')) {
+      const user = await db
+        .select({ email: users.email, name: users.name })
+        .from(users)
+        .where(eq(users.id, rule.userId))
+        .get();
+
+      if (user?.email) {
+        const appUrl = c.env.FRONTEND_URL || 'https://app.finhome360.com';
+        const emailService = createEmailService('noreply@finhome360.com', appUrl);
+        await emailService.sendEmail({
+          to: user.email,
+          subject: notification.title,
+          text: `Hi ${user.name},\n\n${message}\n\nView in Finhome360: ${appUrl}/dashboard/transactions`,
+        });
+      }
+    }
+
+    await db
+      .update(alertRules)
+      .set({
+        lastTriggeredAt: new Date(),
+        triggerCount: (rule.triggerCount || 0) + 1,
+        updatedAt: new Date(),
+      })
+      .where(eq(alertRules.id, rule.id))
+      .run();
+  }
+}
@@ -26,7 +26,7 @@ export class AnalyticsService {
     const transactionStatsResult = await db
       .select({ 
         count: sql<number>`count(*)`,
-        totalAmount: sql<number>`sum(abs(${transactions.amount}))`
+        totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount)
       })
       .from(transactions)
       .innerJoin(accounts, eq(accounts.id, transactions.accountId))
@@ -211,7 +211,7 @@ export class AnalyticsService {
     const transactionStatsResult = await db
       .select({ 
         count: sql<number>`count(*)`,
-        totalAmount: sql<number>`sum(abs(${transactions.amount}))`
+        totalAmount: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount)
       })
       .from(transactions)
       .innerJoin(accounts, eq(accounts.id, transactions.accountId))
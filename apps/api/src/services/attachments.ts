@@ -0,0 +1,251 @@
+import { and, desc, eq, inArray, isNotNull, isNull } from 'drizzle-orm';
+import { attachments, transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type Attachment = typeof attachments.$inferSelect;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Receipts arrive as scans, phone photos or PDF invoices
+export const ATTACHMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/gif',
+];
+
+export interface AttachmentTarget {
+  transactionId?: string | null;
+  billReminderId?: string | null;
+}
+
+/**
+ * Check an uploaded file against the allowed types and size. Returns an error message, or null when valid.
+ */
+export function validateAttachmentFile(file: { type: string; size: number }): string | null {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return 'Invalid file type. Only PDF, JPEG, PNG, WebP, HEIC and GIF files are allowed.';
+  }
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+  return null;
+}
+
+/**
+ * Keep file names safe for object keys and Content-Disposition headers
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[^\w.\- ]+/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(-120);
+  return cleaned.replace(/^\.+/, '') || 'attachment';
+}
+
+export function buildAttachmentKey(tenantId: string, attachmentId: string, fileName: string): string {
+  return `attachments/${tenantId}/${attachmentId}-${sanitizeFileName(fileName)}`;
+}
+
+export async function getAttachment(db: Db, tenantId: string, id: string): Promise<Attachment | undefined> {
+  return db
+    .select()
+    .from(attachments)
+    .where(and(eq(attachments.id, id), eq(attachments.tenantId, tenantId)))
+    .get();
+}
+
+export async function listAttachments(db: Db, tenantId: string, target: AttachmentTarget): Promise<Attachment[]> {
+  return db
+    .select()
+    .from(attachments)
+    .where(
+      and(
+        eq(attachments.tenantId, tenantId),
+        target.transactionId ? eq(attachments.transactionId, target.transactionId) : undefined,
+        target.billReminderId ? eq(attachments.billReminderId, target.billReminderId) : undefined
+      )
+    )
+    .orderBy(desc(attachments.createdAt))
+    .all();
+}
+
+/**
+ * Store the file in the bucket and record it against the transaction and/or bill
+ */
+export async function createAttachment(
+  db: Db,
+  files: R2Bucket,
+  tenantId: string,
+  userId: string | null,
+  file: File,
+  target: AttachmentTarget
+): Promise<Attachment> {
+  const id = crypto.randomUUID();
+  const fileName = sanitizeFileName(file.name);
+  const fileKey = buildAttachmentKey(tenantId, id, fileName);
+
+  await files.put(fileKey, await file.arrayBuffer(), {
+    httpMetadata: {
+      contentType: file.type,
+    },
+    customMetadata: {
+      tenantId,
+      attachmentId: id,
+      uploadedAt: new Date().toISOString(),
+    },
+  });
+
+  const attachment: Attachment = {
+    id,
+    tenantId,
+    transactionId: target.transactionId ?? null,
+    billReminderId: target.billReminderId ?? null,
+    fileKey,
+    fileName,
+    contentType: file.type,
+    fileSize: file.size,
+    uploadedBy: userId,
+    createdAt: getCurrentTimestamp(),
+  };
+
+  try {
+    await db.insert(attachments).values(attachment).run();
+  } catch (error) {
+    // Don't leave an object behind that nothing points at
+    await files.delete(fileKey);
+    throw error;
+  }
+
+  return attachment;
+}
+
+async function deleteAttachmentRows(db: Db, files: R2Bucket | undefined, tenantId: string, rows: Attachment[]): Promise<number> {
+  for (let i = 0; i < rows.length; i += ID_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + ID_CHUNK_SIZE);
+    if (files) {
+      await files.delete(chunk.map(row => row.fileKey));
+    }
+    await db
+      .delete(attachments)
+      .where(and(eq(attachments.tenantId, tenantId), inArray(attachments.id, chunk.map(row => row.id))))
+      .run();
+  }
+  return rows.length;
+}
+
+export async function deleteAttachment(db: Db, files: R2Bucket | undefined, attachment: Attachment): Promise<void> {
+  await deleteAttachmentRows(db, files, attachment.tenantId, [attachment]);
+}
+
+/**
+ * Cascade for deleted transactions or bills: attachments linked only to them are deleted
+ * with their files, attachments also linked to the other side just lose this link.
+ */
+async function detachAttachments(
+  db: Db,
+  files: R2Bucket | undefined,
+  tenantId: string,
+  link: 'transactionId' | 'billReminderId',
+  ids: string[]
+): Promise<number> {
+  const column = attachments[link];
+  const otherColumn = link === 'transactionId' ? attachments.billReminderId : attachments.transactionId;
+  const uniqueIds = [...new Set(ids)];
+  let deleted = 0;
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+
+    const orphaned = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.tenantId, tenantId), inArray(column, chunk), isNull(otherColumn)))
+      .all();
+    deleted += await deleteAttachmentRows(db, files, tenantId, orphaned);
+
+    await db
+      .update(attachments)
+      .set({ [link]: null })
+      .where(and(eq(attachments.tenantId, tenantId), inArray(column, chunk), isNotNull(otherColumn)))
+      .run();
+  }
+
+  return deleted;
+}
+
+export async function deleteTransactionAttachments(
+  db: Db,
+  files: R2Bucket | undefined,
+  tenantId: string,
+  transactionIds: string[]
+): Promise<number> {
+  return detachAttachments(db, files, tenantId, 'transactionId', transactionIds);
+}
+
+export async function deleteBillReminderAttachments(
+  db: Db,
+  files: R2Bucket | undefined,
+  tenantId: string,
+  billReminderIds: string[]
+): Promise<number> {
+  return detachAttachments(db, files, tenantId, 'billReminderId', billReminderIds);
+}
+
+/**
+ * Attachments of every transaction on an account, for account deletion
+ */
+export async function deleteAccountAttachments(
+  db: Db,
+  files: R2Bucket | undefined,
+  tenantId: string,
+  accountId: string
+): Promise<number> {
+  const accountTransactions = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.accountId, accountId)))
+    .all();
+  return deleteTransactionAttachments(db, files, tenantId, accountTransactions.map(txn => txn.id));
+}
+
+/**
+ * Attachments of all the tenant's transactions, for clearing every transaction
+ */
+export async function deleteAllTransactionAttachments(db: Db, files: R2Bucket | undefined, tenantId: string): Promise<number> {
+  const orphaned = await db
+    .select()
+    .from(attachments)
+    .where(and(eq(attachments.tenantId, tenantId), isNotNull(attachments.transactionId), isNull(attachments.billReminderId)))
+    .all();
+  const deleted = await deleteAttachmentRows(db, files, tenantId, orphaned);
+
+  await db
+    .update(attachments)
+    .set({ transactionId: null })
+    .where(and(eq(attachments.tenantId, tenantId), isNotNull(attachments.transactionId)))
+    .run();
+
+  return deleted;
+}
+
+/**
+ * Every attachment of the tenant, with its file
+ */
+export async function deleteTenantAttachments(db: Db, files: R2Bucket | undefined, tenantId: string): Promise<number> {
+  const rows = await db.select().from(attachments).where(eq(attachments.tenantId, tenantId)).all();
+  return deleteAttachmentRows(db, files, tenantId, rows);
+}
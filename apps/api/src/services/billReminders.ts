@@ -0,0 +1,376 @@
+import { and, desc, eq, inArray, isNull, lt, ne, or, sql } from 'drizzle-orm';
+import { getDb, billPayments, billReminders, transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import { NotificationsService, type NotificationContext } from './notifications.service';
+import { nextOccurrence } from './recurringTransactions';
+
+type Db = ReturnType<typeof getDb>;
+
+export type BillReminder = typeof billReminders.$inferSelect;
+export type BillPayment = typeof billPayments.$inferSelect;
+type BillTransaction = Pick<typeof transactions.$inferSelect, 'id' | 'amount' | 'date' | 'description' | 'type'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+// A payment may arrive this many days either side of the due date
+export const BILL_MATCH_WINDOW_DAYS = 7;
+// and differ from the bill amount by up to this fraction
+export const BILL_AMOUNT_TOLERANCE = 0.1;
+// Confidence at or above which a match pays the bill without asking
+export const CONFIDENT_BILL_MATCH = 0.8;
+// Confidence at or above which the user is asked to confirm the match
+export const POSSIBLE_BILL_MATCH = 0.5;
+
+// Words in payee names and bank descriptions that say nothing about the payee
+const PAYEE_STOP_WORDS = new Set([
+  'the', 'ltd', 'limited', 'plc', 'inc', 'llc', 'co', 'uk', 'com', 'www',
+  'payment', 'pymt', 'bill', 'dd', 'direct', 'debit', 'so', 'standing', 'order', 'card', 'ref',
+]);
+
+export interface BillSweepSummary {
+  overdue: number;
+  reminded: number;
+  failed: number;
+}
+
+export interface BillMatch {
+  bill: BillReminder;
+  transaction: BillTransaction;
+  confidence: number;
+}
+
+export interface BillMatchSummary {
+  paid: number;
+  suggested: number;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * The due date of the cycle after `dueDate`. Bills due on the last day of a
+ * month stay on the last day; other days are clamped to shorter months.
+ */
+export function nextDueDate(dueDate: Date, frequency: BillReminder['frequency']): Date | null {
+  if (frequency === 'once') return null;
+
+  const lastDay = new Date(Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth() + 1, 0)).getUTCDate();
+  const anchorDay = dueDate.getUTCDate() === lastDay ? 31 : dueDate.getUTCDate();
+  return nextOccurrence(dueDate, frequency, anchorDay);
+}
+
+/**
+ * Status of an unpaid cycle: overdue from the day after its due date
+ */
+export function unpaidStatus(dueDate: Date, now: Date): 'pending' | 'overdue' {
+  return dueDate < startOfDay(now) ? 'overdue' : 'pending';
+}
+
+/**
+ * Whether the current cycle is within its reminder lead time and not yet reminded
+ */
+export function isReminderDue(
+  bill: Pick<BillReminder, 'dueDate' | 'reminderDays' | 'status' | 'remindedForDueDate'>,
+  now: Date
+): boolean {
+  if (bill.status !== 'pending') return false;
+  if (bill.remindedForDueDate?.getTime() === bill.dueDate.getTime()) return false;
+  return bill.dueDate.getTime() - bill.reminderDays * DAY_MS <= now.getTime();
+}
+
+/**
+ * Queue the reminder for the bill's current cycle and record that it was sent
+ */
+export async function sendBillReminder(db: Db, queue: Queue, bill: BillReminder): Promise<void> {
+  await queue.send({
+    type: 'bill-reminder',
+    billReminderId: bill.id,
+    tenantId: bill.tenantId,
+    dueDate: bill.dueDate.toISOString(),
+  });
+
+  await db
+    .update(billReminders)
+    .set({ remindedForDueDate: bill.dueDate })
+    .where(and(eq(billReminders.id, bill.id), eq(billReminders.dueDate, bill.dueDate)))
+    .run();
+}
+
+/**
+ * Daily sweep across all tenants: mark unpaid past-due bills overdue, then
+ * queue reminders for bills that reached their lead time. A bill is reminded
+ * once per cycle, so running the sweep again sends nothing new.
+ */
+export async function runBillReminderSweep(db: Db, queue: Queue | undefined, now = new Date()): Promise<BillSweepSummary> {
+  const summary: BillSweepSummary = { overdue: 0, reminded: 0, failed: 0 };
+
+  const overdue = await db
+    .update(billReminders)
+    .set({ status: 'overdue', updatedAt: getCurrentTimestamp() })
+    .where(and(eq(billReminders.status, 'pending'), lt(billReminders.dueDate, startOfDay(now))))
+    .returning({ id: billReminders.id });
+  summary.overdue = overdue.length;
+
+  if (!queue) return summary;
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const due = await db
+    .select()
+    .from(billReminders)
+    .where(and(
+      eq(billReminders.status, 'pending'),
+      sql`${billReminders.dueDate} - ${billReminders.reminderDays} * ${DAY_SECONDS} <= ${nowSeconds}`,
+      or(isNull(billReminders.remindedForDueDate), ne(billReminders.remindedForDueDate, billReminders.dueDate))
+    ))
+    .all();
+
+  for (const bill of due) {
+    try {
+      await sendBillReminder(db, queue, bill);
+      summary.reminded++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`Bill reminder ${bill.id} failed:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Record a payment for the bill's current cycle. One-off bills become paid;
+ * recurring bills roll their due date forward by their frequency.
+ */
+export async function payBill(
+  db: Db,
+  bill: BillReminder,
+  payment: { transaction?: BillTransaction; paidAt?: Date; source?: BillPayment['source'] }
+): Promise<{ bill: BillReminder; payment: BillPayment }> {
+  const now = getCurrentTimestamp();
+  const record: BillPayment = {
+    id: crypto.randomUUID(),
+    tenantId: bill.tenantId,
+    billReminderId: bill.id,
+    transactionId: payment.transaction?.id ?? null,
+    dueDate: bill.dueDate,
+    amount: payment.transaction?.amount ?? bill.amount,
+    paidAt: payment.paidAt ?? payment.transaction?.date ?? now,
+    source: payment.source ?? 'manual',
+    createdAt: now,
+  };
+
+  const nextDue = nextDueDate(bill.dueDate, bill.frequency);
+  const changes = nextDue
+    ? { dueDate: nextDue, status: unpaidStatus(nextDue, now), updatedAt: now }
+    : { status: 'paid' as const, updatedAt: now };
+
+  await db.batch([
+    db.insert(billPayments).values(record),
+    db
+      .update(billReminders)
+      .set(changes)
+      .where(and(eq(billReminders.id, bill.id), eq(billReminders.tenantId, bill.tenantId))),
+  ]);
+
+  return { bill: { ...bill, ...changes }, payment: record };
+}
+
+export async function listBillPayments(db: Db, tenantId: string, billReminderId: string): Promise<BillPayment[]> {
+  return db
+    .select()
+    .from(billPayments)
+    .where(and(eq(billPayments.tenantId, tenantId), eq(billPayments.billReminderId, billReminderId)))
+    .orderBy(desc(billPayments.dueDate))
+    .all();
+}
+
+export async function getBillPaymentForTransaction(db: Db, tenantId: string, transactionId: string): Promise<BillPayment | undefined> {
+  return db
+    .select()
+    .from(billPayments)
+    .where(and(eq(billPayments.tenantId, tenantId), eq(billPayments.transactionId, transactionId)))
+    .get();
+}
+
+/**
+ * Clear the transaction link of bill payments whose transactions are being
+ * deleted; the payment history itself is kept. Without ids, every link of the
+ * tenant is cleared.
+ */
+export async function unlinkBillPayments(db: Db, tenantId: string, transactionIds?: string[]): Promise<void> {
+  if (!transactionIds) {
+    await db.update(billPayments).set({ transactionId: null }).where(eq(billPayments.tenantId, tenantId)).run();
+    return;
+  }
+
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = transactionIds.slice(i, i + ID_CHUNK_SIZE);
+    await db
+      .update(billPayments)
+      .set({ transactionId: null })
+      .where(and(eq(billPayments.tenantId, tenantId), inArray(billPayments.transactionId, chunk)))
+      .run();
+  }
+}
+
+/**
+ * Clear bill payment links to every transaction in an account
+ */
+export async function unlinkAccountBillPayments(db: Db, tenantId: string, accountId: string): Promise<void> {
+  await db
+    .update(billPayments)
+    .set({ transactionId: null })
+    .where(
+      and(
+        eq(billPayments.tenantId, tenantId),
+        inArray(
+          billPayments.transactionId,
+          db
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(and(eq(transactions.tenantId, tenantId), eq(transactions.accountId, accountId)))
+        )
+      )
+    )
+    .run();
+}
+
+function payeeTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !PAYEE_STOP_WORDS.has(token));
+}
+
+/**
+ * Share of the bill name's words found in a transaction description (0-1).
+ * Words of four letters or more also match by prefix ("vodafone" and
+ * "vodafoneuk"), and of three or more inside run-together descriptions
+ * ("BRITISHGAS").
+ */
+export function payeeSimilarity(billName: string, description: string): number {
+  const billWords = payeeTokens(billName);
+  if (billWords.length === 0) return 0;
+
+  const words = payeeTokens(description);
+  const compact = words.join('');
+  const matched = billWords.filter(billWord =>
+    words.some(word =>
+      word === billWord ||
+      (Math.min(word.length, billWord.length) >= 4 && (word.startsWith(billWord) || billWord.startsWith(word)))
+    ) || (billWord.length >= 3 && compact.includes(billWord))
+  );
+
+  return matched.length / billWords.length;
+}
+
+/**
+ * Confidence (0-1) that an expense pays the current cycle of a bill, from the
+ * payee similarity, how close the amount is and how close the date is to the
+ * due date. Null when the amount or date is outside the tolerance.
+ */
+export function scoreBillMatch(
+  bill: Pick<BillReminder, 'name' | 'amount' | 'dueDate'>,
+  transaction: BillTransaction
+): number | null {
+  if (transaction.type !== 'expense' || bill.amount <= 0) return null;
+
+  const amountDifference = Math.abs(Math.abs(transaction.amount) - bill.amount) / bill.amount;
+  if (amountDifference > BILL_AMOUNT_TOLERANCE) return null;
+
+  const daysFromDue = Math.abs(transaction.date.getTime() - bill.dueDate.getTime()) / DAY_MS;
+  if (daysFromDue > BILL_MATCH_WINDOW_DAYS) return null;
+
+  const confidence =
+    0.5 * payeeSimilarity(bill.name, transaction.description) +
+    0.3 * (1 - amountDifference / BILL_AMOUNT_TOLERANCE) +
+    0.2 * (1 - daysFromDue / BILL_MATCH_WINDOW_DAYS);
+
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Pair bills with transactions, best matches first. Each bill and each
+ * transaction is used at most once; pairs below the possible-match
+ * threshold are dropped.
+ */
+export function findBillMatches(bills: BillReminder[], candidates: BillTransaction[]): BillMatch[] {
+  const scored: BillMatch[] = [];
+  for (const bill of bills) {
+    for (const transaction of candidates) {
+      const confidence = scoreBillMatch(bill, transaction);
+      if (confidence !== null && confidence >= POSSIBLE_BILL_MATCH) {
+        scored.push({ bill, transaction, confidence });
+      }
+    }
+  }
+
+  scored.sort((a, b) => b.confidence - a.confidence);
+
+  const usedBills = new Set<string>();
+  const usedTransactions = new Set<string>();
+  return scored.filter(match => {
+    if (usedBills.has(match.bill.id) || usedTransactions.has(match.transaction.id)) return false;
+    usedBills.add(match.bill.id);
+    usedTransactions.add(match.transaction.id);
+    return true;
+  });
+}
+
+/**
+ * Match newly imported or synced transactions against the tenant's unpaid
+ * bills. Confident matches pay the bill and record the link; uncertain ones
+ * ask the user to confirm through a notification.
+ */
+export async function matchBillPayments(
+  c: NotificationContext,
+  tenantId: string,
+  newTransactions: BillTransaction[]
+): Promise<BillMatchSummary> {
+  const summary: BillMatchSummary = { paid: 0, suggested: 0 };
+  const expenses = newTransactions.filter(txn => txn.type === 'expense');
+  if (expenses.length === 0) return summary;
+
+  const db = getDb(c.env.DB);
+  const bills = await db
+    .select()
+    .from(billReminders)
+    .where(and(eq(billReminders.tenantId, tenantId), inArray(billReminders.status, ['pending', 'overdue'])))
+    .all();
+  if (bills.length === 0) return summary;
+
+  const linked = new Set<string>();
+  for (let i = 0; i < expenses.length; i += ID_CHUNK_SIZE) {
+    const chunk = expenses.slice(i, i + ID_CHUNK_SIZE).map(txn => txn.id);
+    const rows = await db
+      .select({ transactionId: billPayments.transactionId })
+      .from(billPayments)
+      .where(and(eq(billPayments.tenantId, tenantId), inArray(billPayments.transactionId, chunk)))
+      .all();
+    rows.forEach(row => row.transactionId && linked.add(row.transactionId));
+  }
+
+  const matches = findBillMatches(bills, expenses.filter(txn => !linked.has(txn.id)));
+
+  for (const match of matches) {
+    try {
+      if (match.confidence >= CONFIDENT_BILL_MATCH) {
+        await payBill(db, match.bill, { transaction: match.transaction, source: 'auto' });
+        summary.paid++;
+      } else {
+        await NotificationsService.notifyPossibleBillPayment(c, tenantId, match.bill, match.transaction, match.confidence);
+        summary.suggested++;
+      }
+    } catch (error) {
+      console.error(`Failed to match bill ${match.bill.id} to transaction ${match.transaction.id}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,360 @@
+import { and, eq, gte, inArray, isNull, lte, ne, sql } from 'drizzle-orm';
+import { subtractMoney, sumMoney, sumMoneyBy, type BudgetProgress, type EnvelopeSummary } from '@finhome360/shared';
+import { budgetAllocations, budgets, categories, transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import { nextOccurrence } from './recurringTransactions';
+import { getCategoryAmounts } from './transactionSplits';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type Budget = typeof budgets.$inferSelect;
+export type BudgetAllocation = typeof budgetAllocations.$inferSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods kept when walking a budget's history; rollover is carried from the oldest kept period
+export const MAX_BUDGET_PERIODS = 520;
+
+// Share of the available amount spent at which a budget is flagged
+export const BUDGET_WARNING_PERCENTAGE = 80;
+
+export interface BudgetPeriod {
+  start: Date;
+  end: Date; // Exclusive: the next period's start
+}
+
+type PeriodBudget = Pick<Budget, 'period' | 'startDate' | 'endDate'>;
+type BudgetScope = Pick<Budget, 'categoryId' | 'period' | 'startDate' | 'endDate'>;
+type ProgressBudget = Pick<Budget, 'id' | 'amount' | 'rollover' | 'mode'>;
+
+interface BudgetWithCategory {
+  budget: Budget;
+  categoryName: string | null;
+}
+
+/**
+ * Start of the period after the one starting at `start`. Monthly and yearly
+ * periods stay on the start date's day of month, clamped to shorter months.
+ */
+export function nextPeriodStart(budget: Pick<Budget, 'period' | 'startDate'>, start: Date): Date {
+  if (budget.period === 'weekly') {
+    return new Date(start.getTime() + 7 * DAY_MS);
+  }
+  return nextOccurrence(start, budget.period, budget.startDate.getUTCDate());
+}
+
+/**
+ * Periods from the budget's start date through the one containing `until`,
+ * stopping at the budget's end date
+ */
+export function budgetPeriods(budget: PeriodBudget, until: Date): BudgetPeriod[] {
+  const last = budget.endDate && budget.endDate < until ? budget.endDate : until;
+  const periods: BudgetPeriod[] = [];
+
+  for (let start = budget.startDate; start <= last; ) {
+    const end = nextPeriodStart(budget, start);
+    periods.push({ start, end });
+    if (periods.length > MAX_BUDGET_PERIODS) periods.shift();
+    start = end;
+  }
+
+  return periods;
+}
+
+/**
+ * The period containing `date`, or null outside the budget's start and end dates
+ */
+export function budgetPeriodAt(budget: PeriodBudget, date: Date): BudgetPeriod | null {
+  if (date < budget.startDate || (budget.endDate && date > budget.endDate)) return null;
+  const periods = budgetPeriods(budget, date);
+  return periods[periods.length - 1] ?? null;
+}
+
+function progressStatus(spent: number, available: number, percentage: number): BudgetProgress['status'] {
+  if (spent > available) return 'exceeded';
+  if (percentage >= BUDGET_WARNING_PERCENTAGE) return 'warning';
+  return 'on-track';
+}
+
+/**
+ * Progress of each period, oldest first. Envelope budgets are allocated the
+ * income assigned to each period and always carry their balance forward;
+ * limit budgets are allocated their amount and carry forward only with rollover.
+ */
+export function computeBudgetProgress(
+  budget: ProgressBudget,
+  categoryName: string,
+  periods: BudgetPeriod[],
+  spending: { date: Date; amount: number }[],
+  allocations: Map<number, number> = new Map()
+): BudgetProgress[] {
+  const spentByPeriod: number[][] = periods.map(() => []);
+  for (const row of spending) {
+    const index = periods.findIndex(period => row.date >= period.start && row.date < period.end);
+    if (index >= 0) spentByPeriod[index].push(row.amount);
+  }
+
+  const carries = budget.rollover || budget.mode === 'envelope';
+  const progress: BudgetProgress[] = [];
+
+  periods.forEach((period, index) => {
+    const allocated = budget.mode === 'envelope' ? allocations.get(period.start.getTime()) ?? 0 : budget.amount;
+    const carriedOver = carries && index > 0 ? progress[index - 1].remaining : 0;
+    const available = sumMoney([allocated, carriedOver]);
+    const spent = sumMoney(spentByPeriod[index]);
+    const percentage = available > 0 ? Math.round((spent / available) * 1000) / 10 : spent > 0 ? 100 : 0;
+
+    progress.push({
+      budgetId: budget.id,
+      categoryName,
+      periodStart: period.start,
+      periodEnd: period.end,
+      allocated,
+      carriedOver,
+      available,
+      spent,
+      remaining: subtractMoney(available, spent),
+      percentage,
+      status: progressStatus(spent, available, percentage),
+    });
+  });
+
+  return progress;
+}
+
+/**
+ * Whether two budgets track the same category and period over dates that
+ * overlap. A budget without an end date runs indefinitely.
+ */
+export function budgetsOverlap(a: BudgetScope, b: BudgetScope): boolean {
+  if (a.categoryId !== b.categoryId || a.period !== b.period) return false;
+  const aBeforeB = a.endDate !== null && a.endDate < b.startDate;
+  const bBeforeA = b.endDate !== null && b.endDate < a.startDate;
+  return !aBeforeB && !bBeforeA;
+}
+
+/**
+ * An existing budget the given one would overlap, ignoring `excludeId` (the
+ * budget being updated)
+ */
+export async function findOverlappingBudget(
+  db: Db,
+  tenantId: string,
+  budget: BudgetScope,
+  excludeId?: string
+): Promise<Budget | undefined> {
+  const conditions = [
+    eq(budgets.tenantId, tenantId),
+    eq(budgets.categoryId, budget.categoryId),
+    eq(budgets.period, budget.period),
+  ];
+  if (excludeId) conditions.push(ne(budgets.id, excludeId));
+
+  const candidates = await db.select().from(budgets).where(and(...conditions)).all();
+  return candidates.find(candidate => budgetsOverlap(candidate, budget));
+}
+
+async function getAllocationMap(db: Db, tenantId: string, budgetIds: string[]): Promise<Map<string, Map<number, number>>> {
+  const byBudget = new Map<string, Map<number, number>>();
+  if (budgetIds.length === 0) return byBudget;
+
+  const rows = await db
+    .select()
+    .from(budgetAllocations)
+    .where(and(eq(budgetAllocations.tenantId, tenantId), inArray(budgetAllocations.budgetId, budgetIds)))
+    .all();
+
+  for (const row of rows) {
+    const periods = byBudget.get(row.budgetId) ?? new Map<number, number>();
+    periods.set(row.periodStart.getTime(), row.amount);
+    byBudget.set(row.budgetId, periods);
+  }
+  return byBudget;
+}
+
+// Last date whose spending counts towards a budget with these periods
+function spendingEnd(budget: PeriodBudget, periods: BudgetPeriod[]): Date {
+  const lastEnd = periods[periods.length - 1].end;
+  return budget.endDate && budget.endDate < lastEnd ? budget.endDate : lastEnd;
+}
+
+/**
+ * Period history of each budget up to the one containing `asOf`, in the order
+ * given. Spending for all their categories is fetched in one query from the
+ * earliest period and shared out in memory.
+ */
+async function getBudgetHistories(
+  db: Db,
+  tenantId: string,
+  rows: BudgetWithCategory[],
+  asOf: Date,
+  includeArchived = false
+): Promise<BudgetProgress[][]> {
+  const scoped = rows.map(row => ({ ...row, periods: budgetPeriods(row.budget, asOf) }));
+  const active = scoped.filter(row => row.periods.length > 0);
+  if (active.length === 0) return scoped.map(() => []);
+
+  const [spending, allocations] = await Promise.all([
+    getCategoryAmounts(db, tenantId, {
+      type: 'expense',
+      categoryIds: [...new Set(active.map(row => row.budget.categoryId))],
+      startDate: new Date(Math.min(...active.map(row => row.periods[0].start.getTime()))),
+      endDate: new Date(Math.max(...active.map(row => spendingEnd(row.budget, row.periods).getTime()))),
+      includeArchived,
+    }),
+    getAllocationMap(
+      db,
+      tenantId,
+      active.filter(row => row.budget.mode === 'envelope').map(row => row.budget.id)
+    ),
+  ]);
+
+  const spendingByCategory = new Map<string, typeof spending>();
+  for (const row of spending) {
+    const rowsForCategory = spendingByCategory.get(row.categoryId) ?? [];
+    rowsForCategory.push(row);
+    spendingByCategory.set(row.categoryId, rowsForCategory);
+  }
+
+  return scoped.map(({ budget, categoryName, periods }) => {
+    if (periods.length === 0) return [];
+    const end = spendingEnd(budget, periods);
+    const budgetSpending = (spendingByCategory.get(budget.categoryId) ?? []).filter(row => row.date <= end);
+    return computeBudgetProgress(budget, categoryName ?? '', periods, budgetSpending, allocations.get(budget.id));
+  });
+}
+
+/**
+ * Progress of every period of a budget up to the one containing `asOf`,
+ * oldest first. Split transactions count per line.
+ */
+export async function getBudgetHistory(
+  db: Db,
+  tenantId: string,
+  budget: Budget,
+  categoryName: string,
+  asOf: Date,
+  includeArchived = false
+): Promise<BudgetProgress[]> {
+  const [history] = await getBudgetHistories(db, tenantId, [{ budget, categoryName }], asOf, includeArchived);
+  return history;
+}
+
+async function getBudgetsWithCategory(db: Db, tenantId: string, mode?: Budget['mode']) {
+  const conditions = [eq(budgets.tenantId, tenantId)];
+  if (mode) conditions.push(eq(budgets.mode, mode));
+
+  return db
+    .select({ budget: budgets, categoryName: categories.name })
+    .from(budgets)
+    .leftJoin(categories, eq(budgets.categoryId, categories.id))
+    .where(and(...conditions))
+    .all();
+}
+
+/**
+ * Progress of the period containing `asOf` for every budget running at that date
+ */
+export async function getBudgetProgress(db: Db, tenantId: string, asOf: Date, includeArchived = false): Promise<BudgetProgress[]> {
+  const rows = await getBudgetsWithCategory(db, tenantId);
+  const running = rows.filter(row => budgetPeriodAt(row.budget, asOf));
+
+  const histories = await getBudgetHistories(db, tenantId, running, asOf, includeArchived);
+  return histories.map(history => history[history.length - 1]).filter(Boolean);
+}
+
+/**
+ * Income received since the first envelope budget started, what has been
+ * assigned to envelopes up to the period containing `asOf`, and what is left
+ * to be budgeted
+ */
+export async function getEnvelopeSummary(db: Db, tenantId: string, asOf: Date): Promise<EnvelopeSummary> {
+  const rows = await getBudgetsWithCategory(db, tenantId, 'envelope');
+  if (rows.length === 0) {
+    return { asOf, income: 0, assigned: 0, toBeBudgeted: 0, envelopes: [] };
+  }
+
+  const firstStart = new Date(Math.min(...rows.map(row => row.budget.startDate.getTime())));
+  const [incomeRow, allocations] = await Promise.all([
+    db
+      .select({ total: sql<number>`coalesce(sum(${transactions.amount}), 0)`.mapWith(transactions.amount) })
+      .from(transactions)
+      .where(and(
+        eq(transactions.tenantId, tenantId),
+        eq(transactions.type, 'income'),
+        isNull(transactions.archivedAt),
+        gte(transactions.date, firstStart),
+        lte(transactions.date, asOf)
+      ))
+      .get(),
+    db
+      .select({ budgetId: budgetAllocations.budgetId, periodStart: budgetAllocations.periodStart, amount: budgetAllocations.amount })
+      .from(budgetAllocations)
+      .where(and(
+        eq(budgetAllocations.tenantId, tenantId),
+        inArray(budgetAllocations.budgetId, rows.map(row => row.budget.id))
+      ))
+      .all(),
+  ]);
+
+  const running = rows.filter(row => budgetPeriodAt(row.budget, asOf));
+  const envelopes = (await getBudgetHistories(db, tenantId, running, asOf)).map(history => history[history.length - 1]);
+
+  // Assignments to later periods are not counted until their period starts
+  const currentStarts = new Map(
+    rows.map(row => [row.budget.id, budgetPeriods(row.budget, asOf).at(-1)?.start.getTime() ?? -Infinity])
+  );
+  const assigned = sumMoneyBy(
+    allocations.filter(row => row.periodStart.getTime() <= (currentStarts.get(row.budgetId) ?? -Infinity)),
+    row => row.amount
+  );
+  const income = incomeRow?.total ?? 0;
+
+  return { asOf, income, assigned, toBeBudgeted: subtractMoney(income, assigned), envelopes };
+}
+
+export async function getBudgetAllocation(db: Db, budget: Budget, periodStart: Date): Promise<BudgetAllocation | undefined> {
+  return db
+    .select()
+    .from(budgetAllocations)
+    .where(and(
+      eq(budgetAllocations.tenantId, budget.tenantId),
+      eq(budgetAllocations.budgetId, budget.id),
+      eq(budgetAllocations.periodStart, periodStart)
+    ))
+    .get();
+}
+
+/**
+ * Set the income assigned to an envelope budget for one period
+ */
+export async function assignToEnvelope(db: Db, budget: Budget, periodStart: Date, amount: number): Promise<BudgetAllocation> {
+  const now = getCurrentTimestamp();
+  const allocation: BudgetAllocation = {
+    id: crypto.randomUUID(),
+    tenantId: budget.tenantId,
+    budgetId: budget.id,
+    periodStart,
+    amount,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const [saved] = await db
+    .insert(budgetAllocations)
+    .values(allocation)
+    .onConflictDoUpdate({
+      target: [budgetAllocations.budgetId, budgetAllocations.periodStart],
+      set: { amount, updatedAt: now },
+    })
+    .returning();
+
+  return saved ?? allocation;
+}
+
+export async function deleteBudgetAllocations(db: Db, tenantId: string, budgetId?: string): Promise<void> {
+  const conditions = [eq(budgetAllocations.tenantId, tenantId)];
+  if (budgetId) conditions.push(eq(budgetAllocations.budgetId, budgetId));
+  await db.delete(budgetAllocations).where(and(...conditions)).run();
+}
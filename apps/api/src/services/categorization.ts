@@ -7,13 +7,13 @@
  * Features:
  * - Keyword-based matching with confidence scores
  * - Merchant pattern recognition
- * - Historical learning from user corrections
+ * - Persisted merchant rules learned from user corrections
  * - Multi-language support (extendable)
  */
 
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, and, ne, desc, sql } from 'drizzle-orm';
 import type { DrizzleD1Database } from 'drizzle-orm/d1';
-import { transactions, categories } from '../db/schema';
+import { transactions, categories, merchantCategoryRules, categorizationSuggestions } from '../db/schema';
 import * as schema from '../db/schema';
 
 type Database = DrizzleD1Database<typeof schema>;
@@ -82,6 +82,8 @@ const CATEGORY_KEYWORDS: Record<string, { keywords: string[]; aliases: string[]
   }
 };
 
+export type CategorizationSource = 'learned_rule' | 'history' | 'keyword' | 'none';
+
 export interface CategorizationResult {
   suggestedCategoryId: string | null;
   suggestedCategoryName: string | null;
@@ -89,6 +91,20 @@ export interface CategorizationResult {
   matchedKeywords: string[];
   action: 'auto-assign' | 'suggest' | 'manual';
   reasoning: string;
+  source: CategorizationSource;
+  ruleId?: string;
+}
+
+export interface LearnedRule {
+  id: string;
+  merchant: string;
+  categoryId: string;
+  categoryName: string;
+  correctionCount: number;
+  appliedCount: number;
+  lastAppliedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface MerchantPattern {
@@ -114,7 +130,7 @@ function normalizeDescription(description: string): string {
  * Extract merchant name from transaction description
  * Common patterns: "STARBUCKS #1234 SEATTLE WA", "AMAZON.COM*AB123", "SQ *COFFEE SHOP"
  */
-function extractMerchantName(description: string): string {
+export function extractMerchantName(description: string): string {
   const normalized = normalizeDescription(description);
   
   // Remove common transaction prefixes
@@ -173,6 +189,42 @@ export async function getMerchantPatterns(
   return merchantMap;
 }
 
+/**
+ * Get the tenant's learned merchant rules, keyed by merchant
+ */
+export async function getLearnedRules(
+  db: Database,
+  tenantId: string
+): Promise<Map<string, LearnedRule>> {
+  const rules = await listLearnedRules(db, tenantId);
+  return new Map(rules.map(rule => [rule.merchant, rule]));
+}
+
+/**
+ * List learned merchant rules with their category names
+ */
+export async function listLearnedRules(db: Database, tenantId: string): Promise<LearnedRule[]> {
+  const rows = await db
+    .select({
+      id: merchantCategoryRules.id,
+      merchant: merchantCategoryRules.merchant,
+      categoryId: merchantCategoryRules.categoryId,
+      categoryName: categories.name,
+      correctionCount: merchantCategoryRules.correctionCount,
+      appliedCount: merchantCategoryRules.appliedCount,
+      lastAppliedAt: merchantCategoryRules.lastAppliedAt,
+      createdAt: merchantCategoryRules.createdAt,
+      updatedAt: merchantCategoryRules.updatedAt,
+    })
+    .from(merchantCategoryRules)
+    .leftJoin(categories, eq(merchantCategoryRules.categoryId, categories.id))
+    .where(eq(merchantCategoryRules.tenantId, tenantId))
+    .orderBy(desc(merchantCategoryRules.updatedAt))
+    .all();
+
+  return rows.map(row => ({ ...row, categoryName: row.categoryName || 'Uncategorized' }));
+}
+
 /**
  * Match transaction description against keyword database
  */
@@ -241,9 +293,29 @@ export async function categorizeTransaction(
   db: Database,
   tenantId: string,
   description: string,
-  merchantPatterns?: Map<string, MerchantPattern>
+  merchantPatterns?: Map<string, MerchantPattern>,
+  learnedRules?: Map<string, LearnedRule>
 ): Promise<CategorizationResult> {
-  // Step 1: Check merchant history (highest confidence)
+  // Step 1: Rules learned from the user's own corrections always win
+  if (learnedRules) {
+    const merchantName = extractMerchantName(description);
+    const rule = learnedRules.get(merchantName);
+
+    if (rule) {
+      return {
+        suggestedCategoryId: rule.categoryId,
+        suggestedCategoryName: rule.categoryName,
+        confidence: 0.98,
+        matchedKeywords: [merchantName],
+        action: 'auto-assign',
+        reasoning: `You recategorized "${merchantName}" as "${rule.categoryName}" before`,
+        source: 'learned_rule',
+        ruleId: rule.id,
+      };
+    }
+  }
+
+  // Step 2: Check merchant history
   if (merchantPatterns) {
     const merchantName = extractMerchantName(description);
     const pattern = merchantPatterns.get(merchantName.toLowerCase());
@@ -256,11 +328,12 @@ export async function categorizeTransaction(
         matchedKeywords: [merchantName],
         action: 'auto-assign',
         reasoning: `You've used "${pattern.categoryName}" for this merchant ${pattern.frequency} times before`,
+        source: 'history',
       };
     }
   }
 
-  // Step 2: Keyword matching
+  // Step 3: Keyword matching
   const keywordMatches = matchKeywords(description);
 
   if (keywordMatches.length === 0) {
@@ -271,6 +344,7 @@ export async function categorizeTransaction(
       matchedKeywords: [],
       action: 'manual',
       reasoning: 'No matching patterns found. Please categorize manually.',
+      source: 'none',
     };
   }
 
@@ -289,6 +363,7 @@ export async function categorizeTransaction(
       matchedKeywords: topMatch.matches,
       action: 'suggest',
       reasoning: `Matched keywords: ${topMatch.matches.join(', ')}. Create "${topMatch.category}" category?`,
+      source: 'keyword',
     };
   }
 
@@ -309,6 +384,7 @@ export async function categorizeTransaction(
     matchedKeywords: topMatch.matches,
     action,
     reasoning: `Matched "${topMatch.matches.join(', ')}" with ${(confidence * 100).toFixed(0)}% confidence`,
+    source: 'keyword',
   };
 }
 
@@ -320,8 +396,11 @@ export async function categorizeBatch(
   tenantId: string,
   transactionDescriptions: { id: string; description: string }[]
 ): Promise<Map<string, CategorizationResult>> {
-  // Load merchant patterns once for efficiency
-  const merchantPatterns = await getMerchantPatterns(db, tenantId);
+  // Load learned rules and merchant patterns once for efficiency
+  const [learnedRules, merchantPatterns] = await Promise.all([
+    getLearnedRules(db, tenantId),
+    getMerchantPatterns(db, tenantId),
+  ]);
   const results = new Map<string, CategorizationResult>();
 
   for (const { id, description } of transactionDescriptions) {
@@ -329,7 +408,8 @@ export async function categorizeBatch(
       db,
       tenantId,
       description,
-      merchantPatterns
+      merchantPatterns,
+      learnedRules
     );
     results.set(id, result);
   }
@@ -338,31 +418,143 @@ export async function categorizeBatch(
 }
 
 /**
- * Learn from user correction (update merchant patterns)
+ * Record a category that was applied automatically, so later corrections
+ * can be counted against the accuracy of its source
  */
-export async function learnFromCorrection(
+export async function recordAppliedSuggestion(
   db: Database,
   tenantId: string,
   transactionId: string,
-  correctedCategoryId: string
+  result: CategorizationResult
 ): Promise<void> {
-  // Update the transaction
+  if (!result.suggestedCategoryId || result.source === 'none') return;
+
+  const now = new Date();
   await db
-    .update(transactions)
-    .set({ 
-      categoryId: correctedCategoryId,
-      updatedAt: new Date()
+    .insert(categorizationSuggestions)
+    .values({
+      id: crypto.randomUUID(),
+      tenantId,
+      transactionId,
+      suggestedCategoryId: result.suggestedCategoryId,
+      source: result.source,
+      confidence: result.confidence,
+      overridden: false,
+      overriddenAt: null,
+      createdAt: now,
     })
+    .run();
+
+  if (result.ruleId) {
+    await db
+      .update(merchantCategoryRules)
+      .set({
+        appliedCount: sql`${merchantCategoryRules.appliedCount} + 1`,
+        lastAppliedAt: now,
+      })
+      .where(and(eq(merchantCategoryRules.id, result.ruleId), eq(merchantCategoryRules.tenantId, tenantId)))
+      .run();
+  }
+}
+
+/**
+ * Learn from a user correction: remember the merchant -> category choice and
+ * mark any automatic suggestion for the transaction as overridden.
+ * Returns the learned rule, or null when nothing could be learned.
+ */
+export async function learnFromCorrection(
+  db: Database,
+  tenantId: string,
+  transactionId: string,
+  correctedCategoryId: string
+): Promise<typeof merchantCategoryRules.$inferSelect | null> {
+  const [transaction, category] = await Promise.all([
+    db
+      .select({ description: transactions.description })
+      .from(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.tenantId, tenantId)))
+      .get(),
+    db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.id, correctedCategoryId), eq(categories.tenantId, tenantId)))
+      .get(),
+  ]);
+
+  if (!transaction || !category) return null;
+
+  const now = new Date();
+
+  await db
+    .update(categorizationSuggestions)
+    .set({ overridden: true, overriddenAt: now })
     .where(
       and(
-        eq(transactions.id, transactionId),
-        eq(transactions.tenantId, tenantId)
+        eq(categorizationSuggestions.tenantId, tenantId),
+        eq(categorizationSuggestions.transactionId, transactionId),
+        eq(categorizationSuggestions.overridden, false),
+        ne(categorizationSuggestions.suggestedCategoryId, correctedCategoryId)
       )
     )
     .run();
 
-  // The merchant pattern will automatically be updated on next query
-  // since getMerchantPatterns() reads from transactions table
+  const merchant = extractMerchantName(transaction.description);
+  if (!merchant) return null;
+
+  const [rule] = await db
+    .insert(merchantCategoryRules)
+    .values({
+      id: crypto.randomUUID(),
+      tenantId,
+      merchant,
+      categoryId: correctedCategoryId,
+      correctionCount: 1,
+      appliedCount: 0,
+      lastAppliedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [merchantCategoryRules.tenantId, merchantCategoryRules.merchant],
+      set: {
+        categoryId: correctedCategoryId,
+        correctionCount: sql`${merchantCategoryRules.correctionCount} + 1`,
+        updatedAt: now,
+      },
+    })
+    .returning();
+
+  return rule ?? null;
+}
+
+/**
+ * Update a learned rule's merchant or category
+ */
+export async function updateLearnedRule(
+  db: Database,
+  tenantId: string,
+  ruleId: string,
+  input: { merchant?: string; categoryId?: string }
+): Promise<void> {
+  const updateData: Partial<typeof merchantCategoryRules.$inferInsert> = { updatedAt: new Date() };
+  if (input.merchant !== undefined) updateData.merchant = extractMerchantName(input.merchant);
+  if (input.categoryId !== undefined) updateData.categoryId = input.categoryId;
+
+  await db
+    .update(merchantCategoryRules)
+    .set(updateData)
+    .where(and(eq(merchantCategoryRules.id, ruleId), eq(merchantCategoryRules.tenantId, tenantId)))
+    .run();
+}
+
+/**
+ * Delete a learned rule
+ */
+export async function deleteLearnedRule(db: Database, tenantId: string, ruleId: string): Promise<void> {
+  await db
+    .delete(merchantCategoryRules)
+    .where(and(eq(merchantCategoryRules.id, ruleId), eq(merchantCategoryRules.tenantId, tenantId)))
+    .run();
 }
 
 /**
@@ -377,6 +569,13 @@ export async function getCategorizationStats(
   uncategorizedTransactions: number;
   categorizationRate: number;
   topMerchants: { merchant: string; count: number; category: string }[];
+  learnedRules: number;
+  accuracy: {
+    suggestionsApplied: number;
+    suggestionsOverridden: number;
+    accuracyRate: number | null;
+    bySource: { source: string; applied: number; overridden: number; accuracyRate: number | null }[];
+  };
 }> {
   // Get total counts
   const totals = await db
@@ -408,6 +607,30 @@ export async function getCategorizationStats(
     .limit(10)
     .all();
 
+  // Accuracy: how often automatically applied categories were later corrected
+  const [suggestionStats, ruleCount] = await Promise.all([
+    db
+      .select({
+        source: categorizationSuggestions.source,
+        applied: sql<number>`COUNT(*)`,
+        overridden: sql<number>`SUM(CASE WHEN ${categorizationSuggestions.overridden} = 1 THEN 1 ELSE 0 END)`,
+      })
+      .from(categorizationSuggestions)
+      .where(eq(categorizationSuggestions.tenantId, tenantId))
+      .groupBy(categorizationSuggestions.source)
+      .all(),
+    db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(merchantCategoryRules)
+      .where(eq(merchantCategoryRules.tenantId, tenantId))
+      .get(),
+  ]);
+
+  const accuracyRate = (applied: number, overridden: number) =>
+    applied > 0 ? (applied - overridden) / applied : null;
+  const suggestionsApplied = suggestionStats.reduce((sum, row) => sum + (row.applied || 0), 0);
+  const suggestionsOverridden = suggestionStats.reduce((sum, row) => sum + (row.overridden || 0), 0);
+
   return {
     totalTransactions: total,
     categorizedTransactions: categorized,
@@ -418,5 +641,17 @@ export async function getCategorizationStats(
       count: m.count,
       category: m.categoryName || 'Uncategorized',
     })),
+    learnedRules: ruleCount?.count || 0,
+    accuracy: {
+      suggestionsApplied,
+      suggestionsOverridden,
+      accuracyRate: accuracyRate(suggestionsApplied, suggestionsOverridden),
+      bySource: suggestionStats.map(row => ({
+        source: row.source,
+        applied: row.applied || 0,
+        overridden: row.overridden || 0,
+        accuracyRate: accuracyRate(row.applied || 0, row.overridden || 0),
+      })),
+    },
   };
 }
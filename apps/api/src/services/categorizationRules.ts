@@ -0,0 +1,423 @@
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { categorizationRules, categories, transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import { findReconciledTransactionIds, RECONCILED_EDITABLE_FIELDS } from './reconciliation';
+import type { getDb } from '../db';
+import { MAX_MATCHED_TEXT_LENGTH, unsafePatternReason } from '@finhome360/shared';
+import type {
+  CategorizationRuleActions,
+  CategorizationRuleConditions,
+  CreateCategorizationRuleRequest,
+  UpdateCategorizationRuleRequest,
+} from '@finhome360/shared';
+
+type Db = ReturnType<typeof getDb>;
+
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+
+// The parts of a rule used for matching, so unsaved rules can be previewed
+export type RuleDefinition = Pick<
+  CategorizationRule,
+  | 'id'
+  | 'stopProcessing'
+  | 'descriptionPattern'
+  | 'minAmount'
+  | 'maxAmount'
+  | 'accountId'
+  | 'transactionType'
+  | 'setCategoryId'
+  | 'renameTo'
+  | 'addNote'
+  | 'markAsTransfer'
+>;
+
+export interface RuleTarget {
+  description: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  accountId: string;
+  categoryId: string;
+  notes: string | null;
+}
+
+export interface RuleChanges {
+  categoryId?: string;
+  description?: string;
+  notes?: string;
+  type?: 'transfer';
+}
+
+export interface RuleEvaluation {
+  ruleIds: string[];
+  changes: RuleChanges;
+}
+
+export interface RuleOutcome extends RuleEvaluation {
+  transactionId: string;
+}
+
+export interface CategorizationRuleResponse {
+  id: string;
+  name: string;
+  priority: number;
+  isEnabled: boolean;
+  stopProcessing: boolean;
+  conditions: CategorizationRuleConditions;
+  actions: CategorizationRuleActions;
+  matchCount: number;
+  lastMatchedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Most recent transactions scanned by a preview
+const PREVIEW_SCAN_LIMIT = 5000;
+
+// Compiled patterns kept per isolate; the oldest is evicted past this size
+const PATTERN_CACHE_SIZE = 500;
+
+const patternCache = new Map<string, RegExp | null>();
+
+// Unsafe patterns stored before validation existed never match
+function compilePattern(pattern: string): RegExp | null {
+  let compiled = patternCache.get(pattern);
+  if (compiled === undefined) {
+    compiled = unsafePatternReason(pattern, 'i') ? null : new RegExp(pattern, 'i');
+    if (patternCache.size >= PATTERN_CACHE_SIZE) {
+      patternCache.delete(patternCache.keys().next().value!);
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Whether a transaction satisfies every condition of a rule
+ */
+export function ruleMatches(rule: RuleDefinition, target: RuleTarget): boolean {
+  if (rule.accountId && rule.accountId !== target.accountId) return false;
+  if (rule.transactionType && rule.transactionType !== target.type) return false;
+
+  const amount = Math.abs(target.amount);
+  if (rule.minAmount !== null && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && amount > rule.maxAmount) return false;
+
+  if (rule.descriptionPattern) {
+    const pattern = compilePattern(rule.descriptionPattern);
+    if (!pattern || !pattern.test(target.description.slice(0, MAX_MATCHED_TEXT_LENGTH))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Run rules (already in priority order) against a transaction and collect
+ * the resulting changes. Later matching rules build on earlier ones until a
+ * rule with stopProcessing matches. Only fields that actually change are
+ * returned.
+ */
+export function evaluateRules(rules: RuleDefinition[], target: RuleTarget): RuleEvaluation {
+  const current = { ...target };
+  const ruleIds: string[] = [];
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, current)) continue;
+    ruleIds.push(rule.id);
+
+    if (rule.setCategoryId) current.categoryId = rule.setCategoryId;
+    if (rule.renameTo) current.description = rule.renameTo;
+    if (rule.addNote && !(current.notes || '').includes(rule.addNote)) {
+      current.notes = current.notes ? `${current.notes}\n${rule.addNote}` : rule.addNote;
+    }
+    if (rule.markAsTransfer) current.type = 'transfer';
+
+    if (rule.stopProcessing) break;
+  }
+
+  const changes: RuleChanges = {};
+  if (current.categoryId !== target.categoryId) changes.categoryId = current.categoryId;
+  if (current.description !== target.description) changes.description = current.description;
+  if (current.notes !== target.notes && current.notes !== null) changes.notes = current.notes;
+  if (current.type !== target.type) changes.type = 'transfer';
+
+  return { ruleIds, changes };
+}
+
+/**
+ * Whether an evaluation changes anything
+ */
+export function hasChanges(evaluation: RuleEvaluation): boolean {
+  return Object.keys(evaluation.changes).length > 0;
+}
+
+/**
+ * Enabled rules for a tenant in the order they run
+ */
+export async function getActiveRules(db: Db, tenantId: string): Promise<CategorizationRule[]> {
+  return db
+    .select()
+    .from(categorizationRules)
+    .where(and(eq(categorizationRules.tenantId, tenantId), eq(categorizationRules.isEnabled, true)))
+    .orderBy(asc(categorizationRules.priority), asc(categorizationRules.createdAt))
+    .all();
+}
+
+/**
+ * Bump match counters for the rules that changed transactions
+ */
+export async function recordRuleMatches(db: Db, tenantId: string, ruleIds: string[]): Promise<void> {
+  const counts = new Map<string, number>();
+  for (const id of ruleIds) counts.set(id, (counts.get(id) || 0) + 1);
+
+  const now = getCurrentTimestamp();
+  for (const [id, count] of counts) {
+    await db
+      .update(categorizationRules)
+      .set({ matchCount: sql`${categorizationRules.matchCount} + ${count}`, lastMatchedAt: now })
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.tenantId, tenantId)))
+      .run();
+  }
+}
+
+/**
+ * Run the tenant's rules against existing transactions and save the changes.
+ * Reconciled transactions only take category and note changes.
+ * Returns one outcome per changed transaction.
+ */
+export async function applyRulesToTransactions(
+  db: Db,
+  tenantId: string,
+  targets: (RuleTarget & { id: string })[],
+  rules?: CategorizationRule[]
+): Promise<RuleOutcome[]> {
+  const activeRules = rules ?? (await getActiveRules(db, tenantId));
+  if (activeRules.length === 0) return [];
+
+  const outcomes: RuleOutcome[] = [];
+  const now = getCurrentTimestamp();
+  const locked = new Set(await findReconciledTransactionIds(db, tenantId, targets.map(target => target.id)));
+
+  for (const target of targets) {
+    const evaluation = evaluateRules(activeRules, target);
+    if (locked.has(target.id)) {
+      evaluation.changes = Object.fromEntries(
+        Object.entries(evaluation.changes).filter(([field]) => RECONCILED_EDITABLE_FIELDS.includes(field))
+      ) as RuleChanges;
+    }
+    if (!hasChanges(evaluation)) continue;
+
+    await db
+      .update(transactions)
+      .set({ ...evaluation.changes, updatedAt: now })
+      .where(and(eq(transactions.id, target.id), eq(transactions.tenantId, tenantId)))
+      .run();
+
+    outcomes.push({ transactionId: target.id, ...evaluation });
+  }
+
+  await recordRuleMatches(db, tenantId, outcomes.flatMap(outcome => outcome.ruleIds));
+
+  return outcomes;
+}
+
+/**
+ * Existing transactions a rule would change, with before and after values
+ */
+export async function previewRule(db: Db, tenantId: string, rule: RuleDefinition, limit = 100) {
+  const rows = await db
+    .select({
+      id: transactions.id,
+      date: transactions.date,
+      description: transactions.description,
+      amount: transactions.amount,
+      type: transactions.type,
+      accountId: transactions.accountId,
+      categoryId: transactions.categoryId,
+      categoryName: categories.name,
+      notes: transactions.notes,
+    })
+    .from(transactions)
+    .leftJoin(categories, eq(transactions.categoryId, categories.id))
+    .where(eq(transactions.tenantId, tenantId))
+    .orderBy(desc(transactions.date))
+    .limit(PREVIEW_SCAN_LIMIT)
+    .all();
+
+  const changed = rows
+    .map(row => ({ row, evaluation: evaluateRules([rule], row) }))
+    .filter(({ evaluation }) => hasChanges(evaluation));
+
+  return {
+    scanned: rows.length,
+    matched: changed.length,
+    transactions: changed.slice(0, limit).map(({ row, evaluation }) => ({
+      id: row.id,
+      date: row.date,
+      amount: row.amount,
+      before: {
+        description: row.description,
+        categoryId: row.categoryId,
+        categoryName: row.categoryName,
+        type: row.type,
+        notes: row.notes,
+      },
+      changes: evaluation.changes,
+    })),
+  };
+}
+
+/**
+ * Build an unsaved rule from API conditions and actions
+ */
+export function toRuleDefinition(
+  conditions: CategorizationRuleConditions,
+  actions: CategorizationRuleActions,
+  id = 'preview'
+): RuleDefinition {
+  return {
+    id,
+    stopProcessing: true,
+    descriptionPattern: conditions.descriptionPattern ?? null,
+    minAmount: conditions.minAmount ?? null,
+    maxAmount: conditions.maxAmount ?? null,
+    accountId: conditions.accountId ?? null,
+    transactionType: conditions.type ?? null,
+    setCategoryId: actions.categoryId ?? null,
+    renameTo: actions.renameTo ?? null,
+    addNote: actions.addNote ?? null,
+    markAsTransfer: actions.markAsTransfer ?? false,
+  };
+}
+
+/**
+ * Shape a stored rule for API responses
+ */
+export function toRuleResponse(rule: CategorizationRule): CategorizationRuleResponse {
+  const conditions: CategorizationRuleConditions = {};
+  if (rule.descriptionPattern) conditions.descriptionPattern = rule.descriptionPattern;
+  if (rule.minAmount !== null) conditions.minAmount = rule.minAmount;
+  if (rule.maxAmount !== null) conditions.maxAmount = rule.maxAmount;
+  if (rule.accountId) conditions.accountId = rule.accountId;
+  if (rule.transactionType) conditions.type = rule.transactionType;
+
+  const actions: CategorizationRuleActions = {};
+  if (rule.setCategoryId) actions.categoryId = rule.setCategoryId;
+  if (rule.renameTo) actions.renameTo = rule.renameTo;
+  if (rule.addNote) actions.addNote = rule.addNote;
+  if (rule.markAsTransfer) actions.markAsTransfer = true;
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    priority: rule.priority,
+    isEnabled: rule.isEnabled,
+    stopProcessing: rule.stopProcessing,
+    conditions,
+    actions,
+    matchCount: rule.matchCount,
+    lastMatchedAt: rule.lastMatchedAt,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * List a tenant's rules in the order they run
+ */
+export async function listRules(db: Db, tenantId: string): Promise<CategorizationRule[]> {
+  return db
+    .select()
+    .from(categorizationRules)
+    .where(eq(categorizationRules.tenantId, tenantId))
+    .orderBy(asc(categorizationRules.priority), asc(categorizationRules.createdAt))
+    .all();
+}
+
+/**
+ * Get a single rule
+ */
+export async function getRule(db: Db, tenantId: string, ruleId: string): Promise<CategorizationRule | undefined> {
+  return db
+    .select()
+    .from(categorizationRules)
+    .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.tenantId, tenantId)))
+    .get();
+}
+
+/**
+ * Create a rule
+ */
+export async function createRule(
+  db: Db,
+  tenantId: string,
+  input: CreateCategorizationRuleRequest
+): Promise<CategorizationRule> {
+  const now = getCurrentTimestamp();
+  const { id: _id, ...definition } = toRuleDefinition(input.conditions, input.actions);
+
+  const rule: CategorizationRule = {
+    ...definition,
+    id: crypto.randomUUID(),
+    tenantId,
+    name: input.name,
+    priority: input.priority,
+    isEnabled: input.isEnabled,
+    stopProcessing: input.stopProcessing,
+    matchCount: 0,
+    lastMatchedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(categorizationRules).values(rule).run();
+
+  return rule;
+}
+
+/**
+ * Update a rule. Conditions and actions are replaced as a whole.
+ */
+export async function updateRule(
+  db: Db,
+  tenantId: string,
+  ruleId: string,
+  input: UpdateCategorizationRuleRequest
+): Promise<CategorizationRule | undefined> {
+  const updateData: Partial<typeof categorizationRules.$inferInsert> = { updatedAt: getCurrentTimestamp() };
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.priority !== undefined) updateData.priority = input.priority;
+  if (input.isEnabled !== undefined) updateData.isEnabled = input.isEnabled;
+  if (input.stopProcessing !== undefined) updateData.stopProcessing = input.stopProcessing;
+  if (input.conditions !== undefined) {
+    updateData.descriptionPattern = input.conditions.descriptionPattern ?? null;
+    updateData.minAmount = input.conditions.minAmount ?? null;
+    updateData.maxAmount = input.conditions.maxAmount ?? null;
+    updateData.accountId = input.conditions.accountId ?? null;
+    updateData.transactionType = input.conditions.type ?? null;
+  }
+  if (input.actions !== undefined) {
+    updateData.setCategoryId = input.actions.categoryId ?? null;
+    updateData.renameTo = input.actions.renameTo ?? null;
+    updateData.addNote = input.actions.addNote ?? null;
+    updateData.markAsTransfer = input.actions.markAsTransfer ?? false;
+  }
+
+  await db
+    .update(categorizationRules)
+    .set(updateData)
+    .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.tenantId, tenantId)))
+    .run();
+
+  return getRule(db, tenantId, ruleId);
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteRule(db: Db, tenantId: string, ruleId: string): Promise<void> {
+  await db
+    .delete(categorizationRules)
+    .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.tenantId, tenantId)))
+    .run();
+}
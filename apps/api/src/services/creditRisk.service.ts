@@ -10,6 +10,7 @@ import {
   loanAffordabilityAssessments,
   debtAccounts
 } from '../db';
+import { roundMoney, sumMoney, sumMoneyBy } from '@finhome360/shared';
 import type { AppContext } from '../types';
 
 /**
@@ -264,7 +265,7 @@ export class CreditRiskService {
     // Calculate monthly income and expenses from transactions
     const incomeResult = await db
       .select({
-        total: sql<number>`sum(${transactions.amount})`
+        total: sql<number>`sum(${transactions.amount})`.mapWith(transactions.amount)
       })
       .from(transactions)
       .where(and(
@@ -276,7 +277,7 @@ export class CreditRiskService {
 
     const expenseResult = await db
       .select({
-        total: sql<number>`sum(abs(${transactions.amount}))`
+        total: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount)
       })
       .from(transactions)
       .where(and(
@@ -298,7 +299,7 @@ export class CreditRiskService {
         eq(debtAccounts.status, 'active')
       ));
 
-    const existingDebtPayments = debts.reduce((sum, d) => sum + (d.monthlyPayment || d.minimumPayment || 0), 0);
+    const existingDebtPayments = sumMoneyBy(debts, d => d.monthlyPayment || d.minimumPayment);
 
     // Set defaults based on loan type
     const defaultRates: Record<string, number> = {
@@ -366,7 +367,7 @@ export class CreditRiskService {
         eq(accounts.type, 'savings')
       ));
 
-    const totalSavings = savingsAccounts.reduce((sum, a) => sum + a.balance, 0);
+    const totalSavings = sumMoneyBy(savingsAccounts, a => a.balance);
     const monthsOfSavingsCoverage = monthlyPaymentEstimate > 0 ? totalSavings / monthlyPaymentEstimate : 0;
 
     // Calculate affordability score (0-100)
@@ -444,8 +445,8 @@ export class CreditRiskService {
       affordabilityBand,
       maxAffordableAmount: Math.round(maxAffordableAmount),
       recommendedAmount: Math.round(recommendedAmount),
-      monthlyPaymentEstimate: Math.round(monthlyPaymentEstimate * 100) / 100,
-      totalInterestEstimate: Math.round(totalInterestEstimate * 100) / 100,
+      monthlyPaymentEstimate: roundMoney(monthlyPaymentEstimate),
+      totalInterestEstimate: roundMoney(totalInterestEstimate),
       debtToIncomeRatio: Math.round(debtToIncomeRatio * 10) / 10,
       debtToIncomeAfterLoan: Math.round(debtToIncomeAfterLoan * 10) / 10,
       stressTestResults: {
@@ -562,8 +563,8 @@ export class CreditRiskService {
       .where(eq(accounts.tenantId, tenantId));
 
     // Calculate credit utilization
-    let totalCreditLimit = 0;
-    let totalCreditUsed = 0;
+    const creditLimits: number[] = [];
+    const creditUsed: number[] = [];
     const accountTypes: Set<string> = new Set();
     let oldestAccountDate: Date | null = null;
     let totalAccountAgeMonths = 0;
@@ -585,8 +586,8 @@ export class CreditRiskService {
       if (account.type === 'credit') {
         // Assume a default credit limit if not available
         const creditLimit = 5000; // Default assumption
-        totalCreditLimit += creditLimit;
-        totalCreditUsed += Math.abs(account.balance);
+        creditLimits.push(creditLimit);
+        creditUsed.push(Math.abs(account.balance));
       }
     }
 
@@ -602,12 +603,15 @@ export class CreditRiskService {
     for (const debt of debts) {
       if (debt.type === 'credit_card' || debt.type === 'overdraft') {
         // Use original balance as credit limit for credit cards
-        totalCreditLimit += debt.originalBalance;
-        totalCreditUsed += debt.currentBalance;
+        creditLimits.push(debt.originalBalance);
+        creditUsed.push(debt.currentBalance);
       }
       accountTypes.add(debt.type);
     }
 
+    const totalCreditLimit = sumMoney(creditLimits);
+    const totalCreditUsed = sumMoney(creditUsed);
+
     // Get transactions to analyze payment behavior
     const recentTransactions = await db
       .select()
@@ -7,6 +7,8 @@
  * Alternative: Can easily swap to Resend, SendGrid, or AWS SES
  */
 
+import { REPORT_LINK_TTL_DAYS } from './reportDownloads';
+
 export interface EmailOptions {
   to: string | string[];
   subject: string;
@@ -36,6 +38,17 @@ export interface MemberInvitationEmailData {
   loginUrl: string;
 }
 
+export interface ScheduledReportEmailData {
+  reportName: string;
+  reportType: string;
+  format: string;
+  periodStart: string;
+  periodEnd: string;
+  recordCount: number;
+  downloadUrl: string;
+  loginUrl: string;
+}
+
 export class EmailService {
   private readonly fromEmail: string;
   private readonly fromName: string;
@@ -155,6 +168,23 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send scheduled report delivery email
+   */
+  async sendScheduledReportEmail(email: string, data: ScheduledReportEmailData): Promise<boolean> {
+    const subject = `Your scheduled report is ready: ${data.reportName}`;
+
+    const html = this.generateScheduledReportHTML(data);
+    const text = this.generateScheduledReportText(data);
+
+    return this.sendEmail({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
   /**
    * Send welcome email to new users
    */
@@ -340,6 +370,77 @@ Manage notification preferences: ${data.loginUrl}/dashboard/settings
     `;
   }
 
+  /**
+   * Generate HTML for scheduled report email
+   */
+  private generateScheduledReportHTML(data: ScheduledReportEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .report-card { background: white; border-left: 4px solid #667eea; padding: 20px; margin: 20px 0; border-radius: 5px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+            .report-name { font-size: 22px; font-weight: bold; margin: 0 0 10px 0; }
+            .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>📊 Scheduled Report</h1>
+            </div>
+            <div class="content">
+              <p>Your scheduled report has been generated and is ready to download.</p>
+
+              <div class="report-card">
+                <div class="report-name">${data.reportName}</div>
+                <p><strong>Report:</strong> ${data.reportType} (${data.format.toUpperCase()})</p>
+                <p><strong>Period:</strong> ${data.periodStart} – ${data.periodEnd}</p>
+                <p><strong>Records:</strong> ${data.recordCount}</p>
+              </div>
+
+              <p style="text-align: center;">
+                <a href="${data.downloadUrl}" class="button">Download Report</a>
+              </p>
+              <p style="text-align: center;">This link expires after ${REPORT_LINK_TTL_DAYS} days.</p>
+            </div>
+            <div class="footer">
+              <p>© 2025 Finhome360. All rights reserved.</p>
+              <p><a href="${data.loginUrl}/dashboard/export">Manage scheduled reports</a></p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate plain text for scheduled report email
+   */
+  private generateScheduledReportText(data: ScheduledReportEmailData): string {
+    return `
+Your scheduled report has been generated and is ready to download.
+
+Report Details:
+- Name: ${data.reportName}
+- Report: ${data.reportType} (${data.format.toUpperCase()})
+- Period: ${data.periodStart} – ${data.periodEnd}
+- Records: ${data.recordCount}
+
+Download: ${data.downloadUrl}
+This link expires after ${REPORT_LINK_TTL_DAYS} days.
+
+© 2025 Finhome360. All rights reserved.
+Manage scheduled reports: ${data.loginUrl}/dashboard/export
+    `;
+  }
+
   /**
    * Generate HTML for member invitation email
    */
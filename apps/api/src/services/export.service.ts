@@ -1,4 +1,4 @@
-import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, isNull, sql } from 'drizzle-orm';
 import {
   getDb,
   transactions,
@@ -7,14 +7,22 @@ import {
   budgets,
   goals,
   goalContributions,
+  transactionSplits,
+  transactionTags,
+  tags,
+  userSettings,
 } from '../db';
+import { sumMoney, sumMoneyBy, subtractMoney } from '@finhome360/shared';
+import { getCategoryTotals } from './transactionSplits';
+import { archivedFilter } from './transactionArchive';
+import { PdfReport } from './pdfReport';
 import type { AppContext } from '../types';
 
 /**
  * Data Export Service
  *
  * Provides export functionality for transactions, budgets, goals, and analytics
- * in multiple formats (CSV, JSON, PDF-ready data).
+ * in multiple formats (CSV, JSON, PDF).
  */
 
 export type ExportFormat = 'csv' | 'json' | 'pdf';
@@ -30,10 +38,14 @@ export interface ExportOptions {
   includeArchived?: boolean;
 }
 
+// Only the bindings are needed, so cron jobs can export without a request
+export type ExportContext = Pick<AppContext, 'env'>;
+
 export interface ExportResult {
   filename: string;
   mimeType: string;
-  data: string | object;
+  data: string | object | Uint8Array<ArrayBuffer>;
+  recordCount?: number;
 }
 
 export class ExportService {
@@ -41,7 +53,7 @@ export class ExportService {
    * Export transactions
    */
   static async exportTransactions(
-    c: AppContext,
+    c: ExportContext,
     tenantId: string,
     options: {
       format: ExportFormat;
@@ -49,14 +61,19 @@ export class ExportService {
       endDate?: Date;
       accountId?: string;
       categoryId?: string;
+      includeArchived?: boolean;
     }
   ): Promise<ExportResult> {
     const db = getDb(c.env.DB);
-    const { format, startDate, endDate, accountId, categoryId } = options;
+    const { format, startDate, endDate, accountId, categoryId, includeArchived } = options;
 
     // Build query conditions
     const conditions = [eq(transactions.tenantId, tenantId)];
 
+    if (!includeArchived) {
+      conditions.push(isNull(transactions.archivedAt));
+    }
+
     if (startDate) {
       conditions.push(gte(transactions.date, startDate));
     }
@@ -66,11 +83,8 @@ export class ExportService {
     if (accountId) {
       conditions.push(eq(transactions.accountId, accountId));
     }
-    if (categoryId) {
-      conditions.push(eq(transactions.categoryId, categoryId));
-    }
 
-    const data = await db
+    const rows = await db
       .select({
         id: transactions.id,
         date: transactions.date,
@@ -78,6 +92,7 @@ export class ExportService {
         amount: transactions.amount,
         type: transactions.type,
         notes: transactions.notes,
+        categoryId: transactions.categoryId,
         accountName: accounts.name,
         categoryName: categories.name,
         categoryIcon: categories.icon,
@@ -88,6 +103,65 @@ export class ExportService {
       .where(and(...conditions))
       .orderBy(desc(transactions.date));
 
+    // Split transactions are exported as one row per split line
+    const splitLines = await db
+      .select({
+        transactionId: transactionSplits.transactionId,
+        amount: transactionSplits.amount,
+        notes: transactionSplits.notes,
+        categoryId: transactionSplits.categoryId,
+        categoryName: categories.name,
+        categoryIcon: categories.icon,
+      })
+      .from(transactionSplits)
+      .innerJoin(transactions, eq(transactionSplits.transactionId, transactions.id))
+      .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+      .where(and(...conditions));
+
+    const linesByTransaction = new Map<string, typeof splitLines>();
+    for (const line of splitLines) {
+      const lines = linesByTransaction.get(line.transactionId) || [];
+      lines.push(line);
+      linesByTransaction.set(line.transactionId, lines);
+    }
+
+    const tagLinks = await db
+      .select({
+        transactionId: transactionTags.transactionId,
+        name: tags.name,
+      })
+      .from(transactionTags)
+      .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+      .innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+      .where(and(...conditions))
+      .orderBy(tags.name);
+
+    const tagsByTransaction = new Map<string, string[]>();
+    for (const link of tagLinks) {
+      const names = tagsByTransaction.get(link.transactionId) || [];
+      names.push(link.name);
+      tagsByTransaction.set(link.transactionId, names);
+    }
+
+    const data = rows
+      .map(row => ({ ...row, tags: tagsByTransaction.get(row.id) || [] }))
+      .flatMap(({ categoryId: parentCategoryId, ...row }) => {
+        const lines = linesByTransaction.get(row.id);
+        if (!lines) {
+          return [{ ...row, categoryId: parentCategoryId }];
+        }
+        return lines.map(line => ({
+          ...row,
+          amount: line.amount,
+          notes: line.notes || row.notes,
+          categoryId: line.categoryId,
+          categoryName: line.categoryName,
+          categoryIcon: line.categoryIcon,
+        }));
+      })
+      .filter(row => !categoryId || row.categoryId === categoryId)
+      .map(({ categoryId: _categoryId, ...row }) => row);
+
     const dateStr = new Date().toISOString().slice(0, 10);
 
     if (format === 'csv') {
@@ -103,20 +177,13 @@ export class ExportService {
         data: JSON.stringify(data, null, 2),
       };
     } else {
-      // PDF format returns structured data for PDF generation
+      const report = await this.createPdfReport(c, tenantId, 'Transaction Report', startDate, endDate);
+      this.renderTransactionsPdf(report, data);
       return {
         filename: `transactions-${dateStr}.pdf`,
-        mimeType: 'application/json',
-        data: {
-          title: 'Transaction Report',
-          generatedAt: new Date().toISOString(),
-          dateRange: {
-            start: startDate?.toISOString(),
-            end: endDate?.toISOString(),
-          },
-          summary: this.calculateTransactionSummary(data),
-          transactions: data,
-        },
+        mimeType: 'application/pdf',
+        data: await report.save(),
+        recordCount: data.length,
       };
     }
   }
@@ -125,16 +192,17 @@ export class ExportService {
    * Export budgets
    */
   static async exportBudgets(
-    c: AppContext,
+    c: ExportContext,
     tenantId: string,
     options: {
       format: ExportFormat;
       startDate?: Date;
       endDate?: Date;
+      includeArchived?: boolean;
     }
   ): Promise<ExportResult> {
     const db = getDb(c.env.DB);
-    const { format, startDate, endDate } = options;
+    const { format, startDate, endDate, includeArchived } = options;
 
     const conditions = [eq(budgets.tenantId, tenantId)];
 
@@ -161,23 +229,19 @@ export class ExportService {
       .where(and(...conditions))
       .orderBy(desc(budgets.startDate));
 
-    // Calculate spent for each budget from transactions
+    // Calculate spent for each budget from transactions (split transactions count per line)
     const data = await Promise.all(budgetData.map(async (budget) => {
-      const spent = await db
-        .select({ total: sql<number>`COALESCE(SUM(ABS(${transactions.amount})), 0)` })
-        .from(transactions)
-        .where(and(
-          eq(transactions.tenantId, tenantId),
-          eq(transactions.categoryId, budget.categoryId),
-          eq(transactions.type, 'expense'),
-          gte(transactions.date, budget.startDate),
-          budget.endDate ? lte(transactions.date, budget.endDate) : sql`1=1`
-        ))
-        .get();
+      const spent = await getCategoryTotals(db, tenantId, {
+        type: 'expense',
+        categoryId: budget.categoryId,
+        startDate: budget.startDate,
+        endDate: budget.endDate ?? undefined,
+        includeArchived,
+      });
 
       return {
         ...budget,
-        spent: spent?.total || 0,
+        spent: spent.get(budget.categoryId) || 0,
       };
     }));
 
@@ -196,19 +260,13 @@ export class ExportService {
         data: JSON.stringify(data, null, 2),
       };
     } else {
+      const report = await this.createPdfReport(c, tenantId, 'Budget Report', startDate, endDate);
+      this.renderBudgetsPdf(report, data);
       return {
         filename: `budgets-${dateStr}.pdf`,
-        mimeType: 'application/json',
-        data: {
-          title: 'Budget Report',
-          generatedAt: new Date().toISOString(),
-          dateRange: {
-            start: startDate?.toISOString(),
-            end: endDate?.toISOString(),
-          },
-          summary: this.calculateBudgetSummary(data),
-          budgets: data,
-        },
+        mimeType: 'application/pdf',
+        data: await report.save(),
+        recordCount: data.length,
       };
     }
   }
@@ -217,7 +275,7 @@ export class ExportService {
    * Export goals
    */
   static async exportGoals(
-    c: AppContext,
+    c: ExportContext,
     tenantId: string,
     options: {
       format: ExportFormat;
@@ -272,18 +330,13 @@ export class ExportService {
         data: JSON.stringify({ goals: goalsData, contributions: contributionsData }, null, 2),
       };
     } else {
+      const report = await this.createPdfReport(c, tenantId, 'Goals Report');
+      this.renderGoalsPdf(report, goalsData, contributionsData);
       return {
         filename: `goals-${dateStr}.pdf`,
-        mimeType: 'application/json',
-        data: {
-          title: 'Goals Report',
-          generatedAt: new Date().toISOString(),
-          summary: this.calculateGoalsSummary(goalsData),
-          goals: goalsData.map(goal => ({
-            ...goal,
-            contributions: contributionsData.filter(c => c.goalId === goal.id),
-          })),
-        },
+        mimeType: 'application/pdf',
+        data: await report.save(),
+        recordCount: goalsData.length,
       };
     }
   }
@@ -292,16 +345,17 @@ export class ExportService {
    * Export analytics summary
    */
   static async exportAnalytics(
-    c: AppContext,
+    c: ExportContext,
     tenantId: string,
     options: {
       format: ExportFormat;
       startDate?: Date;
       endDate?: Date;
+      includeArchived?: boolean;
     }
   ): Promise<ExportResult> {
     const db = getDb(c.env.DB);
-    const { format, startDate, endDate } = options;
+    const { format, startDate, endDate, includeArchived } = options;
 
     const now = new Date();
     const start = startDate || new Date(now.getFullYear(), now.getMonth(), 1);
@@ -312,7 +366,7 @@ export class ExportService {
       .select({
         categoryName: categories.name,
         categoryIcon: categories.icon,
-        total: sql<number>`COALESCE(SUM(ABS(${transactions.amount})), 0)`,
+        total: sql<number>`COALESCE(SUM(ABS(${transactions.amount})), 0)`.mapWith(transactions.amount),
         count: sql<number>`COUNT(*)`,
       })
       .from(transactions)
@@ -320,6 +374,7 @@ export class ExportService {
       .where(and(
         eq(transactions.tenantId, tenantId),
         eq(transactions.type, 'expense'),
+        archivedFilter(includeArchived),
         gte(transactions.date, start),
         lte(transactions.date, end)
       ))
@@ -329,11 +384,12 @@ export class ExportService {
     const incomeVsExpenses = await db
       .select({
         type: transactions.type,
-        total: sql<number>`COALESCE(SUM(ABS(${transactions.amount})), 0)`,
+        total: sql<number>`COALESCE(SUM(ABS(${transactions.amount})), 0)`.mapWith(transactions.amount),
       })
       .from(transactions)
       .where(and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         gte(transactions.date, start),
         lte(transactions.date, end)
       ))
@@ -343,12 +399,13 @@ export class ExportService {
     const monthlyTrends = await db
       .select({
         month: sql<string>`strftime('%Y-%m', ${transactions.date})`,
-        income: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'income' THEN ABS(${transactions.amount}) ELSE 0 END), 0)`,
-        expenses: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'expense' THEN ABS(${transactions.amount}) ELSE 0 END), 0)`,
+        income: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'income' THEN ABS(${transactions.amount}) ELSE 0 END), 0)`.mapWith(transactions.amount),
+        expenses: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'expense' THEN ABS(${transactions.amount}) ELSE 0 END), 0)`.mapWith(transactions.amount),
       })
       .from(transactions)
       .where(and(
         eq(transactions.tenantId, tenantId),
+        archivedFilter(includeArchived),
         gte(transactions.date, start),
         lte(transactions.date, end)
       ))
@@ -374,9 +431,11 @@ export class ExportService {
       totals: {
         totalIncome: incomeVsExpenses.find(i => i.type === 'income')?.total || 0,
         totalExpenses: incomeVsExpenses.find(i => i.type === 'expense')?.total || 0,
-        netSavings: (incomeVsExpenses.find(i => i.type === 'income')?.total || 0) -
-                    (incomeVsExpenses.find(i => i.type === 'expense')?.total || 0),
-        totalBalance: accountBalances.reduce((sum, a) => sum + (a.balance || 0), 0),
+        netSavings: subtractMoney(
+          incomeVsExpenses.find(i => i.type === 'income')?.total || 0,
+          incomeVsExpenses.find(i => i.type === 'expense')?.total || 0
+        ),
+        totalBalance: sumMoneyBy(accountBalances, a => a.balance),
       },
     };
 
@@ -395,14 +454,13 @@ export class ExportService {
         data: JSON.stringify(analytics, null, 2),
       };
     } else {
+      const report = await this.createPdfReport(c, tenantId, 'Financial Analytics Report', start, end);
+      this.renderAnalyticsPdf(report, analytics);
       return {
         filename: `analytics-${dateStr}.pdf`,
-        mimeType: 'application/json',
-        data: {
-          title: 'Financial Analytics Report',
-          generatedAt: new Date().toISOString(),
-          ...analytics,
-        },
+        mimeType: 'application/pdf',
+        data: await report.save(),
+        recordCount: spendingByCategory.length,
       };
     }
   }
@@ -411,21 +469,22 @@ export class ExportService {
    * Full export - all data
    */
   static async exportAll(
-    c: AppContext,
+    c: ExportContext,
     tenantId: string,
     options: {
       format: ExportFormat;
       startDate?: Date;
       endDate?: Date;
+      includeArchived?: boolean;
     }
   ): Promise<ExportResult> {
-    const { format, startDate, endDate } = options;
+    const { format, startDate, endDate, includeArchived } = options;
 
     const [transactionsExport, budgetsExport, goalsExport, analyticsExport] = await Promise.all([
-      this.exportTransactions(c, tenantId, { format: 'json', startDate, endDate }),
-      this.exportBudgets(c, tenantId, { format: 'json', startDate, endDate }),
+      this.exportTransactions(c, tenantId, { format: 'json', startDate, endDate, includeArchived }),
+      this.exportBudgets(c, tenantId, { format: 'json', startDate, endDate, includeArchived }),
       this.exportGoals(c, tenantId, { format: 'json' }),
-      this.exportAnalytics(c, tenantId, { format: 'json', startDate, endDate }),
+      this.exportAnalytics(c, tenantId, { format: 'json', startDate, endDate, includeArchived }),
     ]);
 
     const fullData = {
@@ -457,24 +516,274 @@ export class ExportService {
         data: this.transactionsToCSV(fullData.transactions),
       };
     } else {
+      const report = await this.createPdfReport(c, tenantId, 'Complete Financial Report', startDate, endDate);
+      this.renderAnalyticsPdf(report, fullData.analytics);
+      this.renderTransactionsPdf(report, fullData.transactions);
+      this.renderBudgetsPdf(report, fullData.budgets);
+      this.renderGoalsPdf(report, fullData.goals.goals, fullData.goals.contributions);
       return {
         filename: `finhome-export-${dateStr}.pdf`,
-        mimeType: 'application/json',
-        data: {
-          title: 'Complete Financial Report',
-          generatedAt: new Date().toISOString(),
-          ...fullData,
-        },
+        mimeType: 'application/pdf',
+        data: await report.save(),
+        recordCount: fullData.transactions.length,
       };
     }
   }
 
+  // ==========================================
+  // PDF RENDERING
+  // ==========================================
+
+  /**
+   * Start a PDF report using the tenant's currency settings
+   */
+  private static async createPdfReport(
+    c: ExportContext,
+    tenantId: string,
+    title: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<PdfReport> {
+    const db = getDb(c.env.DB);
+    const settings = await db
+      .select({ currency: userSettings.currency, currencySymbol: userSettings.currencySymbol })
+      .from(userSettings)
+      .where(eq(userSettings.tenantId, tenantId))
+      .get();
+
+    const formatDate = (date: Date) =>
+      date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+    let subtitle = 'Period: all dates';
+    if (startDate && endDate) subtitle = `Period: ${formatDate(startDate)} – ${formatDate(endDate)}`;
+    else if (startDate) subtitle = `Period: from ${formatDate(startDate)}`;
+    else if (endDate) subtitle = `Period: up to ${formatDate(endDate)}`;
+
+    return PdfReport.create({
+      title,
+      subtitle,
+      currency: settings?.currency ?? 'GBP',
+      currencySymbol: settings?.currencySymbol ?? '£',
+    });
+  }
+
+  private static renderTransactionsPdf(report: PdfReport, data: any[]): void {
+    const summary = this.calculateTransactionSummary(data) as {
+      totalTransactions: number;
+      totalIncome: number;
+      totalExpenses: number;
+      netFlow: number;
+    };
+
+    report.addSection('Transactions');
+    report.addSummary([
+      { label: 'Transactions', value: String(summary.totalTransactions) },
+      { label: 'Income', value: report.formatMoney(summary.totalIncome), tone: 'income' },
+      { label: 'Expenses', value: report.formatMoney(summary.totalExpenses), tone: 'expense' },
+      { label: 'Net', value: report.formatMoney(summary.netFlow), tone: summary.netFlow >= 0 ? 'income' : 'expense' },
+    ]);
+
+    const spending = new Map<string, number>();
+    for (const t of data.filter(t => t.type === 'expense')) {
+      const name = t.categoryName || 'Uncategorized';
+      spending.set(name, sumMoney([spending.get(name), Math.abs(t.amount || 0)]));
+    }
+    report.addSection('Spending by Category');
+    report.addBarChart(
+      [...spending.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([label, value]) => ({ label, value }))
+    );
+
+    report.addSection('Transaction Details');
+    report.addTable(
+      [
+        { header: 'Date', width: 11 },
+        { header: 'Description', width: 30 },
+        { header: 'Category', width: 17 },
+        { header: 'Account', width: 16 },
+        { header: 'Type', width: 10 },
+        { header: 'Amount', width: 14, align: 'right' },
+      ],
+      data.map(t => [
+        t.date ? new Date(t.date).toISOString().slice(0, 10) : '',
+        t.description || '',
+        t.categoryName || '',
+        t.accountName || '',
+        t.type || '',
+        report.formatMoney(t.type === 'expense' ? -Math.abs(t.amount || 0) : Math.abs(t.amount || 0)),
+      ]),
+      ['', 'Net total', '', '', '', report.formatMoney(summary.netFlow)]
+    );
+  }
+
+  private static renderBudgetsPdf(report: PdfReport, data: any[]): void {
+    const summary = this.calculateBudgetSummary(data) as {
+      totalBudgets: number;
+      totalBudgeted: number;
+      totalSpent: number;
+      remaining: number;
+      overBudgetCount: number;
+    };
+
+    report.addSection('Budgets');
+    report.addSummary([
+      { label: 'Budgeted', value: report.formatMoney(summary.totalBudgeted) },
+      { label: 'Spent', value: report.formatMoney(summary.totalSpent), tone: 'expense' },
+      { label: 'Remaining', value: report.formatMoney(summary.remaining), tone: summary.remaining >= 0 ? 'income' : 'expense' },
+      { label: 'Over budget', value: `${summary.overBudgetCount} of ${summary.totalBudgets}` },
+    ]);
+
+    report.addSection('Budget Usage');
+    report.addBarChart(
+      data.map(b => ({
+        label: b.categoryName || 'Uncategorized',
+        value: b.amount > 0 ? ((b.spent || 0) / b.amount) * 100 : 0,
+      })),
+      { formatValue: value => `${value.toFixed(1)}%`, maxValue: Math.max(100, ...data.map(b => b.amount > 0 ? ((b.spent || 0) / b.amount) * 100 : 0)) }
+    );
+
+    report.addSection('Budget Details');
+    report.addTable(
+      [
+        { header: 'Category', width: 22 },
+        { header: 'Period', width: 10 },
+        { header: 'Start', width: 12 },
+        { header: 'End', width: 12 },
+        { header: 'Budget', width: 14, align: 'right' },
+        { header: 'Spent', width: 14, align: 'right' },
+        { header: 'Remaining', width: 14, align: 'right' },
+      ],
+      data.map(b => [
+        b.categoryName || '',
+        b.period || '',
+        b.startDate ? new Date(b.startDate).toISOString().slice(0, 10) : '',
+        b.endDate ? new Date(b.endDate).toISOString().slice(0, 10) : '',
+        report.formatMoney(b.amount || 0),
+        report.formatMoney(b.spent || 0),
+        report.formatMoney(subtractMoney(b.amount || 0, b.spent || 0)),
+      ]),
+      [
+        'Total', '', '', '',
+        report.formatMoney(summary.totalBudgeted),
+        report.formatMoney(summary.totalSpent),
+        report.formatMoney(summary.remaining),
+      ]
+    );
+  }
+
+  private static renderGoalsPdf(report: PdfReport, goalsData: any[], contributionsData: any[]): void {
+    const summary = this.calculateGoalsSummary(goalsData) as {
+      totalGoals: number;
+      completedGoals: number;
+      totalTarget: number;
+      totalSaved: number;
+      overallProgress: number;
+    };
+
+    report.addSection('Goals');
+    report.addSummary([
+      { label: 'Goals', value: `${summary.completedGoals} of ${summary.totalGoals} completed` },
+      { label: 'Target', value: report.formatMoney(summary.totalTarget) },
+      { label: 'Saved', value: report.formatMoney(summary.totalSaved), tone: 'income' },
+      { label: 'Progress', value: `${summary.overallProgress.toFixed(1)}%` },
+    ]);
+
+    const progress = (g: any) => (g.targetAmount > 0 ? ((g.currentAmount || 0) / g.targetAmount) * 100 : 0);
+
+    report.addSection('Goal Progress');
+    report.addBarChart(
+      goalsData.map(g => ({ label: g.name || 'Goal', value: progress(g) })),
+      { formatValue: value => `${value.toFixed(1)}%`, maxValue: 100 }
+    );
+
+    report.addSection('Goal Details');
+    report.addTable(
+      [
+        { header: 'Goal', width: 24 },
+        { header: 'Account', width: 16 },
+        { header: 'Deadline', width: 12 },
+        { header: 'Status', width: 11 },
+        { header: 'Target', width: 13, align: 'right' },
+        { header: 'Saved', width: 13, align: 'right' },
+        { header: 'Contribs', width: 9, align: 'right' },
+      ],
+      goalsData.map(g => [
+        g.name || '',
+        g.accountName || '',
+        g.deadline ? new Date(g.deadline).toISOString().slice(0, 10) : '',
+        g.status || '',
+        report.formatMoney(g.targetAmount || 0),
+        report.formatMoney(g.currentAmount || 0),
+        String(contributionsData.filter(contribution => contribution.goalId === g.id).length),
+      ])
+    );
+  }
+
+  private static renderAnalyticsPdf(report: PdfReport, analytics: any): void {
+    const totals = analytics.totals || {};
+
+    report.addSection('Financial Summary');
+    report.addSummary([
+      { label: 'Income', value: report.formatMoney(totals.totalIncome || 0), tone: 'income' },
+      { label: 'Expenses', value: report.formatMoney(totals.totalExpenses || 0), tone: 'expense' },
+      { label: 'Net savings', value: report.formatMoney(totals.netSavings || 0), tone: (totals.netSavings || 0) >= 0 ? 'income' : 'expense' },
+      { label: 'Total balance', value: report.formatMoney(totals.totalBalance || 0) },
+    ]);
+
+    const trends: any[] = analytics.monthlyTrends || [];
+    report.addSection('Monthly Income vs Expenses');
+    report.addColumnChart(
+      trends.map(month => ({ label: month.month, values: [month.income || 0, month.expenses || 0] })),
+      ['Income', 'Expenses']
+    );
+    report.addTable(
+      [
+        { header: 'Month', width: 25 },
+        { header: 'Income', width: 25, align: 'right' },
+        { header: 'Expenses', width: 25, align: 'right' },
+        { header: 'Net', width: 25, align: 'right' },
+      ],
+      trends.map(month => [
+        month.month,
+        report.formatMoney(month.income || 0),
+        report.formatMoney(month.expenses || 0),
+        report.formatMoney(subtractMoney(month.income || 0, month.expenses || 0)),
+      ])
+    );
+
+    const spending: any[] = [...(analytics.spendingByCategory || [])].sort((a, b) => (b.total || 0) - (a.total || 0));
+    report.addSection('Spending by Category');
+    report.addBarChart(spending.slice(0, 10).map(cat => ({ label: cat.categoryName || 'Uncategorized', value: cat.total || 0 })));
+    report.addTable(
+      [
+        { header: 'Category', width: 50 },
+        { header: 'Transactions', width: 20, align: 'right' },
+        { header: 'Total', width: 30, align: 'right' },
+      ],
+      spending.map(cat => [cat.categoryName || 'Uncategorized', String(cat.count || 0), report.formatMoney(cat.total || 0)]),
+      ['Total', '', report.formatMoney(totals.totalExpenses || 0)]
+    );
+
+    const balances: any[] = analytics.accountBalances || [];
+    report.addSection('Account Balances');
+    report.addTable(
+      [
+        { header: 'Account', width: 50 },
+        { header: 'Type', width: 20 },
+        { header: 'Balance', width: 30, align: 'right' },
+      ],
+      balances.map(acc => [acc.name || '', acc.type || '', report.formatMoney(acc.balance || 0)]),
+      ['Total', '', report.formatMoney(totals.totalBalance || 0)]
+    );
+  }
+
   // ==========================================
   // HELPER METHODS
   // ==========================================
 
   private static transactionsToCSV(data: any[]): string {
-    const headers = ['Date', 'Description', 'Amount', 'Type', 'Category', 'Account', 'Notes'];
+    const headers = ['Date', 'Description', 'Amount', 'Type', 'Category', 'Account', 'Notes', 'Tags'];
     const rows = data.map(t => [
       t.date ? new Date(t.date).toISOString().slice(0, 10) : '',
       this.escapeCSV(t.description || ''),
@@ -483,6 +792,7 @@ export class ExportService {
       this.escapeCSV(t.categoryName || ''),
       this.escapeCSV(t.accountName || ''),
       this.escapeCSV(t.notes || ''),
+      this.escapeCSV((t.tags || []).join('; ')),
     ]);
 
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -494,7 +804,7 @@ export class ExportService {
       this.escapeCSV(b.categoryName || ''),
       b.amount?.toFixed(2) || '0.00',
       b.spent?.toFixed(2) || '0.00',
-      ((b.amount || 0) - (b.spent || 0)).toFixed(2),
+      subtractMoney(b.amount || 0, b.spent || 0).toFixed(2),
       b.period || '',
       b.startDate ? new Date(b.startDate).toISOString().slice(0, 10) : '',
       b.endDate ? new Date(b.endDate).toISOString().slice(0, 10) : '',
@@ -543,7 +853,7 @@ export class ExportService {
     sections.push('=== MONTHLY TRENDS ===');
     sections.push('Month,Income,Expenses,Net');
     analytics.monthlyTrends?.forEach((month: any) => {
-      const net = (month.income || 0) - (month.expenses || 0);
+      const net = subtractMoney(month.income || 0, month.expenses || 0);
       sections.push(`${month.month},${month.income?.toFixed(2) || '0.00'},${month.expenses?.toFixed(2) || '0.00'},${net.toFixed(2)}`);
     });
     sections.push('');
@@ -567,27 +877,27 @@ export class ExportService {
   }
 
   private static calculateTransactionSummary(data: any[]): object {
-    const totalIncome = data.filter(t => t.type === 'income').reduce((sum, t) => sum + Math.abs(t.amount || 0), 0);
-    const totalExpenses = data.filter(t => t.type === 'expense').reduce((sum, t) => sum + Math.abs(t.amount || 0), 0);
+    const totalIncome = sumMoney(data.filter(t => t.type === 'income').map(t => Math.abs(t.amount || 0)));
+    const totalExpenses = sumMoney(data.filter(t => t.type === 'expense').map(t => Math.abs(t.amount || 0)));
 
     return {
       totalTransactions: data.length,
       totalIncome,
       totalExpenses,
-      netFlow: totalIncome - totalExpenses,
+      netFlow: subtractMoney(totalIncome, totalExpenses),
     };
   }
 
   private static calculateBudgetSummary(data: any[]): object {
-    const totalBudgeted = data.reduce((sum, b) => sum + (b.amount || 0), 0);
-    const totalSpent = data.reduce((sum, b) => sum + (b.spent || 0), 0);
+    const totalBudgeted = sumMoneyBy(data, b => b.amount);
+    const totalSpent = sumMoneyBy(data, b => b.spent);
     const overBudget = data.filter(b => (b.spent || 0) > (b.amount || 0)).length;
 
     return {
       totalBudgets: data.length,
       totalBudgeted,
       totalSpent,
-      remaining: totalBudgeted - totalSpent,
+      remaining: subtractMoney(totalBudgeted, totalSpent),
       overBudgetCount: overBudget,
     };
   }
@@ -595,8 +905,8 @@ export class ExportService {
   private static calculateGoalsSummary(data: any[]): object {
     const totalGoals = data.length;
     const completedGoals = data.filter(g => g.status === 'completed').length;
-    const totalTarget = data.reduce((sum, g) => sum + (g.targetAmount || 0), 0);
-    const totalSaved = data.reduce((sum, g) => sum + (g.currentAmount || 0), 0);
+    const totalTarget = sumMoneyBy(data, g => g.targetAmount);
+    const totalSaved = sumMoneyBy(data, g => g.currentAmount);
 
     return {
       totalGoals,
@@ -10,6 +10,8 @@ import {
   debtAccounts,
   aiFinancialInsights
 } from '../db';
+import { sumMoney, sumMoneyBy, multiplyMoney } from '@finhome360/shared';
+import { getCategoryTotals } from './transactionSplits';
 import type { AppContext } from '../types';
 
 /**
@@ -501,17 +503,12 @@ export class FinancialHealthService {
       .where(eq(accounts.tenantId, tenantId));
 
     // Calculate total balances by account type
-    let totalSavings = 0;
-    let totalDebt = 0;
-
-    for (const account of allAccounts) {
-      if (account.type === 'savings' || account.type === 'investment') {
-        totalSavings += account.balance;
-      } else if (account.type === 'credit') {
-        // Credit accounts typically have negative balance representing debt
-        totalDebt += Math.abs(account.balance);
-      }
-    }
+    const totalSavings = sumMoneyBy(
+      allAccounts.filter(a => a.type === 'savings' || a.type === 'investment'),
+      a => a.balance
+    );
+    // Credit accounts typically have negative balance representing debt
+    let totalDebt = sumMoneyBy(allAccounts.filter(a => a.type === 'credit'), a => Math.abs(a.balance));
 
     // Get transactions for the last 3 months for averages
     const recentTransactions = await db
@@ -527,8 +524,8 @@ export class FinancialHealthService {
       ));
 
     // Calculate monthly income and expenses
-    let totalIncome = 0;
-    let totalExpenses = 0;
+    const incomeAmounts: number[] = [];
+    const expenseAmounts: number[] = [];
     const monthlyIncomes: number[] = [];
     const monthlyExpensesByMonth: Record<string, number> = {};
 
@@ -536,16 +533,19 @@ export class FinancialHealthService {
       const monthKey = `${new Date(tx.date).getFullYear()}-${new Date(tx.date).getMonth()}`;
 
       if (tx.type === 'income') {
-        totalIncome += tx.amount;
+        incomeAmounts.push(tx.amount);
         if (!monthlyIncomes.includes(new Date(tx.date).getMonth())) {
           monthlyIncomes.push(new Date(tx.date).getMonth());
         }
       } else if (tx.type === 'expense') {
-        totalExpenses += Math.abs(tx.amount);
-        monthlyExpensesByMonth[monthKey] = (monthlyExpensesByMonth[monthKey] || 0) + Math.abs(tx.amount);
+        expenseAmounts.push(Math.abs(tx.amount));
+        monthlyExpensesByMonth[monthKey] = sumMoney([monthlyExpensesByMonth[monthKey], Math.abs(tx.amount)]);
       }
     }
 
+    const totalIncome = sumMoney(incomeAmounts);
+    const totalExpenses = sumMoney(expenseAmounts);
+
     const monthCount = Math.max(1, Object.keys(monthlyExpensesByMonth).length);
     const monthlyIncome = totalIncome / monthCount;
     const monthlyExpenses = totalExpenses / monthCount;
@@ -562,8 +562,8 @@ export class FinancialHealthService {
 
     // Get debt accounts
     const debts = await this.getDebtAccounts(c, tenantId);
-    const monthlyDebtPayments = debts.reduce((sum, d) => sum + (d.monthlyPayment || d.minimumPayment || 0), 0);
-    totalDebt += debts.reduce((sum, d) => sum + d.currentBalance, 0);
+    const monthlyDebtPayments = sumMoneyBy(debts, d => d.monthlyPayment || d.minimumPayment);
+    totalDebt = sumMoney([totalDebt, sumMoneyBy(debts, d => d.currentBalance)]);
 
     // Get user profile for emergency fund info
     const profile = await this.getOrCreateProfile(c, tenantId);
@@ -575,7 +575,7 @@ export class FinancialHealthService {
       emergencyFundBalance = efAccount?.balance || 0;
     } else {
       // Use 30% of savings as estimated emergency fund
-      emergencyFundBalance = totalSavings * 0.3;
+      emergencyFundBalance = multiplyMoney(totalSavings, 0.3);
     }
 
     const emergencyFundTarget = profile?.emergencyFundTarget || 3; // Default 3 months
@@ -611,29 +611,22 @@ export class FinancialHealthService {
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
-    let totalBudget = 0;
-    let totalSpent = 0;
+    const totalBudget = sumMoneyBy(budgetsList, b => b.amount);
+    const spentAmounts: number[] = [];
 
     for (const budget of budgetsList) {
-      totalBudget += budget.amount;
-
-      // Get spending for this category this month
-      const spending = await db
-        .select({
-          total: sql<number>`sum(abs(${transactions.amount}))`
-        })
-        .from(transactions)
-        .where(and(
-          eq(transactions.tenantId, tenantId),
-          eq(transactions.categoryId, budget.categoryId),
-          eq(transactions.type, 'expense'),
-          gte(transactions.date, startOfMonth)
-        ))
-        .get();
+      // Get spending for this category this month (split transactions count per line)
+      const spending = await getCategoryTotals(db, tenantId, {
+        type: 'expense',
+        categoryId: budget.categoryId,
+        startDate: startOfMonth,
+      });
 
-      totalSpent += spending?.total || 0;
+      spentAmounts.push(spending.get(budget.categoryId) || 0);
     }
 
+    const totalSpent = sumMoney(spentAmounts);
+
     return {
       totalBudget,
       totalSpent,
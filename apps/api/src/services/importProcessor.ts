@@ -1,8 +1,14 @@
 import { and, eq } from 'drizzle-orm';
+import { sumMoney } from '@finhome360/shared';
 import { accounts, categories, importLogs, transactions } from '../db';
 import { getCurrentTimestamp } from '../utils/timestamp';
 import type { ParsedTransaction } from '../utils/fileParser';
 import type { getDb } from '../db';
+import type { Env } from '../types';
+import { AlertRulesService } from './alertRules.service';
+import { autoMatchTransfers } from './transfers';
+import { matchBillPayments } from './billReminders';
+import { evaluateRules, getActiveRules, recordRuleMatches } from './categorizationRules';
 
 export interface ImportPersistenceParams {
   db: ReturnType<typeof getDb>;
@@ -13,6 +19,7 @@ export interface ImportPersistenceParams {
   logId: string | null; // Optional for automated sync
   startedAt: number;
   checkDuplicates?: boolean; // Enable duplicate detection (default: false for backwards compatibility)
+  env?: Env['Bindings']; // When provided, tenant alert rules are evaluated on the new transactions
 }
 
 export interface ImportPersistenceResult {
@@ -39,10 +46,13 @@ export async function persistTransactionsFromImport({
   logId,
   startedAt,
   checkDuplicates = false,
+  env,
 }: ImportPersistenceParams): Promise<ImportPersistenceResult> {
   const createdTransactions: typeof transactions.$inferSelect[] = [];
   let importedCount = 0;
   let skippedCount = 0;
+  let balanceChange = 0;
+  const createdCategoryIds: string[] = [];
   const errors: string[] = [];
 
   const tenantCategories = await db
@@ -51,8 +61,21 @@ export async function persistTransactionsFromImport({
     .where(eq(categories.tenantId, tenantId))
     .all();
 
+  // Tenant categorization rules run on every new transaction before it is saved
+  const rules = await getActiveRules(db, tenantId);
+  const matchedRuleIds: string[] = [];
+
   for (const parsed of parsedTransactions) {
     try {
+      // Amounts are not converted, so rows in another currency would corrupt the balance
+      if (parsed.currency && parsed.currency.toUpperCase() !== account.currency.toUpperCase()) {
+        skippedCount++;
+        errors.push(
+          `Skipped: ${parsed.description} - currency ${parsed.currency} does not match account currency ${account.currency}`
+        );
+        continue;
+      }
+
       // Check for duplicates if enabled (for bank sync)
       if (checkDuplicates && parsed.providerTransactionId) {
         const existingTransaction = await db
@@ -103,6 +126,7 @@ export async function persistTransactionsFromImport({
             .run();
 
           categoryId = newCategoryId;
+          createdCategoryIds.push(newCategoryId);
           tenantCategories.push({
             id: newCategoryId,
             tenantId,
@@ -118,27 +142,41 @@ export async function persistTransactionsFromImport({
       }
 
       const txnTimestamp = getCurrentTimestamp();
-      const newTransaction = {
+      const newTransaction: typeof transactions.$inferSelect = {
         id: crypto.randomUUID(),
         tenantId,
         accountId: account.id,
         categoryId,
         amount: parsed.amount,
+        currency: account.currency,
         description: parsed.description,
         date: parsed.date,
         type: parsed.type,
         notes: parsed.notes ?? null,
         providerTransactionId: parsed.providerTransactionId ?? null,
+        transferId: null,
+        archivedAt: null,
+        importLogId: logId,
+        reconciliationId: null,
+        reconciledAt: null,
+        recurringTransactionId: null,
         createdAt: txnTimestamp,
         updatedAt: txnTimestamp,
       };
 
+      if (rules.length > 0) {
+        const evaluation = evaluateRules(rules, newTransaction);
+        Object.assign(newTransaction, evaluation.changes);
+        matchedRuleIds.push(...evaluation.ruleIds);
+      }
+
       await db.insert(transactions).values(newTransaction).run();
       createdTransactions.push(newTransaction);
       importedCount++;
 
+      // Based on the parsed type, as rules may have marked the transaction as a transfer
       const balanceDelta = parsed.type === 'income' ? parsed.amount : -parsed.amount;
-      const nextBalance = (account.balance || 0) + balanceDelta;
+      const nextBalance = sumMoney([account.balance, balanceDelta]);
 
       await db
         .update(accounts)
@@ -150,6 +188,7 @@ export async function persistTransactionsFromImport({
         .run();
 
       account.balance = nextBalance;
+      balanceChange = sumMoney([balanceChange, balanceDelta]);
     } catch (error) {
       console.error('Error importing transaction:', error);
       skippedCount++;
@@ -157,6 +196,45 @@ export async function persistTransactionsFromImport({
     }
   }
 
+  if (matchedRuleIds.length > 0) {
+    try {
+      await recordRuleMatches(db, tenantId, matchedRuleIds);
+    } catch (error) {
+      console.error('Error recording categorization rule matches:', error);
+    }
+  }
+
+  if (createdTransactions.length > 0) {
+    try {
+      // Pair new transactions with the other side of transfers between the tenant's accounts
+      const matched = await autoMatchTransfers(db, tenantId, createdTransactions);
+      for (const transfer of matched) {
+        for (const txn of createdTransactions) {
+          if (txn.id === transfer.fromTransactionId || txn.id === transfer.toTransactionId) {
+            txn.type = 'transfer';
+            txn.transferId = transfer.id;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error matching transfers for import:', error);
+    }
+  }
+
+  if (env && createdTransactions.length > 0) {
+    try {
+      await AlertRulesService.evaluateTransactions({ env }, tenantId, createdTransactions);
+    } catch (error) {
+      console.error('Error evaluating alert rules for import:', error);
+    }
+
+    try {
+      await matchBillPayments({ env }, tenantId, createdTransactions);
+    } catch (error) {
+      console.error('Error matching bill payments for import:', error);
+    }
+  }
+
   const processingTimeMs = Date.now() - startedAt;
   const finalStatus: 'success' | 'partial' | 'failed' =
     skippedCount === 0 ? 'success' : importedCount > 0 ? 'partial' : 'failed';
@@ -172,6 +250,8 @@ export async function persistTransactionsFromImport({
         transactionsTotal: parsedTransactions.length,
         errorDetails: errors.length > 0 ? JSON.stringify(errors) : null,
         errorMessage: errors.length > 0 ? `${skippedCount} transaction(s) failed` : null,
+        balanceChange,
+        createdCategoryIds: createdCategoryIds.length > 0 ? JSON.stringify(createdCategoryIds) : null,
         completedAt: new Date(),
         processingTimeMs,
       })
@@ -0,0 +1,158 @@
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { importProfiles } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+import type {
+  ColumnMapping,
+  CreateImportProfileRequest,
+  UpdateImportProfileRequest,
+} from '@finhome360/shared';
+
+type Db = ReturnType<typeof getDb>;
+
+export type ImportProfile = typeof importProfiles.$inferSelect;
+
+export interface ImportProfileResponse {
+  id: string;
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  useCount: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Normalized header row used to recognise files from the same bank export.
+ * Case, surrounding whitespace and empty trailing columns are ignored.
+ */
+export function getHeaderSignature(headers: string[]): string {
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/\s+/g, ' '));
+  while (normalized.length > 0 && !normalized[normalized.length - 1]) {
+    normalized.pop();
+  }
+  return normalized.join('|');
+}
+
+export function toProfileResponse(profile: ImportProfile): ImportProfileResponse {
+  return {
+    id: profile.id,
+    name: profile.name,
+    headers: JSON.parse(profile.headers),
+    mapping: JSON.parse(profile.mapping),
+    useCount: profile.useCount,
+    lastUsedAt: profile.lastUsedAt,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
+
+export async function listProfiles(db: Db, tenantId: string): Promise<ImportProfile[]> {
+  return db
+    .select()
+    .from(importProfiles)
+    .where(eq(importProfiles.tenantId, tenantId))
+    .orderBy(asc(importProfiles.name))
+    .all();
+}
+
+export async function getProfile(db: Db, tenantId: string, id: string): Promise<ImportProfile | undefined> {
+  return db
+    .select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.tenantId, tenantId)))
+    .get();
+}
+
+export async function getProfileByName(db: Db, tenantId: string, name: string): Promise<ImportProfile | undefined> {
+  return db
+    .select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.tenantId, tenantId), eq(importProfiles.name, name)))
+    .get();
+}
+
+/**
+ * Find the saved profile whose header row matches the file, preferring the most used one
+ */
+export async function findProfileForHeaders(db: Db, tenantId: string, headers: string[]): Promise<ImportProfile | undefined> {
+  return db
+    .select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.tenantId, tenantId), eq(importProfiles.headerSignature, getHeaderSignature(headers))))
+    .orderBy(desc(importProfiles.useCount), desc(importProfiles.updatedAt))
+    .get();
+}
+
+export async function createProfile(db: Db, tenantId: string, input: CreateImportProfileRequest): Promise<ImportProfile> {
+  const now = getCurrentTimestamp();
+  const profile: ImportProfile = {
+    id: crypto.randomUUID(),
+    tenantId,
+    name: input.name,
+    headerSignature: getHeaderSignature(input.headers),
+    headers: JSON.stringify(input.headers),
+    mapping: JSON.stringify(input.mapping),
+    useCount: 0,
+    lastUsedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(importProfiles).values(profile).run();
+
+  return profile;
+}
+
+export async function updateProfile(
+  db: Db,
+  tenantId: string,
+  id: string,
+  input: UpdateImportProfileRequest
+): Promise<ImportProfile | undefined> {
+  const updates: Partial<ImportProfile> = { updatedAt: getCurrentTimestamp() };
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.headers !== undefined) {
+    updates.headers = JSON.stringify(input.headers);
+    updates.headerSignature = getHeaderSignature(input.headers);
+  }
+  if (input.mapping !== undefined) updates.mapping = JSON.stringify(input.mapping);
+
+  await db
+    .update(importProfiles)
+    .set(updates)
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.tenantId, tenantId)))
+    .run();
+
+  return getProfile(db, tenantId, id);
+}
+
+/**
+ * Create a profile, or overwrite the tenant's profile with the same name
+ */
+export async function saveProfile(db: Db, tenantId: string, input: CreateImportProfileRequest): Promise<ImportProfile> {
+  const existing = await getProfileByName(db, tenantId, input.name);
+  if (existing) {
+    return (await updateProfile(db, tenantId, existing.id, input))!;
+  }
+  return createProfile(db, tenantId, input);
+}
+
+export async function deleteProfile(db: Db, tenantId: string, id: string): Promise<void> {
+  await db
+    .delete(importProfiles)
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.tenantId, tenantId)))
+    .run();
+}
+
+export async function recordProfileUse(db: Db, tenantId: string, id: string): Promise<void> {
+  await db
+    .update(importProfiles)
+    .set({
+      useCount: sql`${importProfiles.useCount} + 1`,
+      lastUsedAt: getCurrentTimestamp(),
+    })
+    .where(and(eq(importProfiles.id, id), eq(importProfiles.tenantId, tenantId)))
+    .run();
+}
@@ -0,0 +1,253 @@
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { importLogs, transactions } from '../db';
+import type { ParsedTransaction } from '../utils/fileParser';
+import type { StatementBalancePoint } from './reconciliation';
+import type { getDb } from '../db';
+import type { ImportReviewDecision } from '@finhome360/shared';
+
+type Db = ReturnType<typeof getDb>;
+
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 3;
+export const MAX_DUPLICATE_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AMOUNT_TOLERANCE = 0.005;
+
+export type ImportReviewStatus = 'new' | 'duplicate' | 'conflict';
+export type ImportReviewAction = ImportReviewDecision['action'];
+
+type ExistingTransaction = Pick<
+  typeof transactions.$inferSelect,
+  'id' | 'date' | 'amount' | 'description' | 'type' | 'providerTransactionId'
+>;
+
+export interface ImportReviewMatch {
+  id: string;
+  date: Date;
+  amount: number;
+  description: string;
+}
+
+export interface ImportReviewRow {
+  row: number; // 1-based position in the parsed file
+  status: ImportReviewStatus;
+  reason?: string;
+  match?: ImportReviewMatch;
+  transaction: ParsedTransaction;
+  decision?: ImportReviewAction; // Set when the import is committed
+}
+
+export interface ImportReview {
+  defaultCategoryId: string;
+  windowDays: number;
+  importProfileId: string | null;
+  rows: ImportReviewRow[];
+  statementBalance?: StatementBalancePoint | null; // Closing balance read from the statement, proposed for reconciliation
+}
+
+export interface ImportReviewSummary {
+  total: number;
+  new: number;
+  duplicate: number;
+  conflict: number;
+}
+
+// Words banks add around the merchant name that differ between export formats
+const DESCRIPTION_NOISE = /\b(card payment to|card payment|payment to|direct debit|dd|so|fpi|fpo|bgc|pos|visa|contactless|ref|reference)\b/g;
+
+/**
+ * Reduce a description to the words that identify the payee, so the same payment
+ * exported by different formats or on different days compares equal
+ */
+export function normalizeDescription(description: string): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/\d{1,2}[/.-]\d{1,2}([/.-]\d{2,4})?/g, ' ') // Embedded dates
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\b\w*\d{4,}\w*\b/g, ' ') // Card numbers and payment references
+    .replace(DESCRIPTION_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function descriptionsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  // One export may truncate or extend the merchant name
+  return Math.min(a.length, b.length) >= 4 && (a.includes(b) || b.includes(a));
+}
+
+function toMatch(existing: ExistingTransaction): ImportReviewMatch {
+  return {
+    id: existing.id,
+    date: existing.date,
+    amount: existing.amount,
+    description: existing.description,
+  };
+}
+
+/**
+ * Classify parsed rows against the account's existing transactions.
+ * A row is a likely duplicate when an existing transaction has the same type and amount, a
+ * date within the window and the same normalized description (or provider id). Same type,
+ * amount and date with a different description, or a row repeated within the file, is a conflict for
+ * the user to decide. Each existing transaction is matched as a duplicate at most once.
+ */
+export function classifyImportRows(
+  parsedTransactions: ParsedTransaction[],
+  existingTransactions: ExistingTransaction[],
+  windowDays: number = DEFAULT_DUPLICATE_WINDOW_DAYS
+): ImportReviewRow[] {
+  const windowMs = windowDays * DAY_MS;
+  const claimed = new Set<string>();
+  const existing = existingTransactions.map(txn => ({ txn, description: normalizeDescription(txn.description) }));
+  const seenInFile: { date: number; amount: number; type: ParsedTransaction['type']; description: string }[] = [];
+
+  return parsedTransactions.map((parsed, index) => {
+    const row = index + 1;
+    const date = parsed.date.getTime();
+    const description = normalizeDescription(parsed.description);
+
+    const byProviderId = parsed.providerTransactionId
+      ? existing.find(candidate => !claimed.has(candidate.txn.id) && candidate.txn.providerTransactionId === parsed.providerTransactionId)
+      : undefined;
+
+    const candidates = existing
+      .filter(candidate =>
+        !claimed.has(candidate.txn.id) &&
+        candidate.txn.type === parsed.type &&
+        Math.abs(candidate.txn.amount - parsed.amount) < AMOUNT_TOLERANCE &&
+        Math.abs(candidate.txn.date.getTime() - date) <= windowMs
+      )
+      .sort((a, b) => Math.abs(a.txn.date.getTime() - date) - Math.abs(b.txn.date.getTime() - date));
+
+    const duplicate = byProviderId ?? candidates.find(candidate => descriptionsMatch(candidate.description, description));
+
+    let result: ImportReviewRow;
+    if (duplicate) {
+      claimed.add(duplicate.txn.id);
+      result = {
+        row,
+        status: 'duplicate',
+        reason: byProviderId ? 'Same bank transaction id' : 'Same amount and description within the date window',
+        match: toMatch(duplicate.txn),
+        transaction: parsed,
+      };
+    } else if (candidates.length > 0) {
+      result = {
+        row,
+        status: 'conflict',
+        reason: 'Same amount within the date window but a different description',
+        match: toMatch(candidates[0].txn),
+        transaction: parsed,
+      };
+    } else if (
+      seenInFile.some(seen =>
+        seen.date === date &&
+        seen.type === parsed.type &&
+        Math.abs(seen.amount - parsed.amount) < AMOUNT_TOLERANCE &&
+        seen.description === description
+      )
+    ) {
+      result = { row, status: 'conflict', reason: 'Repeated within this file', transaction: parsed };
+    } else {
+      result = { row, status: 'new', transaction: parsed };
+    }
+
+    seenInFile.push({ date, amount: parsed.amount, type: parsed.type, description });
+    return result;
+  });
+}
+
+/**
+ * Look up existing transactions on the account around the file's dates and classify each row
+ */
+export async function findImportDuplicates(
+  db: Db,
+  tenantId: string,
+  accountId: string,
+  parsedTransactions: ParsedTransaction[],
+  windowDays: number = DEFAULT_DUPLICATE_WINDOW_DAYS
+): Promise<ImportReviewRow[]> {
+  if (parsedTransactions.length === 0) return [];
+
+  const times = parsedTransactions.map(parsed => parsed.date.getTime());
+  const from = new Date(Math.min(...times) - windowDays * DAY_MS);
+  const to = new Date(Math.max(...times) + windowDays * DAY_MS);
+
+  // Archived transactions are included: re-importing them would bring them back
+  const existing = await db
+    .select({
+      id: transactions.id,
+      date: transactions.date,
+      amount: transactions.amount,
+      description: transactions.description,
+      type: transactions.type,
+      providerTransactionId: transactions.providerTransactionId,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.tenantId, tenantId),
+        eq(transactions.accountId, accountId),
+        gte(transactions.date, from),
+        lte(transactions.date, to)
+      )
+    )
+    .all();
+
+  return classifyImportRows(parsedTransactions, existing, windowDays);
+}
+
+export function summarizeReview(rows: ImportReviewRow[]): ImportReviewSummary {
+  return {
+    total: rows.length,
+    new: rows.filter(row => row.status === 'new').length,
+    duplicate: rows.filter(row => row.status === 'duplicate').length,
+    conflict: rows.filter(row => row.status === 'conflict').length,
+  };
+}
+
+/**
+ * New rows are imported unless the user says otherwise; duplicates and conflicts are skipped
+ */
+export function applyReviewDecisions(rows: ImportReviewRow[], decisions: ImportReviewDecision[]): ImportReviewRow[] {
+  const actions = new Map(decisions.map(decision => [decision.row, decision.action]));
+  return rows.map(row => ({
+    ...row,
+    decision: actions.get(row.row) ?? (row.status === 'new' ? 'import' : 'skip'),
+  }));
+}
+
+/**
+ * Park the classified rows on the import log until the user commits them
+ */
+export async function stageImportReview(
+  db: Db,
+  logId: string,
+  review: ImportReview,
+  startedAt: number
+): Promise<void> {
+  await db
+    .update(importLogs)
+    .set({
+      status: 'review',
+      transactionsTotal: review.rows.length,
+      reviewData: JSON.stringify(review),
+      processingTimeMs: Date.now() - startedAt,
+    })
+    .where(eq(importLogs.id, logId))
+    .run();
+}
+
+/**
+ * Read review data back from the import log, restoring dates
+ */
+export function parseImportReview(reviewData: string): ImportReview {
+  const review = JSON.parse(reviewData) as ImportReview;
+  for (const row of review.rows) {
+    row.transaction.date = new Date(row.transaction.date);
+    if (row.match) row.match.date = new Date(row.match.date);
+  }
+  if (review.statementBalance) review.statementBalance.date = new Date(review.statementBalance.date);
+  return review;
+}
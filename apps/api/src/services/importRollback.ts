@@ -0,0 +1,162 @@
+import { and, eq, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { toMinorUnits } from '@finhome360/shared';
+import {
+  accounts,
+  aiFinancialInsights,
+  alertRules,
+  billReminders,
+  budgets,
+  categories,
+  categorizationRules,
+  importLogs,
+  merchantCategoryRules,
+  reconciliations,
+  recurringTransactions,
+  transactionSplits,
+  transactions,
+} from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import { deleteTransactionAttachments } from './attachments';
+import { deleteSplits } from './transactionSplits';
+import { deleteTransactionTags } from './tags';
+import { unlinkBillPayments } from './billReminders';
+import { unlinkTransfersForTransactions } from './transfers';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+type ImportLog = typeof importLogs.$inferSelect;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+export interface ImportRollbackResult {
+  deletedCount: number;
+  balanceChange: number; // Amount taken back off the account balance
+  newBalance: number | null;
+  removedCategoryIds: string[];
+}
+
+// Everything that can point at a category, with the tenant column to scope the lookup
+const CATEGORY_REFERENCES: { table: SQLiteTable; tenantId: SQLiteColumn; categoryId: SQLiteColumn }[] = [
+  { table: transactions, tenantId: transactions.tenantId, categoryId: transactions.categoryId },
+  { table: transactionSplits, tenantId: transactionSplits.tenantId, categoryId: transactionSplits.categoryId },
+  { table: budgets, tenantId: budgets.tenantId, categoryId: budgets.categoryId },
+  { table: billReminders, tenantId: billReminders.tenantId, categoryId: billReminders.categoryId },
+  { table: recurringTransactions, tenantId: recurringTransactions.tenantId, categoryId: recurringTransactions.categoryId },
+  { table: merchantCategoryRules, tenantId: merchantCategoryRules.tenantId, categoryId: merchantCategoryRules.categoryId },
+  { table: categorizationRules, tenantId: categorizationRules.tenantId, categoryId: categorizationRules.setCategoryId },
+  { table: alertRules, tenantId: alertRules.tenantId, categoryId: alertRules.categoryId },
+  { table: aiFinancialInsights, tenantId: aiFinancialInsights.tenantId, categoryId: aiFinancialInsights.relatedCategoryId },
+  { table: categories, tenantId: categories.tenantId, categoryId: categories.parentId },
+];
+
+async function isCategoryUnused(db: Db, tenantId: string, categoryId: string): Promise<boolean> {
+  for (const reference of CATEGORY_REFERENCES) {
+    const condition: SQL = and(eq(reference.tenantId, tenantId), eq(reference.categoryId, categoryId))!;
+    const used = await db
+      .select({ found: sql<number>`1` })
+      .from(reference.table)
+      .where(condition)
+      .limit(1)
+      .get();
+    if (used) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether any transaction created by the import has been locked by a reconciliation
+ */
+export async function hasReconciledTransactions(db: Db, tenantId: string, logId: string): Promise<boolean> {
+  const reconciled = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.importLogId, logId), isNotNull(transactions.reconciledAt)))
+    .limit(1)
+    .get();
+  return Boolean(reconciled);
+}
+
+/**
+ * Undo an import: delete the transactions it created (with their attachments), take its balance change back off
+ * the account, drop categories it created that nothing uses any more, and mark the log.
+ */
+export async function rollbackImport(
+  db: Db,
+  files: R2Bucket | undefined,
+  tenantId: string,
+  log: ImportLog
+): Promise<ImportRollbackResult> {
+  const created = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.importLogId, log.id)))
+    .all();
+  const transactionIds = created.map(txn => txn.id);
+
+  await deleteSplits(db, tenantId, transactionIds);
+  await deleteTransactionTags(db, tenantId, transactionIds);
+  await unlinkBillPayments(db, tenantId, transactionIds);
+  await deleteTransactionAttachments(db, files, tenantId, transactionIds);
+  await unlinkTransfersForTransactions(db, tenantId, transactionIds);
+
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = transactionIds.slice(i, i + ID_CHUNK_SIZE);
+    await db
+      .delete(transactions)
+      .where(and(eq(transactions.tenantId, tenantId), inArray(transactions.id, chunk)))
+      .run();
+  }
+
+  const balanceChange = log.balanceChange ?? 0;
+  let newBalance: number | null = null;
+  if (log.accountId) {
+    const [account] = await db
+      .update(accounts)
+      .set({
+        balance: sql`${accounts.balance} - ${toMinorUnits(balanceChange)}`,
+        updatedAt: getCurrentTimestamp(),
+      })
+      .where(and(eq(accounts.id, log.accountId), eq(accounts.tenantId, tenantId)))
+      .returning({ balance: accounts.balance });
+    newBalance = account?.balance ?? null;
+  }
+
+  const removedCategoryIds: string[] = [];
+  const createdCategoryIds: string[] = log.createdCategoryIds ? JSON.parse(log.createdCategoryIds) : [];
+  for (const categoryId of createdCategoryIds) {
+    if (await isCategoryUnused(db, tenantId, categoryId)) {
+      await db
+        .delete(categories)
+        .where(and(eq(categories.id, categoryId), eq(categories.tenantId, tenantId)))
+        .run();
+      removedCategoryIds.push(categoryId);
+    }
+  }
+
+  // A statement balance proposed by this import no longer has transactions behind it
+  await db
+    .delete(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.tenantId, tenantId),
+        eq(reconciliations.importLogId, log.id),
+        eq(reconciliations.status, 'proposed')
+      )
+    )
+    .run();
+
+  await db
+    .update(importLogs)
+    .set({ status: 'rolled_back', rolledBackAt: getCurrentTimestamp() })
+    .where(and(eq(importLogs.id, log.id), eq(importLogs.tenantId, tenantId)))
+    .run();
+
+  return {
+    deletedCount: transactionIds.length,
+    balanceChange,
+    newBalance,
+    removedCategoryIds,
+  };
+}
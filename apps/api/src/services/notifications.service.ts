@@ -26,9 +26,13 @@ export type NotificationType =
   | 'unusual_spending'
   | 'low_balance'
   | 'large_transaction'
+  | 'custom_alert'
   | 'system'
   | 'insight';
 
+// Only the bindings are needed, so imports and cron jobs can notify too
+export type NotificationContext = Pick<AppContext, 'env'>;
+
 export type NotificationCategory = 'alert' | 'reminder' | 'milestone' | 'insight' | 'system';
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
 
@@ -80,7 +84,7 @@ export class NotificationsService {
    * Create a new notification
    */
   static async createNotification(
-    c: AppContext,
+    c: NotificationContext,
     input: CreateNotificationInput
   ): Promise<typeof notifications.$inferSelect> {
     const db = getDb(c.env.DB);
@@ -247,7 +251,7 @@ export class NotificationsService {
    * Get or create notification preferences for a user
    */
   static async getPreferences(
-    c: AppContext,
+    c: NotificationContext,
     tenantId: string,
     userId: string
   ): Promise<typeof notificationPreferences.$inferSelect> {
@@ -348,7 +352,7 @@ export class NotificationsService {
     for (const { budget, categoryName } of activeBudgets) {
       // Calculate spending for this budget's category
       const spending = await db
-        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)` })
+        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)`.mapWith(transactions.amount) })
         .from(transactions)
         .where(and(
           eq(transactions.tenantId, tenantId),
@@ -530,7 +534,7 @@ export class NotificationsService {
     for (const cat of categoriesWithSpending) {
       // Calculate historical average
       const historicalSpending = await db
-        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)` })
+        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)`.mapWith(transactions.amount) })
         .from(transactions)
         .where(and(
           eq(transactions.tenantId, tenantId),
@@ -545,7 +549,7 @@ export class NotificationsService {
 
       // Get current month spending
       const currentSpending = await db
-        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)` })
+        .select({ total: sql<number>`COALESCE(SUM(ABS(amount)), 0)`.mapWith(transactions.amount) })
         .from(transactions)
         .where(and(
           eq(transactions.tenantId, tenantId),
@@ -730,6 +734,52 @@ export class NotificationsService {
     }
   }
 
+  /**
+   * Ask users to confirm that a transaction paid a bill, when the bill matcher
+   * is not confident enough to mark it paid itself
+   */
+  static async notifyPossibleBillPayment(
+    c: NotificationContext,
+    tenantId: string,
+    bill: { id: string; name: string; dueDate: Date },
+    transaction: { id: string; amount: number; date: Date; description: string },
+    confidence: number
+  ): Promise<number> {
+    const db = getDb(c.env.DB);
+
+    const tenantUsers = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.tenantId, tenantId));
+
+    let sent = 0;
+    for (const user of tenantUsers) {
+      const prefs = await this.getPreferences(c, tenantId, user.id);
+      if (!prefs.pushBillReminders) continue;
+
+      const amount = Math.abs(transaction.amount);
+      await this.createNotification(c, {
+        tenantId,
+        userId: user.id,
+        type: 'bill_reminder',
+        category: 'reminder',
+        priority: 'medium',
+        title: `Did this pay ${bill.name}?`,
+        message: `"${transaction.description}" (£${amount.toFixed(2)} on ${transaction.date.toLocaleDateString('en-GB')}) looks like the payment for ${bill.name}, due ${bill.dueDate.toLocaleDateString('en-GB')}. Confirm to mark the bill paid.`,
+        actionUrl: '/dashboard/bill-reminders',
+        actionLabel: 'Review Bill',
+        icon: '🧾',
+        color: '#f59e0b',
+        relatedEntityType: 'bill',
+        relatedEntityId: bill.id,
+        metadata: { billReminderId: bill.id, transactionId: transaction.id, amount, confidence },
+      });
+      sent++;
+    }
+
+    return sent;
+  }
+
   /**
    * Run all alert checks
    */
@@ -0,0 +1,417 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+
+/**
+ * PDF Report Builder
+ *
+ * Lays out export reports (header, summary boxes, tables and simple bar
+ * charts) on A4 pages with pdf-lib. Tables continue onto new pages with
+ * their header repeated, and every page gets a footer with its page number.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 36;
+const ROW_HEIGHT = 16;
+const TABLE_FONT_SIZE = 8.5;
+
+const COLORS = {
+  brand: rgb(0.15, 0.35, 0.75),
+  heading: rgb(0.1, 0.3, 0.7),
+  text: rgb(0.2, 0.2, 0.2),
+  muted: rgb(0.45, 0.45, 0.45),
+  rule: rgb(0.85, 0.85, 0.88),
+  headerFill: rgb(0.92, 0.94, 0.98),
+  stripe: rgb(0.97, 0.97, 0.98),
+  white: rgb(1, 1, 1),
+  income: rgb(0.2, 0.6, 0.35),
+  expense: rgb(0.8, 0.3, 0.3),
+  bar: rgb(0.3, 0.5, 0.9),
+};
+
+// Characters outside Latin-1 that the standard (WinAnsi) fonts can still encode
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+export interface PdfReportOptions {
+  title: string;
+  subtitle?: string;
+  currency?: string;
+  currencySymbol?: string;
+  generatedAt?: Date;
+}
+
+export interface PdfSummaryItem {
+  label: string;
+  value: string;
+  tone?: 'income' | 'expense' | 'neutral';
+}
+
+export interface PdfTableColumn {
+  header: string;
+  // Share of the content width; shares are normalised across columns
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfBarChartItem {
+  label: string;
+  value: number;
+}
+
+export interface PdfBarChartOptions {
+  formatValue?: (value: number) => string;
+  maxValue?: number;
+}
+
+export interface PdfColumnChartGroup {
+  label: string;
+  values: number[];
+}
+
+/**
+ * Strip characters the standard PDF fonts cannot encode (emoji, CJK, ...)
+ */
+export function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '\n' || char === '\t') {
+      result += ' ';
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)) {
+      result += char;
+    }
+  }
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+export class PdfReport {
+  private page!: PDFPage;
+  private y = 0;
+  private readonly moneyPrefix: string;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly options: PdfReportOptions
+  ) {
+    const symbol = options.currencySymbol ? toWinAnsi(options.currencySymbol) : '';
+    // Fall back to the ISO code when the symbol cannot be drawn with the standard fonts
+    this.moneyPrefix = symbol || (options.currency ? `${options.currency} ` : '£');
+  }
+
+  static async create(options: PdfReportOptions): Promise<PdfReport> {
+    const doc = await PDFDocument.create();
+    doc.setTitle(options.title);
+    doc.setCreator('Finhome360');
+    doc.setProducer('Finhome360');
+
+    const [font, bold] = await Promise.all([
+      doc.embedFont(StandardFonts.Helvetica),
+      doc.embedFont(StandardFonts.HelveticaBold),
+    ]);
+
+    const report = new PdfReport(doc, font, bold, options);
+    report.addPage();
+    report.drawTitle();
+    return report;
+  }
+
+  /**
+   * Format an amount with the tenant's currency symbol
+   */
+  formatMoney(amount: number): string {
+    const formatted = Math.abs(amount || 0).toLocaleString('en-GB', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    return `${amount < 0 ? '-' : ''}${this.moneyPrefix}${formatted}`;
+  }
+
+  /**
+   * Section heading with a rule above it
+   */
+  addSection(title: string): void {
+    this.ensureSpace(48);
+    this.y -= 12;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1.2,
+      color: COLORS.brand,
+    });
+    this.y -= 18;
+    this.drawText(title.toUpperCase(), MARGIN, this.y, 12, this.bold, COLORS.heading);
+    this.y -= 12;
+  }
+
+  /**
+   * A line of muted text, e.g. to explain an empty section
+   */
+  addNote(text: string): void {
+    this.ensureSpace(ROW_HEIGHT);
+    this.drawText(text, MARGIN, this.y - 10, 9, this.font, COLORS.muted);
+    this.y -= ROW_HEIGHT;
+  }
+
+  /**
+   * Row of summary boxes (up to four per row)
+   */
+  addSummary(items: PdfSummaryItem[]): void {
+    const perRow = Math.min(4, Math.max(items.length, 1));
+    const gap = 10;
+    const boxWidth = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+    const boxHeight = 46;
+
+    for (let i = 0; i < items.length; i += perRow) {
+      this.ensureSpace(boxHeight + 10);
+      const bottom = this.y - boxHeight;
+
+      items.slice(i, i + perRow).forEach((item, index) => {
+        const x = MARGIN + index * (boxWidth + gap);
+        const color = item.tone === 'income' ? COLORS.income : item.tone === 'expense' ? COLORS.expense : COLORS.brand;
+
+        this.page.drawRectangle({
+          x,
+          y: bottom,
+          width: boxWidth,
+          height: boxHeight,
+          color: COLORS.stripe,
+          borderColor: color,
+          borderWidth: 1,
+        });
+        this.drawText(this.fit(item.label.toUpperCase(), boxWidth - 16, 7.5, this.bold), x + 8, bottom + 30, 7.5, this.bold, COLORS.muted);
+        this.drawText(this.fit(item.value, boxWidth - 16, 13, this.bold), x + 8, bottom + 11, 13, this.bold, color);
+      });
+
+      this.y = bottom - 10;
+    }
+  }
+
+  /**
+   * Table that flows across pages, repeating its header row
+   */
+  addTable(columns: PdfTableColumn[], rows: string[][], footer?: string[]): void {
+    const totalShare = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map(column => (column.width / totalShare) * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], font: PDFFont, fill: RGB | null) => {
+      if (fill) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - ROW_HEIGHT, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: fill });
+      }
+
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const text = this.fit(cells[index] ?? '', widths[index] - 8, TABLE_FONT_SIZE, font);
+        const textX = column.align === 'right'
+          ? x + widths[index] - 4 - font.widthOfTextAtSize(text, TABLE_FONT_SIZE)
+          : x + 4;
+        this.drawText(text, textX, this.y - ROW_HEIGHT + 5, TABLE_FONT_SIZE, font, COLORS.text);
+        x += widths[index];
+      });
+
+      this.y -= ROW_HEIGHT;
+    };
+
+    const drawHeader = () => drawRow(columns.map(column => column.header), this.bold, COLORS.headerFill);
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+
+    if (rows.length === 0) {
+      this.addNote('No records for this period.');
+      return;
+    }
+
+    rows.forEach((row, index) => {
+      if (this.y - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+        this.addPage();
+        drawHeader();
+      }
+      drawRow(row, this.font, index % 2 === 1 ? COLORS.stripe : null);
+    });
+
+    if (footer) {
+      this.ensureSpace(ROW_HEIGHT);
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+        thickness: 0.8,
+        color: COLORS.rule,
+      });
+      drawRow(footer, this.bold, null);
+    }
+
+    this.y -= 6;
+  }
+
+  /**
+   * Horizontal bar chart, one bar per item
+   */
+  addBarChart(items: PdfBarChartItem[], options: PdfBarChartOptions = {}): void {
+    if (items.length === 0) {
+      this.addNote('No data to chart.');
+      return;
+    }
+
+    const formatValue = options.formatValue ?? ((value: number) => this.formatMoney(value));
+    const labelWidth = 140;
+    const valueWidth = 90;
+    const barArea = CONTENT_WIDTH - labelWidth - valueWidth;
+    const max = options.maxValue ?? Math.max(...items.map(item => item.value), 0);
+
+    for (const item of items) {
+      this.ensureSpace(ROW_HEIGHT);
+      const barWidth = max > 0 ? Math.max(1, (Math.max(item.value, 0) / max) * barArea) : 1;
+      const baseline = this.y - ROW_HEIGHT + 5;
+
+      this.drawText(this.fit(item.label, labelWidth - 8, 9, this.font), MARGIN, baseline, 9, this.font, COLORS.text);
+      this.page.drawRectangle({
+        x: MARGIN + labelWidth,
+        y: baseline - 2,
+        width: Math.min(barWidth, barArea),
+        height: 10,
+        color: COLORS.bar,
+      });
+      this.drawText(formatValue(item.value), MARGIN + labelWidth + Math.min(barWidth, barArea) + 6, baseline, 8.5, this.font, COLORS.muted);
+      this.y -= ROW_HEIGHT;
+    }
+
+    this.y -= 6;
+  }
+
+  /**
+   * Vertical grouped column chart, e.g. income vs expenses per month
+   */
+  addColumnChart(groups: PdfColumnChartGroup[], seriesNames: string[]): void {
+    if (groups.length === 0) {
+      this.addNote('No data to chart.');
+      return;
+    }
+
+    const chartHeight = 150;
+    const seriesColors = [COLORS.income, COLORS.expense, COLORS.bar];
+    this.ensureSpace(chartHeight + 50);
+
+    // Legend
+    let legendX = MARGIN;
+    seriesNames.forEach((name, index) => {
+      this.page.drawRectangle({ x: legendX, y: this.y - 10, width: 8, height: 8, color: seriesColors[index % seriesColors.length] });
+      this.drawText(name, legendX + 12, this.y - 9, 8.5, this.font, COLORS.text);
+      legendX += 24 + this.font.widthOfTextAtSize(toWinAnsi(name), 8.5);
+    });
+
+    const axisY = this.y - 24 - chartHeight;
+    const max = Math.max(...groups.flatMap(group => group.values), 0);
+    const groupWidth = CONTENT_WIDTH / groups.length;
+    const columnWidth = Math.min(24, (groupWidth - 8) / Math.max(seriesNames.length, 1));
+
+    this.page.drawLine({
+      start: { x: MARGIN, y: axisY },
+      end: { x: PAGE_WIDTH - MARGIN, y: axisY },
+      thickness: 0.8,
+      color: COLORS.rule,
+    });
+    this.drawText(this.formatMoney(max), MARGIN, axisY + chartHeight + 2, 7.5, this.font, COLORS.muted);
+
+    groups.forEach((group, groupIndex) => {
+      const groupX = MARGIN + groupIndex * groupWidth;
+      const columnsWidth = columnWidth * group.values.length;
+      const startX = groupX + (groupWidth - columnsWidth) / 2;
+
+      group.values.forEach((value, index) => {
+        const height = max > 0 ? (Math.max(value, 0) / max) * chartHeight : 0;
+        if (height > 0) {
+          this.page.drawRectangle({
+            x: startX + index * columnWidth,
+            y: axisY,
+            width: columnWidth - 2,
+            height,
+            color: seriesColors[index % seriesColors.length],
+          });
+        }
+      });
+
+      const label = this.fit(group.label, groupWidth - 2, 7.5, this.font);
+      const labelX = groupX + (groupWidth - this.font.widthOfTextAtSize(label, 7.5)) / 2;
+      this.drawText(label, labelX, axisY - 11, 7.5, this.font, COLORS.muted);
+    });
+
+    this.y = axisY - 24;
+  }
+
+  /**
+   * Add page footers and serialise the document
+   */
+  async save(): Promise<Uint8Array<ArrayBuffer>> {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const label = `Page ${index + 1} of ${pages.length}`;
+      page.drawText('Finhome360', { x: MARGIN, y: MARGIN - 20, size: 8, font: this.font, color: COLORS.muted });
+      page.drawText(label, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(label, 8),
+        y: MARGIN - 20,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    });
+
+    // pdf-lib always serialises into a fresh ArrayBuffer
+    return (await this.doc.save()) as Uint8Array<ArrayBuffer>;
+  }
+
+  private addPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private drawTitle(): void {
+    const generatedAt = (this.options.generatedAt ?? new Date()).toLocaleString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    this.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 56, width: PAGE_WIDTH, height: 56, color: COLORS.brand });
+    this.drawText(this.options.title.toUpperCase(), MARGIN, PAGE_HEIGHT - 32, 17, this.bold, COLORS.white);
+    this.drawText('Finhome360', MARGIN, PAGE_HEIGHT - 46, 8.5, this.font, COLORS.white);
+
+    this.y = PAGE_HEIGHT - 76;
+    if (this.options.subtitle) {
+      this.drawText(this.options.subtitle, MARGIN, this.y, 10, this.bold, COLORS.text);
+      this.y -= 14;
+    }
+    this.drawText(`Generated ${generatedAt}`, MARGIN, this.y, 8.5, this.font, COLORS.muted);
+    this.y -= 10;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  private drawText(text: string, x: number, y: number, size: number, font: PDFFont, color: RGB): void {
+    const safe = toWinAnsi(text);
+    if (safe) {
+      this.page.drawText(safe, { x, y, size, font, color });
+    }
+  }
+
+  /**
+   * Truncate text with an ellipsis so it fits the given width
+   */
+  private fit(text: string, maxWidth: number, size: number, font: PDFFont): string {
+    let safe = toWinAnsi(text);
+    if (font.widthOfTextAtSize(safe, size) <= maxWidth) return safe;
+
+    while (safe.length > 1 && font.widthOfTextAtSize(`${safe}…`, size) > maxWidth) {
+      safe = safe.slice(0, -1);
+    }
+    return `${safe.trimEnd()}…`;
+  }
+}
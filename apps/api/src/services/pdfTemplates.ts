@@ -0,0 +1,125 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { compilePdfTemplate, type BankPdfTemplate, type BankPdfTemplateDefinition } from '@finhome360/shared';
+import { pdfTemplates } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+import type { CreatePdfTemplateRequest, UpdatePdfTemplateRequest } from '@finhome360/shared';
+
+type Db = ReturnType<typeof getDb>;
+
+export type PdfTemplate = typeof pdfTemplates.$inferSelect;
+
+export interface PdfTemplateResponse extends BankPdfTemplateDefinition {
+  id: string;
+  custom: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export function toPdfTemplateResponse(template: PdfTemplate): PdfTemplateResponse {
+  return {
+    ...(JSON.parse(template.definition) as BankPdfTemplateDefinition),
+    id: template.id,
+    custom: true,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Built-in templates in the same shape as tenant templates
+ */
+export function builtInTemplateResponse(template: BankPdfTemplate): PdfTemplateResponse {
+  const { id, rowPattern, ...rest } = template;
+  return { ...rest, id, rowPattern: rowPattern.source, rowPatternFlags: rowPattern.flags || undefined, custom: false };
+}
+
+export async function listPdfTemplates(db: Db, tenantId: string): Promise<PdfTemplate[]> {
+  return db
+    .select()
+    .from(pdfTemplates)
+    .where(eq(pdfTemplates.tenantId, tenantId))
+    .orderBy(asc(pdfTemplates.displayName))
+    .all();
+}
+
+export async function getPdfTemplate(db: Db, tenantId: string, id: string): Promise<PdfTemplate | undefined> {
+  return db
+    .select()
+    .from(pdfTemplates)
+    .where(and(eq(pdfTemplates.id, id), eq(pdfTemplates.tenantId, tenantId)))
+    .get();
+}
+
+export async function getPdfTemplateByName(db: Db, tenantId: string, displayName: string): Promise<PdfTemplate | undefined> {
+  return db
+    .select()
+    .from(pdfTemplates)
+    .where(and(eq(pdfTemplates.tenantId, tenantId), eq(pdfTemplates.displayName, displayName)))
+    .get();
+}
+
+/**
+ * The tenant's templates, compiled for detectPdfTemplate. Definitions that no longer compile are skipped.
+ */
+export async function getTenantPdfTemplates(db: Db, tenantId: string): Promise<BankPdfTemplate[]> {
+  const templates: BankPdfTemplate[] = [];
+  for (const template of await listPdfTemplates(db, tenantId)) {
+    try {
+      templates.push(compilePdfTemplate(template.id, JSON.parse(template.definition)));
+    } catch (error) {
+      console.error(`Skipping invalid PDF template ${template.id}:`, error);
+    }
+  }
+  return templates;
+}
+
+export async function createPdfTemplate(
+  db: Db,
+  tenantId: string,
+  userId: string | null,
+  input: CreatePdfTemplateRequest
+): Promise<PdfTemplate> {
+  const now = getCurrentTimestamp();
+  const template: PdfTemplate = {
+    id: crypto.randomUUID(),
+    tenantId,
+    displayName: input.displayName,
+    definition: JSON.stringify(input),
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(pdfTemplates).values(template).run();
+
+  return template;
+}
+
+export async function updatePdfTemplate(
+  db: Db,
+  tenantId: string,
+  existing: PdfTemplate,
+  input: UpdatePdfTemplateRequest
+): Promise<PdfTemplate | undefined> {
+  const definition: BankPdfTemplateDefinition = { ...JSON.parse(existing.definition), ...input };
+
+  await db
+    .update(pdfTemplates)
+    .set({
+      displayName: definition.displayName,
+      definition: JSON.stringify(definition),
+      updatedAt: getCurrentTimestamp(),
+    })
+    .where(and(eq(pdfTemplates.id, existing.id), eq(pdfTemplates.tenantId, tenantId)))
+    .run();
+
+  return getPdfTemplate(db, tenantId, existing.id);
+}
+
+export async function deletePdfTemplate(db: Db, tenantId: string, id: string): Promise<void> {
+  await db
+    .delete(pdfTemplates)
+    .where(and(eq(pdfTemplates.id, id), eq(pdfTemplates.tenantId, tenantId)))
+    .run();
+}
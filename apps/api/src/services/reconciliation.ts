@@ -0,0 +1,546 @@
+import { and, desc, eq, inArray, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { subtractMoney, sumMoney, toMinorUnits } from '@finhome360/shared';
+import { accounts, reconciliations, transactions, transfers } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+import type { MT940Statement, ParsedTransaction } from '../utils/fileParser';
+
+type Db = ReturnType<typeof getDb>;
+
+export type Reconciliation = typeof reconciliations.$inferSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AMOUNT_TOLERANCE = 0.005;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+// Fields that can still be edited once a transaction is reconciled
+export const RECONCILED_EDITABLE_FIELDS = ['categoryId', 'notes'];
+
+// A closing balance read from an imported statement
+export interface StatementBalancePoint {
+  date: Date;
+  balance: number;
+}
+
+export interface ReconciliationSummary {
+  openingBalance: number;
+  clearedCount: number;
+  clearedTotal: number; // Signed: money in is positive
+  clearedBalance: number; // Opening balance plus the cleared transactions
+  statementBalance: number;
+  difference: number; // Statement balance minus cleared balance; zero when the reconciliation can complete
+  balanced: boolean;
+}
+
+export interface ReconciliationTransaction {
+  id: string;
+  date: Date;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  signedAmount: number;
+  cleared: boolean;
+}
+
+export interface ReconciliationCompletion {
+  reconciliation: Reconciliation;
+  summary: ReconciliationSummary;
+  lockedCount: number;
+  accountBalance: number;
+  // Account balance minus what it should be (statement balance plus transactions not yet reconciled)
+  balanceDrift: number;
+}
+
+/**
+ * The effect of a transaction on its account's balance. Transfers are a debit
+ * on the sending side and a credit on the receiving side.
+ */
+export function signedAmount(
+  transaction: { id: string; amount: number; type: 'income' | 'expense' | 'transfer' },
+  transferFromTransactionId?: string | null
+): number {
+  const amount = Math.abs(transaction.amount);
+  if (transaction.type === 'income') return amount;
+  if (transaction.type === 'expense') return -amount;
+  return transferFromTransactionId === transaction.id ? -amount : amount;
+}
+
+export function summarizeReconciliation(
+  openingBalance: number,
+  statementBalance: number,
+  clearedAmounts: number[]
+): ReconciliationSummary {
+  const clearedTotal = sumMoney(clearedAmounts);
+  const clearedBalance = sumMoney([openingBalance, clearedTotal]);
+  const difference = subtractMoney(statementBalance, clearedBalance);
+
+  return {
+    openingBalance,
+    clearedCount: clearedAmounts.length,
+    clearedTotal,
+    clearedBalance,
+    statementBalance,
+    difference,
+    balanced: Math.abs(difference) < AMOUNT_TOLERANCE,
+  };
+}
+
+/**
+ * The latest closing balance an import can vouch for: the last MT940 closing
+ * balance, or the running balance on the latest row of a PDF statement.
+ */
+export function findStatementBalancePoint(
+  parsedTransactions: ParsedTransaction[],
+  statements?: MT940Statement[]
+): StatementBalancePoint | null {
+  let point: StatementBalancePoint | null = null;
+
+  for (const statement of statements ?? []) {
+    const closing = statement.closingBalance;
+    if (closing && (!point || closing.date.getTime() >= point.date.getTime())) {
+      point = { date: closing.date, balance: closing.amount };
+    }
+  }
+  if (point) return point;
+
+  // Rows are in statement order, so a later row on the same day carries the later balance
+  for (const transaction of parsedTransactions) {
+    if (transaction.balance === undefined) continue;
+    if (!point || transaction.date.getTime() >= point.date.getTime()) {
+      point = { date: transaction.date, balance: transaction.balance };
+    }
+  }
+  return point;
+}
+
+// Transactions dated on the statement day count towards it
+function statementCutoff(reconciliation: Reconciliation): Date {
+  return new Date(reconciliation.statementDate.getTime() + DAY_MS - 1);
+}
+
+async function selectSignedTransactions(db: Db, condition: ReturnType<typeof and>) {
+  const rows = await db
+    .select({
+      id: transactions.id,
+      date: transactions.date,
+      description: transactions.description,
+      amount: transactions.amount,
+      type: transactions.type,
+      reconciliationId: transactions.reconciliationId,
+      transferFromTransactionId: transfers.fromTransactionId,
+    })
+    .from(transactions)
+    .leftJoin(transfers, eq(transfers.id, transactions.transferId))
+    .where(condition)
+    .orderBy(transactions.date)
+    .all();
+
+  return rows.map(row => ({ ...row, signedAmount: signedAmount(row, row.transferFromTransactionId) }));
+}
+
+export async function getReconciliation(db: Db, tenantId: string, id: string): Promise<Reconciliation | undefined> {
+  return db
+    .select()
+    .from(reconciliations)
+    .where(and(eq(reconciliations.id, id), eq(reconciliations.tenantId, tenantId)))
+    .get();
+}
+
+export async function listReconciliations(db: Db, tenantId: string, accountId?: string): Promise<Reconciliation[]> {
+  return db
+    .select()
+    .from(reconciliations)
+    .where(and(eq(reconciliations.tenantId, tenantId), accountId ? eq(reconciliations.accountId, accountId) : undefined))
+    .orderBy(desc(reconciliations.statementDate), desc(reconciliations.createdAt))
+    .all();
+}
+
+export async function getLastCompletedReconciliation(
+  db: Db,
+  tenantId: string,
+  accountId: string
+): Promise<Reconciliation | undefined> {
+  return db
+    .select()
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.tenantId, tenantId),
+        eq(reconciliations.accountId, accountId),
+        eq(reconciliations.status, 'completed')
+      )
+    )
+    .orderBy(desc(reconciliations.statementDate), desc(reconciliations.completedAt))
+    .get();
+}
+
+/**
+ * The reconciliation currently being worked on for an account; there is at most one
+ */
+export async function getActiveReconciliation(
+  db: Db,
+  tenantId: string,
+  accountId: string
+): Promise<Reconciliation | undefined> {
+  return db
+    .select()
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.tenantId, tenantId),
+        eq(reconciliations.accountId, accountId),
+        eq(reconciliations.status, 'in_progress')
+      )
+    )
+    .get();
+}
+
+export async function createReconciliation(
+  db: Db,
+  tenantId: string,
+  userId: string | null,
+  input: {
+    accountId: string;
+    statementDate: Date;
+    statementBalance: number;
+    source: Reconciliation['source'];
+    importLogId?: string | null;
+  }
+): Promise<Reconciliation> {
+  const now = getCurrentTimestamp();
+  const reconciliation: Reconciliation = {
+    id: crypto.randomUUID(),
+    tenantId,
+    accountId: input.accountId,
+    status: 'proposed',
+    source: input.source,
+    importLogId: input.importLogId ?? null,
+    statementDate: input.statementDate,
+    statementBalance: input.statementBalance,
+    openingBalance: null,
+    balanceAdjustment: null,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+
+  await db.insert(reconciliations).values(reconciliation).run();
+
+  return reconciliation;
+}
+
+/**
+ * Record the closing balance of an imported statement as a proposed reconciliation.
+ * Nothing is proposed for dates already reconciled or for a point that is already proposed.
+ */
+export async function proposeReconciliation(
+  db: Db,
+  tenantId: string,
+  userId: string | null,
+  accountId: string,
+  importLogId: string,
+  point: StatementBalancePoint
+): Promise<Reconciliation | null> {
+  const last = await getLastCompletedReconciliation(db, tenantId, accountId);
+  if (last && last.statementDate.getTime() >= point.date.getTime()) return null;
+
+  const existing = await db
+    .select({ id: reconciliations.id })
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.tenantId, tenantId),
+        eq(reconciliations.accountId, accountId),
+        eq(reconciliations.statementDate, point.date),
+        eq(reconciliations.statementBalance, point.balance),
+        inArray(reconciliations.status, ['proposed', 'in_progress'])
+      )
+    )
+    .get();
+  if (existing) return null;
+
+  return createReconciliation(db, tenantId, userId, {
+    accountId,
+    statementDate: point.date,
+    statementBalance: point.balance,
+    source: 'import',
+    importLogId,
+  });
+}
+
+/**
+ * Begin ticking off transactions. The opening balance carries over from the previous
+ * reconciliation; the first one for an account starts from the given balance (or zero).
+ * Reconciliations proposed by an import start with that import's transactions ticked.
+ */
+export async function startReconciliation(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation,
+  openingBalance?: number
+): Promise<Reconciliation> {
+  const last = await getLastCompletedReconciliation(db, tenantId, reconciliation.accountId);
+  const now = getCurrentTimestamp();
+  const started: Reconciliation = {
+    ...reconciliation,
+    status: 'in_progress',
+    openingBalance: last ? last.statementBalance : openingBalance ?? 0,
+    updatedAt: now,
+  };
+
+  await db
+    .update(reconciliations)
+    .set({ status: started.status, openingBalance: started.openingBalance, updatedAt: now })
+    .where(and(eq(reconciliations.id, reconciliation.id), eq(reconciliations.tenantId, tenantId)))
+    .run();
+
+  if (reconciliation.importLogId) {
+    await db
+      .update(transactions)
+      .set({ reconciliationId: reconciliation.id })
+      .where(
+        and(
+          eq(transactions.tenantId, tenantId),
+          eq(transactions.accountId, reconciliation.accountId),
+          eq(transactions.importLogId, reconciliation.importLogId),
+          isNull(transactions.reconciliationId),
+          isNull(transactions.reconciledAt),
+          lte(transactions.date, statementCutoff(reconciliation))
+        )
+      )
+      .run();
+  }
+
+  return started;
+}
+
+/**
+ * Transactions that can be ticked off against the statement: everything on the account
+ * up to the statement date that is not already reconciled. Completed reconciliations
+ * list the transactions they locked.
+ */
+export async function getReconciliationTransactions(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation
+): Promise<ReconciliationTransaction[]> {
+  const condition = reconciliation.status === 'completed'
+    ? and(eq(transactions.tenantId, tenantId), eq(transactions.reconciliationId, reconciliation.id))
+    : and(
+        eq(transactions.tenantId, tenantId),
+        eq(transactions.accountId, reconciliation.accountId),
+        isNull(transactions.reconciledAt),
+        or(isNull(transactions.reconciliationId), eq(transactions.reconciliationId, reconciliation.id)),
+        lte(transactions.date, statementCutoff(reconciliation))
+      );
+
+  const rows = await selectSignedTransactions(db, condition);
+
+  return rows.map(row => ({
+    id: row.id,
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    type: row.type,
+    signedAmount: row.signedAmount,
+    cleared: row.reconciliationId === reconciliation.id,
+  }));
+}
+
+export async function getReconciliationSummary(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation
+): Promise<ReconciliationSummary> {
+  const cleared = await selectSignedTransactions(
+    db,
+    and(eq(transactions.tenantId, tenantId), eq(transactions.reconciliationId, reconciliation.id))
+  );
+
+  return summarizeReconciliation(
+    reconciliation.openingBalance ?? 0,
+    reconciliation.statementBalance,
+    cleared.map(row => row.signedAmount)
+  );
+}
+
+/**
+ * Tick transactions off (or untick them). Only unreconciled transactions of the account
+ * dated up to the statement date are touched. Returns the number that changed.
+ */
+export async function setTransactionsCleared(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation,
+  transactionIds: string[],
+  cleared: boolean
+): Promise<number> {
+  const uniqueIds = [...new Set(transactionIds)];
+  let changed = 0;
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    const updated = await db
+      .update(transactions)
+      .set({ reconciliationId: cleared ? reconciliation.id : null })
+      .where(
+        and(
+          eq(transactions.tenantId, tenantId),
+          eq(transactions.accountId, reconciliation.accountId),
+          inArray(transactions.id, chunk),
+          isNull(transactions.reconciledAt),
+          cleared ? isNull(transactions.reconciliationId) : eq(transactions.reconciliationId, reconciliation.id),
+          lte(transactions.date, statementCutoff(reconciliation))
+        )
+      )
+      .returning({ id: transactions.id });
+    changed += updated.length;
+  }
+
+  return changed;
+}
+
+/**
+ * Lock the ticked transactions and close the reconciliation. The caller checks the
+ * difference is zero first. With adjustBalance the account balance is corrected to the
+ * statement balance plus everything not yet reconciled.
+ */
+export async function completeReconciliation(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation,
+  summary: ReconciliationSummary,
+  adjustBalance: boolean
+): Promise<ReconciliationCompletion> {
+  const now = getCurrentTimestamp();
+
+  const locked = await db
+    .update(transactions)
+    .set({ reconciledAt: now })
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.reconciliationId, reconciliation.id)))
+    .returning({ id: transactions.id });
+
+  const outstanding = await selectSignedTransactions(
+    db,
+    and(
+      eq(transactions.tenantId, tenantId),
+      eq(transactions.accountId, reconciliation.accountId),
+      isNull(transactions.reconciledAt)
+    )
+  );
+  const expectedBalance = sumMoney([reconciliation.statementBalance, ...outstanding.map(row => row.signedAmount)]);
+
+  const account = await db
+    .select({ balance: accounts.balance })
+    .from(accounts)
+    .where(and(eq(accounts.id, reconciliation.accountId), eq(accounts.tenantId, tenantId)))
+    .get();
+  let accountBalance = account?.balance ?? 0;
+  const drift = subtractMoney(accountBalance, expectedBalance);
+
+  let balanceAdjustment: number | null = null;
+  if (adjustBalance && Math.abs(drift) >= AMOUNT_TOLERANCE) {
+    balanceAdjustment = -drift;
+    accountBalance = expectedBalance;
+    await db
+      .update(accounts)
+      .set({ balance: expectedBalance, updatedAt: now })
+      .where(and(eq(accounts.id, reconciliation.accountId), eq(accounts.tenantId, tenantId)))
+      .run();
+  }
+
+  const completed: Reconciliation = {
+    ...reconciliation,
+    status: 'completed',
+    balanceAdjustment,
+    completedAt: now,
+    updatedAt: now,
+  };
+
+  await db
+    .update(reconciliations)
+    .set({ status: 'completed', balanceAdjustment, completedAt: now, updatedAt: now })
+    .where(and(eq(reconciliations.id, reconciliation.id), eq(reconciliations.tenantId, tenantId)))
+    .run();
+
+  return {
+    reconciliation: completed,
+    summary,
+    lockedCount: locked.length,
+    accountBalance,
+    balanceDrift: balanceAdjustment === null ? drift : 0,
+  };
+}
+
+/**
+ * Unlock a completed reconciliation so it can be corrected. Any balance adjustment
+ * it made is reversed. Only the account's latest reconciliation can be reopened.
+ */
+export async function reopenReconciliation(
+  db: Db,
+  tenantId: string,
+  reconciliation: Reconciliation
+): Promise<Reconciliation> {
+  const now = getCurrentTimestamp();
+
+  await db
+    .update(transactions)
+    .set({ reconciledAt: null })
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.reconciliationId, reconciliation.id)))
+    .run();
+
+  if (reconciliation.balanceAdjustment) {
+    await db
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} - ${toMinorUnits(reconciliation.balanceAdjustment)}`, updatedAt: now })
+      .where(and(eq(accounts.id, reconciliation.accountId), eq(accounts.tenantId, tenantId)))
+      .run();
+  }
+
+  await db
+    .update(reconciliations)
+    .set({ status: 'in_progress', balanceAdjustment: null, completedAt: null, updatedAt: now })
+    .where(and(eq(reconciliations.id, reconciliation.id), eq(reconciliations.tenantId, tenantId)))
+    .run();
+
+  return { ...reconciliation, status: 'in_progress', balanceAdjustment: null, completedAt: null, updatedAt: now };
+}
+
+/**
+ * Discard a proposed or in-progress reconciliation, unticking its transactions
+ */
+export async function deleteReconciliation(db: Db, tenantId: string, reconciliation: Reconciliation): Promise<void> {
+  await db
+    .update(transactions)
+    .set({ reconciliationId: null })
+    .where(and(eq(transactions.tenantId, tenantId), eq(transactions.reconciliationId, reconciliation.id)))
+    .run();
+
+  await db
+    .delete(reconciliations)
+    .where(and(eq(reconciliations.id, reconciliation.id), eq(reconciliations.tenantId, tenantId)))
+    .run();
+}
+
+/**
+ * The subset of the given transactions locked by a completed reconciliation
+ */
+export async function findReconciledTransactionIds(db: Db, tenantId: string, transactionIds: string[]): Promise<string[]> {
+  const uniqueIds = [...new Set(transactionIds)];
+  const locked: string[] = [];
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    const rows = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.tenantId, tenantId), inArray(transactions.id, chunk), isNotNull(transactions.reconciledAt)))
+      .all();
+    locked.push(...rows.map(row => row.id));
+  }
+
+  return locked;
+}
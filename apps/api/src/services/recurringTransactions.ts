@@ -0,0 +1,242 @@
+import { and, asc, eq, isNotNull, lt, lte, or, sql } from 'drizzle-orm';
+import { DEFAULT_CURRENCY, toMinorUnits } from '@finhome360/shared';
+import { accounts, recurringTransactions, transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
+export type RecurringFrequency = RecurringTransaction['frequency'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences posted per template and run; a longer backlog is caught up on the next tick
+export const MAX_OCCURRENCES_PER_RUN = 100;
+
+// Upper bound on listed upcoming occurrences, for daily templates over long windows
+const MAX_UPCOMING_OCCURRENCES = 1000;
+
+const DAY_STEPS: Partial<Record<RecurringFrequency, number>> = { daily: 1, weekly: 7, biweekly: 14 };
+const MONTH_STEPS: Partial<Record<RecurringFrequency, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+export interface RecurringRunSummary {
+  processed: number;
+  posted: number;
+  completed: number;
+  failed: number;
+}
+
+export interface UpcomingOccurrence {
+  recurringTransactionId: string;
+  date: Date;
+  accountId: string;
+  categoryId: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  frequency: RecurringFrequency;
+  autoCreate: boolean;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The occurrence after `date`. Month-based frequencies stay on the day of
+ * month of `anchorDay` (usually the start date's), clamped to shorter months:
+ * a monthly template from 31 Jan falls on 29 Feb, then 31 Mar.
+ */
+export function nextOccurrence(date: Date, frequency: RecurringFrequency, anchorDay = date.getUTCDate()): Date {
+  const days = DAY_STEPS[frequency];
+  if (days) {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  const months = MONTH_STEPS[frequency]!;
+  const monthIndex = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const next = new Date(date);
+  next.setUTCFullYear(year, month, Math.min(anchorDay, daysInMonth(year, month)));
+  return next;
+}
+
+/**
+ * Occurrences of a template from its next date up to and including `until`,
+ * never past the template's end date
+ */
+export function listOccurrences(
+  template: Pick<RecurringTransaction, 'frequency' | 'startDate' | 'nextDate' | 'endDate'>,
+  until: Date,
+  limit = MAX_UPCOMING_OCCURRENCES
+): Date[] {
+  const last = template.endDate && template.endDate < until ? template.endDate : until;
+  const anchorDay = template.startDate.getUTCDate();
+  const occurrences: Date[] = [];
+
+  for (let date = template.nextDate; date <= last && occurrences.length < limit; ) {
+    occurrences.push(date);
+    date = nextOccurrence(date, template.frequency, anchorDay);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether an active template has nothing left to post
+ */
+export function isFinished(template: Pick<RecurringTransaction, 'nextDate' | 'endDate' | 'autoCreate'>, now: Date): boolean {
+  if (!template.endDate) return false;
+  if (template.nextDate > template.endDate) return true;
+  // Templates that are not posted automatically never advance; they end with their end date
+  return !template.autoCreate && template.endDate < now;
+}
+
+/**
+ * Post every due occurrence of one template, oldest first, and advance its
+ * next date. Each occurrence is written in a single batch: the transaction
+ * (skipped when that occurrence was already posted), the account balance
+ * (only if this batch inserted the transaction) and the template's next date
+ * (only if no other run advanced it first). A run that overlaps another, or
+ * repeats one, therefore posts nothing twice.
+ */
+export async function postDueOccurrences(db: Db, template: RecurringTransaction, now: Date): Promise<{ posted: number; completed: boolean }> {
+  let posted = 0;
+  let nextDate = template.nextDate;
+
+  if (template.autoCreate) {
+    const account = await db
+      .select({ currency: accounts.currency })
+      .from(accounts)
+      .where(and(eq(accounts.id, template.accountId), eq(accounts.tenantId, template.tenantId)))
+      .get();
+    const due = listOccurrences(template, now, MAX_OCCURRENCES_PER_RUN);
+    const anchorDay = template.startDate.getUTCDate();
+    const balanceDelta = toMinorUnits(template.type === 'income' ? template.amount : -template.amount);
+
+    for (const date of due) {
+      const transactionId = crypto.randomUUID();
+      const following = nextOccurrence(date, template.frequency, anchorDay);
+      const timestamp = getCurrentTimestamp();
+
+      const [inserted] = await db.batch([
+        db
+          .insert(transactions)
+          .values({
+            id: transactionId,
+            tenantId: template.tenantId,
+            accountId: template.accountId,
+            categoryId: template.categoryId,
+            amount: template.amount,
+            currency: account?.currency ?? DEFAULT_CURRENCY,
+            description: template.description,
+            date,
+            type: template.type,
+            notes: template.notes,
+            recurringTransactionId: template.id,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          })
+          .onConflictDoNothing()
+          .returning({ id: transactions.id }),
+        db
+          .update(accounts)
+          .set({ balance: sql`${accounts.balance} + ${balanceDelta}`, updatedAt: timestamp })
+          .where(and(
+            eq(accounts.id, template.accountId),
+            eq(accounts.tenantId, template.tenantId),
+            sql`exists (select 1 from ${transactions} where ${transactions.id} = ${transactionId})`
+          )),
+        db
+          .update(recurringTransactions)
+          .set({ nextDate: following, updatedAt: timestamp })
+          .where(and(eq(recurringTransactions.id, template.id), eq(recurringTransactions.nextDate, date))),
+      ]);
+
+      posted += inserted.length;
+      nextDate = following;
+    }
+  }
+
+  const completed = isFinished({ ...template, nextDate }, now);
+  if (completed) {
+    await db
+      .update(recurringTransactions)
+      .set({ status: 'completed', updatedAt: getCurrentTimestamp() })
+      .where(and(eq(recurringTransactions.id, template.id), eq(recurringTransactions.status, 'active')))
+      .run();
+  }
+
+  return { posted, completed };
+}
+
+/**
+ * Cron entry point: post due occurrences for every tenant and complete
+ * templates past their end date. A failing template never stops the others.
+ */
+export async function runRecurringTransactions(db: Db, now = new Date()): Promise<RecurringRunSummary> {
+  const templates = await db
+    .select()
+    .from(recurringTransactions)
+    .where(and(
+      eq(recurringTransactions.status, 'active'),
+      or(
+        and(eq(recurringTransactions.autoCreate, true), lte(recurringTransactions.nextDate, now)),
+        and(isNotNull(recurringTransactions.endDate), lt(recurringTransactions.endDate, now))
+      )
+    ))
+    .all();
+
+  const summary: RecurringRunSummary = { processed: 0, posted: 0, completed: 0, failed: 0 };
+
+  for (const template of templates) {
+    summary.processed++;
+    try {
+      const result = await postDueOccurrences(db, template, now);
+      summary.posted += result.posted;
+      if (result.completed) summary.completed++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`Recurring transaction ${template.id} failed:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Occurrences of the tenant's active templates falling within the next `days` days
+ */
+export async function getUpcomingOccurrences(db: Db, tenantId: string, days: number, now = new Date()): Promise<UpcomingOccurrence[]> {
+  const until = new Date(now.getTime() + days * DAY_MS);
+  const templates = await db
+    .select()
+    .from(recurringTransactions)
+    .where(and(
+      eq(recurringTransactions.tenantId, tenantId),
+      eq(recurringTransactions.status, 'active'),
+      lte(recurringTransactions.nextDate, until)
+    ))
+    .orderBy(asc(recurringTransactions.nextDate))
+    .all();
+
+  const occurrences = templates.flatMap(template =>
+    listOccurrences(template, until).map(date => ({
+      recurringTransactionId: template.id,
+      date,
+      accountId: template.accountId,
+      categoryId: template.categoryId,
+      description: template.description,
+      amount: template.amount,
+      type: template.type,
+      frequency: template.frequency,
+      autoCreate: template.autoCreate,
+    }))
+  );
+
+  return occurrences
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_UPCOMING_OCCURRENCES);
+}
@@ -0,0 +1,68 @@
+/**
+ * Signed download links for scheduled report runs
+ *
+ * Report emails go to any delivery address, not only to signed-in members, so
+ * the link carries its own proof: an HMAC of the run id and expiry time keyed
+ * with HMAC(JWT_SECRET, "report-download"). Deriving a separate key keeps these
+ * signatures from ever doubling as signatures made with the JWT secret.
+ */
+
+// How long an emailed report link keeps working
+export const REPORT_LINK_TTL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purpose label the link signing key is derived with
+const KEY_PURPOSE = 'report-download';
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+}
+
+async function hmacKey(raw: BufferSource, usages: KeyUsage[]): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, usages);
+}
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  const master = await hmacKey(new TextEncoder().encode(secret), ['sign']);
+  const derived = await crypto.subtle.sign('HMAC', master, new TextEncoder().encode(KEY_PURPOSE));
+  return hmacKey(derived, ['sign', 'verify']);
+}
+
+function payload(runId: string, expires: number): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`report-run:${runId}:${expires}`);
+}
+
+/**
+ * Public URL that downloads a run's stored file until the link expires
+ */
+export async function createReportDownloadUrl(apiUrl: string, secret: string, runId: string, now = new Date()): Promise<string> {
+  const expires = Math.floor((now.getTime() + REPORT_LINK_TTL_DAYS * DAY_MS) / 1000);
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), payload(runId, expires));
+  const params = new URLSearchParams({ expires: String(expires), signature: toHex(signature) });
+  return `${apiUrl}/api/scheduled-reports/runs/${encodeURIComponent(runId)}/file?${params}`;
+}
+
+/**
+ * Whether a download link was signed for this run and has not expired
+ */
+export async function verifyReportDownload(
+  secret: string,
+  runId: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now = new Date()
+): Promise<boolean> {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) return false;
+
+  const bytes = signature ? fromHex(signature) : null;
+  if (!bytes) return false;
+
+  return crypto.subtle.verify('HMAC', await signingKey(secret), bytes, payload(runId, expiresAt));
+}
@@ -0,0 +1,195 @@
+import type { DrizzleD1Database } from 'drizzle-orm/d1';
+import type * as schema from '../db/schema';
+import type { Env } from '../types';
+import { ScheduledReportsService } from './scheduledReports.service';
+import { ExportService, type ExportResult } from './export.service';
+import { createEmailService } from './email';
+import { createReportDownloadUrl } from './reportDownloads';
+
+/**
+ * Scheduled Report Runner
+ *
+ * Executed from the cron trigger. Picks up every enabled report whose
+ * next_run_at has passed, generates it through ExportService, stores the
+ * file in R2 and emails the recipient a signed download link. Each execution is
+ * tracked in scheduled_report_runs.
+ */
+
+type DbType = DrizzleD1Database<typeof schema>;
+type ScheduledReport = typeof schema.scheduledReports.$inferSelect;
+
+const MAX_ATTEMPTS = 3;
+// Wait before the first retry; doubled before each later one
+const RETRY_DELAY_MS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReportRunSummary {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export class ScheduledReportRunner {
+  private readonly reports: ScheduledReportsService;
+
+  constructor(db: DbType, private env: Env['Bindings'], private retryDelayMs = RETRY_DELAY_MS) {
+    this.reports = new ScheduledReportsService(db);
+  }
+
+  /**
+   * Run every report that is due. A failing report never stops the others.
+   */
+  async runDueReports(): Promise<ReportRunSummary> {
+    const due = await this.reports.getReportsDueForExecution();
+    const summary: ReportRunSummary = { processed: 0, succeeded: 0, failed: 0 };
+
+    for (const report of due) {
+      summary.processed++;
+      const ok = await this.runReport(report);
+      if (ok) {
+        summary.succeeded++;
+      } else {
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Execute a single report with retries, backing off between attempts and
+   * recording progress on the run row
+   */
+  async runReport(report: ScheduledReport): Promise<boolean> {
+    const periodEnd = new Date();
+    const periodStart = report.includeAllTime
+      ? new Date(0)
+      : new Date(periodEnd.getTime() - (report.lookbackDays || 30) * DAY_MS);
+
+    const runId = await this.reports.createRunRecord(report.id, report.tenantId, periodStart, periodEnd);
+    const startedAt = new Date();
+    let lastError = 'Unknown error';
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 1)));
+      }
+
+      try {
+        await this.reports.updateRunStatus(runId, 'generating', {
+          startedAt,
+          retryCount: attempt,
+        });
+
+        const result = await this.generate(report, periodStart, periodEnd);
+        const body = result.data instanceof Uint8Array || typeof result.data === 'string'
+          ? result.data
+          : JSON.stringify(result.data, null, 2);
+        const fileKey = `reports/${report.tenantId}/${report.id}/${runId}-${result.filename}`;
+
+        await this.env.FILES.put(fileKey, body, {
+          httpMetadata: {
+            contentType: result.mimeType,
+            contentDisposition: `attachment; filename="${result.filename}"`,
+          },
+        });
+
+        const recordCount = this.countRecords(result, body);
+        const fileSizeBytes = body instanceof Uint8Array ? body.byteLength : new TextEncoder().encode(body).length;
+
+        await this.reports.updateRunStatus(runId, 'sending', {
+          recordCount,
+          fileSizeBytes,
+          fileKey,
+        });
+
+        const appUrl = this.env.FRONTEND_URL || 'https://app.finhome360.com';
+        const apiUrl = this.env.API_URL || 'https://api.finhome360.com';
+        const downloadUrl = await createReportDownloadUrl(apiUrl, this.env.JWT_SECRET, runId);
+        const emailService = createEmailService('noreply@finhome360.com', appUrl);
+        const sent = await emailService.sendScheduledReportEmail(report.deliveryEmail, {
+          reportName: report.name,
+          reportType: report.reportType,
+          format: report.format,
+          periodStart: periodStart.toISOString().slice(0, 10),
+          periodEnd: periodEnd.toISOString().slice(0, 10),
+          recordCount,
+          downloadUrl,
+          loginUrl: appUrl,
+        });
+
+        if (!sent) {
+          throw new Error(`Failed to send report email to ${report.deliveryEmail}`);
+        }
+
+        const completedAt = new Date();
+        await this.reports.updateRunStatus(runId, 'completed', {
+          completedAt,
+          processingTimeMs: completedAt.getTime() - startedAt.getTime(),
+        });
+        await this.reports.markReportRunSuccess(report.id);
+
+        console.log(`Scheduled report ${report.id} completed (run ${runId}, attempt ${attempt + 1})`);
+        return true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Scheduled report ${report.id} attempt ${attempt + 1} failed:`, error);
+      }
+    }
+
+    const completedAt = new Date();
+    await this.reports.updateRunStatus(runId, 'failed', {
+      errorMessage: lastError,
+      retryCount: MAX_ATTEMPTS - 1,
+      completedAt,
+      processingTimeMs: completedAt.getTime() - startedAt.getTime(),
+    });
+    await this.reports.markReportRunFailed(report.id, lastError);
+
+    return false;
+  }
+
+  /**
+   * Build the report file for the configured report type
+   */
+  private async generate(report: ScheduledReport, startDate: Date, endDate: Date): Promise<ExportResult> {
+    const ctx = { env: this.env };
+    const format = report.format;
+
+    switch (report.reportType) {
+      case 'transactions':
+        return ExportService.exportTransactions(ctx, report.tenantId, { format, startDate, endDate });
+      case 'budgets':
+        return ExportService.exportBudgets(ctx, report.tenantId, { format, startDate, endDate });
+      case 'goals':
+        return ExportService.exportGoals(ctx, report.tenantId, { format, includeContributions: true });
+      case 'analytics':
+        return ExportService.exportAnalytics(ctx, report.tenantId, { format, startDate, endDate });
+      case 'all':
+        return ExportService.exportAll(ctx, report.tenantId, { format, startDate, endDate });
+      default:
+        throw new Error(`Unsupported report type: ${report.reportType}`);
+    }
+  }
+
+  /**
+   * Number of data rows in the generated file
+   */
+  private countRecords(result: ExportResult, body: string | Uint8Array): number {
+    if (result.recordCount !== undefined) return result.recordCount;
+    if (body instanceof Uint8Array) return 0;
+
+    if (result.mimeType === 'text/csv') {
+      return Math.max(body.split('\n').filter(line => line.trim()).length - 1, 0);
+    }
+
+    try {
+      const parsed = JSON.parse(body);
+      if (Array.isArray(parsed)) return parsed.length;
+      if (Array.isArray(parsed?.transactions)) return parsed.transactions.length;
+      return 1;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -321,6 +321,32 @@ export class ScheduledReportsService {
     return id;
   }
 
+  /**
+   * Get a single run record
+   */
+  async getRun(tenantId: string, reportId: string, runId: string) {
+    return this.db
+      .select()
+      .from(scheduledReportRuns)
+      .where(and(
+        eq(scheduledReportRuns.id, runId),
+        eq(scheduledReportRuns.reportId, reportId),
+        eq(scheduledReportRuns.tenantId, tenantId)
+      ))
+      .get();
+  }
+
+  /**
+   * Get a run by id alone, for signed download links that carry no tenant
+   */
+  async getRunById(runId: string) {
+    return this.db
+      .select()
+      .from(scheduledReportRuns)
+      .where(eq(scheduledReportRuns.id, runId))
+      .get();
+  }
+
   /**
    * Update run status
    */
@@ -330,7 +356,9 @@ export class ScheduledReportsService {
     details?: {
       recordCount?: number;
       fileSizeBytes?: number;
+      fileKey?: string;
       errorMessage?: string;
+      retryCount?: number;
       startedAt?: Date;
       completedAt?: Date;
       processingTimeMs?: number;
@@ -340,7 +368,9 @@ export class ScheduledReportsService {
 
     if (details?.recordCount !== undefined) updateData.recordCount = details.recordCount;
     if (details?.fileSizeBytes !== undefined) updateData.fileSizeBytes = details.fileSizeBytes;
+    if (details?.fileKey !== undefined) updateData.fileKey = details.fileKey;
     if (details?.errorMessage !== undefined) updateData.errorMessage = details.errorMessage;
+    if (details?.retryCount !== undefined) updateData.retryCount = details.retryCount;
     if (details?.startedAt !== undefined) updateData.startedAt = details.startedAt;
     if (details?.completedAt !== undefined) updateData.completedAt = details.completedAt;
     if (details?.processingTimeMs !== undefined) updateData.processingTimeMs = details.processingTimeMs;
@@ -386,15 +416,33 @@ export class ScheduledReportsService {
   }
 
   /**
-   * Update report after failed run
+   * Update report after failed run.
+   * The schedule still advances so a persistently failing report is not
+   * retried on every cron tick; retries happen within a single run.
    */
   async markReportRunFailed(reportId: string, errorMessage: string) {
+    const report = await this.db
+      .select()
+      .from(scheduledReports)
+      .where(eq(scheduledReports.id, reportId))
+      .get();
+
+    if (!report) return;
+
+    const nextRunAt = this.calculateNextRunTime(
+      report.frequency as ReportFrequency,
+      report.dayOfWeek,
+      report.dayOfMonth,
+      report.timeOfDay || '09:00'
+    );
+
     await this.db
       .update(scheduledReports)
       .set({
         lastRunAt: new Date(),
         lastRunStatus: 'failed',
         lastError: errorMessage,
+        nextRunAt,
         updatedAt: new Date(),
       })
       .where(eq(scheduledReports.id, reportId))
@@ -0,0 +1,388 @@
+import { and, asc, count, eq, gte, inArray, lte, ne, sql, type SQL } from 'drizzle-orm';
+import { subtractMoney } from '@finhome360/shared';
+import { tags, transactions, transactionTags } from '../db';
+import { archivedFilter } from './transactionArchive';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type Tag = typeof tags.$inferSelect;
+
+export interface TransactionTag {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export type TagMatch = 'any' | 'all';
+
+export interface TagTotalsFilter {
+  startDate?: Date;
+  endDate?: Date;
+  includeArchived?: boolean;
+}
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+// A link row binds 5 parameters
+const LINK_CHUNK_SIZE = 18;
+
+/**
+ * Tags are matched case-insensitively: "Holiday 2024 " and "holiday  2024" are the same tag
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function normalizeTagNames(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTagName).filter(name => name.length > 0))];
+}
+
+/**
+ * Parse a comma separated `tags` query parameter
+ */
+export function parseTagFilter(value: string | undefined): string[] {
+  return value ? normalizeTagNames(value.split(',')) : [];
+}
+
+export function parseTagMatch(value: string | undefined): TagMatch {
+  return value === 'all' ? 'all' : 'any';
+}
+
+/**
+ * Condition matching transactions carrying any (or all) of the named tags
+ */
+export function tagFilter(db: Db, tenantId: string, names: string[], match: TagMatch = 'any'): SQL {
+  const tagged = db
+    .select({ transactionId: transactionTags.transactionId })
+    .from(transactionTags)
+    .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+    .where(and(eq(transactionTags.tenantId, tenantId), inArray(tags.name, names)));
+
+  if (match === 'all') {
+    return inArray(
+      transactions.id,
+      tagged.groupBy(transactionTags.transactionId).having(sql`count(distinct ${transactionTags.tagId}) = ${names.length}`)
+    );
+  }
+  return inArray(transactions.id, tagged);
+}
+
+/**
+ * Tags of the tenant with the number of transactions carrying each
+ */
+export async function listTags(db: Db, tenantId: string) {
+  return db
+    .select({
+      id: tags.id,
+      name: tags.name,
+      color: tags.color,
+      createdAt: tags.createdAt,
+      updatedAt: tags.updatedAt,
+      transactionCount: count(transactionTags.id),
+    })
+    .from(tags)
+    .leftJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+    .where(eq(tags.tenantId, tenantId))
+    .groupBy(tags.id)
+    .orderBy(asc(tags.name))
+    .all();
+}
+
+export async function getTag(db: Db, tenantId: string, id: string): Promise<Tag | undefined> {
+  return db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.id, id), eq(tags.tenantId, tenantId)))
+    .get();
+}
+
+export async function getTagByName(db: Db, tenantId: string, name: string): Promise<Tag | undefined> {
+  return db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.tenantId, tenantId), eq(tags.name, normalizeTagName(name))))
+    .get();
+}
+
+export async function createTag(db: Db, tenantId: string, data: { name: string; color?: string | null }): Promise<Tag> {
+  const now = getCurrentTimestamp();
+  const tag: Tag = {
+    id: crypto.randomUUID(),
+    tenantId,
+    name: normalizeTagName(data.name),
+    color: data.color ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(tags).values(tag).run();
+  return tag;
+}
+
+export async function updateTag(
+  db: Db,
+  tag: Tag,
+  data: { name?: string; color?: string | null }
+): Promise<Tag> {
+  const updated: Tag = {
+    ...tag,
+    name: data.name !== undefined ? normalizeTagName(data.name) : tag.name,
+    color: data.color !== undefined ? data.color : tag.color,
+    updatedAt: getCurrentTimestamp(),
+  };
+
+  await db
+    .update(tags)
+    .set({ name: updated.name, color: updated.color, updatedAt: updated.updatedAt })
+    .where(and(eq(tags.id, tag.id), eq(tags.tenantId, tag.tenantId)))
+    .run();
+  return updated;
+}
+
+/**
+ * Delete a tag and remove it from every transaction
+ */
+export async function deleteTag(db: Db, tag: Tag): Promise<void> {
+  await db.batch([
+    db
+      .delete(transactionTags)
+      .where(and(eq(transactionTags.tenantId, tag.tenantId), eq(transactionTags.tagId, tag.id))),
+    db.delete(tags).where(and(eq(tags.id, tag.id), eq(tags.tenantId, tag.tenantId))),
+  ]);
+}
+
+export async function getTagsByName(db: Db, tenantId: string, names: string[]): Promise<Tag[]> {
+  const normalized = normalizeTagNames(names);
+  if (normalized.length === 0) return [];
+
+  return db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.tenantId, tenantId), inArray(tags.name, normalized)))
+    .all();
+}
+
+/**
+ * Look up tags by name, creating the ones that don't exist yet
+ */
+export async function ensureTags(db: Db, tenantId: string, names: string[]): Promise<Tag[]> {
+  const normalized = normalizeTagNames(names);
+  const existing = await getTagsByName(db, tenantId, normalized);
+
+  const existingNames = new Set(existing.map(tag => tag.name));
+  const created: Tag[] = [];
+  for (const name of normalized) {
+    if (!existingNames.has(name)) {
+      created.push(await createTag(db, tenantId, { name }));
+    }
+  }
+
+  return [...existing, ...created];
+}
+
+/**
+ * Ids among the given ones that are transactions of the tenant
+ */
+async function findTenantTransactionIds(db: Db, tenantId: string, transactionIds: string[]): Promise<string[]> {
+  const uniqueIds = [...new Set(transactionIds)];
+  const found: string[] = [];
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    const rows = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.tenantId, tenantId), inArray(transactions.id, chunk)))
+      .all();
+    found.push(...rows.map(row => row.id));
+  }
+
+  return found;
+}
+
+/**
+ * Add tags to transactions. Returns the number of transactions that were found and the links added.
+ */
+export async function tagTransactions(
+  db: Db,
+  tenantId: string,
+  transactionIds: string[],
+  tagIds: string[]
+): Promise<{ transactionCount: number; addedCount: number }> {
+  const ids = await findTenantTransactionIds(db, tenantId, transactionIds);
+  const now = getCurrentTimestamp();
+  const missing: (typeof transactionTags.$inferInsert)[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+    const existing = await db
+      .select({ transactionId: transactionTags.transactionId, tagId: transactionTags.tagId })
+      .from(transactionTags)
+      .where(and(eq(transactionTags.tenantId, tenantId), inArray(transactionTags.transactionId, chunk)))
+      .all();
+    const linked = new Set(existing.map(link => `${link.transactionId}:${link.tagId}`));
+
+    for (const transactionId of chunk) {
+      for (const tagId of tagIds) {
+        if (!linked.has(`${transactionId}:${tagId}`)) {
+          missing.push({ id: crypto.randomUUID(), tenantId, transactionId, tagId, createdAt: now });
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += LINK_CHUNK_SIZE) {
+    await db
+      .insert(transactionTags)
+      .values(missing.slice(i, i + LINK_CHUNK_SIZE))
+      .onConflictDoNothing()
+      .run();
+  }
+
+  return { transactionCount: ids.length, addedCount: missing.length };
+}
+
+/**
+ * Remove tags from transactions
+ */
+export async function untagTransactions(
+  db: Db,
+  tenantId: string,
+  transactionIds: string[],
+  tagIds: string[]
+): Promise<void> {
+  if (tagIds.length === 0) return;
+
+  const uniqueIds = [...new Set(transactionIds)];
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    await db
+      .delete(transactionTags)
+      .where(
+        and(
+          eq(transactionTags.tenantId, tenantId),
+          inArray(transactionTags.transactionId, chunk),
+          inArray(transactionTags.tagId, tagIds)
+        )
+      )
+      .run();
+  }
+}
+
+/**
+ * Tags of each of the given transactions, keyed by transaction id
+ */
+export async function getTagsForTransactions(
+  db: Db,
+  tenantId: string,
+  transactionIds: string[]
+): Promise<Map<string, TransactionTag[]>> {
+  const result = new Map<string, TransactionTag[]>();
+  const uniqueIds = [...new Set(transactionIds)];
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    const rows = await db
+      .select({
+        transactionId: transactionTags.transactionId,
+        id: tags.id,
+        name: tags.name,
+        color: tags.color,
+      })
+      .from(transactionTags)
+      .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+      .where(and(eq(transactionTags.tenantId, tenantId), inArray(transactionTags.transactionId, chunk)))
+      .orderBy(asc(tags.name))
+      .all();
+
+    for (const { transactionId, ...tag } of rows) {
+      const list = result.get(transactionId) ?? [];
+      list.push(tag);
+      result.set(transactionId, list);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Income and expense totals per tag, transfers excluded.
+ * A transaction with several tags counts towards each of them.
+ */
+export async function getTagTotals(db: Db, tenantId: string, filter: TagTotalsFilter = {}) {
+  const conditions = [
+    eq(transactionTags.tenantId, tenantId),
+    eq(transactions.tenantId, tenantId),
+    ne(transactions.type, 'transfer'),
+    archivedFilter(filter.includeArchived),
+  ];
+  if (filter.startDate) conditions.push(gte(transactions.date, filter.startDate));
+  if (filter.endDate) conditions.push(lte(transactions.date, filter.endDate));
+
+  const rows = await db
+    .select({
+      tagId: tags.id,
+      name: tags.name,
+      color: tags.color,
+      income: sql<number>`sum(case when ${transactions.type} = 'income' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
+      expense: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
+      transactionCount: count(transactions.id),
+    })
+    .from(transactionTags)
+    .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+    .innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+    .where(and(...conditions))
+    .groupBy(tags.id)
+    .all();
+
+  return rows
+    .map(row => ({
+      ...row,
+      income: row.income || 0,
+      expense: row.expense || 0,
+      net: subtractMoney(row.income || 0, row.expense || 0),
+    }))
+    .sort((a, b) => b.expense - a.expense || a.name.localeCompare(b.name));
+}
+
+/**
+ * Delete tag links for the given transactions, or for every transaction of the tenant
+ */
+export async function deleteTransactionTags(db: Db, tenantId: string, transactionIds?: string[]): Promise<void> {
+  if (!transactionIds) {
+    await db.delete(transactionTags).where(eq(transactionTags.tenantId, tenantId)).run();
+    return;
+  }
+
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = transactionIds.slice(i, i + ID_CHUNK_SIZE);
+    await db
+      .delete(transactionTags)
+      .where(and(eq(transactionTags.tenantId, tenantId), inArray(transactionTags.transactionId, chunk)))
+      .run();
+  }
+}
+
+/**
+ * Delete tag links of every transaction in an account
+ */
+export async function deleteAccountTransactionTags(db: Db, tenantId: string, accountId: string): Promise<void> {
+  await db
+    .delete(transactionTags)
+    .where(
+      and(
+        eq(transactionTags.tenantId, tenantId),
+        inArray(
+          transactionTags.transactionId,
+          db
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(and(eq(transactions.tenantId, tenantId), eq(transactions.accountId, accountId)))
+        )
+      )
+    )
+    .run();
+}
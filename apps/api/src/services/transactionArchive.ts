@@ -0,0 +1,51 @@
+import { and, eq, inArray, isNull, isNotNull, type SQL } from 'drizzle-orm';
+import { transactions } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+/**
+ * Read the `includeArchived` query flag. Archived transactions are excluded by default.
+ */
+export function parseIncludeArchived(value: string | undefined): boolean {
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Condition hiding archived transactions, or undefined when they should be included.
+ * `and()` skips undefined conditions, so the result can be passed straight in.
+ */
+export function archivedFilter(includeArchived?: boolean): SQL | undefined {
+  return includeArchived ? undefined : isNull(transactions.archivedAt);
+}
+
+/**
+ * Archive or unarchive transactions. Returns the number of rows that changed state.
+ */
+export async function setArchived(db: Db, tenantId: string, transactionIds: string[], archived: boolean): Promise<number> {
+  const uniqueIds = [...new Set(transactionIds)];
+  const now = getCurrentTimestamp();
+  let changed = 0;
+
+  for (let i = 0; i < uniqueIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + ID_CHUNK_SIZE);
+    const updated = await db
+      .update(transactions)
+      .set({ archivedAt: archived ? now : null, updatedAt: now })
+      .where(
+        and(
+          eq(transactions.tenantId, tenantId),
+          inArray(transactions.id, chunk),
+          archived ? isNull(transactions.archivedAt) : isNotNull(transactions.archivedAt)
+        )
+      )
+      .returning({ id: transactions.id });
+    changed += updated.length;
+  }
+
+  return changed;
+}
@@ -0,0 +1,478 @@
+import { and, count, desc, eq, gte, inArray, isNotNull, lt, lte, or, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { subtractMoney, toMinorUnits, type TransactionSearchParams } from '@finhome360/shared';
+import { accounts, categories, transactions, transactionSplits } from '../db';
+import { archivedFilter } from './transactionArchive';
+import { getTagsForTransactions, normalizeTagName, normalizeTagNames, tagFilter, type TagMatch } from './tags';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type ArchivedState = 'exclude' | 'include' | 'only';
+
+export interface AmountCondition {
+  op: '>' | '>=' | '<' | '<=' | '=';
+  value: number;
+}
+
+export interface DateCondition {
+  op: '>=' | '<' | '<=';
+  value: Date;
+}
+
+export interface TransactionSearchFilters {
+  terms: string[]; // free text, matched against description and notes
+  amount: AmountCondition[]; // compared with the absolute amount
+  date: DateCondition[];
+  accountIds: string[];
+  accountNames: string[]; // lowercase
+  categoryIds: string[];
+  categoryNames: string[]; // lowercase
+  type?: 'income' | 'expense' | 'transfer';
+  tags: string[];
+  tagMatch: TagMatch;
+  archived: ArchivedState;
+}
+
+export interface SearchCursor {
+  date: Date;
+  id: string;
+}
+
+export interface SearchTotals {
+  count: number;
+  totalIncome: number;
+  totalExpenses: number;
+  totalTransfers: number;
+  net: number;
+}
+
+// `key:"quoted value"`, `"quoted phrase"` or a bare word
+const TOKEN_PATTERN = /([A-Za-z]+)(:|>=|<=|>|<|=)"([^"]*)"|"([^"]*)"|(\S+)/g;
+const FILTER_PATTERN = /^([A-Za-z]+)(:|>=|<=|>|<|=)(.+)$/;
+const FILTER_KEYS = ['amount', 'date', 'account', 'category', 'type', 'tag', 'is', 'archived'];
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'] as const;
+
+function emptyFilters(archived: ArchivedState): TransactionSearchFilters {
+  return {
+    terms: [],
+    amount: [],
+    date: [],
+    accountIds: [],
+    accountNames: [],
+    categoryIds: [],
+    categoryNames: [],
+    tags: [],
+    tagMatch: 'any',
+    archived,
+  };
+}
+
+// `30..100`, `30..` or `..100`; null when the value isn't a range
+function splitRange(value: string): [string, string] | null {
+  const index = value.indexOf('..');
+  return index === -1 ? null : [value.slice(0, index), value.slice(index + 2)];
+}
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/^[£$€]/, '').replace(/,/g, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+/**
+ * Parse `2024`, `2024-05`, `2024-Q2` or `2024-05-31` into the UTC period it covers,
+ * as an inclusive start and an exclusive end.
+ */
+export function parseDatePeriod(value: string): { start: Date; end: Date } | null {
+  let match = value.match(/^(\d{4})$/);
+  if (match) {
+    const year = Number(match[1]);
+    return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+
+  match = value.match(/^(\d{4})-[Qq]([1-4])$/);
+  if (match) {
+    const year = Number(match[1]);
+    const month = (Number(match[2]) - 1) * 3;
+    return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 3, 1)) };
+  }
+
+  match = value.match(/^(\d{4})-(\d{1,2})$/);
+  if (match) {
+    const year = Number(match[1]);
+    const month = Number(match[2]) - 1;
+    if (month < 0 || month > 11) return null;
+    return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+
+  match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+    const start = new Date(Date.UTC(year, month, day));
+    if (start.getUTCMonth() !== month || start.getUTCDate() !== day) return null;
+    return { start, end: new Date(Date.UTC(year, month, day + 1)) };
+  }
+
+  return null;
+}
+
+function applyAmountFilter(filters: TransactionSearchFilters, op: string, value: string): string | null {
+  const range = op === ':' || op === '=' ? splitRange(value) : null;
+  if (range) {
+    const [low, high] = range.map(part => (part ? parseAmount(part) : undefined));
+    if (low === null || high === null || (low === undefined && high === undefined)) {
+      return `Invalid amount range "${value}"`;
+    }
+    if (low !== undefined) filters.amount.push({ op: '>=', value: low });
+    if (high !== undefined) filters.amount.push({ op: '<=', value: high });
+    return null;
+  }
+
+  const amount = parseAmount(value);
+  if (amount === null) return `Invalid amount "${value}"`;
+  filters.amount.push({ op: op === ':' ? '=' : (op as AmountCondition['op']), value: amount });
+  return null;
+}
+
+function applyDateFilter(filters: TransactionSearchFilters, op: string, value: string): string | null {
+  const range = op === ':' || op === '=' ? splitRange(value) : null;
+  if (range) {
+    const [from, to] = range.map(part => (part ? parseDatePeriod(part) : undefined));
+    if (from === null || to === null || (from === undefined && to === undefined)) {
+      return `Invalid date range "${value}"`;
+    }
+    if (from) filters.date.push({ op: '>=', value: from.start });
+    if (to) filters.date.push({ op: '<', value: to.end });
+    return null;
+  }
+
+  const period = parseDatePeriod(value);
+  if (!period) return `Invalid date "${value}". Use YYYY, YYYY-MM, YYYY-Qn or YYYY-MM-DD`;
+
+  // A period compares by its bounds: date>2024-05 means from June onwards
+  switch (op) {
+    case '>=':
+      filters.date.push({ op: '>=', value: period.start });
+      break;
+    case '>':
+      filters.date.push({ op: '>=', value: period.end });
+      break;
+    case '<':
+      filters.date.push({ op: '<', value: period.start });
+      break;
+    case '<=':
+      filters.date.push({ op: '<', value: period.end });
+      break;
+    default:
+      filters.date.push({ op: '>=', value: period.start }, { op: '<', value: period.end });
+  }
+  return null;
+}
+
+function applyFilter(filters: TransactionSearchFilters, key: string, op: string, value: string): string | null {
+  if (key === 'amount') return applyAmountFilter(filters, op, value);
+  if (key === 'date') return applyDateFilter(filters, op, value);
+
+  if (op !== ':') return `Filter "${key}" only supports "${key}:value"`;
+
+  switch (key) {
+    case 'account':
+      filters.accountNames.push(value.trim().toLowerCase());
+      return null;
+    case 'category':
+      filters.categoryNames.push(value.trim().toLowerCase());
+      return null;
+    case 'tag':
+      filters.tags.push(normalizeTagName(value));
+      return null;
+    case 'type': {
+      const type = TRANSACTION_TYPES.find(candidate => candidate === value.toLowerCase());
+      if (!type) return `Unknown transaction type "${value}"`;
+      filters.type = type;
+      return null;
+    }
+    case 'is':
+      if (value.toLowerCase() !== 'archived') return `Unknown filter "is:${value}"`;
+      filters.archived = 'only';
+      return null;
+    case 'archived': {
+      const state = value.toLowerCase();
+      if (state !== 'include' && state !== 'only' && state !== 'exclude') {
+        return `Invalid archived filter "${value}". Use include, only or exclude`;
+      }
+      filters.archived = state;
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the search query language: free text plus `key:value` / `key>value` filters, e.g.
+ * `amazon amount>30 date:2024-Q2 account:"Credit Card" tag:work`.
+ * Words that look like filters but use an unknown key are searched as text.
+ */
+export function parseSearchQuery(
+  query: string,
+  archived: ArchivedState = 'exclude'
+): { filters: TransactionSearchFilters; error: string | null } {
+  const filters = emptyFilters(archived);
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedKey, quotedOp, quotedValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      filters.terms.push(phrase);
+      continue;
+    }
+
+    let key = quotedKey;
+    let op = quotedOp;
+    let value = quotedValue;
+    if (word !== undefined) {
+      const filter = word.match(FILTER_PATTERN);
+      if (filter) [, key, op, value] = filter;
+    }
+
+    if (key && FILTER_KEYS.includes(key.toLowerCase())) {
+      const error = applyFilter(filters, key.toLowerCase(), op, value);
+      if (error) return { filters, error };
+    } else {
+      filters.terms.push(quotedKey ? `${quotedKey} ${quotedValue}` : token);
+    }
+  }
+
+  return { filters, error: null };
+}
+
+/**
+ * Combine the `q` query language with the explicit query-string filters
+ */
+export function buildSearchFilters(
+  params: TransactionSearchParams,
+  includeArchived = false
+): { filters: TransactionSearchFilters; error: string | null } {
+  const { filters, error } = parseSearchQuery(params.q ?? '', includeArchived ? 'include' : 'exclude');
+  if (error) return { filters, error };
+
+  if (params.minAmount !== undefined) filters.amount.push({ op: '>=', value: params.minAmount });
+  if (params.maxAmount !== undefined) filters.amount.push({ op: '<=', value: params.maxAmount });
+  if (params.startDate) filters.date.push({ op: '>=', value: params.startDate });
+  if (params.endDate) filters.date.push({ op: '<=', value: params.endDate });
+  if (params.accountId) filters.accountIds.push(params.accountId);
+  if (params.categoryId) filters.categoryIds.push(params.categoryId);
+  if (params.tags) filters.tags.push(...params.tags.split(','));
+  if (params.tagMatch) filters.tagMatch = params.tagMatch;
+
+  if (params.type) {
+    if (filters.type && filters.type !== params.type) {
+      return { filters, error: `Conflicting transaction types "${filters.type}" and "${params.type}"` };
+    }
+    filters.type = params.type;
+  }
+
+  filters.tags = normalizeTagNames(filters.tags);
+  return { filters, error: null };
+}
+
+/**
+ * FTS5 MATCH expression for the free text: each word matches as a prefix,
+ * quoted phrases match exactly, and all of them must be present.
+ */
+export function buildFtsQuery(terms: string[]): string | null {
+  const parts = terms
+    .map(term => term.trim())
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .map(term => {
+      const quoted = `"${term.replace(/"/g, '""')}"`;
+      return /\s/.test(term) ? quoted : `${quoted}*`;
+    });
+
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+export function encodeSearchCursor(row: SearchCursor): string {
+  return btoa(`${row.date.getTime()}:${row.id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const decoded = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const separator = decoded.indexOf(':');
+    const time = Number(decoded.slice(0, separator));
+    const id = decoded.slice(separator + 1);
+
+    if (separator === -1 || !Number.isFinite(time) || !id) return null;
+    return { date: new Date(time), id };
+  } catch {
+    return null;
+  }
+}
+
+function archivedCondition(state: ArchivedState): SQL | undefined {
+  return state === 'only' ? isNotNull(transactions.archivedAt) : archivedFilter(state === 'include');
+}
+
+// Amounts are stored in minor units, so the bound value is converted too
+function amountCondition(condition: AmountCondition): SQL {
+  const absAmount = sql`abs(${transactions.amount})`;
+  const value = toMinorUnits(condition.value);
+  switch (condition.op) {
+    case '>':
+      return sql`${absAmount} > ${value}`;
+    case '>=':
+      return sql`${absAmount} >= ${value}`;
+    case '<':
+      return sql`${absAmount} < ${value}`;
+    case '<=':
+      return sql`${absAmount} <= ${value}`;
+    default:
+      return sql`${absAmount} = ${value}`;
+  }
+}
+
+function dateCondition(condition: DateCondition): SQL {
+  if (condition.op === '>=') return gte(transactions.date, condition.value);
+  if (condition.op === '<') return lt(transactions.date, condition.value);
+  return lte(transactions.date, condition.value);
+}
+
+// Split transactions match on any of their lines' categories as well as their own
+function categoryCondition(db: Db, tenantId: string, categoryIds: string[] | SQLWrapper): SQL {
+  const splitTransactionIds = db
+    .select({ id: transactionSplits.transactionId })
+    .from(transactionSplits)
+    .where(and(eq(transactionSplits.tenantId, tenantId), inArray(transactionSplits.categoryId, categoryIds)));
+
+  return or(inArray(transactions.categoryId, categoryIds), inArray(transactions.id, splitTransactionIds))!;
+}
+
+function searchConditions(db: Db, tenantId: string, filters: TransactionSearchFilters): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [eq(transactions.tenantId, tenantId), archivedCondition(filters.archived)];
+
+  const ftsQuery = buildFtsQuery(filters.terms);
+  if (ftsQuery) {
+    conditions.push(
+      sql`${transactions}.rowid in (select rowid from transactions_fts where transactions_fts match ${ftsQuery})`
+    );
+  }
+
+  conditions.push(...filters.amount.map(amountCondition), ...filters.date.map(dateCondition));
+
+  if (filters.type) conditions.push(eq(transactions.type, filters.type));
+
+  if (filters.accountIds.length > 0 || filters.accountNames.length > 0) {
+    const namedAccountIds = db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.tenantId, tenantId), inArray(sql`lower(${accounts.name})`, filters.accountNames)));
+
+    conditions.push(
+      or(
+        filters.accountIds.length > 0 ? inArray(transactions.accountId, filters.accountIds) : undefined,
+        filters.accountNames.length > 0 ? inArray(transactions.accountId, namedAccountIds) : undefined
+      )
+    );
+  }
+
+  if (filters.categoryIds.length > 0 || filters.categoryNames.length > 0) {
+    const namedCategoryIds = db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.tenantId, tenantId), inArray(sql`lower(${categories.name})`, filters.categoryNames)));
+
+    conditions.push(
+      or(
+        filters.categoryIds.length > 0 ? categoryCondition(db, tenantId, filters.categoryIds) : undefined,
+        filters.categoryNames.length > 0 ? categoryCondition(db, tenantId, namedCategoryIds) : undefined
+      )
+    );
+  }
+
+  if (filters.tags.length > 0) conditions.push(tagFilter(db, tenantId, filters.tags, filters.tagMatch));
+
+  return conditions;
+}
+
+/**
+ * One page of matching transactions, newest first, with totals over the whole matched set
+ */
+export async function searchTransactions(
+  db: Db,
+  tenantId: string,
+  filters: TransactionSearchFilters,
+  page: { cursor?: SearchCursor | null; limit: number }
+) {
+  const conditions = searchConditions(db, tenantId, filters);
+  const cursor = page.cursor;
+  const afterCursor = cursor
+    ? or(lt(transactions.date, cursor.date), and(eq(transactions.date, cursor.date), lt(transactions.id, cursor.id)))
+    : undefined;
+
+  const [rows, aggregate] = await Promise.all([
+    db
+      .select({
+        id: transactions.id,
+        tenantId: transactions.tenantId,
+        accountId: transactions.accountId,
+        categoryId: transactions.categoryId,
+        amount: transactions.amount,
+        description: transactions.description,
+        date: transactions.date,
+        type: transactions.type,
+        notes: transactions.notes,
+        archivedAt: transactions.archivedAt,
+        createdAt: transactions.createdAt,
+        updatedAt: transactions.updatedAt,
+        account: {
+          name: accounts.name,
+          type: accounts.type,
+        },
+        category: {
+          name: categories.name,
+          icon: categories.icon,
+          color: categories.color,
+          type: categories.type,
+        },
+      })
+      .from(transactions)
+      .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(and(...conditions, afterCursor))
+      .orderBy(desc(transactions.date), desc(transactions.id))
+      .limit(page.limit + 1)
+      .all(),
+    db
+      .select({
+        count: count(),
+        totalIncome: sql<number>`sum(case when ${transactions.type} = 'income' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
+        totalExpenses: sql<number>`sum(case when ${transactions.type} = 'expense' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
+        totalTransfers: sql<number>`sum(case when ${transactions.type} = 'transfer' then abs(${transactions.amount}) else 0 end)`.mapWith(transactions.amount),
+      })
+      .from(transactions)
+      .where(and(...conditions))
+      .get(),
+  ]);
+
+  const hasMore = rows.length > page.limit;
+  const pageRows = hasMore ? rows.slice(0, page.limit) : rows;
+  const tagsByTransaction = await getTagsForTransactions(db, tenantId, pageRows.map(row => row.id));
+  const last = pageRows[pageRows.length - 1];
+
+  const totalIncome = aggregate?.totalIncome || 0;
+  const totalExpenses = aggregate?.totalExpenses || 0;
+  const totals: SearchTotals = {
+    count: aggregate?.count || 0,
+    totalIncome,
+    totalExpenses,
+    totalTransfers: aggregate?.totalTransfers || 0,
+    net: subtractMoney(totalIncome, totalExpenses),
+  };
+
+  return {
+    transactions: pageRows.map(row => ({ ...row, tags: tagsByTransaction.get(row.id) ?? [] })),
+    nextCursor: hasMore && last ? encodeSearchCursor(last) : null,
+    hasMore,
+    totals,
+  };
+}
@@ -0,0 +1,223 @@
+import { and, eq, gte, lte, isNull, notExists, sql, inArray, type SQL } from 'drizzle-orm';
+import { categories, transactions, transactionSplits } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+import { subtractMoney, sumMoney, sumMoneyBy, type TransactionSplitLine } from '@finhome360/shared';
+
+type Db = ReturnType<typeof getDb>;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 90;
+
+export interface CategorySpendingFilter {
+  type?: 'income' | 'expense' | 'transfer';
+  categoryId?: string;
+  categoryIds?: string[]; // Any of these categories
+  startDate?: Date;
+  endDate?: Date;
+  includeArchived?: boolean;
+}
+
+/**
+ * Returns an error message when the split lines do not add up to the parent amount
+ */
+export function validateSplitTotal(parentAmount: number, lines: TransactionSplitLine[]): string | null {
+  const total = sumMoneyBy(lines, line => line.amount);
+  const expected = Math.abs(parentAmount);
+
+  if (subtractMoney(total, expected) !== 0) {
+    return `Split amounts total ${total.toFixed(2)} but the transaction amount is ${expected.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Condition matching transactions that have no split lines
+ */
+export function isNotSplit(db: Db): SQL {
+  return notExists(
+    db
+      .select({ id: transactionSplits.id })
+      .from(transactionSplits)
+      .where(eq(transactionSplits.transactionId, transactions.id))
+  );
+}
+
+/**
+ * Get the split lines of a transaction with their category details
+ */
+export async function getSplits(db: Db, tenantId: string, transactionId: string) {
+  return db
+    .select({
+      id: transactionSplits.id,
+      transactionId: transactionSplits.transactionId,
+      categoryId: transactionSplits.categoryId,
+      amount: transactionSplits.amount,
+      notes: transactionSplits.notes,
+      categoryName: categories.name,
+      categoryColor: categories.color,
+      categoryIcon: categories.icon,
+    })
+    .from(transactionSplits)
+    .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+    .where(and(eq(transactionSplits.tenantId, tenantId), eq(transactionSplits.transactionId, transactionId)))
+    .all();
+}
+
+/**
+ * Replace all split lines of a transaction
+ */
+export async function replaceSplits(
+  db: Db,
+  tenantId: string,
+  transactionId: string,
+  lines: TransactionSplitLine[]
+): Promise<void> {
+  const now = getCurrentTimestamp();
+
+  await db.batch([
+    db
+      .delete(transactionSplits)
+      .where(and(eq(transactionSplits.tenantId, tenantId), eq(transactionSplits.transactionId, transactionId))),
+    ...lines.map(line =>
+      db.insert(transactionSplits).values({
+        id: crypto.randomUUID(),
+        tenantId,
+        transactionId,
+        categoryId: line.categoryId,
+        amount: line.amount,
+        notes: line.notes ?? null,
+        createdAt: now,
+        updatedAt: now,
+      })
+    ),
+  ]);
+}
+
+/**
+ * Delete split lines for the given transactions, or for every transaction of the tenant
+ */
+export async function deleteSplits(db: Db, tenantId: string, transactionIds?: string[]): Promise<void> {
+  if (!transactionIds) {
+    await db.delete(transactionSplits).where(eq(transactionSplits.tenantId, tenantId)).run();
+    return;
+  }
+
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = transactionIds.slice(i, i + ID_CHUNK_SIZE);
+    await db
+      .delete(transactionSplits)
+      .where(and(eq(transactionSplits.tenantId, tenantId), inArray(transactionSplits.transactionId, chunk)))
+      .run();
+  }
+}
+
+/**
+ * Delete split lines of every transaction in an account
+ */
+export async function deleteAccountSplits(db: Db, tenantId: string, accountId: string): Promise<void> {
+  await db
+    .delete(transactionSplits)
+    .where(
+      and(
+        eq(transactionSplits.tenantId, tenantId),
+        inArray(
+          transactionSplits.transactionId,
+          db
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(and(eq(transactions.tenantId, tenantId), eq(transactions.accountId, accountId)))
+        )
+      )
+    )
+    .run();
+}
+
+// Conditions on unsplit transactions and on split lines (joined to their parent) for a spending filter
+function categorySpendingConditions(db: Db, tenantId: string, filter: CategorySpendingFilter): { unsplit: SQL[]; split: SQL[] } {
+  const parentConditions = [eq(transactions.tenantId, tenantId)];
+  if (filter.type) parentConditions.push(eq(transactions.type, filter.type));
+  if (filter.startDate) parentConditions.push(gte(transactions.date, filter.startDate));
+  if (filter.endDate) parentConditions.push(lte(transactions.date, filter.endDate));
+  if (!filter.includeArchived) parentConditions.push(isNull(transactions.archivedAt));
+
+  const unsplit = [...parentConditions, isNotSplit(db)];
+  const split = [...parentConditions, eq(transactionSplits.tenantId, tenantId)];
+  if (filter.categoryId) {
+    unsplit.push(eq(transactions.categoryId, filter.categoryId));
+    split.push(eq(transactionSplits.categoryId, filter.categoryId));
+  }
+  if (filter.categoryIds) {
+    unsplit.push(inArray(transactions.categoryId, filter.categoryIds));
+    split.push(inArray(transactionSplits.categoryId, filter.categoryIds));
+  }
+  return { unsplit, split };
+}
+
+/**
+ * Total amount per category, counting split lines instead of their parent.
+ * Returns a map of categoryId to the summed absolute amount.
+ */
+export async function getCategoryTotals(
+  db: Db,
+  tenantId: string,
+  filter: CategorySpendingFilter = {}
+): Promise<Map<string, number>> {
+  const { unsplit: unsplitConditions, split: splitConditions } = categorySpendingConditions(db, tenantId, filter);
+
+  const [unsplit, split] = await Promise.all([
+    db
+      .select({
+        categoryId: transactions.categoryId,
+        total: sql<number>`sum(abs(${transactions.amount}))`.mapWith(transactions.amount),
+      })
+      .from(transactions)
+      .where(and(...unsplitConditions))
+      .groupBy(transactions.categoryId)
+      .all(),
+    db
+      .select({
+        categoryId: transactionSplits.categoryId,
+        total: sql<number>`sum(abs(${transactionSplits.amount}))`.mapWith(transactionSplits.amount),
+      })
+      .from(transactionSplits)
+      .innerJoin(transactions, eq(transactionSplits.transactionId, transactions.id))
+      .where(and(...splitConditions))
+      .groupBy(transactionSplits.categoryId)
+      .all(),
+  ]);
+
+  const totals = new Map<string, number>();
+  for (const row of [...unsplit, ...split]) {
+    totals.set(row.categoryId, sumMoney([totals.get(row.categoryId), row.total]));
+  }
+  return totals;
+}
+
+/**
+ * Absolute amounts matching the filter with their category and transaction
+ * date, one row per unsplit transaction or split line, for bucketing into periods
+ */
+export async function getCategoryAmounts(
+  db: Db,
+  tenantId: string,
+  filter: CategorySpendingFilter = {}
+): Promise<{ categoryId: string; date: Date; amount: number }[]> {
+  const { unsplit, split } = categorySpendingConditions(db, tenantId, filter);
+
+  const [unsplitRows, splitRows] = await Promise.all([
+    db
+      .select({ categoryId: transactions.categoryId, date: transactions.date, amount: transactions.amount })
+      .from(transactions)
+      .where(and(...unsplit))
+      .all(),
+    db
+      .select({ categoryId: transactionSplits.categoryId, date: transactions.date, amount: transactionSplits.amount })
+      .from(transactionSplits)
+      .innerJoin(transactions, eq(transactionSplits.transactionId, transactions.id))
+      .where(and(...split))
+      .all(),
+  ]);
+
+  return [...unsplitRows, ...splitRows].map(row => ({ ...row, amount: Math.abs(row.amount) }));
+}
@@ -1,4 +1,4 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, gte } from 'drizzle-orm';
 import type { DrizzleD1Database } from 'drizzle-orm/d1';
 import {
   bankConnections,
@@ -11,7 +11,10 @@ import {
 } from '../db/schema';
 import { TrueLayerService } from './truelayer';
 import { persistTransactionsFromImport } from './importProcessor';
+import { applyRulesToTransactions } from './categorizationRules';
 import { CloudflareAIService } from './workersai.service';
+import { AlertRulesService } from './alertRules.service';
+import { matchBillPayments } from './billReminders';
 import type { Env } from '../types';
 import * as schema from '../db/schema';
 
@@ -219,6 +222,29 @@ export class TransactionSyncService {
             }
           }
 
+          // Evaluate tenant alert rules and match bill payments once categories have been assigned
+          if (result.transactionsImported > 0) {
+            try {
+              const syncedTransactions = await this.getSyncedTransactions(connection.tenantId, finhomeAccount.id, startedAt);
+
+              try {
+                await AlertRulesService.evaluateTransactions({ env: this.env }, connection.tenantId, syncedTransactions);
+              } catch (alertError) {
+                console.error('Alert rule evaluation failed:', alertError);
+                // Don't fail the sync if alert evaluation fails
+              }
+
+              try {
+                await matchBillPayments({ env: this.env }, connection.tenantId, syncedTransactions);
+              } catch (billError) {
+                console.error('Bill payment matching failed:', billError);
+              }
+            } catch (loadError) {
+              console.error('Loading synced transactions failed:', loadError);
+              // Don't fail the sync, or skip the account's sync date update, if the reload fails
+            }
+          }
+
           // Detect and create recurring transactions
           if (result.transactionsImported > 0) {
             try {
@@ -471,7 +497,8 @@ export class TransactionSyncService {
               nextDate: nextDate,
               endDate: null,
               status: 'active',
-              autoCreate: true,
+              // The bank feed already delivers these; posting them too would duplicate every occurrence
+              autoCreate: false,
               notes: `Auto-detected from ${group.length} similar transactions`,
               createdAt: new Date(),
               updatedAt: new Date(),
@@ -496,6 +523,26 @@ export class TransactionSyncService {
       .trim();
   }
 
+  /**
+   * Transactions this sync created in the account
+   */
+  private async getSyncedTransactions(tenantId: string, accountId: string, startedAt: number) {
+    // createdAt is stored with second precision
+    const since = new Date(Math.floor(startedAt / 1000) * 1000);
+
+    return this.db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.tenantId, tenantId),
+          eq(transactions.accountId, accountId),
+          gte(transactions.createdAt, since)
+        )
+      )
+      .all();
+  }
+
   /**
    * Auto-categorize uncategorized transactions using AI
    */
@@ -524,6 +571,12 @@ export class TransactionSyncService {
 
     if (uncategorizedTransactions.length === 0) return;
 
+    // Tenant categorization rules take precedence over AI suggestions
+    const ruleOutcomes = await applyRulesToTransactions(this.db, tenantId, uncategorizedTransactions);
+    const categorizedByRule = new Set(
+      ruleOutcomes.filter(outcome => outcome.changes.categoryId).map(outcome => outcome.transactionId)
+    );
+
     // Get all available categories for this tenant
     const allCategories = await this.db
       .select()
@@ -533,8 +586,10 @@ export class TransactionSyncService {
 
     const aiService = new CloudflareAIService(this.env.AI);
 
-    // Categorize each transaction
+    // Categorize each remaining transaction
     for (const transaction of uncategorizedTransactions) {
+      if (categorizedByRule.has(transaction.id)) continue;
+
       try {
         const suggestion = await aiService.categorizeTransaction(
           transaction.description,
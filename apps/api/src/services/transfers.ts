@@ -0,0 +1,371 @@
+import { and, eq, gte, lte, inArray, isNull, or, sql } from 'drizzle-orm';
+import { DEFAULT_CURRENCY, toMinorUnits } from '@finhome360/shared';
+import { accounts, categories, transactions, transfers } from '../db';
+import { getCurrentTimestamp } from '../utils/timestamp';
+import type { getDb } from '../db';
+
+type Db = ReturnType<typeof getDb>;
+
+export type Transfer = typeof transfers.$inferSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AMOUNT_TOLERANCE = 0.005;
+
+// D1 limits bound parameters per statement
+const ID_CHUNK_SIZE = 45;
+
+// Default window (in days) within which the two sides of a transfer may settle
+export const TRANSFER_MATCH_WINDOW_DAYS = 3;
+
+export interface CreateTransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: Date;
+  description?: string;
+  notes?: string;
+}
+
+export interface TransferMatchCandidate {
+  id: string;
+  accountId: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  date: Date;
+}
+
+export interface TransferPair {
+  from: TransferMatchCandidate;
+  to: TransferMatchCandidate;
+}
+
+/**
+ * Pair each new transaction with an equal-and-opposite transaction on a
+ * different account within the window. The closest date wins; when two
+ * candidates are equally close the match is ambiguous and skipped.
+ */
+export function findTransferPairs(
+  newTransactions: TransferMatchCandidate[],
+  pool: TransferMatchCandidate[],
+  windowDays: number = TRANSFER_MATCH_WINDOW_DAYS
+): TransferPair[] {
+  const used = new Set<string>();
+  const pairs: TransferPair[] = [];
+  const allCandidates = [...pool, ...newTransactions.filter(txn => !pool.some(p => p.id === txn.id))];
+  const sorted = [...newTransactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const txn of sorted) {
+    if (used.has(txn.id) || txn.type === 'transfer') continue;
+    const oppositeType = txn.type === 'expense' ? 'income' : 'expense';
+
+    let best: TransferMatchCandidate | null = null;
+    let bestDistance = Infinity;
+    let ambiguous = false;
+
+    for (const candidate of allCandidates) {
+      if (candidate.id === txn.id || used.has(candidate.id)) continue;
+      if (candidate.type !== oppositeType || candidate.accountId === txn.accountId) continue;
+      if (Math.abs(Math.abs(candidate.amount) - Math.abs(txn.amount)) > AMOUNT_TOLERANCE) continue;
+
+      const distance = Math.abs(candidate.date.getTime() - txn.date.getTime());
+      if (distance > windowDays * DAY_MS) continue;
+
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+        ambiguous = false;
+      } else if (distance === bestDistance) {
+        ambiguous = true;
+      }
+    }
+
+    if (best && !ambiguous) {
+      used.add(txn.id);
+      used.add(best.id);
+      pairs.push(txn.type === 'expense' ? { from: txn, to: best } : { from: best, to: txn });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Get or create the category used for transfer transactions
+ */
+export async function getTransferCategoryId(db: Db, tenantId: string): Promise<string> {
+  const existing = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(and(eq(categories.tenantId, tenantId), eq(categories.name, 'Transfers')))
+    .get();
+
+  if (existing) return existing.id;
+
+  const now = getCurrentTimestamp();
+  const categoryId = crypto.randomUUID();
+  await db
+    .insert(categories)
+    .values({
+      id: categoryId,
+      tenantId,
+      name: 'Transfers',
+      type: 'expense',
+      color: '#6B7280',
+      icon: '🔁',
+      parentId: null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .run();
+
+  return categoryId;
+}
+
+/**
+ * Record money moved between two accounts: both transactions, the transfer
+ * and both balance changes are written in a single batch.
+ */
+export async function createTransfer(db: Db, tenantId: string, input: CreateTransferInput): Promise<Transfer> {
+  const now = getCurrentTimestamp();
+  const categoryId = await getTransferCategoryId(db, tenantId);
+  const transferId = crypto.randomUUID();
+  const fromTransactionId = crypto.randomUUID();
+  const accountCurrencies = await db
+    .select({ id: accounts.id, currency: accounts.currency })
+    .from(accounts)
+    .where(and(eq(accounts.tenantId, tenantId), inArray(accounts.id, [input.fromAccountId, input.toAccountId])))
+    .all();
+  const toTransactionId = crypto.randomUUID();
+  const description = input.description || 'Transfer';
+
+  const transfer: Transfer = {
+    id: transferId,
+    tenantId,
+    fromAccountId: input.fromAccountId,
+    toAccountId: input.toAccountId,
+    fromTransactionId,
+    toTransactionId,
+    amount: input.amount,
+    date: input.date,
+    description,
+    source: 'created',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const transferTransaction = (id: string, accountId: string) => ({
+    id,
+    tenantId,
+    accountId,
+    categoryId,
+    amount: input.amount,
+    currency: accountCurrencies.find(account => account.id === accountId)?.currency ?? DEFAULT_CURRENCY,
+    description,
+    date: input.date,
+    type: 'transfer' as const,
+    notes: input.notes ?? null,
+    providerTransactionId: null,
+    transferId,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await db.batch([
+    db.insert(transactions).values(transferTransaction(fromTransactionId, input.fromAccountId)),
+    db.insert(transactions).values(transferTransaction(toTransactionId, input.toAccountId)),
+    db.insert(transfers).values(transfer),
+    db
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} - ${toMinorUnits(input.amount)}`, updatedAt: now })
+      .where(and(eq(accounts.id, input.fromAccountId), eq(accounts.tenantId, tenantId))),
+    db
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} + ${toMinorUnits(input.amount)}`, updatedAt: now })
+      .where(and(eq(accounts.id, input.toAccountId), eq(accounts.tenantId, tenantId))),
+  ]);
+
+  return transfer;
+}
+
+/**
+ * Link an existing debit and credit as the two sides of a transfer.
+ * Balances already reflect both transactions, so they are not touched.
+ */
+export async function linkTransfer(
+  db: Db,
+  tenantId: string,
+  from: typeof transactions.$inferSelect,
+  to: typeof transactions.$inferSelect,
+  source: 'matched' | 'linked'
+): Promise<Transfer> {
+  const now = getCurrentTimestamp();
+  const transfer: Transfer = {
+    id: crypto.randomUUID(),
+    tenantId,
+    fromAccountId: from.accountId,
+    toAccountId: to.accountId,
+    fromTransactionId: from.id,
+    toTransactionId: to.id,
+    amount: Math.abs(from.amount),
+    date: from.date,
+    description: from.description,
+    source,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.batch([
+    db.insert(transfers).values(transfer),
+    db
+      .update(transactions)
+      .set({ type: 'transfer', transferId: transfer.id, updatedAt: now })
+      .where(and(eq(transactions.tenantId, tenantId), inArray(transactions.id, [from.id, to.id]))),
+  ]);
+
+  return transfer;
+}
+
+/**
+ * Remove a transfer. Created transfers are deleted along with their
+ * transactions and balance changes; matched or linked transfers are unlinked
+ * and their transactions go back to being an expense and an income.
+ */
+export async function removeTransfer(db: Db, tenantId: string, transfer: Transfer): Promise<void> {
+  const now = getCurrentTimestamp();
+  const bothSides = and(
+    eq(transactions.tenantId, tenantId),
+    inArray(transactions.id, [transfer.fromTransactionId, transfer.toTransactionId])
+  );
+
+  if (transfer.source === 'created') {
+    await db.batch([
+      db.update(transactions).set({ transferId: null }).where(bothSides),
+      db.delete(transfers).where(eq(transfers.id, transfer.id)),
+      db.delete(transactions).where(bothSides),
+      db
+        .update(accounts)
+        .set({ balance: sql`${accounts.balance} + ${toMinorUnits(transfer.amount)}`, updatedAt: now })
+        .where(and(eq(accounts.id, transfer.fromAccountId), eq(accounts.tenantId, tenantId))),
+      db
+        .update(accounts)
+        .set({ balance: sql`${accounts.balance} - ${toMinorUnits(transfer.amount)}`, updatedAt: now })
+        .where(and(eq(accounts.id, transfer.toAccountId), eq(accounts.tenantId, tenantId))),
+    ]);
+    return;
+  }
+
+  await unlinkTransfer(db, tenantId, transfer);
+}
+
+/**
+ * Unlink a transfer, keeping its transactions. The debit side becomes an
+ * expense and the credit side an income, which matches their balance effect.
+ */
+export async function unlinkTransfer(db: Db, tenantId: string, transfer: Transfer): Promise<void> {
+  const now = getCurrentTimestamp();
+
+  await db.batch([
+    db
+      .update(transactions)
+      .set({ type: 'expense', transferId: null, updatedAt: now })
+      .where(and(eq(transactions.tenantId, tenantId), eq(transactions.id, transfer.fromTransactionId))),
+    db
+      .update(transactions)
+      .set({ type: 'income', transferId: null, updatedAt: now })
+      .where(and(eq(transactions.tenantId, tenantId), eq(transactions.id, transfer.toTransactionId))),
+    db.delete(transfers).where(eq(transfers.id, transfer.id)),
+  ]);
+}
+
+/**
+ * Unlink every transfer touching the given transactions so they can be deleted
+ */
+export async function unlinkTransfersForTransactions(db: Db, tenantId: string, transactionIds: string[]): Promise<void> {
+  for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = transactionIds.slice(i, i + ID_CHUNK_SIZE);
+    const linked = await db
+      .select()
+      .from(transfers)
+      .where(
+        and(
+          eq(transfers.tenantId, tenantId),
+          or(inArray(transfers.fromTransactionId, chunk), inArray(transfers.toTransactionId, chunk))
+        )
+      )
+      .all();
+
+    for (const transfer of linked) {
+      await unlinkTransfer(db, tenantId, transfer);
+    }
+  }
+}
+
+/**
+ * Unlink every transfer into or out of an account so it can be deleted
+ */
+export async function unlinkTransfersForAccount(db: Db, tenantId: string, accountId: string): Promise<void> {
+  const linked = await db
+    .select()
+    .from(transfers)
+    .where(
+      and(
+        eq(transfers.tenantId, tenantId),
+        or(eq(transfers.fromAccountId, accountId), eq(transfers.toAccountId, accountId))
+      )
+    )
+    .all();
+
+  for (const transfer of linked) {
+    await unlinkTransfer(db, tenantId, transfer);
+  }
+}
+
+/**
+ * Pair the given new transactions with equal-and-opposite transactions on
+ * the tenant's other accounts. Returns the transfers created.
+ */
+export async function autoMatchTransfers(
+  db: Db,
+  tenantId: string,
+  newTransactions: typeof transactions.$inferSelect[],
+  windowDays: number = TRANSFER_MATCH_WINDOW_DAYS
+): Promise<Transfer[]> {
+  // Reconciled transactions keep their type, so they are never paired
+  const unlinked = newTransactions.filter(txn => !txn.transferId && txn.type !== 'transfer' && !txn.reconciledAt);
+  if (unlinked.length === 0) return [];
+
+  const times = unlinked.map(txn => txn.date.getTime());
+  const windowStart = new Date(Math.min(...times) - windowDays * DAY_MS);
+  const windowEnd = new Date(Math.max(...times) + windowDays * DAY_MS);
+
+  const pool = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.tenantId, tenantId),
+        isNull(transactions.transferId),
+        isNull(transactions.reconciledAt),
+        inArray(transactions.type, ['income', 'expense']),
+        gte(transactions.date, windowStart),
+        lte(transactions.date, windowEnd)
+      )
+    )
+    .all();
+
+  const byId = new Map(pool.map(txn => [txn.id, txn]));
+  for (const txn of unlinked) byId.set(txn.id, txn);
+
+  const pairs = findTransferPairs(unlinked, pool, windowDays);
+  const created: Transfer[] = [];
+
+  for (const pair of pairs) {
+    try {
+      created.push(await linkTransfer(db, tenantId, byId.get(pair.from.id)!, byId.get(pair.to.id)!, 'matched'));
+    } catch (error) {
+      console.error(`Failed to link transfer ${pair.from.id} -> ${pair.to.id}:`, error);
+    }
+  }
+
+  return created;
+}
@@ -12,6 +12,7 @@ export interface Env {
     AI: any; // Cloudflare Workers AI binding
     JWT_SECRET: string;
     FRONTEND_URL: string;
+    API_URL?: string; // Public base URL of this worker, for links in emails
     ENVIRONMENT: string;
     RESEND_API_KEY?: string;
     TRUELAYER_CLIENT_ID: string;
@@ -1,5 +0,0 @@
-declare module 'pdf-lib' {
-  export const PDFDocument: any;
-  export const StandardFonts: any;
-  export const rgb: (r: number, g: number, b: number) => any;
-}
@@ -1,6 +1,7 @@
-import { detectPdfTemplate, type BankPdfTemplate } from '@finhome360/shared';
+import { MAX_MATCHED_TEXT_LENGTH, detectPdfTemplate, type BankPdfTemplate, type ColumnMapping, type ImportDateFormat } from '@finhome360/shared';
 import { getDocument } from 'pdfjs-dist';
 import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { readWorkbook, isXlsFile, isXlsxFile, type CellValue, type Worksheet } from './spreadsheetParser';
 
 // CSV Parser utility
 export interface CSVParseResult {
@@ -77,13 +78,18 @@ export function parseCSV(csvContent: string): CSVParseResult {
 
 // Transaction mapping for common CSV formats
 export interface ParsedTransaction {
-  date: Date;
+  date: Date; // Booking date
   description: string;
   amount: number;
   type: 'income' | 'expense';
   notes?: string;
   category?: string;
   providerTransactionId?: string; // For bank sync deduplication
+  valueDate?: Date; // Date the funds were credited or debited, when the statement gives one
+  counterparty?: string; // Payee or payer name
+  reference?: string; // End-to-end, cheque or payment reference
+  currency?: string; // ISO 4217 code from the statement
+  balance?: number; // Running balance after this row, when the statement prints one
 }
 
 /**
@@ -472,14 +478,256 @@ export function parseXML(xmlContent: string): ParsedTransaction[] {
   return transactions;
 }
 
+// QIF Parser (Quicken Interchange Format, exported by many UK banks and desktop tools)
+export interface QIFParseOptions {
+  dateOrder?: 'MDY' | 'DMY'; // Detected from the file's dates when omitted
+}
+
+// Account types whose records are transactions (investment, category and memorised lists are skipped)
+const QIF_TRANSACTION_TYPES = /^!Type:(Bank|Cash|CCard|Oth A|Oth L)\s*$/i;
+
+function readQIFRecords(qifContent: string): Record<string, string>[] {
+  const records: Record<string, string>[] = [];
+  let inTransactions = true;
+  let current: Record<string, string> = {};
+
+  for (const rawLine of qifContent.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      if (/^!Type:/i.test(line)) {
+        inTransactions = QIF_TRANSACTION_TYPES.test(line);
+      } else if (/^!Account/i.test(line)) {
+        inTransactions = false;
+      }
+      current = {};
+      continue;
+    }
+
+    if (line.startsWith('^')) {
+      if (inTransactions && current.D) records.push(current);
+      current = {};
+      continue;
+    }
+
+    // Only the first value of repeated fields (address lines, split lines) is kept
+    const code = line[0];
+    if (current[code] === undefined) current[code] = line.substring(1).trim();
+  }
+
+  return records;
+}
+
+function detectQIFDateOrder(dates: string[]): 'MDY' | 'DMY' {
+  let firstAboveTwelve = false;
+  let secondAboveTwelve = false;
+  let dotted = false;
+
+  for (const value of dates) {
+    const parts = value.match(/\d+/g);
+    if (!parts || parts.length < 3 || parts[0].length === 4) continue;
+    if (parseInt(parts[0], 10) > 12) firstAboveTwelve = true;
+    if (parseInt(parts[1], 10) > 12) secondAboveTwelve = true;
+    if (value.includes('.')) dotted = true;
+  }
+
+  if (firstAboveTwelve !== secondAboveTwelve) return firstAboveTwelve ? 'DMY' : 'MDY';
+  // Quicken itself writes month first; European exports use dots
+  return dotted ? 'DMY' : 'MDY';
+}
+
+function parseQIFDate(value: string, dateOrder: 'MDY' | 'DMY'): Date | null {
+  const parts = value.match(/\d+/g);
+  if (!parts || parts.length < 3) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (parts[0].length === 4) {
+    [year, month, day] = parts.map(part => parseInt(part, 10));
+  } else {
+    const [first, second, yearPart] = parts.map(part => parseInt(part, 10));
+    [month, day] = dateOrder === 'MDY' ? [first, second] : [second, first];
+    // Quicken writes 2000+ years as 1/15'24; plain two-digit years pivot at 70
+    year = parts[2].length > 2 ? yearPart : value.includes("'") || yearPart < 70 ? 2000 + yearPart : 1900 + yearPart;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function parseQIFAmount(value: string): number | null {
+  const trimmed = (value || '').replace(/\s/g, '');
+  // "1.234,56" style amounts use a decimal comma
+  const normalized = /^-?[\d.]*,\d{1,2}$/.test(trimmed)
+    ? trimmed.replace(/\./g, '').replace(',', '.')
+    : trimmed.replace(/,/g, '');
+  return parseAmount(normalized);
+}
+
+export function parseQIF(qifContent: string, options: QIFParseOptions = {}): ParsedTransaction[] {
+  const transactions: ParsedTransaction[] = [];
+  const records = readQIFRecords(qifContent);
+  const dateOrder = options.dateOrder ?? detectQIFDateOrder(records.map(record => record.D));
+
+  for (const record of records) {
+    const date = parseQIFDate(record.D, dateOrder);
+    const amount = parseQIFAmount(record.T ?? record.U ?? '');
+    if (!date || !amount) continue;
+
+    const payee = record.P || undefined;
+    const memo = record.M || undefined;
+    // [Account] categories are transfers; "Parent:Child/Class" keeps the child category
+    const category = record.L && !record.L.startsWith('[')
+      ? record.L.split('/')[0].split(':').pop()!.trim() || undefined
+      : undefined;
+
+    transactions.push({
+      date,
+      description: payee || memo || 'QIF Transaction',
+      amount: Math.abs(amount),
+      type: amount > 0 ? 'income' : 'expense',
+      notes: payee && memo ? memo : undefined,
+      category,
+      counterparty: payee,
+      reference: record.N || undefined,
+    });
+  }
+
+  return transactions;
+}
+
+// CAMT.053 Parser (ISO 20022 bank-to-customer statement XML)
+function camtElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*?(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1] ?? '');
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function camtDecode(body: string): string {
+  return body
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Text of the first element found by following the path of child tags
+function camtText(xml: string, ...path: string[]): string {
+  let current = xml;
+  for (const tag of path) {
+    const [found] = camtElements(current, tag);
+    if (found === undefined) return '';
+    current = found;
+  }
+  return camtDecode(current);
+}
+
+function camtDate(xml: string, tag: string): Date | undefined {
+  const value = camtText(xml, tag, 'Dt') || camtText(xml, tag, 'DtTm');
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : undefined;
+}
+
+function camtAmount(xml: string): { amount: number; currency?: string } | null {
+  const match = xml.match(/<(?:\w+:)?Amt\b([^>]*)>([^<]+)<\/(?:\w+:)?Amt>/);
+  if (!match) return null;
+  const amount = parseFloat(match[2].trim());
+  if (Number.isNaN(amount)) return null;
+  return { amount, currency: match[1].match(/Ccy\s*=\s*["']([A-Z]{3})["']/)?.[1] };
+}
+
+// Name of the other party: the creditor for money out, the debtor for money in
+function camtCounterparty(details: string, credit: boolean): string {
+  const parties = camtElements(details, 'RltdPties')[0] ?? '';
+  const party = camtElements(parties, credit ? 'Dbtr' : 'Cdtr')[0] ?? '';
+  return camtText(party, 'Nm');
+}
+
+export function isCAMT053(xmlContent: string): boolean {
+  return /<(?:\w+:)?BkToCstmrStmt\b/.test(xmlContent);
+}
+
+export function parseCAMT053(xmlContent: string): ParsedTransaction[] {
+  if (!isCAMT053(xmlContent)) {
+    throw new Error('Not a CAMT.053 bank statement');
+  }
+
+  const transactions: ParsedTransaction[] = [];
+
+  for (const statement of camtElements(xmlContent, 'Stmt')) {
+    const accountCurrency = camtText(camtElements(statement, 'Acct')[0] ?? '', 'Ccy') || undefined;
+
+    for (const entry of camtElements(statement, 'Ntry')) {
+      // Pending and informational entries have not been booked yet
+      const status = camtText(entry, 'Sts', 'Cd') || camtText(entry, 'Sts');
+      if (status && status.toUpperCase() !== 'BOOK') continue;
+
+      const entryLevel = entry.replace(/<(?:\w+:)?NtryDtls\b[\s\S]*<\/(?:\w+:)?NtryDtls>/, '');
+      const entryAmount = camtAmount(entryLevel);
+      const entryCredit = camtText(entryLevel, 'CdtDbtInd') === 'CRDT';
+      const bookingDate = camtDate(entryLevel, 'BookgDt');
+      const valueDate = camtDate(entryLevel, 'ValDt');
+      const date = bookingDate ?? valueDate;
+      if (!entryAmount || !date) continue;
+
+      const entryReference = camtText(entryLevel, 'AcctSvcrRef');
+      const entryInfo = camtText(entryLevel, 'AddtlNtryInf');
+      const details = camtElements(entry, 'TxDtls');
+
+      // Batch bookings list each payment with its own amount; otherwise the entry is one transaction
+      const batch = details.length > 1 && details.every(detail => camtAmount(detail) !== null);
+      const items = batch
+        ? details.map(detail => ({ detail, amount: camtAmount(detail)!, credit: (camtText(detail, 'CdtDbtInd') || (entryCredit ? 'CRDT' : 'DBIT')) === 'CRDT' }))
+        : [{ detail: details[0] ?? '', amount: entryAmount, credit: entryCredit }];
+
+      items.forEach(({ detail, amount, credit }, index) => {
+        if (!amount.amount) return;
+
+        const endToEndId = camtText(detail, 'Refs', 'EndToEndId');
+        const remittance = camtElements(detail, 'Ustrd').map(camtDecode).join(' ').trim();
+        const structuredReference = camtText(detail, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref');
+        const counterparty = camtCounterparty(detail, credit) || undefined;
+        const transactionReference = camtText(detail, 'Refs', 'AcctSvcrRef');
+        const description = counterparty || remittance || camtText(detail, 'AddtlTxInf') || entryInfo || 'CAMT Transaction';
+        const notes = [remittance, entryInfo].filter(value => value && value !== description).join(' | ');
+
+        transactions.push({
+          date,
+          valueDate,
+          description,
+          amount: Math.abs(amount.amount),
+          type: credit ? 'income' : 'expense',
+          notes: notes || undefined,
+          counterparty,
+          reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : '') || structuredReference || undefined,
+          currency: amount.currency ?? accountCurrency,
+          providerTransactionId:
+            transactionReference || (entryReference ? (batch ? `${entryReference}-${index + 1}` : entryReference) : undefined),
+        });
+      });
+    }
+  }
+
+  return transactions;
+}
+
 // PDF Parser (basic text extraction for bank statements)
 export interface BankPdfParseOptions {
   templateId?: string;
+  customTemplates?: BankPdfTemplate[]; // Tenant templates, checked before the built-ins
+  template?: BankPdfTemplate; // Use this template instead of detecting one
 }
 
 export interface BankPdfParseResult {
   template?: BankPdfTemplate;
   transactions: ParsedTransaction[];
+  matchedLines: string[]; // Source line of each transaction, by index
   unmatchedLines: string[];
   warnings: string[];
 }
@@ -505,12 +753,19 @@ export async function parseBankPdf(
   pdfContent: ArrayBuffer,
   options: BankPdfParseOptions = {}
 ): Promise<BankPdfParseResult> {
-  const text = await extractPdfText(pdfContent);
-  const template = detectPdfTemplate(text, options.templateId);
+  return parseBankPdfText(await extractPdfText(pdfContent), options);
+}
+
+/**
+ * Apply a bank PDF template to text already extracted from a statement
+ */
+export function parseBankPdfText(text: string, options: BankPdfParseOptions = {}): BankPdfParseResult {
+  const template = options.template ?? detectPdfTemplate(text, options.templateId, options.customTemplates);
 
   if (!template) {
     return {
       transactions: [],
+      matchedLines: [],
       warnings: ['No matching PDF template detected'],
       unmatchedLines: text.split(/\r?\n/).map(sanitizeLine).filter(Boolean),
     };
@@ -520,6 +775,7 @@ export async function parseBankPdf(
   const skipMatchers = (template.skipLineIncludes || []).map(value => value.toLowerCase());
 
   const unmatchedLines: string[] = [];
+  const matchedLines: string[] = [];
   const warnings: string[] = [];
   const transactions: ParsedTransaction[] = [];
 
@@ -539,10 +795,10 @@ export async function parseBankPdf(
       continue;
     }
 
-    const match = template.rowPattern.exec(line);
+    const match = template.rowPattern.exec(line.slice(0, MAX_MATCHED_TEXT_LENGTH));
     template.rowPattern.lastIndex = 0;
 
-    if (match && match.groups) {
+    if (match) {
       flushCurrent();
       const parsed = buildTransactionFromMatch(template, match);
 
@@ -552,6 +808,7 @@ export async function parseBankPdf(
       }
 
       currentTransaction = parsed;
+      matchedLines.push(line);
       continue;
     }
 
@@ -568,6 +825,7 @@ export async function parseBankPdf(
   return {
     template,
     transactions,
+    matchedLines,
     unmatchedLines,
     warnings,
   };
@@ -582,77 +840,594 @@ export function parsePdfLine(
   const clean = sanitizeLine(line);
   if (!clean) return null;
 
-  const match = template.rowPattern.exec(clean);
+  const match = template.rowPattern.exec(clean.slice(0, MAX_MATCHED_TEXT_LENGTH));
   template.rowPattern.lastIndex = 0;
   if (!match) return null;
 
   return buildTransactionFromMatch(template, match);
 }
 
-// Excel/XLS Parser (basic TSV/CSV-like parsing)
-export function parseXLS(xlsContent: string): ParsedTransaction[] {
-  // For basic XLS files exported as text, treat similar to CSV with tabs
-  try {
-    // Replace tabs with commas and parse as CSV
-    const csvContent = xlsContent.replace(/\t/g, ',');
-    const { rows } = parseCSV(csvContent);
-    return mapCSVToTransactions(rows);
-  } catch (error) {
-    throw new Error(`Failed to parse XLS file: ${error}`);
+// Excel Parser (.xlsx and legacy .xls workbooks)
+export interface SpreadsheetParseOptions {
+  sheet?: string | number; // Sheet name or zero-based index; defaults to the first sheet with transactions
+}
+
+// Statements often start with a title block, so look a little way down for the header row
+const MAX_HEADER_SEARCH_ROWS = 25;
+
+function cellToString(value: CellValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    // Serial dates are converted at UTC midnight; keep the calendar day
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'number') {
+    // Drop binary floating point noise such as 12.300000000000001
+    return String(parseFloat(value.toPrecision(15)));
   }
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return value.trim();
 }
 
-// MT940 Parser (SWIFT format used by many European banks)
-export function parseMT940(mt940Content: string): ParsedTransaction[] {
+/**
+ * Find the row holding column headers: the first one with a date column and an amount column
+ */
+function findHeaderRow(rows: string[][]): number {
+  for (let i = 0; i < Math.min(rows.length, MAX_HEADER_SEARCH_ROWS); i++) {
+    const fields = detectFields(rows[i].filter(Boolean));
+    if (fields.date && (fields.amount || (fields.moneyIn && fields.moneyOut))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Turn worksheet rows into CSV-style records keyed by header.
+ * Falls back to the first non-empty row when no header row is recognised,
+ * so the columns can still be mapped by hand.
+ */
+function worksheetToTable(sheet: Worksheet): { headers: string[]; rows: Record<string, string>[]; recognised: boolean } {
+  const rows = sheet.rows.map(row => row.map(cellToString));
+  let headerIndex = findHeaderRow(rows);
+  const recognised = headerIndex >= 0;
+  if (!recognised) headerIndex = rows.findIndex(row => row.some(Boolean));
+  if (headerIndex < 0) return { headers: [], rows: [], recognised };
+
+  const headers = rows[headerIndex].map((header, i) => header || `Column ${i + 1}`);
+  const records: Record<string, string>[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (!row.some(Boolean)) continue; // Skip empty rows
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = row[index] || '';
+    });
+    records.push(record);
+  }
+
+  return { headers, rows: records, recognised };
+}
+
+async function readSpreadsheet(content: ArrayBuffer, options: SpreadsheetParseOptions = {}): Promise<TabularData> {
+  // Some banks export tab-separated text with an .xls extension
+  if (!isXlsxFile(content) && !isXlsFile(content)) {
+    try {
+      const csvContent = new TextDecoder().decode(content).replace(/\t/g, ',');
+      return parseCSV(csvContent);
+    } catch (error) {
+      throw new Error(`Failed to parse XLS file: ${error}`);
+    }
+  }
+
+  const sheets = await readWorkbook(content);
+  const sheetNames = sheets.map(s => s.name);
+
+  if (options.sheet !== undefined) {
+    const sheet = typeof options.sheet === 'number'
+      ? sheets[options.sheet]
+      : sheets.find(s => s.name.toLowerCase() === String(options.sheet).toLowerCase());
+    if (!sheet) {
+      throw new Error(`Sheet "${options.sheet}" not found. Available sheets: ${sheetNames.join(', ')}`);
+    }
+    const { headers, rows } = worksheetToTable(sheet);
+    return { headers, rows, sheet: sheet.name, sheets: sheetNames };
+  }
+
+  // Use the first visible sheet with a recognisable transaction table,
+  // otherwise the first one with any content
+  let fallback: TabularData | null = null;
+  for (const sheet of sheets.filter(s => !s.hidden)) {
+    const { headers, rows, recognised } = worksheetToTable(sheet);
+    if (recognised && rows.length > 0) {
+      return { headers, rows, sheet: sheet.name, sheets: sheetNames };
+    }
+    if (!fallback && headers.length > 0) {
+      fallback = { headers, rows, sheet: sheet.name, sheets: sheetNames };
+    }
+  }
+
+  return fallback ?? { headers: [], rows: [], sheets: sheetNames };
+}
+
+export async function parseXLS(content: ArrayBuffer, options: SpreadsheetParseOptions = {}): Promise<ParsedTransaction[]> {
+  const { rows } = await readSpreadsheet(content, options);
+  return mapCSVToTransactions(rows);
+}
+
+// Tabular imports (CSV and Excel) with an explicit column mapping
+export interface TabularData extends CSVParseResult {
+  sheet?: string; // Worksheet the rows were read from
+  sheets?: string[]; // All worksheets in the workbook
+}
+
+export interface SkippedRow {
+  row: number; // 1-based data row, not counting the header
+  reason: string;
+}
+
+export function isTabularFile(fileName: string): boolean {
+  return /\.(csv|xlsx?)$/i.test(fileName);
+}
+
+/**
+ * Read the header row and records of a CSV or Excel file
+ */
+export async function readTabularFile(
+  fileName: string,
+  content: ArrayBuffer,
+  options: SpreadsheetParseOptions = {}
+): Promise<TabularData> {
+  if (/\.csv$/i.test(fileName)) {
+    return parseCSV(new TextDecoder().decode(content));
+  }
+  if (/\.xlsx?$/i.test(fileName)) {
+    return readSpreadsheet(content, options);
+  }
+  throw new Error('Column mapping is only supported for CSV and Excel files');
+}
+
+/**
+ * Suggest a column mapping from the header names and a sample of rows
+ */
+export function suggestColumnMapping(headers: string[], rows: Record<string, string>[] = []): Partial<ColumnMapping> {
+  const fields = detectFields(headers);
+  const hasDebitCredit = Boolean(fields.moneyIn && fields.moneyOut);
+
+  const mapping: Partial<ColumnMapping> = {
+    dateFormat: 'auto',
+    signConvention: 'negative_is_expense',
+    decimalSeparator: '.',
+  };
+  if (fields.date) mapping.date = fields.date;
+  if (fields.description) mapping.description = fields.description;
+  if (hasDebitCredit) {
+    mapping.debit = fields.moneyOut!;
+    mapping.credit = fields.moneyIn!;
+  } else if (fields.amount) {
+    mapping.amount = fields.amount;
+  }
+  if (fields.type) mapping.type = fields.type;
+  if (fields.notes) mapping.notes = fields.notes;
+  if (fields.category) mapping.category = fields.category;
+
+  // "1.234,56" style amounts mean the file uses a decimal comma
+  const amountColumns = [mapping.amount, mapping.debit, mapping.credit].filter((column): column is string => Boolean(column));
+  const samples = rows.slice(0, 50).flatMap(row => amountColumns.map(column => row[column] || '')).filter(Boolean);
+  const decimalComma = samples.filter(value => /,\d{1,2}\s*$/.test(value) && !/\.\d{1,2}\s*$/.test(value));
+  if (samples.length > 0 && decimalComma.length > samples.length / 2) {
+    mapping.decimalSeparator = ',';
+  }
+
+  return mapping;
+}
+
+/**
+ * Columns referenced by the mapping that are missing from the file
+ */
+export function findMissingColumns(mapping: ColumnMapping, headers: string[]): string[] {
+  const columns = [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit, mapping.type, mapping.notes, mapping.category];
+  return columns.filter((column): column is string => Boolean(column) && !headers.includes(column!));
+}
+
+/**
+ * Parse a date in an explicit format such as DD/MM/YYYY. Any separator is accepted.
+ */
+export function parseDateWithFormat(value: string, format: ImportDateFormat): Date | null {
+  if (!value) return null;
+  if (format === 'auto') return parseDate(value.trim());
+
+  const parts = value.trim().match(/\d+/g);
+  const tokens = format.match(/D+|M+|Y+/g)!;
+  if (!parts || parts.length < tokens.length) return null;
+
+  let day = 0;
+  let month = 0;
+  let year = 0;
+  tokens.forEach((token, i) => {
+    const number = parseInt(parts[i], 10);
+    if (token[0] === 'D') day = number;
+    else if (token[0] === 'M') month = number;
+    // Two-digit years are taken as 20YY
+    else year = token.length === 2 ? 2000 + number : number;
+  });
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse an amount, honouring decimal commas, trailing minus signs and CR/DR suffixes
+ */
+export function parseMappedAmount(value: string, decimalSeparator: ColumnMapping['decimalSeparator']): number | null {
+  let text = (value || '').trim();
+  if (!text) return null;
+
+  let sign = 1;
+  const suffix = text.match(/\s*(CR|DR)$/i);
+  if (suffix) {
+    if (suffix[1].toUpperCase() === 'DR') sign = -1;
+    text = text.slice(0, -suffix[0].length);
+  }
+  if (text.endsWith('-')) {
+    sign = -sign;
+    text = text.slice(0, -1);
+  }
+  if (decimalSeparator === ',') {
+    text = text.replace(/[.\s']/g, '').replace(',', '.');
+  }
+
+  const amount = parseAmount(text);
+  return amount === null ? null : amount * sign;
+}
+
+const INCOME_TYPE_VALUES = /^(cr|credit|income|in|deposit|paid in|received)$/i;
+const EXPENSE_TYPE_VALUES = /^(dr|debit|expense|out|withdrawal|payment|paid out)$/i;
+
+/**
+ * Map rows to transactions using an explicit column mapping.
+ * Rows that cannot be read are reported rather than silently dropped.
+ */
+export function applyColumnMapping(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping
+): { transactions: ParsedTransaction[]; skipped: SkippedRow[] } {
   const transactions: ParsedTransaction[] = [];
-  const lines = mt940Content.split('\n');
-  
-  let currentTransaction: Partial<ParsedTransaction> = {};
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    // :61: - Statement Line (main transaction info)
-    if (trimmedLine.startsWith(':61:')) {
-      // Parse MT940 statement line
-      // Format: :61:YYMMDDMMDDxxx[amount][code][reference]
-      const match = trimmedLine.match(/:61:(\d{6})(\d{4})?([CD])([\d,\.]+)([A-Z]{3})?(.+)/);
-      if (match) {
-        const [, dateStr, , debitCredit, amountStr, , reference] = match;
-        
-        // Parse date (YYMMDD)
-        const year = 2000 + parseInt(dateStr.substring(0, 2));
-        const month = parseInt(dateStr.substring(2, 4)) - 1;
-        const day = parseInt(dateStr.substring(4, 6));
-        
-        const amount = parseFloat(amountStr.replace(',', '.'));
-        
-        currentTransaction = {
-          date: new Date(year, month, day),
-          amount: Math.abs(amount),
-          type: debitCredit === 'C' ? 'income' : 'expense',
-          description: reference?.trim() || 'MT940 Transaction',
-        };
+  const skipped: SkippedRow[] = [];
+  const useDebitCredit = Boolean(mapping.debit || mapping.credit);
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+
+    const dateValue = row[mapping.date] || '';
+    const date = parseDateWithFormat(dateValue, mapping.dateFormat);
+    if (!date) {
+      skipped.push({ row: rowNumber, reason: dateValue ? `Unrecognised date "${dateValue}"` : 'Missing date' });
+      return;
+    }
+
+    let amount: number | null = null;
+    let type: 'income' | 'expense' = 'expense';
+
+    if (useDebitCredit) {
+      const credit = mapping.credit ? parseMappedAmount(row[mapping.credit], mapping.decimalSeparator) : null;
+      const debit = mapping.debit ? parseMappedAmount(row[mapping.debit], mapping.decimalSeparator) : null;
+      if (credit) {
+        amount = Math.abs(credit);
+        type = 'income';
+      } else if (debit) {
+        amount = Math.abs(debit);
+        type = 'expense';
+      }
+    } else if (mapping.amount) {
+      const value = parseMappedAmount(row[mapping.amount], mapping.decimalSeparator);
+      if (value !== null) {
+        const isExpense = mapping.signConvention === 'positive_is_expense' ? value > 0 : value < 0;
+        type = isExpense ? 'expense' : 'income';
+        amount = Math.abs(value);
       }
     }
-    
-    // :86: - Additional information (description/memo)
-    if (trimmedLine.startsWith(':86:') && currentTransaction.date) {
-      const description = trimmedLine.substring(4).trim();
-      currentTransaction.description = description || currentTransaction.description;
-      
-      // Complete the transaction
-      if (currentTransaction.date && currentTransaction.amount !== undefined) {
-        transactions.push(currentTransaction as ParsedTransaction);
-        currentTransaction = {};
+
+    if (!amount) {
+      skipped.push({ row: rowNumber, reason: amount === 0 ? 'Amount is zero' : 'Missing or unreadable amount' });
+      return;
+    }
+
+    // An explicit type column wins over the amount sign
+    const typeValue = mapping.type ? (row[mapping.type] || '').trim() : '';
+    if (INCOME_TYPE_VALUES.test(typeValue)) type = 'income';
+    else if (EXPENSE_TYPE_VALUES.test(typeValue)) type = 'expense';
+
+    transactions.push({
+      date,
+      description: (mapping.description && row[mapping.description]) || 'Unknown Transaction',
+      amount,
+      type,
+      notes: mapping.notes ? row[mapping.notes] || undefined : undefined,
+      category: mapping.category ? row[mapping.category] || undefined : undefined,
+    });
+  });
+
+  return { transactions, skipped };
+}
+
+// MT940 Parser (SWIFT format used by many European banks)
+export interface MT940Balance {
+  date: Date;
+  currency: string;
+  amount: number; // Signed: debit balances are negative
+}
+
+export interface MT940Statement {
+  reference?: string; // :20:
+  account?: string; // :25:
+  statementNumber?: string; // :28C:
+  openingBalance?: MT940Balance; // :60F: or :60M:
+  closingBalance?: MT940Balance; // :62F: or :62M:
+  movement: number; // Sum of the statement lines, credits positive
+  transactionCount: number;
+  // Opening balance plus movements against the closing balance; null when either balance is missing
+  difference: number | null;
+  balanced: boolean | null;
+}
+
+export interface MT940ParseResult {
+  transactions: ParsedTransaction[];
+  statements: MT940Statement[];
+}
+
+interface MT940Field {
+  tag: string;
+  value: string; // Continuation lines joined with \n
+}
+
+// Split into :tag: fields, keeping continuation lines with the field they belong to
+function tokenizeMT940(mt940Content: string): MT940Field[] {
+  const fields: MT940Field[] = [];
+  const content = mt940Content
+    // SWIFT envelopes wrap the text block as {1:...}{2:...}{4: ... -}
+    .replace(/\{[1235]:[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '')
+    .replace(/\{4:/g, '')
+    .replace(/-\}/g, '');
+
+  // Lines keep trailing spaces: wrapped :86: subfields can end with one
+  for (const line of content.split(/\r?\n/)) {
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (line.trim() === '-' || !line.trim()) {
+      continue;
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function parseMT940Date(yymmdd: string): Date {
+  return new Date(2000 + parseInt(yymmdd.substring(0, 2), 10), parseInt(yymmdd.substring(2, 4), 10) - 1, parseInt(yymmdd.substring(4, 6), 10));
+}
+
+function parseMT940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+// :60F:C240301EUR1234,56
+function parseMT940Balance(value: string): MT940Balance | undefined {
+  const match = value.replace(/\s/g, '').match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return undefined;
+  const amount = parseMT940Amount(match[4]);
+  return { date: parseMT940Date(match[2]), currency: match[3], amount: match[1] === 'D' ? -amount : amount };
+}
+
+interface MT940StatementLine {
+  valueDate: Date;
+  bookingDate: Date;
+  amount: number; // Signed movement
+  transactionType: string;
+  customerReference?: string;
+  bankReference?: string;
+  supplementary?: string;
+}
+
+// :61:YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(S|N|F)xxx customer ref[//bank ref][\n supplementary details]
+function parseMT940StatementLine(value: string): MT940StatementLine | null {
+  const [firstLine, ...rest] = value.split('\n');
+  const match = firstLine.match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([SNF][A-Z0-9]{3})?(.*)$/);
+  if (!match) return null;
+
+  const [, valueDateText, entryDateText, mark, , amountText, transactionType = '', references] = match;
+  const valueDate = parseMT940Date(valueDateText);
+
+  // The entry date has no year: take the value date's, adjusting across the new year
+  let bookingDate = valueDate;
+  if (entryDateText) {
+    const month = parseInt(entryDateText.substring(0, 2), 10) - 1;
+    const day = parseInt(entryDateText.substring(2, 4), 10);
+    let year = valueDate.getFullYear();
+    if (month === 11 && valueDate.getMonth() === 0) year--;
+    if (month === 0 && valueDate.getMonth() === 11) year++;
+    bookingDate = new Date(year, month, day);
+  }
+
+  // Reversal of a credit is money out, reversal of a debit is money in
+  const credit = mark === 'C' || mark === 'RD';
+  const amount = parseMT940Amount(amountText);
+  const [customerReference, bankReference] = references.split('//');
+  const cleanReference = (reference?: string) => {
+    const trimmed = reference?.trim();
+    return trimmed && trimmed.toUpperCase() !== 'NONREF' ? trimmed : undefined;
+  };
+
+  return {
+    valueDate,
+    bookingDate,
+    amount: credit ? amount : -amount,
+    transactionType,
+    customerReference: cleanReference(customerReference),
+    bankReference: cleanReference(bankReference),
+    supplementary: rest.join(' ').trim() || undefined,
+  };
+}
+
+interface MT940Information {
+  bookingText?: string; // ?00
+  purpose?: string; // ?20-?29 and ?60-?63
+  counterparty?: string; // ?32-?33
+  endToEndReference?: string; // EREF+ within the purpose
+  text: string;
+}
+
+// :86: is either free text or structured as ?nn subfields (German banks, "166?00GUTSCHRIFT?20...")
+function parseMT940Information(value: string): MT940Information {
+  const joined = value.replace(/\n/g, '');
+  const structured = joined.match(/^(\d{3})?\?\d{2}/);
+
+  if (!structured) {
+    const text = value.replace(/\s*\n\s*/g, ' ').trim();
+    return { text };
+  }
+
+  const subfields = new Map<number, string>();
+  for (const match of joined.matchAll(/\?(\d{2})([^?]*)/g)) {
+    // Untrimmed: fields wrap at a fixed width, so a space may end one subfield and begin the next word
+    subfields.set(parseInt(match[1], 10), match[2]);
+  }
+
+  const join = (from: number, to: number, separator: string) =>
+    Array.from({ length: to - from + 1 }, (_, i) => subfields.get(from + i))
+      .filter(Boolean)
+      .join(separator)
+      .trim();
+
+  // Purpose lines are wrapped at 27 characters, so they join without a separator
+  const purposeLines = [join(20, 29, ''), join(60, 63, '')].filter(Boolean).join('');
+  const sepaFields = new Map<string, string>();
+  for (const match of purposeLines.matchAll(/(EREF|KREF|MREF|CRED|SVWZ|ABWA|ABWE)\+(.*?)(?=(?:EREF|KREF|MREF|CRED|SVWZ|ABWA|ABWE)\+|$)/g)) {
+    sepaFields.set(match[1], match[2].trim());
+  }
+
+  const endToEndReference = sepaFields.get('EREF');
+  const purpose = sepaFields.get('SVWZ') ?? (sepaFields.size > 0 ? undefined : purposeLines.trim());
+
+  return {
+    bookingText: subfields.get(0)?.trim() || undefined,
+    purpose: purpose || undefined,
+    counterparty: join(32, 33, '') || undefined,
+    endToEndReference: endToEndReference && endToEndReference !== 'NOTPROVIDED' ? endToEndReference : undefined,
+    text: [subfields.get(0)?.trim(), purposeLines].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * Parse an MT940 file into transactions and per-statement balance checks
+ */
+export function parseMT940Statement(mt940Content: string): MT940ParseResult {
+  const transactions: ParsedTransaction[] = [];
+  const statements: MT940Statement[] = [];
+
+  let statement: MT940Statement | null = null;
+  let pending: { line: MT940StatementLine; currency?: string } | null = null;
+
+  const startStatement = () => {
+    statement = { movement: 0, transactionCount: 0, difference: null, balanced: null };
+    statements.push(statement);
+    return statement;
+  };
+
+  const flush = (information?: MT940Information) => {
+    if (!pending) return;
+    const { line, currency } = pending;
+    pending = null;
+    if (line.amount === 0) return;
+
+    const description = information?.counterparty
+      || information?.purpose
+      || information?.text
+      || line.supplementary
+      || line.customerReference
+      || 'MT940 Transaction';
+    const notes = [information?.purpose, information?.bookingText]
+      .filter(value => value && value !== description)
+      .join(' | ');
+
+    transactions.push({
+      date: line.bookingDate,
+      valueDate: line.valueDate,
+      description,
+      amount: Math.abs(line.amount),
+      type: line.amount > 0 ? 'income' : 'expense',
+      notes: notes || undefined,
+      counterparty: information?.counterparty,
+      reference: information?.endToEndReference ?? line.customerReference,
+      currency,
+      providerTransactionId: line.bankReference,
+    });
+  };
+
+  for (const field of tokenizeMT940(mt940Content)) {
+    switch (field.tag) {
+      case '20':
+        flush();
+        startStatement().reference = field.value.trim();
+        break;
+      case '25':
+        (statement ?? startStatement()).account = field.value.trim();
+        break;
+      case '28C':
+        (statement ?? startStatement()).statementNumber = field.value.trim();
+        break;
+      case '60F':
+      case '60M':
+        (statement ?? startStatement()).openingBalance = parseMT940Balance(field.value);
+        break;
+      case '61': {
+        flush();
+        const line = parseMT940StatementLine(field.value);
+        if (!line) break;
+        const current: MT940Statement = statement ?? startStatement();
+        current.movement += line.amount;
+        current.transactionCount++;
+        pending = { line, currency: current.openingBalance?.currency };
+        break;
       }
+      case '86':
+        // Only :86: directly after a statement line describes it; others describe the statement
+        flush(pending ? parseMT940Information(field.value) : undefined);
+        break;
+      case '62F':
+      case '62M':
+        flush();
+        (statement ?? startStatement()).closingBalance = parseMT940Balance(field.value);
+        break;
+      default:
+        break;
     }
   }
-  
-  return transactions;
+  flush();
+
+  for (const current of statements) {
+    current.movement = Math.round(current.movement * 100) / 100;
+    if (current.openingBalance && current.closingBalance) {
+      const expected = current.openingBalance.amount + current.movement;
+      current.difference = Math.round((current.closingBalance.amount - expected) * 100) / 100;
+      current.balanced = Math.abs(current.difference) < 0.005;
+    }
+  }
+
+  return { transactions, statements };
 }
 
-async function extractPdfText(pdfContent: ArrayBuffer): Promise<string> {
+export function parseMT940(mt940Content: string): ParsedTransaction[] {
+  return parseMT940Statement(mt940Content).transactions;
+}
+
+export async function extractPdfText(pdfContent: ArrayBuffer): Promise<string> {
   const data = pdfContent instanceof Uint8Array ? pdfContent : new Uint8Array(pdfContent);
   const loadingTask = getDocument({ data, useWorker: false } as any);
 
@@ -699,6 +1474,8 @@ function buildTransactionFromMatch(
   const date = parseTemplateDate(rawDate, template.dateFormat);
   if (!date) return null;
 
+  const balance = (template.groups.balance ? parseCurrency(match[template.groups.balance]) : null) ?? undefined;
+
   if (template.amountStyle === 'debitCredit') {
   const debitGroupKey = template.groups.debit;
   const creditGroupKey = template.groups.credit;
@@ -712,6 +1489,7 @@ function buildTransactionFromMatch(
         description: rawDescription.trim(),
         amount: Math.abs(creditValue),
         type: 'income',
+        balance,
       };
     }
 
@@ -721,6 +1499,7 @@ function buildTransactionFromMatch(
         description: rawDescription.trim(),
         amount: Math.abs(debitValue),
         type: 'expense',
+        balance,
       };
     }
 
@@ -739,6 +1518,7 @@ function buildTransactionFromMatch(
     description: rawDescription.trim(),
     amount: Math.abs(amountValue),
     type: amountValue >= 0 ? 'income' : 'expense',
+    balance,
   };
 }
 
@@ -0,0 +1,692 @@
+// Spreadsheet workbook reader for statement imports.
+// Reads .xlsx (Office Open XML zip) and legacy .xls (BIFF8 in an OLE compound file)
+// without any native dependencies so it runs inside the Worker.
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface Worksheet {
+  name: string;
+  hidden: boolean;
+  rows: CellValue[][];
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01 for Mac workbooks)
+const EXCEL_EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EXCEL_EPOCH_1904 = Date.UTC(1904, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+function hasSignature(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+}
+
+export function isXlsxFile(data: ArrayBuffer | Uint8Array): boolean {
+  return hasSignature(toBytes(data), ZIP_SIGNATURE);
+}
+
+export function isXlsFile(data: ArrayBuffer | Uint8Array): boolean {
+  return hasSignature(toBytes(data), CFB_SIGNATURE);
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/**
+ * Convert an Excel serial date to a UTC date
+ */
+export function excelSerialToDate(serial: number, date1904 = false): Date {
+  const epoch = date1904 ? EXCEL_EPOCH_1904 : EXCEL_EPOCH_1900;
+  return new Date(epoch + Math.round(serial * DAY_MS));
+}
+
+/**
+ * Whether a number format displays its value as a date
+ */
+export function isDateFormat(formatId: number, formatCode?: string): boolean {
+  if (BUILTIN_DATE_FORMATS.has(formatId)) return true;
+  if (!formatCode) return false;
+
+  // Ignore quoted literals, escaped characters and [colour]/[$currency] sections
+  const code = formatCode
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(code) && !/^general$/i.test(code.trim());
+}
+
+/**
+ * Read every worksheet in an .xlsx or .xls workbook
+ */
+export async function readWorkbook(data: ArrayBuffer | Uint8Array): Promise<Worksheet[]> {
+  const bytes = toBytes(data);
+
+  if (hasSignature(bytes, ZIP_SIGNATURE)) {
+    return readXlsx(bytes);
+  }
+  if (hasSignature(bytes, CFB_SIGNATURE)) {
+    return readXls(bytes);
+  }
+  throw new Error('File is not an Excel workbook');
+}
+
+// ---------------------------------------------------------------------------
+// Zip container
+// ---------------------------------------------------------------------------
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Invalid workbook: zip directory not found');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('ZIP64 workbooks are not supported');
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid workbook: corrupt zip directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name.replace(/^\//, ''), {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== 0x04034b50) {
+    throw new Error(`Invalid workbook: corrupt entry ${entry.name}`);
+  }
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const compressed = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return compressed;
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method ${entry.method}`);
+  }
+
+  const stream = new Response(compressed.slice()).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// XLSX (SpreadsheetML)
+// ---------------------------------------------------------------------------
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[entity] ?? match;
+    })
+    // Control characters are escaped as _xHHHH_ in SpreadsheetML
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    // Drop namespace prefixes so r:id and id-style lookups both work
+    const name = match[1].includes(':') && !match[1].startsWith('r:') ? match[1].split(':').pop()! : match[1];
+    attributes[name] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+// Element matchers tolerate namespace prefixes (e.g. <x:c>) used by some generators
+function elements(xml: string, tag: string): { attributes: Record<string, string>; body: string }[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({
+    attributes: parseAttributes(match[1]),
+    body: match[2] ?? '',
+  }));
+}
+
+// Concatenate the <t> runs of a string item, skipping phonetic guides
+function textContent(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  return elements(withoutPhonetic, 't').map(t => decodeXml(t.body)).join('');
+}
+
+// "AB12" -> zero-based column 27
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+async function readXlsx(bytes: Uint8Array): Promise<Worksheet[]> {
+  const entries = readZipEntries(bytes);
+  const decoder = new TextDecoder();
+  const readText = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    return entry ? decoder.decode(await readZipEntry(bytes, entry)) : null;
+  };
+
+  // The package relationships point at the workbook part, normally xl/workbook.xml
+  const packageRels = elements((await readText('_rels/.rels')) ?? '', 'Relationship');
+  const workbookPath = resolvePath(
+    '',
+    packageRels.find(rel => rel.attributes.Type?.endsWith('/officeDocument'))?.attributes.Target ?? 'xl/workbook.xml'
+  );
+  const workbookXml = await readText(workbookPath);
+  if (!workbookXml) throw new Error(`Invalid workbook: ${workbookPath} is missing`);
+
+  const relsPath = resolvePath(workbookPath, `_rels/${workbookPath.split('/').pop()}.rels`);
+  const workbookRels = elements((await readText(relsPath)) ?? '', 'Relationship').map(rel => ({
+    id: rel.attributes.Id,
+    type: rel.attributes.Type ?? '',
+    path: resolvePath(workbookPath, rel.attributes.Target),
+  }));
+  const relationships = new Map(workbookRels.map(rel => [rel.id, rel.path]));
+  const partPath = (type: string, fallback: string) =>
+    workbookRels.find(rel => rel.type.endsWith(`/${type}`))?.path ?? resolvePath(workbookPath, fallback);
+
+  const [sharedStringsXml, stylesXml] = await Promise.all([
+    readText(partPath('sharedStrings', 'sharedStrings.xml')),
+    readText(partPath('styles', 'styles.xml')),
+  ]);
+
+  const date1904 = elements(workbookXml, 'workbookPr').some(pr => pr.attributes.date1904 === '1' || pr.attributes.date1904 === 'true');
+
+  const sharedStrings = elements(sharedStringsXml ?? '', 'si').map(si => textContent(si.body));
+
+  // Map each cell style to whether its number format is a date
+  const customFormats = new Map(
+    elements(stylesXml ?? '', 'numFmt').map(fmt => [Number(fmt.attributes.numFmtId), fmt.attributes.formatCode])
+  );
+  const cellXfs = elements(stylesXml ?? '', 'cellXfs')[0]?.body ?? '';
+  const dateStyles = elements(cellXfs, 'xf').map(xf => {
+    const formatId = Number(xf.attributes.numFmtId || 0);
+    return isDateFormat(formatId, customFormats.get(formatId));
+  });
+
+  const sheets: Worksheet[] = [];
+  for (const sheet of elements(workbookXml, 'sheet')) {
+    const path = relationships.get(sheet.attributes['r:id']) ?? resolvePath(workbookPath, `worksheets/sheet${sheets.length + 1}.xml`);
+    const sheetXml = await readText(path);
+    if (!sheetXml) continue;
+
+    sheets.push({
+      name: sheet.attributes.name || `Sheet${sheets.length + 1}`,
+      hidden: sheet.attributes.state === 'hidden' || sheet.attributes.state === 'veryHidden',
+      rows: readXlsxRows(sheetXml, sharedStrings, dateStyles, date1904),
+    });
+  }
+
+  return sheets;
+}
+
+function readXlsxRows(sheetXml: string, sharedStrings: string[], dateStyles: boolean[], date1904: boolean): CellValue[][] {
+  const sheetData = elements(sheetXml, 'sheetData')[0]?.body ?? '';
+  const rows: CellValue[][] = [];
+
+  for (const row of elements(sheetData, 'row')) {
+    const rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : rows.length;
+    const cells: CellValue[] = [];
+
+    for (const cell of elements(row.body, 'c')) {
+      const col = cell.attributes.r ? columnIndex(cell.attributes.r) : cells.length;
+      const raw = elements(cell.body, 'v')[0]?.body;
+      let value: CellValue = null;
+
+      switch (cell.attributes.t) {
+        case 's':
+          value = raw !== undefined ? sharedStrings[Number(raw)] ?? null : null;
+          break;
+        case 'inlineStr':
+          value = textContent(elements(cell.body, 'is')[0]?.body ?? '');
+          break;
+        case 'str':
+          value = raw !== undefined ? decodeXml(raw) : null;
+          break;
+        case 'b':
+          value = raw === '1';
+          break;
+        case 'e':
+          value = null;
+          break;
+        case 'd':
+          value = raw ? new Date(decodeXml(raw)) : null;
+          break;
+        default:
+          if (raw !== undefined && raw !== '') {
+            const number = Number(raw);
+            value = dateStyles[Number(cell.attributes.s || 0)] ? excelSerialToDate(number, date1904) : number;
+          }
+      }
+
+      cells[col] = value;
+    }
+
+    rows[rowIndex] = Array.from(cells, cell => cell ?? null);
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+// ---------------------------------------------------------------------------
+// OLE compound file (container for legacy .xls)
+// ---------------------------------------------------------------------------
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+
+function readCompoundStream(bytes: Uint8Array, streamNames: string[]): { name: string; data: Uint8Array } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // Sector allocation table: listed in the header, then continued in DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+  let difatSector = view.getUint32(0x44, true);
+  for (let guard = 0; difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && guard < 1 << 16; guard++) {
+    const base = sectorOffset(difatSector);
+    for (let i = 0; i < sectorSize / 4 - 1; i++) {
+      const sector = view.getUint32(base + i * 4, true);
+      if (sector !== FREE_SECTOR) fatSectors.push(sector);
+    }
+    difatSector = view.getUint32(base + sectorSize - 4, true);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 4 && base + i * 4 + 4 <= bytes.length; i++) {
+      fat.push(view.getUint32(base + i * 4, true));
+    }
+  }
+
+  const readChain = (table: number[], start: number, read: (sector: number) => Uint8Array): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    for (let sector = start; sector !== END_OF_CHAIN && sector < table.length; sector = table[sector]) {
+      chunks.push(read(sector));
+      if (chunks.length > table.length) throw new Error('Invalid workbook: sector chain loops');
+    }
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  };
+  const readSector = (sector: number) => bytes.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize);
+
+  const directory = readChain(fat, view.getUint32(0x30, true), readSector);
+  const dirView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+
+  interface DirectoryEntry { name: string; type: number; start: number; size: number }
+  const entries: DirectoryEntry[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = Math.max(0, dirView.getUint16(offset + 64, true) - 2);
+    let name = '';
+    for (let i = 0; i < nameLength; i += 2) {
+      name += String.fromCharCode(dirView.getUint16(offset + i, true));
+    }
+    entries.push({
+      name,
+      type: dirView.getUint8(offset + 66),
+      start: dirView.getUint32(offset + 116, true),
+      size: dirView.getUint32(offset + 120, true),
+    });
+  }
+
+  const target = entries.find(entry => entry.type === 2 && streamNames.includes(entry.name));
+  if (!target) return null;
+
+  if (target.size >= miniStreamCutoff) {
+    return { name: target.name, data: readChain(fat, target.start, readSector).subarray(0, target.size) };
+  }
+
+  // Small streams live in the mini stream, which is itself stored in the root entry
+  const root = entries[0];
+  const miniStream = readChain(fat, root.start, readSector);
+  const miniFatBytes = readChain(fat, view.getUint32(0x3c, true), readSector);
+  const miniFatView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+  const miniFat = Array.from({ length: miniFatBytes.length / 4 }, (_, i) => miniFatView.getUint32(i * 4, true));
+  const readMiniSector = (sector: number) => miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize);
+
+  return { name: target.name, data: readChain(miniFat, target.start, readMiniSector).subarray(0, target.size) };
+}
+
+// ---------------------------------------------------------------------------
+// XLS (BIFF8)
+// ---------------------------------------------------------------------------
+
+const BIFF = {
+  BOF: 0x0809,
+  EOF: 0x000a,
+  FILEPASS: 0x002f,
+  DATEMODE: 0x0022,
+  BOUNDSHEET: 0x0085,
+  SST: 0x00fc,
+  CONTINUE: 0x003c,
+  FORMAT: 0x041e,
+  XF: 0x00e0,
+  LABELSST: 0x00fd,
+  LABEL: 0x0204,
+  NUMBER: 0x0203,
+  RK: 0x027e,
+  MULRK: 0x00bd,
+  FORMULA: 0x0006,
+  STRING: 0x0207,
+  BOOLERR: 0x0205,
+} as const;
+
+interface BiffRecord {
+  type: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+function readBiffRecords(stream: Uint8Array, start: number): BiffRecord[] {
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  const records: BiffRecord[] = [];
+
+  for (let offset = start; offset + 4 <= stream.length; ) {
+    const type = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    records.push({ type, offset, data: stream.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+    if (type === BIFF.EOF) break;
+  }
+
+  return records;
+}
+
+// Reads strings that may continue across CONTINUE records, as SST entries do
+class BiffStringReader {
+  private segment = 0;
+  private offset = 0;
+
+  constructor(private readonly segments: Uint8Array[]) {}
+
+  private ensure(): void {
+    while (this.segment < this.segments.length && this.offset >= this.segments[this.segment].length) {
+      this.segment++;
+      this.offset = 0;
+    }
+  }
+
+  get done(): boolean {
+    this.ensure();
+    return this.segment >= this.segments.length;
+  }
+
+  uint8(): number {
+    this.ensure();
+    const data = this.segments[this.segment];
+    if (!data) throw new Error('Invalid workbook: string table is truncated');
+    return data[this.offset++];
+  }
+
+  uint16(): number {
+    return this.uint8() | (this.uint8() << 8);
+  }
+
+  uint32(): number {
+    return (this.uint16() | (this.uint16() << 16)) >>> 0;
+  }
+
+  skip(count: number): void {
+    for (let remaining = count; remaining > 0; ) {
+      this.ensure();
+      const data = this.segments[this.segment];
+      if (!data) return;
+      const step = Math.min(remaining, data.length - this.offset);
+      this.offset += step;
+      remaining -= step;
+    }
+  }
+
+  // XLUnicodeRichExtendedString
+  richString(): string {
+    const charCount = this.uint16();
+    const flags = this.uint8();
+    const runCount = flags & 0x08 ? this.uint16() : 0;
+    const extSize = flags & 0x04 ? this.uint32() : 0;
+
+    let highByte = (flags & 0x01) !== 0;
+    let text = '';
+    while (text.length < charCount) {
+      const data = this.segments[this.segment];
+      if (!data) break;
+      if (this.offset >= data.length) {
+        // A string split over a CONTINUE record restates its encoding in the first byte
+        this.segment++;
+        this.offset = 0;
+        if (!this.segments[this.segment]) break;
+        highByte = (this.uint8() & 0x01) !== 0;
+        continue;
+      }
+      if (highByte) {
+        text += String.fromCharCode(data[this.offset] | (data[this.offset + 1] << 8));
+        this.offset += 2;
+      } else {
+        text += String.fromCharCode(data[this.offset]);
+        this.offset += 1;
+      }
+    }
+
+    this.skip(runCount * 4 + extSize);
+    return text;
+  }
+}
+
+// XLUnicodeString (16-bit length) or ShortXLUnicodeString (8-bit length)
+function readUnicodeString(data: Uint8Array, offset: number, shortLength = false): string {
+  const charCount = shortLength ? data[offset] : data[offset] | (data[offset + 1] << 8);
+  const flagsOffset = offset + (shortLength ? 1 : 2);
+  const highByte = (data[flagsOffset] & 0x01) !== 0;
+  let text = '';
+  for (let i = 0, pos = flagsOffset + 1; i < charCount && pos < data.length; i++) {
+    if (highByte) {
+      text += String.fromCharCode(data[pos] | (data[pos + 1] << 8));
+      pos += 2;
+    } else {
+      text += String.fromCharCode(data[pos]);
+      pos += 1;
+    }
+  }
+  return text;
+}
+
+// RK values pack small integers and truncated doubles into 32 bits
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2;
+  } else {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setUint32(4, rk & 0xfffffffc, true);
+    value = buffer.getFloat64(0, true);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+function readXls(bytes: Uint8Array): Worksheet[] {
+  const stream = readCompoundStream(bytes, ['Workbook', 'Book']);
+  if (!stream) throw new Error('Invalid workbook: no workbook stream found');
+  if (stream.name === 'Book') throw new Error('Excel 5.0/95 workbooks are not supported, please save as .xlsx');
+
+  const workbook = stream.data;
+  const globals = readBiffRecords(workbook, 0);
+  const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let date1904 = false;
+  const sheets: { name: string; hidden: boolean; offset: number }[] = [];
+  const formats = new Map<number, string>();
+  const xfFormats: number[] = [];
+  let sharedStrings: string[] = [];
+
+  for (let i = 0; i < globals.length; i++) {
+    const { type, data } = globals[i];
+    switch (type) {
+      case BIFF.FILEPASS:
+        throw new Error('Password-protected workbooks are not supported');
+      case BIFF.DATEMODE:
+        date1904 = view(data).getUint16(0, true) === 1;
+        break;
+      case BIFF.BOUNDSHEET:
+        // Only worksheets (not charts or macro sheets) hold cells
+        if (data[5] === 0) {
+          sheets.push({ offset: view(data).getUint32(0, true), hidden: (data[4] & 0x03) !== 0, name: readUnicodeString(data, 6, true) });
+        }
+        break;
+      case BIFF.FORMAT:
+        formats.set(view(data).getUint16(0, true), readUnicodeString(data, 2));
+        break;
+      case BIFF.XF:
+        xfFormats.push(view(data).getUint16(2, true));
+        break;
+      case BIFF.SST: {
+        const segments = [data.subarray(8)];
+        while (globals[i + 1]?.type === BIFF.CONTINUE) {
+          segments.push(globals[++i].data);
+        }
+        const uniqueCount = view(data).getUint32(4, true);
+        const reader = new BiffStringReader(segments);
+        sharedStrings = [];
+        while (sharedStrings.length < uniqueCount && !reader.done) {
+          sharedStrings.push(reader.richString());
+        }
+        break;
+      }
+    }
+  }
+
+  const isDateXf = (xf: number) => {
+    const formatId = xfFormats[xf] ?? 0;
+    return isDateFormat(formatId, formats.get(formatId));
+  };
+  const numberCell = (value: number, xf: number): CellValue => (isDateXf(xf) ? excelSerialToDate(value, date1904) : value);
+
+  return sheets.map(sheet => {
+    const rows: CellValue[][] = [];
+    const setCell = (row: number, col: number, value: CellValue) => {
+      (rows[row] ??= [])[col] = value;
+    };
+    let pendingFormula: { row: number; col: number } | null = null;
+
+    for (const { type, data } of readBiffRecords(workbook, sheet.offset)) {
+      if (type === BIFF.STRING) {
+        if (pendingFormula) {
+          setCell(pendingFormula.row, pendingFormula.col, readUnicodeString(data, 0));
+          pendingFormula = null;
+        }
+        continue;
+      }
+      if (data.length < 6) continue;
+
+      const record = view(data);
+      const row = record.getUint16(0, true);
+      const col = record.getUint16(2, true);
+      const xf = record.getUint16(4, true);
+
+      switch (type) {
+        case BIFF.LABELSST:
+          setCell(row, col, sharedStrings[record.getUint32(6, true)] ?? null);
+          break;
+        case BIFF.LABEL:
+          setCell(row, col, readUnicodeString(data, 6));
+          break;
+        case BIFF.NUMBER:
+          setCell(row, col, numberCell(record.getFloat64(6, true), xf));
+          break;
+        case BIFF.RK:
+          setCell(row, col, numberCell(decodeRk(record.getUint32(6, true)), xf));
+          break;
+        case BIFF.MULRK: {
+          const count = (data.length - 6) / 6;
+          for (let i = 0; i < count; i++) {
+            const cellXf = record.getUint16(4 + i * 6, true);
+            setCell(row, col + i, numberCell(decodeRk(record.getUint32(6 + i * 6, true)), cellXf));
+          }
+          break;
+        }
+        case BIFF.BOOLERR:
+          setCell(row, col, data[7] === 0 ? data[6] === 1 : null);
+          break;
+        case BIFF.FORMULA:
+          // Cached results: a 0xFFFF tail marks a non-numeric result
+          if (record.getUint16(12, true) === 0xffff) {
+            if (data[6] === 0) pendingFormula = { row, col };
+            else if (data[6] === 1) setCell(row, col, data[8] === 1);
+            else if (data[6] === 3) setCell(row, col, '');
+          } else {
+            setCell(row, col, numberCell(record.getFloat64(6, true), xf));
+          }
+          break;
+      }
+    }
+
+    return {
+      name: sheet.name,
+      hidden: sheet.hidden,
+      rows: Array.from(rows, cells => Array.from(cells ?? [], cell => cell ?? null)),
+    };
+  });
+}
@@ -16,6 +16,7 @@ interface Budget {
   period: 'monthly' | 'yearly';
   startDate: number;
   endDate?: number;
+  spent?: number; // Server-side total, counts split transaction lines
   category?: {
     name: string;
     type: string;
@@ -94,7 +95,7 @@ export default function BudgetsPage() {
       ? startDate + 30 * 24 * 60 * 60 * 1000 
       : startDate + 365 * 24 * 60 * 60 * 1000);
 
-    const spent = transactions
+    const spent = budget.spent ?? transactions
       .filter(
         (t) =>
           t.categoryId === budget.categoryId &&
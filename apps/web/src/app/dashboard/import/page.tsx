@@ -15,6 +15,7 @@ interface ImportResult {
   skipped: number;
   total: number;
   errors?: string[];
+  warnings?: string[];
   processingTimeMs?: number;
 }
 
@@ -92,14 +93,14 @@ export default function ImportPage() {
     setImportResults([]);
 
     // Validate file types
-    const validExtensions = ['.csv', '.ofx', '.qfx', '.json', '.xml', '.xls', '.xlsx', '.txt', '.mt940', '.pdf'];
+    const validExtensions = ['.csv', '.ofx', '.qfx', '.json', '.xml', '.xls', '.xlsx', '.txt', '.mt940', '.qif', '.pdf'];
     const invalidFiles = selectedFiles.filter(f => {
       const ext = f.name.substring(f.name.lastIndexOf('.')).toLowerCase();
       return !validExtensions.includes(ext);
     });
 
     if (invalidFiles.length > 0) {
-      setError(`Invalid file type(s): ${invalidFiles.map(f => f.name).join(', ')}. Supported formats: CSV, Excel, JSON, XML, OFX/QFX, MT940, and PDF.`);
+      setError(`Invalid file type(s): ${invalidFiles.map(f => f.name).join(', ')}. Supported formats: CSV, Excel, JSON, XML, CAMT.053, OFX/QFX, QIF, MT940, and PDF.`);
       return;
     }
 
@@ -149,6 +150,7 @@ export default function ImportPage() {
             skipped: response.data.skipped || 0,
             total: response.data.total || 0,
             errors: response.data.errors,
+            warnings: response.data.warnings,
             processingTimeMs: response.data.processingTimeMs,
           });
         } else {
@@ -257,7 +259,7 @@ export default function ImportPage() {
               <ul className="text-sm text-blue-700 space-y-1 list-disc list-inside">
                 <li><strong>CSV:</strong> Standard format with auto field detection</li>
                 <li><strong>JSON:</strong> Structured transaction data</li>
-                <li><strong>XML:</strong> Bank XML export files</li>
+                <li><strong>XML:</strong> Bank XML export files, including ISO 20022 CAMT.053</li>
                 <li><strong>MT940:</strong> SWIFT banking format (.txt)</li>
               </ul>
             </div>
@@ -266,6 +268,7 @@ export default function ImportPage() {
               <p className="text-sm text-blue-800 mb-2">Standard bank exports:</p>
               <ul className="text-sm text-blue-700 space-y-1 list-disc list-inside">
                 <li><strong>OFX/QFX:</strong> Quicken and bank formats</li>
+                <li><strong>QIF:</strong> Quicken Interchange Format (.qif)</li>
                 <li><strong>Excel:</strong> .xls and .xlsx spreadsheets</li>
                 <li><strong>PDF:</strong> Bank statements (multiple files supported)</li>
               </ul>
@@ -403,7 +406,7 @@ export default function ImportPage() {
                 <p className="text-gray-600 mb-6">or click to browse files (multiple selection supported)</p>
                 <input
                   type="file"
-                  accept=".csv,.ofx,.qfx,.json,.xml,.xls,.xlsx,.txt,.mt940,.pdf"
+                  accept=".csv,.ofx,.qfx,.json,.xml,.xls,.xlsx,.txt,.mt940,.qif,.pdf"
                   onChange={handleFileInputChange}
                   multiple
                   className="hidden"
@@ -506,6 +509,13 @@ export default function ImportPage() {
                                 <span className="font-medium">Processing time:</span> {result.processingTimeMs}ms
                               </p>
                             )}
+                            {result.warnings && result.warnings.length > 0 && (
+                              <ul className="text-yellow-700 space-y-1 list-disc list-inside">
+                                {result.warnings.map((warning, warningIndex) => (
+                                  <li key={warningIndex}>{warning}</li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
                         ) : (
                           <div className="text-sm text-red-700">
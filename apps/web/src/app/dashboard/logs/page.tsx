@@ -11,7 +11,7 @@ interface ImportLog {
   fileName: string;
   fileType: string;
   fileSize: number;
-  status: 'processing' | 'success' | 'partial' | 'failed';
+  status: 'processing' | 'review' | 'success' | 'partial' | 'failed' | 'rolled_back';
   transactionsImported: number;
   transactionsFailed: number;
   transactionsTotal: number;
@@ -61,6 +61,10 @@ export default function LogsPage() {
         return '⚠️';
       case 'processing':
         return '⏳';
+      case 'review':
+        return '🔍';
+      case 'rolled_back':
+        return '↩️';
       default:
         return '❓';
     }
@@ -76,6 +80,8 @@ export default function LogsPage() {
         return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'processing':
         return 'bg-blue-100 text-blue-700 border-blue-200';
+      case 'review':
+        return 'bg-purple-100 text-purple-700 border-purple-200';
       default:
         return 'bg-gray-100 text-gray-700 border-gray-200';
     }
@@ -140,6 +140,21 @@ export const api = {
   deleteAccount: (id: string) => apiClient(`/api/accounts/${id}`, { method: 'DELETE' }),
   syncAccount: (id: string) => apiClient(`/api/accounts/${id}/sync`, { method: 'POST' }),
 
+  // Reconciliations
+  getReconciliations: (accountId?: string) =>
+    apiClient(`/api/reconciliations${accountId ? `?accountId=${encodeURIComponent(accountId)}` : ''}`),
+  getReconciliation: (id: string) => apiClient(`/api/reconciliations/${id}`),
+  createReconciliation: (data: { accountId: string; statementDate: string; statementBalance: number; openingBalance?: number }) =>
+    apiClient('/api/reconciliations', { method: 'POST', body: JSON.stringify(data) }),
+  startReconciliation: (id: string, openingBalance?: number) =>
+    apiClient(`/api/reconciliations/${id}/start`, { method: 'POST', body: JSON.stringify({ openingBalance }) }),
+  markReconciliationCleared: (id: string, transactionIds: string[], cleared: boolean) =>
+    apiClient(`/api/reconciliations/${id}/cleared`, { method: 'PUT', body: JSON.stringify({ transactionIds, cleared }) }),
+  completeReconciliation: (id: string, adjustBalance = false) =>
+    apiClient(`/api/reconciliations/${id}/complete`, { method: 'POST', body: JSON.stringify({ adjustBalance }) }),
+  reopenReconciliation: (id: string) => apiClient(`/api/reconciliations/${id}/reopen`, { method: 'POST' }),
+  deleteReconciliation: (id: string) => apiClient(`/api/reconciliations/${id}`, { method: 'DELETE' }),
+
   // Categories
   getCategories: () => apiClient('/api/categories'),
   getCategory: (id: string) => apiClient(`/api/categories/${id}`),
@@ -148,7 +163,20 @@ export const api = {
   deleteCategory: (id: string) => apiClient(`/api/categories/${id}`, { method: 'DELETE' }),
 
   // Transactions
-  getTransactions: () => apiClient('/api/transactions'),
+  getTransactions: (params?: { tags?: string[]; tagMatch?: 'any' | 'all' }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.tags?.length) searchParams.append('tags', params.tags.join(','));
+    if (params?.tagMatch) searchParams.append('tagMatch', params.tagMatch);
+    const query = searchParams.toString();
+    return apiClient(`/api/transactions${query ? '?' + query : ''}`);
+  },
+  searchTransactions: (params: Record<string, string | number | undefined>) => {
+    const searchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') searchParams.append(key, String(value));
+    }
+    return apiClient(`/api/transactions/search?${searchParams.toString()}`);
+  },
   getTransaction: (id: string) => apiClient(`/api/transactions/${id}`),
   createTransaction: (data: any) => apiClient('/api/transactions', { method: 'POST', body: JSON.stringify(data) }),
   updateTransaction: (id: string, data: any) => apiClient(`/api/transactions/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
@@ -165,6 +193,21 @@ export const api = {
       method: 'PATCH', 
       body: JSON.stringify({ transactionIds }) 
     }),
+  bulkUnarchiveTransactions: (transactionIds: string[]) =>
+    apiClient('/api/transactions/bulk/unarchive', {
+      method: 'PATCH',
+      body: JSON.stringify({ transactionIds })
+    }),
+  bulkTagTransactions: (transactionIds: string[], tags: string[]) =>
+    apiClient('/api/transactions/bulk/tag', {
+      method: 'POST',
+      body: JSON.stringify({ transactionIds, tags })
+    }),
+  bulkUntagTransactions: (transactionIds: string[], tags: string[]) =>
+    apiClient('/api/transactions/bulk/untag', {
+      method: 'POST',
+      body: JSON.stringify({ transactionIds, tags })
+    }),
   clearAllTransactions: () => 
     apiClient('/api/transactions/clear', { 
       method: 'DELETE', 
@@ -181,12 +224,26 @@ export const api = {
     }),
   getCategorizationStats: () => apiClient('/api/transactions/categorization-stats'),
 
+  // Tags
+  getTags: () => apiClient('/api/tags'),
+  createTag: (data: { name: string; color?: string }) => apiClient('/api/tags', { method: 'POST', body: JSON.stringify(data) }),
+  updateTag: (id: string, data: { name?: string; color?: string | null }) => apiClient(`/api/tags/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
+  deleteTag: (id: string) => apiClient(`/api/tags/${id}`, { method: 'DELETE' }),
+
   // Budgets
   getBudgets: () => apiClient('/api/budgets'),
   getBudget: (id: string) => apiClient(`/api/budgets/${id}`),
   createBudget: (data: any) => apiClient('/api/budgets', { method: 'POST', body: JSON.stringify(data) }),
   updateBudget: (id: string, data: any) => apiClient(`/api/budgets/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
   deleteBudget: (id: string) => apiClient(`/api/budgets/${id}`, { method: 'DELETE' }),
+  getBudgetProgress: (date?: string) =>
+    apiClient(`/api/budgets/progress${date ? `?date=${date}` : ''}`),
+  getBudgetHistory: (id: string, periods?: number) =>
+    apiClient(`/api/budgets/${id}/history${periods ? `?periods=${periods}` : ''}`),
+  getEnvelopeSummary: (date?: string) =>
+    apiClient(`/api/budgets/envelopes${date ? `?date=${date}` : ''}`),
+  assignBudget: (id: string, data: { amount: number; date?: string }) =>
+    apiClient(`/api/budgets/${id}/assign`, { method: 'POST', body: JSON.stringify(data) }),
 
   // Bill Reminders
   getBillReminders: () => apiClient('/api/bill-reminders'),
@@ -194,6 +251,9 @@ export const api = {
   createBillReminder: (data: any) => apiClient('/api/bill-reminders', { method: 'POST', body: JSON.stringify(data) }),
   updateBillReminder: (id: string, data: any) => apiClient(`/api/bill-reminders/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
   deleteBillReminder: (id: string) => apiClient(`/api/bill-reminders/${id}`, { method: 'DELETE' }),
+  payBillReminder: (id: string, data: { transactionId?: string; paidAt?: string } = {}) =>
+    apiClient(`/api/bill-reminders/${id}/pay`, { method: 'POST', body: JSON.stringify(data) }),
+  getBillPayments: (id: string) => apiClient(`/api/bill-reminders/${id}/payments`),
 
   // Analytics
   getSpendingAnalytics: () => apiClient('/api/analytics/spending'),
@@ -236,6 +296,13 @@ export const api = {
     const query = params.toString();
     return apiClient(`/api/analytics/comparative${query ? '?' + query : ''}`);
   },
+  getTagAnalytics: (startDate?: string, endDate?: string) => {
+    const params = new URLSearchParams();
+    if (startDate) params.append('startDate', startDate);
+    if (endDate) params.append('endDate', endDate);
+    const query = params.toString();
+    return apiClient(`/api/analytics/tags${query ? '?' + query : ''}`);
+  },
 
   // Files
   uploadFile: (file: File, accountId: string) => {
@@ -250,13 +317,128 @@ export const api = {
       body: formData,
     }).then(res => res.json());
   },
+  dryRunUpload: (file: File, accountId: string, duplicateWindowDays?: number) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('accountId', accountId);
+    formData.append('dryRun', 'true');
+    if (duplicateWindowDays !== undefined) formData.append('duplicateWindowDays', duplicateWindowDays.toString());
+
+    const token = tokenManager.getAccessToken();
+    return fetch(`${API_URL}/api/files/upload`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    }).then(res => res.json());
+  },
+  commitImportReview: (logId: string, decisions: { row: number; action: 'import' | 'skip' }[] = []) =>
+    apiClient(`/api/files/logs/${logId}/commit`, { method: 'POST', body: JSON.stringify({ decisions }) }),
   getUploads: () => apiClient('/api/files/uploads'),
+  previewImport: (file: File, options: { sheet?: string; mapping?: any; profileId?: string } = {}) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.sheet) formData.append('sheet', options.sheet);
+    if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+    if (options.profileId) formData.append('profileId', options.profileId);
+
+    const token = tokenManager.getAccessToken();
+    return fetch(`${API_URL}/api/files/preview`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    }).then(res => res.json());
+  },
+  importWithMapping: (
+    file: File,
+    accountId: string,
+    options: { sheet?: string; mapping?: any; profileId?: string; saveProfileAs?: string; defaultCategoryId?: string; dryRun?: boolean }
+  ) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('accountId', accountId);
+    if (options.sheet) formData.append('sheet', options.sheet);
+    if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+    if (options.profileId) formData.append('profileId', options.profileId);
+    if (options.saveProfileAs) formData.append('saveProfileAs', options.saveProfileAs);
+    if (options.defaultCategoryId) formData.append('defaultCategoryId', options.defaultCategoryId);
+    if (options.dryRun) formData.append('dryRun', 'true');
+
+    const token = tokenManager.getAccessToken();
+    return fetch(`${API_URL}/api/files/import`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    }).then(res => res.json());
+  },
   getImportLogs: () => apiClient('/api/logs/import'),
   getImportLog: (id: string) => apiClient(`/api/files/logs/${id}`),
+  rollbackImport: (id: string) => apiClient(`/api/files/logs/${id}/rollback`, { method: 'POST' }),
   getAuditLogs: () => apiClient('/api/logs/audit'),
 
+  // Attachments (receipts and documents)
+  getAttachments: (target: { transactionId?: string; billReminderId?: string }) => {
+    const params = new URLSearchParams();
+    if (target.transactionId) params.append('transactionId', target.transactionId);
+    if (target.billReminderId) params.append('billReminderId', target.billReminderId);
+    return apiClient(`/api/attachments?${params.toString()}`);
+  },
+  uploadAttachment: (file: File, target: { transactionId?: string; billReminderId?: string }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (target.transactionId) formData.append('transactionId', target.transactionId);
+    if (target.billReminderId) formData.append('billReminderId', target.billReminderId);
+
+    const token = tokenManager.getAccessToken();
+    return fetch(`${API_URL}/api/attachments`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    }).then(res => res.json());
+  },
+  downloadAttachment: async (id: string) => {
+    const token = tokenManager.getAccessToken();
+    const res = await fetch(`${API_URL}/api/attachments/${id}/download`, {
+      method: 'GET',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (!res.ok) {
+      throw new Error('Failed to download attachment');
+    }
+    return await res.blob();
+  },
+  deleteAttachment: (id: string) => apiClient(`/api/attachments/${id}`, { method: 'DELETE' }),
+
+  // PDF Templates
+  getPdfTemplates: () => apiClient('/api/pdf/templates'),
+  createPdfTemplate: (data: any) => apiClient('/api/pdf/templates', { method: 'POST', body: JSON.stringify(data) }),
+  updatePdfTemplate: (id: string, data: any) => apiClient(`/api/pdf/templates/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
+  deletePdfTemplate: (id: string) => apiClient(`/api/pdf/templates/${id}`, { method: 'DELETE' }),
+  testPdfTemplate: (source: { file?: File; text?: string }, options: { template?: any; templateId?: string } = {}) => {
+    const formData = new FormData();
+    if (source.file) formData.append('file', source.file);
+    if (source.text) formData.append('text', source.text);
+    if (options.template) formData.append('template', JSON.stringify(options.template));
+    if (options.templateId) formData.append('templateId', options.templateId);
+
+    const token = tokenManager.getAccessToken();
+    return fetch(`${API_URL}/api/pdf/templates/test`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    }).then(res => res.json());
+  },
+
+  // Import Profiles
+  getImportProfiles: () => apiClient('/api/import-profiles'),
+  getImportProfile: (id: string) => apiClient(`/api/import-profiles/${id}`),
+  createImportProfile: (data: any) => apiClient('/api/import-profiles', { method: 'POST', body: JSON.stringify(data) }),
+  updateImportProfile: (id: string, data: any) => apiClient(`/api/import-profiles/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
+  deleteImportProfile: (id: string) => apiClient(`/api/import-profiles/${id}`, { method: 'DELETE' }),
+
   // Recurring Transactions
   getRecurringTransactions: () => apiClient('/api/recurring-transactions'),
+  getUpcomingRecurringTransactions: (days?: number) =>
+    apiClient(`/api/recurring-transactions/upcoming${days ? `?days=${days}` : ''}`),
   getRecurringTransaction: (id: string) => apiClient(`/api/recurring-transactions/${id}`),
   createRecurringTransaction: (data: any) => apiClient('/api/recurring-transactions', { method: 'POST', body: JSON.stringify(data) }),
   updateRecurringTransaction: (id: string, data: any) => apiClient(`/api/recurring-transactions/${id}`, { method: 'PUT', body: JSON.stringify(data) }),
@@ -639,7 +821,6 @@ export const api = {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       if (!res.ok) throw new Error('Failed to export transactions');
-      if (options?.format === 'pdf') return res.json();
       return res.blob();
     },
     budgets: async (options?: { format?: 'csv' | 'json' | 'pdf'; startDate?: string; endDate?: string }) => {
@@ -653,7 +834,6 @@ export const api = {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       if (!res.ok) throw new Error('Failed to export budgets');
-      if (options?.format === 'pdf') return res.json();
       return res.blob();
     },
     goals: async (options?: { format?: 'csv' | 'json' | 'pdf'; includeContributions?: boolean }) => {
@@ -666,7 +846,6 @@ export const api = {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       if (!res.ok) throw new Error('Failed to export goals');
-      if (options?.format === 'pdf') return res.json();
       return res.blob();
     },
     analytics: async (options?: { format?: 'csv' | 'json' | 'pdf'; startDate?: string; endDate?: string }) => {
@@ -680,7 +859,6 @@ export const api = {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       if (!res.ok) throw new Error('Failed to export analytics');
-      if (options?.format === 'pdf') return res.json();
       return res.blob();
     },
     all: async (options?: { format?: 'csv' | 'json' | 'pdf'; startDate?: string; endDate?: string }) => {
@@ -694,7 +872,6 @@ export const api = {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       if (!res.ok) throw new Error('Failed to export data');
-      if (options?.format === 'pdf') return res.json();
       return res.blob();
     },
   },
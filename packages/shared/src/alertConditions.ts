@@ -0,0 +1,301 @@
+import { z } from 'zod';
+
+/**
+ * Alert rule condition language.
+ *
+ * Conditions are stored as a small typed tree, and can also be written as a
+ * text expression such as `category = Dining AND amount > 50` or
+ * `account balance < 100`. Expressions are parsed into the tree on save.
+ */
+
+export const ALERT_CONDITION_FIELDS = ['amount', 'type', 'category', 'account', 'description', 'balance'] as const;
+export const ALERT_CONDITION_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', 'contains'] as const;
+
+export type AlertConditionField = (typeof ALERT_CONDITION_FIELDS)[number];
+export type AlertConditionOperator = (typeof ALERT_CONDITION_OPERATORS)[number];
+
+const NUMERIC_FIELDS: AlertConditionField[] = ['amount', 'balance'];
+
+export interface AlertComparison {
+  field: AlertConditionField;
+  op: AlertConditionOperator;
+  value: string | number;
+}
+
+export type AlertCondition =
+  | AlertComparison
+  | { and: AlertCondition[] }
+  | { or: AlertCondition[] };
+
+export const AlertComparisonSchema = z
+  .object({
+    field: z.enum(ALERT_CONDITION_FIELDS),
+    op: z.enum(ALERT_CONDITION_OPERATORS),
+    value: z.union([z.string().min(1), z.number()]),
+  })
+  .refine(
+    cond => !NUMERIC_FIELDS.includes(cond.field) || (typeof cond.value === 'number' && cond.op !== 'contains'),
+    { message: 'amount and balance must be compared with a number' }
+  );
+
+export const AlertConditionSchema: z.ZodType<AlertCondition> = z.lazy(() =>
+  z.union([
+    AlertComparisonSchema,
+    z.object({ and: z.array(AlertConditionSchema).min(1) }),
+    z.object({ or: z.array(AlertConditionSchema).min(1) }),
+  ])
+);
+
+/**
+ * Values a condition is evaluated against: one transaction and its account
+ */
+export interface AlertEvaluationContext {
+  amount: number;
+  type: string;
+  category?: string | null;
+  account?: string | null;
+  description: string;
+  balance?: number | null;
+}
+
+export class AlertConditionParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'AlertConditionParseError';
+  }
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen'; pos: number }
+  | { kind: 'op'; value: AlertConditionOperator; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'word'; value: string; pos: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen', pos: i++ });
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen', pos: i++ });
+    } else if (ch === '"' || ch === "'") {
+      const end = input.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new AlertConditionParseError('Unterminated string', i);
+      }
+      tokens.push({ kind: 'string', value: input.slice(i + 1, end), pos: i });
+      i = end + 1;
+    } else if ('<>=!'.includes(ch)) {
+      const two = input.slice(i, i + 2);
+      if (two === '>=' || two === '<=' || two === '!=' || two === '==') {
+        tokens.push({ kind: 'op', value: two === '==' ? '=' : two, pos: i });
+        i += 2;
+      } else if (ch === '!') {
+        throw new AlertConditionParseError("Expected '!='", i);
+      } else {
+        tokens.push({ kind: 'op', value: ch as AlertConditionOperator, pos: i++ });
+      }
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()<>=!"']/.test(input[i])) i++;
+      const word = input.slice(start, i);
+      if (word.toLowerCase() === 'contains') {
+        tokens.push({ kind: 'op', value: 'contains', pos: start });
+      } else {
+        tokens.push({ kind: 'word', value: word, pos: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: 'AND' | 'OR'): boolean {
+  return token?.kind === 'word' && token.value.toUpperCase() === keyword;
+}
+
+/**
+ * Parse a text expression into a condition tree.
+ * AND binds tighter than OR; parentheses group.
+ */
+export function parseAlertCondition(input: string): AlertCondition {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endPos = () => (tokens[index] ? tokens[index].pos : input.length);
+
+  const parseOr = (): AlertCondition => {
+    const parts = [parseAnd()];
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : { or: parts };
+  };
+
+  const parseAnd = (): AlertCondition => {
+    const parts = [parseAtom()];
+    while (isKeyword(peek(), 'AND')) {
+      index++;
+      parts.push(parseAtom());
+    }
+    return parts.length === 1 ? parts[0] : { and: parts };
+  };
+
+  const parseAtom = (): AlertCondition => {
+    const token = peek();
+    if (token?.kind === 'lparen') {
+      index++;
+      const inner = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw new AlertConditionParseError("Expected ')'", endPos());
+      }
+      index++;
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseField = (): AlertConditionField => {
+    const token = peek();
+    if (token?.kind !== 'word') {
+      throw new AlertConditionParseError('Expected a field name', endPos());
+    }
+    index++;
+
+    let name = token.value.toLowerCase();
+    // "account balance" is the natural way to write the balance field
+    const next = peek();
+    if (name === 'account' && next?.kind === 'word' && next.value.toLowerCase() === 'balance') {
+      index++;
+      name = 'balance';
+    }
+
+    if (!(ALERT_CONDITION_FIELDS as readonly string[]).includes(name)) {
+      throw new AlertConditionParseError(
+        `Unknown field '${token.value}', expected one of ${ALERT_CONDITION_FIELDS.join(', ')}`,
+        token.pos
+      );
+    }
+    return name as AlertConditionField;
+  };
+
+  const parseComparison = (): AlertComparison => {
+    const field = parseField();
+
+    const opToken = peek();
+    if (opToken?.kind !== 'op') {
+      throw new AlertConditionParseError('Expected a comparison operator', endPos());
+    }
+    index++;
+
+    const valuePos = endPos();
+    let raw: string;
+    const first = peek();
+    if (first?.kind === 'string') {
+      index++;
+      raw = first.value;
+    } else {
+      // Unquoted values run until the next AND/OR or closing parenthesis
+      const words: string[] = [];
+      while (peek()?.kind === 'word' && !isKeyword(peek(), 'AND') && !isKeyword(peek(), 'OR')) {
+        words.push((peek() as { value: string }).value);
+        index++;
+      }
+      if (words.length === 0) {
+        throw new AlertConditionParseError('Expected a value', valuePos);
+      }
+      raw = words.join(' ');
+    }
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      if (opToken.value === 'contains') {
+        throw new AlertConditionParseError(`'contains' cannot be used with ${field}`, opToken.pos);
+      }
+      const value = Number(raw.replace(/^[£$€]/, '').replace(/,/g, ''));
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new AlertConditionParseError(`Expected a number for ${field}`, valuePos);
+      }
+      return { field, op: opToken.value, value };
+    }
+
+    return { field, op: opToken.value, value: raw };
+  };
+
+  if (tokens.length === 0) {
+    throw new AlertConditionParseError('Condition is empty', 0);
+  }
+
+  const condition = parseOr();
+  if (index < tokens.length) {
+    throw new AlertConditionParseError('Unexpected input', tokens[index].pos);
+  }
+  return condition;
+}
+
+/**
+ * Render a condition tree back to its text form
+ */
+export function formatAlertCondition(condition: AlertCondition, nested = false): string {
+  if ('and' in condition || 'or' in condition) {
+    const [keyword, parts] = 'and' in condition ? ['AND', condition.and] : ['OR', condition.or];
+    const text = parts.map(part => formatAlertCondition(part, true)).join(` ${keyword} `);
+    return nested && parts.length > 1 ? `(${text})` : text;
+  }
+
+  const field = condition.field === 'balance' ? 'account balance' : condition.field;
+  const value = typeof condition.value === 'number'
+    ? String(condition.value)
+    : /^[\w.-]+$/.test(condition.value) ? condition.value : `"${condition.value}"`;
+  return `${field} ${condition.op} ${value}`;
+}
+
+function compare(actual: unknown, op: AlertConditionOperator, expected: string | number): boolean {
+  if (actual === null || actual === undefined) return false;
+
+  if (typeof expected === 'number') {
+    const value = Number(actual);
+    if (Number.isNaN(value)) return false;
+    switch (op) {
+      case '=': return value === expected;
+      case '!=': return value !== expected;
+      case '>': return value > expected;
+      case '>=': return value >= expected;
+      case '<': return value < expected;
+      case '<=': return value <= expected;
+      default: return false;
+    }
+  }
+
+  const value = String(actual).toLowerCase();
+  const target = expected.toLowerCase();
+  switch (op) {
+    case '=': return value === target;
+    case '!=': return value !== target;
+    case 'contains': return value.includes(target);
+    default: return false;
+  }
+}
+
+/**
+ * Evaluate a condition tree. Text comparisons are case-insensitive and
+ * amount is compared as an absolute value.
+ */
+export function evaluateAlertCondition(condition: AlertCondition, context: AlertEvaluationContext): boolean {
+  if ('and' in condition) {
+    return condition.and.every(part => evaluateAlertCondition(part, context));
+  }
+  if ('or' in condition) {
+    return condition.or.some(part => evaluateAlertCondition(part, context));
+  }
+
+  const actual = condition.field === 'amount' ? Math.abs(context.amount) : context[condition.field];
+  return compare(actual, condition.op, condition.value);
+}
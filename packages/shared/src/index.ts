@@ -1,3 +1,6 @@
 export * from './schemas';
 export * from './types';
 export * from './pdfTemplates';
+export * from './alertConditions';
+export * from './money';
+export * from './regexSafety';
@@ -0,0 +1,84 @@
+/**
+ * Money arithmetic.
+ *
+ * Amounts travel through the API as decimal numbers in major units (12.34),
+ * but are stored and summed as integers in minor units (1234) so totals never
+ * drift by fractions of a penny. Storage uses hundredths for every currency:
+ * that is the minor unit of two-decimal currencies and exact for zero-decimal
+ * ones such as JPY.
+ */
+
+export const DEFAULT_CURRENCY = 'GBP';
+
+// Minor units per major unit in storage
+export const MONEY_SCALE = 100;
+
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'IDR', 'VND', 'CLP', 'ISK', 'HUF', 'TWD', 'UGX', 'XAF', 'XOF'];
+
+/**
+ * Number of decimals amounts in the currency are rounded to
+ */
+export function currencyDecimals(currency: string = DEFAULT_CURRENCY): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? 0 : 2;
+}
+
+// Math.round rounds -0.5 towards zero and 1.005 * 100 to 100.49999999999999;
+// round half away from zero on a value trimmed to 15 significant digits instead.
+function roundHalfAwayFromZero(value: number): number {
+  const trimmed = Number(value.toPrecision(15));
+  return Math.sign(trimmed) * Math.round(Math.abs(trimmed)) || 0;
+}
+
+/**
+ * Decimal amount to integer minor units
+ */
+export function toMinorUnits(amount: number): number {
+  if (!Number.isFinite(amount)) {
+    throw new RangeError(`Invalid money amount: ${amount}`);
+  }
+  return roundHalfAwayFromZero(amount * MONEY_SCALE);
+}
+
+/**
+ * Integer minor units to a decimal amount
+ */
+export function fromMinorUnits(minor: number): number {
+  return minor / MONEY_SCALE;
+}
+
+/**
+ * Round an amount to what the currency can represent
+ */
+export function roundMoney(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  const step = MONEY_SCALE / 10 ** currencyDecimals(currency);
+  return fromMinorUnits(roundHalfAwayFromZero(toMinorUnits(amount) / step) * step);
+}
+
+/**
+ * Exact sum of amounts. Missing values count as zero.
+ */
+export function sumMoney(amounts: Iterable<number | null | undefined>): number {
+  let total = 0;
+  for (const amount of amounts) {
+    if (amount != null) total += toMinorUnits(amount);
+  }
+  return fromMinorUnits(total);
+}
+
+/**
+ * Exact sum of a money field over a list of records
+ */
+export function sumMoneyBy<T>(items: readonly T[], amountOf: (item: T) => number | null | undefined): number {
+  return sumMoney(items.map(amountOf));
+}
+
+export function subtractMoney(amount: number, ...amounts: number[]): number {
+  return fromMinorUnits(amounts.reduce((minor, value) => minor - toMinorUnits(value), toMinorUnits(amount)));
+}
+
+/**
+ * Multiply an amount by a rate or ratio (interest, percentages, months), rounded to minor units
+ */
+export function multiplyMoney(amount: number, factor: number): number {
+  return fromMinorUnits(roundHalfAwayFromZero(toMinorUnits(amount) * factor));
+}
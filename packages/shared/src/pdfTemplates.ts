@@ -1,3 +1,5 @@
+import { unsafePatternReason } from './regexSafety';
+
 export type PdfDateFormat = 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
 
 export interface BankPdfTemplate {
@@ -15,6 +17,7 @@ export interface BankPdfTemplate {
     debit?: number;
     credit?: number;
     amount?: number;
+    balance?: number; // Running balance after the row, used to propose a reconciliation point
   };
   currencySymbol?: string;
   multiLineDescriptions?: boolean;
@@ -37,6 +40,7 @@ export const BANK_PDF_TEMPLATES: BankPdfTemplate[] = [
       description: 2,
       debit: 3,
       credit: 4,
+      balance: 5,
     },
     currencySymbol: '£',
     multiLineDescriptions: true,
@@ -64,12 +68,34 @@ export const BANK_PDF_TEMPLATES: BankPdfTemplate[] = [
   },
 ];
 
-export function detectPdfTemplate(text: string, templateId?: string): BankPdfTemplate | undefined {
+// Tenant-defined templates are stored as JSON, so the row pattern is kept as a string
+export interface BankPdfTemplateDefinition extends Omit<BankPdfTemplate, 'id' | 'rowPattern'> {
+  rowPattern: string;
+  rowPatternFlags?: string;
+}
+
+// Throws for patterns that are invalid or could backtrack catastrophically
+export function compilePdfTemplate(id: string, definition: BankPdfTemplateDefinition): BankPdfTemplate {
+  const { rowPattern, rowPatternFlags, ...rest } = definition;
+  const reason = unsafePatternReason(rowPattern, rowPatternFlags);
+  if (reason) {
+    throw new Error(reason);
+  }
+  return { ...rest, id, rowPattern: new RegExp(rowPattern, rowPatternFlags) };
+}
+
+// Tenant templates are checked before the built-ins so they can override a generic layout
+export function detectPdfTemplate(
+  text: string,
+  templateId?: string,
+  customTemplates: BankPdfTemplate[] = []
+): BankPdfTemplate | undefined {
+  const templates = [...customTemplates, ...BANK_PDF_TEMPLATES];
   if (templateId) {
-    return BANK_PDF_TEMPLATES.find(t => t.id === templateId);
+    return templates.find(t => t.id === templateId);
   }
   const haystack = text.toLowerCase();
-  return BANK_PDF_TEMPLATES.find(template =>
+  return templates.find(template =>
     template.detectKeywords.every(keyword => haystack.includes(keyword.toLowerCase()))
   );
 }
@@ -0,0 +1,249 @@
+// Tenant-supplied regular expressions run against every imported transaction or
+// statement line inside the Worker, so patterns that can backtrack
+// catastrophically are refused before they are stored or run.
+
+// Longest tenant-supplied pattern accepted anywhere
+export const MAX_PATTERN_LENGTH = 500;
+
+// Text longer than this is truncated before a tenant pattern runs on it; even
+// safe patterns backtrack polynomially on long input
+export const MAX_MATCHED_TEXT_LENGTH = 256;
+
+// Broad unbounded repeats such as .* or \S+ allowed in one pattern
+const MAX_WILDCARDS = 3;
+
+// Longest run of back-to-back unbounded repeats that can match the same
+// characters, as in \s*\s*\s*, before matching time grows too quickly
+const MAX_REPEAT_RUN = 3;
+
+// Characters used to decide whether two atoms can match the same character
+const PROBE_CHARACTERS = [
+  '\t', '\n', '\r',
+  ...Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)),
+  ' ', 'é', 'ß', 'Ä', 'ı', '£', '€', '中',
+];
+
+interface Quantifier {
+  length: number;
+  min: number;
+  repeats: boolean; // Can repeat its atom more than once
+  unbounded: boolean;
+}
+
+interface PatternRisks {
+  nested: boolean;
+  alternation: boolean;
+  wildcards: boolean;
+}
+
+// Quantifier at `index`, including a trailing lazy `?`
+function quantifierAt(pattern: string, index: number): Quantifier | null {
+  const char = pattern[index];
+  let quantifier: Quantifier | null = null;
+
+  if (char === '*') quantifier = { length: 1, min: 0, repeats: true, unbounded: true };
+  else if (char === '+') quantifier = { length: 1, min: 1, repeats: true, unbounded: true };
+  else if (char === '?') quantifier = { length: 1, min: 0, repeats: false, unbounded: false };
+  else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) return null;
+    const [token, min, comma, max] = match;
+    const unbounded = Boolean(comma) && max === '';
+    const repeats = comma ? unbounded || Number(max) > 1 : Number(min) > 1;
+    quantifier = { length: token.length, min: Number(min), repeats, unbounded };
+  }
+
+  if (quantifier && pattern[index + quantifier.length] === '?') quantifier.length++;
+  return quantifier;
+}
+
+// The atom at `index`: its source text, or null for backreferences, whose
+// characters cannot be known; anchors match no characters
+function atomAt(pattern: string, index: number): { text: string | null; length: number; anchor: boolean } {
+  const char = pattern[index];
+
+  if (char === '^' || char === '$') return { text: char, length: 1, anchor: true };
+
+  if (char === '[') {
+    let i = index + 1;
+    if (pattern[i] === '^') i++;
+    if (pattern[i] === ']') i++;
+    while (i < pattern.length && pattern[i] !== ']') {
+      if (pattern[i] === '\\') i++;
+      i++;
+    }
+    return { text: pattern.slice(index, i + 1), length: i + 1 - index, anchor: false };
+  }
+
+  if (char === '\\') {
+    const next = pattern[index + 1] ?? '';
+    if (next === 'b' || next === 'B') return { text: pattern.slice(index, index + 2), length: 2, anchor: true };
+    if (/[1-9]/.test(next)) return { text: null, length: /^\\\d+/.exec(pattern.slice(index))![0].length, anchor: false };
+    if (next === 'k') return { text: null, length: pattern.indexOf('>', index) + 1 - index || 2, anchor: false };
+    const escape = /^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[pP]\{[^}]*\}|c[a-zA-Z]|[\s\S])/.exec(pattern.slice(index));
+    const text = escape ? escape[0] : '\\';
+    return { text, length: text.length, anchor: false };
+  }
+
+  const text = String.fromCodePoint(pattern.codePointAt(index)!);
+  return { text, length: text.length, anchor: false };
+}
+
+function isWildcard(atom: string | null): boolean {
+  if (atom === null) return false;
+  return atom === '.' || /^\\[SWD]$/.test(atom) || atom.startsWith('[^');
+}
+
+// Whether two atoms can match the same character; unknown atoms (null) always can
+function atomsOverlap(a: string | null, b: string | null, flags: string): boolean {
+  if (a === null || b === null) return true;
+  try {
+    const first = new RegExp(`^(?:${a})$`, flags);
+    const second = new RegExp(`^(?:${b})$`, flags);
+    return PROBE_CHARACTERS.some(char => first.test(char) && second.test(char));
+  } catch {
+    return true;
+  }
+}
+
+// Whether two alternatives can start with the same text: no position of their
+// leading single-character atoms tells them apart
+function alternativesOverlap(a: (string | null)[], b: (string | null)[], flags: string): boolean {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (!atomsOverlap(a[i], b[i], flags)) return false;
+  }
+  return true;
+}
+
+function analyzePattern(pattern: string, flags = ''): PatternRisks {
+  const matchFlags = flags.replace(/[gym]/g, '');
+  const risks: PatternRisks = { nested: false, alternation: false, wildcards: false };
+
+  // One frame per open group, with the leading single-character atoms of each
+  // alternative. `fixed` stops at the first repeat, group or anchor
+  interface Frame {
+    repeats: boolean;
+    alternatives: (string | null)[][];
+    current: (string | null)[];
+    fixed: boolean;
+  }
+  const newFrame = (): Frame => ({ repeats: false, alternatives: [], current: [], fixed: true });
+  const groups: Frame[] = [newFrame()];
+
+  // Unbounded repeats since the last required atom, each able to match the
+  // same characters as the one before it
+  let run: (string | null)[] = [];
+  let wildcards = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const frame = groups[groups.length - 1];
+
+    if (char === '(') {
+      frame.fixed = false;
+      const prefix = /^\((?:\?(?::|=|!|<=|<!|<[^>]+>))?/.exec(pattern.slice(i))![0];
+      groups.push(newFrame());
+      i += prefix.length - 1;
+    } else if (char === '|') {
+      frame.alternatives.push(frame.current);
+      frame.current = [];
+      frame.fixed = true;
+      run = [];
+    } else if (char === ')' && groups.length > 1) {
+      groups.pop();
+      const alternatives = [...frame.alternatives, frame.current];
+      const quantifier = quantifierAt(pattern, i + 1);
+
+      if (quantifier?.repeats) {
+        if (frame.repeats) risks.nested = true;
+        for (let a = 0; a < alternatives.length; a++) {
+          for (let b = a + 1; b < alternatives.length; b++) {
+            if (alternativesOverlap(alternatives[a], alternatives[b], matchFlags)) risks.alternation = true;
+          }
+        }
+      }
+      if (quantifier) {
+        run = [];
+        i += quantifier.length;
+      }
+      groups[groups.length - 1].repeats ||= frame.repeats || Boolean(quantifier?.repeats);
+    } else {
+      const atom = atomAt(pattern, i);
+      const quantifier = quantifierAt(pattern, i + atom.length);
+      i += atom.length - 1 + (quantifier?.length ?? 0);
+
+      if (frame.fixed) {
+        if (!atom.anchor && !(quantifier && quantifier.min === 0)) frame.current.push(atom.text);
+        if (atom.anchor || quantifier) frame.fixed = false;
+      }
+      if (quantifier?.repeats) frame.repeats = true;
+
+      if (quantifier?.unbounded && !atom.anchor) {
+        const previous = run[run.length - 1];
+        run = run.length > 0 && atomsOverlap(previous, atom.text, matchFlags) ? [...run, atom.text] : [atom.text];
+        if (run.length > MAX_REPEAT_RUN) risks.wildcards = true;
+        if (run.length > 1 && isWildcard(previous) && isWildcard(atom.text)) risks.wildcards = true;
+        if (isWildcard(atom.text)) wildcards++;
+      } else if (!atom.anchor && !(quantifier && quantifier.min === 0)) {
+        run = [];
+      }
+    }
+  }
+
+  if (wildcards > MAX_WILDCARDS) risks.wildcards = true;
+  return risks;
+}
+
+/**
+ * Whether a repeated group contains another repeat, as in `(a+)+` or
+ * `(\w*\s?)*`. These are the patterns whose matching time grows
+ * exponentially on near-miss input.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  return analyzePattern(pattern).nested;
+}
+
+/**
+ * Whether a repeated group has alternatives that can start with the same
+ * text, as in `(a|aa)+` or `(\w|\d)*`, which backtrack exponentially
+ */
+export function hasOverlappingAlternation(pattern: string, flags?: string): boolean {
+  return analyzePattern(pattern, flags).alternation;
+}
+
+/**
+ * Whether broad unbounded repeats such as `.*` and `\S+` follow each other
+ * (`.*.*x`), more than three repeats that can match the same characters do
+ * (`\s*\s*\s*\s*x`), or the pattern has more than three broad ones. Their
+ * matching time grows polynomially with a high power of the text length.
+ */
+export function hasWildcardRun(pattern: string, flags?: string): boolean {
+  return analyzePattern(pattern, flags).wildcards;
+}
+
+/**
+ * Why a tenant-supplied pattern cannot be used, or null when it is safe to compile
+ */
+export function unsafePatternReason(pattern: string, flags?: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, flags);
+  } catch (error) {
+    return `Invalid regular expression: ${(error as Error).message}`;
+  }
+
+  const risks = analyzePattern(pattern, flags);
+  if (risks.nested) {
+    return 'Nested repeats such as (a+)+ can make matching hang; simplify the pattern';
+  }
+  if (risks.alternation) {
+    return 'Repeated alternatives that can match the same text, such as (a|aa)+, can make matching hang; simplify the pattern';
+  }
+  if (risks.wildcards) {
+    return `Back-to-back repeats such as .*.* or more than ${MAX_WILDCARDS} wildcards can make matching hang; simplify the pattern`;
+  }
+  return null;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { AlertConditionSchema } from './alertConditions';
+import { unsafePatternReason } from './regexSafety';
 
 // Tenant Schema
 export const TenantSchema = z.object({
@@ -92,6 +94,10 @@ export const BudgetSchema = z.object({
   period: z.enum(['weekly', 'monthly', 'yearly']),
   startDate: z.coerce.date(),
   endDate: z.coerce.date().optional(),
+  // Carry what is left (or overspent) into the next period
+  rollover: z.boolean().default(false),
+  // 'envelope' budgets spend what income has been assigned to them each period instead of a fixed amount
+  mode: z.enum(['limit', 'envelope']).default('limit'),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -205,13 +211,178 @@ export const CreateTransactionSchema = TransactionSchema.omit({
   updatedAt: true,
 });
 
-export const CreateBudgetSchema = BudgetSchema.omit({
+// Reconciliation state is managed through /api/reconciliations, so it is not accepted here
+export const UpdateTransactionSchema = CreateTransactionSchema.partial();
+
+export type UpdateTransactionRequest = z.infer<typeof UpdateTransactionSchema>;
+
+// Split Transaction Schemas
+// Line amounts must add up to the parent transaction amount (checked server-side)
+export const TransactionSplitLineSchema = z.object({
+  categoryId: z.string().uuid(),
+  amount: z.number().positive(),
+  notes: z.string().max(500).optional(),
+});
+
+export const SplitTransactionSchema = z.object({
+  splits: z.array(TransactionSplitLineSchema).min(2).max(50),
+});
+
+export type TransactionSplitLine = z.infer<typeof TransactionSplitLineSchema>;
+export type SplitTransactionRequest = z.infer<typeof SplitTransactionSchema>;
+
+// Bulk archive and unarchive
+export const BulkArchiveTransactionsSchema = z.object({
+  transactionIds: z.array(z.string().min(1)).min(1, 'At least one transaction ID is required').max(500),
+});
+
+export type BulkArchiveTransactionsRequest = z.infer<typeof BulkArchiveTransactionsSchema>;
+
+// Tag Schemas
+// Names are free-form; they are matched case-insensitively and stored lowercase
+export const TagNameSchema = z.string().trim().min(1).max(50);
+
+export const CreateTagSchema = z.object({
+  name: TagNameSchema,
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+});
+
+export const UpdateTagSchema = z.object({
+  name: TagNameSchema.optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).nullable().optional(),
+}).refine((data) => data.name !== undefined || data.color !== undefined, {
+  message: 'Provide a name or a color',
+});
+
+// Tags that don't exist yet are created when tagging
+export const BulkTagTransactionsSchema = z.object({
+  transactionIds: z.array(z.string().min(1)).min(1).max(500),
+  tags: z.array(TagNameSchema).min(1).max(20),
+});
+
+export type CreateTagRequest = z.infer<typeof CreateTagSchema>;
+export type UpdateTagRequest = z.infer<typeof UpdateTagSchema>;
+export type BulkTagTransactionsRequest = z.infer<typeof BulkTagTransactionsSchema>;
+
+// Transaction Search Schemas
+// Query-string parameters of GET /api/transactions/search. `q` holds free text and
+// may also carry filters, e.g. `amazon amount>30 date:2024-Q2 account:"Credit Card"`.
+export const TransactionSearchParamsSchema = z.object({
+  q: z.string().max(500).optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  accountId: z.string().min(1).optional(),
+  categoryId: z.string().min(1).optional(),
+  type: z.enum(['income', 'expense', 'transfer']).optional(),
+  tags: z.string().optional(), // comma separated tag names
+  tagMatch: z.enum(['any', 'all']).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type TransactionSearchParams = z.infer<typeof TransactionSearchParamsSchema>;
+
+// Learned merchant -> category rules
+export const UpdateMerchantRuleSchema = z.object({
+  merchant: z.string().trim().min(1).max(100).optional(),
+  categoryId: z.string().uuid().optional(),
+}).refine((data) => data.merchant !== undefined || data.categoryId !== undefined, {
+  message: 'Provide a merchant or a category',
+});
+
+export type UpdateMerchantRuleRequest = z.infer<typeof UpdateMerchantRuleSchema>;
+
+// Transfer Schemas
+export const CreateTransferSchema = z.object({
+  fromAccountId: z.string().uuid(),
+  toAccountId: z.string().uuid(),
+  amount: z.number().positive(),
+  date: z.coerce.date(),
+  description: z.string().max(500).optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+  message: 'Cannot transfer to the same account',
+  path: ['toAccountId'],
+});
+
+export const LinkTransferSchema = z.object({
+  fromTransactionId: z.string().min(1),
+  toTransactionId: z.string().min(1),
+});
+
+export type CreateTransferRequest = z.infer<typeof CreateTransferSchema>;
+export type LinkTransferRequest = z.infer<typeof LinkTransferSchema>;
+
+// Reconciliation Schemas
+export const CreateReconciliationSchema = z.object({
+  accountId: z.string().min(1),
+  statementDate: z.coerce.date(),
+  statementBalance: z.number().finite(), // Closing balance on the statement, negative when overdrawn
+  openingBalance: z.number().finite().optional(), // Only used when the account has never been reconciled
+});
+
+export const StartReconciliationSchema = z.object({
+  openingBalance: z.number().finite().optional(),
+});
+
+export const MarkReconciliationClearedSchema = z.object({
+  transactionIds: z.array(z.string().min(1)).min(1).max(500),
+  cleared: z.boolean(),
+});
+
+export const CompleteReconciliationSchema = z.object({
+  adjustBalance: z.boolean().default(false), // Correct the account balance to match the statement
+});
+
+export type CreateReconciliationRequest = z.infer<typeof CreateReconciliationSchema>;
+export type StartReconciliationRequest = z.infer<typeof StartReconciliationSchema>;
+export type MarkReconciliationClearedRequest = z.infer<typeof MarkReconciliationClearedSchema>;
+export type CompleteReconciliationRequest = z.infer<typeof CompleteReconciliationSchema>;
+
+const BudgetFieldsSchema = BudgetSchema.omit({
   id: true,
   tenantId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+const endsAfterStart = (budget: { startDate?: Date; endDate?: Date | null }) =>
+  !budget.startDate || !budget.endDate || budget.endDate >= budget.startDate;
+
+export const CreateBudgetSchema = BudgetFieldsSchema.refine(endsAfterStart, {
+  message: 'End date must not be before the start date',
+  path: ['endDate'],
+});
+
+// A null end date makes the budget open-ended
+export const UpdateBudgetSchema = BudgetFieldsSchema.extend({
+  endDate: z.coerce.date().nullable().optional(),
+}).partial().refine(endsAfterStart, {
+  message: 'End date must not be before the start date',
+  path: ['endDate'],
+});
+
+export type CreateBudgetRequest = z.infer<typeof CreateBudgetSchema>;
+export type UpdateBudgetRequest = z.infer<typeof UpdateBudgetSchema>;
+
+// Assigns income to an envelope budget for the period containing `date` (default today)
+export const AssignBudgetSchema = z.object({
+  amount: z.number().min(0),
+  date: z.coerce.date().optional(),
+});
+
+export type AssignBudgetRequest = z.infer<typeof AssignBudgetSchema>;
+
+// Query-string parameters of the budget progress endpoints
+export const BudgetProgressParamsSchema = z.object({
+  date: z.coerce.date().optional(),
+  periods: z.coerce.number().int().min(1).max(60).default(12),
+});
+
+export type BudgetProgressParams = z.infer<typeof BudgetProgressParamsSchema>;
+
 export const CreateBillReminderSchema = BillReminderSchema.omit({
   id: true,
   tenantId: true,
@@ -219,6 +390,14 @@ export const CreateBillReminderSchema = BillReminderSchema.omit({
   updatedAt: true,
 });
 
+// Marks the current cycle of a bill paid, optionally linking the paying transaction
+export const PayBillReminderSchema = z.object({
+  transactionId: z.string().min(1).optional(),
+  paidAt: z.coerce.date().optional(),
+});
+
+export type PayBillReminderRequest = z.infer<typeof PayBillReminderSchema>;
+
 export const CreateRecurringTransactionSchema = RecurringTransactionSchema.omit({
   id: true,
   tenantId: true,
@@ -226,6 +405,13 @@ export const CreateRecurringTransactionSchema = RecurringTransactionSchema.omit(
   updatedAt: true,
 });
 
+// Query-string parameters of GET /api/recurring-transactions/upcoming
+export const UpcomingRecurringParamsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+export type UpcomingRecurringParams = z.infer<typeof UpcomingRecurringParamsSchema>;
+
 export const CreateGoalSchema = GoalSchema.omit({
   id: true,
   tenantId: true,
@@ -248,6 +434,151 @@ export const FileUploadSchema = z.object({
 
 export type FileUpload = z.infer<typeof FileUploadSchema>;
 
+// Import Column Mapping Schemas
+// Tells the importer which CSV/Excel columns hold each field and how to read them.
+// Amounts come either from a single signed column or from separate debit/credit columns.
+export const ImportDateFormatSchema = z.enum([
+  'auto',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD-MM-YYYY',
+  'MM-DD-YYYY',
+  'DD.MM.YYYY',
+  'DD/MM/YY',
+  'MM/DD/YY',
+]);
+
+export const ColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1).optional(),
+  amount: z.string().min(1).optional(),
+  debit: z.string().min(1).optional(), // Money out column
+  credit: z.string().min(1).optional(), // Money in column
+  type: z.string().min(1).optional(), // Column with values such as DR/CR or Debit/Credit
+  notes: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  dateFormat: ImportDateFormatSchema.default('auto'),
+  // Credit card statements usually list purchases as positive amounts
+  signConvention: z.enum(['negative_is_expense', 'positive_is_expense']).default('negative_is_expense'),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+}).refine((mapping) => mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined, {
+  message: 'Map an amount column or debit/credit columns',
+  path: ['amount'],
+});
+
+export const CreateImportProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  headers: z.array(z.string()).min(1), // Header row the profile is matched against
+  mapping: ColumnMappingSchema,
+});
+
+export const UpdateImportProfileSchema = CreateImportProfileSchema.partial();
+
+export type ImportDateFormat = z.infer<typeof ImportDateFormatSchema>;
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>;
+export type CreateImportProfileRequest = z.infer<typeof CreateImportProfileSchema>;
+export type UpdateImportProfileRequest = z.infer<typeof UpdateImportProfileSchema>;
+
+// Confirm a dry-run import. Rows without a decision keep the default: new rows are
+// imported, likely duplicates and conflicts are skipped.
+export const ImportReviewDecisionSchema = z.object({
+  row: z.number().int().positive(),
+  action: z.enum(['import', 'skip']),
+});
+
+export const CommitImportReviewSchema = z.object({
+  decisions: z.array(ImportReviewDecisionSchema).default([]),
+});
+
+export type ImportReviewDecision = z.infer<typeof ImportReviewDecisionSchema>;
+export type CommitImportReviewRequest = z.infer<typeof CommitImportReviewSchema>;
+
+// Tenant-defined PDF statement templates (see BankPdfTemplate)
+const pdfTemplateGroupIndex = z.number().int().min(1).max(20);
+
+function countCapturingGroups(pattern: string): number {
+  // An alternation with the empty string always matches, exposing every group
+  return new RegExp(`${pattern}|`).exec('')!.length - 1;
+}
+
+const PdfTemplateFieldsSchema = z.object({
+  displayName: z.string().trim().min(1).max(100),
+  description: z.string().max(255).optional(),
+  detectKeywords: z.array(z.string().trim().min(1).max(100)).min(1, 'At least one detection keyword is required').max(10),
+  rowPattern: z.string().min(1).max(500),
+  rowPatternFlags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported').optional(),
+  dateFormat: z.enum(['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd']),
+  amountStyle: z.enum(['debitCredit', 'signed']),
+  groups: z.object({
+    date: pdfTemplateGroupIndex,
+    description: pdfTemplateGroupIndex,
+    debit: pdfTemplateGroupIndex.optional(),
+    credit: pdfTemplateGroupIndex.optional(),
+    amount: pdfTemplateGroupIndex.optional(),
+    balance: pdfTemplateGroupIndex.optional(),
+  }),
+  currencySymbol: z.string().max(5).optional(),
+  multiLineDescriptions: z.boolean().optional(),
+  skipLineIncludes: z.array(z.string().min(1).max(100)).max(20).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+function refinePdfTemplate(template: Partial<z.infer<typeof PdfTemplateFieldsSchema>>, ctx: z.RefinementCtx): void {
+  if (template.rowPattern !== undefined) {
+    const reason = unsafePatternReason(template.rowPattern, template.rowPatternFlags);
+    if (reason) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rowPattern'], message: reason });
+      return;
+    }
+    let groupCount: number;
+    try {
+      groupCount = countCapturingGroups(template.rowPattern);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rowPattern'], message: `Invalid regular expression: ${(error as Error).message}` });
+      return;
+    }
+
+    for (const [field, index] of Object.entries(template.groups ?? {})) {
+      if (index !== undefined && index > groupCount) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['groups', field],
+          message: `Group ${index} does not exist; rowPattern has ${groupCount} capturing group(s)`,
+        });
+      }
+    }
+  }
+
+  if (template.amountStyle && template.groups) {
+    if (template.amountStyle === 'signed' && !template.groups.amount) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups', 'amount'], message: 'Signed templates need an amount group' });
+    }
+    if (template.amountStyle === 'debitCredit' && !template.groups.debit && !template.groups.credit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups'], message: 'Debit/credit templates need a debit or credit group' });
+    }
+  }
+}
+
+export const CreatePdfTemplateSchema = PdfTemplateFieldsSchema.superRefine(refinePdfTemplate);
+// Pattern, groups and amount style are checked together, so updates that touch one must send all three
+export const UpdatePdfTemplateSchema = PdfTemplateFieldsSchema.partial().superRefine((template, ctx) => {
+  const related = [template.rowPattern, template.groups, template.amountStyle].filter(value => value !== undefined);
+  if (related.length > 0 && related.length < 3) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['rowPattern'],
+      message: 'rowPattern, groups and amountStyle must be updated together',
+    });
+    return;
+  }
+  refinePdfTemplate(template, ctx);
+});
+
+export type CreatePdfTemplateRequest = z.infer<typeof CreatePdfTemplateSchema>;
+export type UpdatePdfTemplateRequest = z.infer<typeof UpdatePdfTemplateSchema>;
+
 // Auth Schemas
 export const LoginSchema = z.object({
   email: z.string().email(),
@@ -373,3 +704,85 @@ export const ProfilePictureUploadSchema = z.object({
 });
 
 export type ProfilePictureUploadRequest = z.infer<typeof ProfilePictureUploadSchema>;
+
+// Alert Rule Schemas
+// conditions accepts either a condition tree or a text expression
+// such as "category = Dining AND amount > 50"
+export const AlertRuleSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(500).optional(),
+  isEnabled: z.boolean().default(true),
+  ruleType: z.enum(['spending', 'balance', 'transaction', 'budget', 'category']),
+  conditions: z.union([z.string().min(1).max(1000), AlertConditionSchema]),
+  actions: z.array(z.enum(['notify', 'email'])).min(1).default(['notify']),
+  categoryId: z.string().optional(),
+  accountId: z.string().optional(),
+  budgetId: z.string().optional(),
+  cooldownMinutes: z.number().int().min(0).max(43200).default(60),
+});
+
+export const CreateAlertRuleSchema = AlertRuleSchema;
+
+export const UpdateAlertRuleSchema = AlertRuleSchema.partial();
+
+export type CreateAlertRuleRequest = z.infer<typeof CreateAlertRuleSchema>;
+export type UpdateAlertRuleRequest = z.infer<typeof UpdateAlertRuleSchema>;
+
+// Categorization Rule Schemas
+// Tenant rules match transactions on description, amount, account and type,
+// and rewrite their category, description, notes or type. Rules run in
+// ascending priority order.
+const RulePatternSchema = z.string().min(1).max(200).superRefine((pattern, ctx) => {
+  const reason = unsafePatternReason(pattern, 'i');
+  if (reason) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: reason });
+  }
+});
+
+export const CategorizationRuleConditionsSchema = z.object({
+  descriptionPattern: RulePatternSchema.optional(),
+  minAmount: z.number().nonnegative().optional(),
+  maxAmount: z.number().nonnegative().optional(),
+  accountId: z.string().uuid().optional(),
+  type: z.enum(['income', 'expense']).optional(),
+}).refine((conditions) => Object.values(conditions).some((value) => value !== undefined), {
+  message: 'At least one condition is required',
+}).refine((conditions) =>
+  conditions.minAmount === undefined || conditions.maxAmount === undefined || conditions.minAmount <= conditions.maxAmount, {
+  message: 'minAmount must not be greater than maxAmount',
+  path: ['maxAmount'],
+});
+
+export const CategorizationRuleActionsSchema = z.object({
+  categoryId: z.string().uuid().optional(),
+  renameTo: z.string().min(1).max(500).optional(),
+  addNote: z.string().min(1).max(500).optional(),
+  markAsTransfer: z.boolean().optional(),
+}).refine((actions) =>
+  actions.categoryId !== undefined || actions.renameTo !== undefined || actions.addNote !== undefined || actions.markAsTransfer === true, {
+  message: 'At least one action is required',
+});
+
+export const CategorizationRuleSchema = z.object({
+  name: z.string().min(1).max(255),
+  priority: z.number().int().min(0).max(10000).default(100),
+  isEnabled: z.boolean().default(true),
+  stopProcessing: z.boolean().default(true), // Skip lower-priority rules once this one matches
+  conditions: CategorizationRuleConditionsSchema,
+  actions: CategorizationRuleActionsSchema,
+});
+
+export const CreateCategorizationRuleSchema = CategorizationRuleSchema;
+
+export const UpdateCategorizationRuleSchema = CategorizationRuleSchema.partial();
+
+export const PreviewCategorizationRuleSchema = z.object({
+  conditions: CategorizationRuleConditionsSchema,
+  actions: CategorizationRuleActionsSchema,
+});
+
+export type CategorizationRuleConditions = z.infer<typeof CategorizationRuleConditionsSchema>;
+export type CategorizationRuleActions = z.infer<typeof CategorizationRuleActionsSchema>;
+export type CreateCategorizationRuleRequest = z.infer<typeof CreateCategorizationRuleSchema>;
+export type UpdateCategorizationRuleRequest = z.infer<typeof UpdateCategorizationRuleSchema>;
+export type PreviewCategorizationRuleRequest = z.infer<typeof PreviewCategorizationRuleSchema>;
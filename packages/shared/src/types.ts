@@ -45,13 +45,25 @@ export interface SpendingAnalytics {
 export interface BudgetProgress {
   budgetId: string;
   categoryName: string;
-  allocated: number;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  allocated: number; // Budget amount, or income assigned to an envelope this period
+  carriedOver: number; // Left over (negative when overspent) from the previous period
+  available: number; // allocated + carriedOver
   spent: number;
   remaining: number;
-  percentage: number;
+  percentage: number; // spent as a share of available
   status: 'on-track' | 'warning' | 'exceeded';
 }
 
+export interface EnvelopeSummary {
+  asOf: Date;
+  income: number; // Income received since the first envelope budget started
+  assigned: number; // Income assigned to envelopes up to the current period
+  toBeBudgeted: number; // income - assigned
+  envelopes: BudgetProgress[];
+}
+
 // CSV/OFX Types
 export interface ParsedTransaction {
   date: string;